@@ -44,15 +44,25 @@ export default defineConfig({
     },
 
 
-    /* Database tests - run sequentially to avoid interference */
+    /* Database setup - schema, cleanup and connection tests run sequentially first */
     {
-      name: 'database',
-      testMatch: /.*database.*\.spec\.ts/,
+      name: 'database-setup',
+      testMatch: /.*database-setup\.spec\.ts/,
       fullyParallel: false,
       workers: 1,
       use: { ...devices['Desktop Chrome'] },
     },
 
+    /* Database tests - each test runs in its own rolled back transaction (tests/database/fixtures.ts) */
+    {
+      name: 'database',
+      testMatch: /.*database.*\.spec\.ts/,
+      testIgnore: /.*database-setup\.spec\.ts/,
+      dependencies: ['database-setup'],
+      fullyParallel: true,
+      use: { ...devices['Desktop Chrome'] },
+    },
+
     /* gRPC tests - run sequentially to avoid interference */
     {
       name: 'grpc',
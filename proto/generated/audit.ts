@@ -0,0 +1,257 @@
+// Code generated by protoc-gen-ts_proto. DO NOT EDIT.
+// versions:
+//   protoc-gen-ts_proto  v1.181.2
+//   protoc               v3.21.12
+// source: audit.proto
+
+/* eslint-disable */
+import _m0 from "protobufjs/minimal";
+
+export const protobufPackage = "audit";
+
+/** What a recorded change did to its row */
+export enum AuditAction {
+  AUDIT_ACTION_UNSPECIFIED = "AUDIT_ACTION_UNSPECIFIED",
+  AUDIT_ACTION_CREATE = "AUDIT_ACTION_CREATE",
+  AUDIT_ACTION_UPDATE = "AUDIT_ACTION_UPDATE",
+  AUDIT_ACTION_DELETE = "AUDIT_ACTION_DELETE",
+  AUDIT_ACTION_RESTORE = "AUDIT_ACTION_RESTORE",
+  UNRECOGNIZED = "UNRECOGNIZED",
+}
+
+export function auditActionFromJSON(object: any): AuditAction {
+  switch (object) {
+    case 0:
+    case "AUDIT_ACTION_UNSPECIFIED":
+      return AuditAction.AUDIT_ACTION_UNSPECIFIED;
+    case 1:
+    case "AUDIT_ACTION_CREATE":
+      return AuditAction.AUDIT_ACTION_CREATE;
+    case 2:
+    case "AUDIT_ACTION_UPDATE":
+      return AuditAction.AUDIT_ACTION_UPDATE;
+    case 3:
+    case "AUDIT_ACTION_DELETE":
+      return AuditAction.AUDIT_ACTION_DELETE;
+    case 4:
+    case "AUDIT_ACTION_RESTORE":
+      return AuditAction.AUDIT_ACTION_RESTORE;
+    case -1:
+    case "UNRECOGNIZED":
+    default:
+      return AuditAction.UNRECOGNIZED;
+  }
+}
+
+export function auditActionToNumber(object: AuditAction): number {
+  switch (object) {
+    case AuditAction.AUDIT_ACTION_UNSPECIFIED:
+      return 0;
+    case AuditAction.AUDIT_ACTION_CREATE:
+      return 1;
+    case AuditAction.AUDIT_ACTION_UPDATE:
+      return 2;
+    case AuditAction.AUDIT_ACTION_DELETE:
+      return 3;
+    case AuditAction.AUDIT_ACTION_RESTORE:
+      return 4;
+    case AuditAction.UNRECOGNIZED:
+    default:
+      return -1;
+  }
+}
+
+/** One recorded change of a user, product or order */
+export interface AuditEntry {
+  id: number;
+  /** User, Product or Order */
+  entity_type: string;
+  entity_id: number;
+  action: AuditAction;
+  /** user:<id>, service, anonymous or system */
+  actor: string;
+  /** JSON of the row before the change; empty for creates */
+  before: string;
+  /** JSON of the row after the change */
+  after: string;
+  changed_at: string;
+}
+
+/** Response message for the Get*AuditLog calls of the services */
+export interface AuditLogResponse {
+  /** Oldest first */
+  entries: AuditEntry[];
+  message: string;
+  success: boolean;
+}
+
+function createBaseAuditEntry(): AuditEntry {
+  return {
+    id: 0,
+    entity_type: "",
+    entity_id: 0,
+    action: AuditAction.AUDIT_ACTION_UNSPECIFIED,
+    actor: "",
+    before: "",
+    after: "",
+    changed_at: "",
+  };
+}
+
+export const AuditEntry = {
+  encode(message: AuditEntry, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    if (message.entity_type !== "") {
+      writer.uint32(18).string(message.entity_type);
+    }
+    if (message.entity_id !== 0) {
+      writer.uint32(24).int32(message.entity_id);
+    }
+    if (message.action !== AuditAction.AUDIT_ACTION_UNSPECIFIED) {
+      writer.uint32(32).int32(auditActionToNumber(message.action));
+    }
+    if (message.actor !== "") {
+      writer.uint32(42).string(message.actor);
+    }
+    if (message.before !== "") {
+      writer.uint32(50).string(message.before);
+    }
+    if (message.after !== "") {
+      writer.uint32(58).string(message.after);
+    }
+    if (message.changed_at !== "") {
+      writer.uint32(66).string(message.changed_at);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): AuditEntry {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseAuditEntry();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.entity_type = reader.string();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.entity_id = reader.int32();
+          continue;
+        case 4:
+          if (tag !== 32) {
+            break;
+          }
+
+          message.action = auditActionFromJSON(reader.int32());
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.actor = reader.string();
+          continue;
+        case 6:
+          if (tag !== 50) {
+            break;
+          }
+
+          message.before = reader.string();
+          continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.after = reader.string();
+          continue;
+        case 8:
+          if (tag !== 66) {
+            break;
+          }
+
+          message.changed_at = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseAuditLogResponse(): AuditLogResponse {
+  return { entries: [], message: "", success: false };
+}
+
+export const AuditLogResponse = {
+  encode(message: AuditLogResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    for (const v of message.entries) {
+      AuditEntry.encode(v!, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.message !== "") {
+      writer.uint32(18).string(message.message);
+    }
+    if (message.success !== false) {
+      writer.uint32(24).bool(message.success);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): AuditLogResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseAuditLogResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.entries.push(AuditEntry.decode(reader, reader.uint32()));
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
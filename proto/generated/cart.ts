@@ -0,0 +1,914 @@
+// Code generated by protoc-gen-ts_proto. DO NOT EDIT.
+// versions:
+//   protoc-gen-ts_proto  v1.181.2
+//   protoc               v3.21.12
+// source: cart.proto
+
+/* eslint-disable */
+import {
+  type CallOptions,
+  ChannelCredentials,
+  Client,
+  type ClientOptions,
+  type ClientUnaryCall,
+  type handleUnaryCall,
+  makeGenericClientConstructor,
+  Metadata,
+  type ServiceError,
+  type UntypedServiceImplementation,
+} from "@grpc/grpc-js";
+import _m0 from "protobufjs/minimal";
+import { Order, OrderItem } from "./order";
+
+export const protobufPackage = "cart";
+
+/** Cart Item message definition; prices are the product's current ones */
+export interface CartItem {
+  id: number;
+  product_id: number;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+}
+
+/** Cart message definition */
+export interface Cart {
+  id: number;
+  user_id: number;
+  items: CartItem[];
+  /** Number of distinct products */
+  item_count: number;
+  /** Sum of the item quantities */
+  total_quantity: number;
+  total_amount: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CartResponse {
+  cart: Cart | undefined;
+  message: string;
+  success: boolean;
+}
+
+/** Request message for GetCart */
+export interface GetCartRequest {
+  user_id: number;
+}
+
+/** Request message for AddToCart */
+export interface AddToCartRequest {
+  user_id: number;
+  product_id: number;
+  quantity: number;
+}
+
+/** Request message for UpdateQuantity */
+export interface UpdateQuantityRequest {
+  user_id: number;
+  product_id: number;
+  quantity: number;
+}
+
+/** Request message for RemoveFromCart */
+export interface RemoveFromCartRequest {
+  user_id: number;
+  product_id: number;
+}
+
+/** Request message for ClearCart */
+export interface ClearCartRequest {
+  user_id: number;
+}
+
+/** Request/Response messages for Checkout */
+export interface CheckoutRequest {
+  user_id: number;
+  shipping_address: string;
+  billing_address: string;
+  payment_method: string;
+  /** Generated when empty */
+  order_number: string;
+}
+
+export interface CheckoutResponse {
+  order: Order | undefined;
+  order_items: OrderItem[];
+  message: string;
+  success: boolean;
+}
+
+function createBaseCartItem(): CartItem {
+  return { id: 0, product_id: 0, product_name: "", quantity: 0, unit_price: 0, total_price: 0 };
+}
+
+export const CartItem = {
+  encode(message: CartItem, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    if (message.product_id !== 0) {
+      writer.uint32(16).int32(message.product_id);
+    }
+    if (message.product_name !== "") {
+      writer.uint32(26).string(message.product_name);
+    }
+    if (message.quantity !== 0) {
+      writer.uint32(32).int32(message.quantity);
+    }
+    if (message.unit_price !== 0) {
+      writer.uint32(41).double(message.unit_price);
+    }
+    if (message.total_price !== 0) {
+      writer.uint32(49).double(message.total_price);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): CartItem {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseCartItem();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.product_id = reader.int32();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.product_name = reader.string();
+          continue;
+        case 4:
+          if (tag !== 32) {
+            break;
+          }
+
+          message.quantity = reader.int32();
+          continue;
+        case 5:
+          if (tag !== 41) {
+            break;
+          }
+
+          message.unit_price = reader.double();
+          continue;
+        case 6:
+          if (tag !== 49) {
+            break;
+          }
+
+          message.total_price = reader.double();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseCart(): Cart {
+  return {
+    id: 0,
+    user_id: 0,
+    items: [],
+    item_count: 0,
+    total_quantity: 0,
+    total_amount: 0,
+    created_at: "",
+    updated_at: "",
+  };
+}
+
+export const Cart = {
+  encode(message: Cart, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    if (message.user_id !== 0) {
+      writer.uint32(16).int32(message.user_id);
+    }
+    for (const v of message.items) {
+      CartItem.encode(v!, writer.uint32(26).fork()).ldelim();
+    }
+    if (message.item_count !== 0) {
+      writer.uint32(32).int32(message.item_count);
+    }
+    if (message.total_quantity !== 0) {
+      writer.uint32(40).int32(message.total_quantity);
+    }
+    if (message.total_amount !== 0) {
+      writer.uint32(49).double(message.total_amount);
+    }
+    if (message.created_at !== "") {
+      writer.uint32(58).string(message.created_at);
+    }
+    if (message.updated_at !== "") {
+      writer.uint32(66).string(message.updated_at);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): Cart {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseCart();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.user_id = reader.int32();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.items.push(CartItem.decode(reader, reader.uint32()));
+          continue;
+        case 4:
+          if (tag !== 32) {
+            break;
+          }
+
+          message.item_count = reader.int32();
+          continue;
+        case 5:
+          if (tag !== 40) {
+            break;
+          }
+
+          message.total_quantity = reader.int32();
+          continue;
+        case 6:
+          if (tag !== 49) {
+            break;
+          }
+
+          message.total_amount = reader.double();
+          continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.created_at = reader.string();
+          continue;
+        case 8:
+          if (tag !== 66) {
+            break;
+          }
+
+          message.updated_at = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseCartResponse(): CartResponse {
+  return { cart: undefined, message: "", success: false };
+}
+
+export const CartResponse = {
+  encode(message: CartResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.cart !== undefined) {
+      Cart.encode(message.cart, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.message !== "") {
+      writer.uint32(18).string(message.message);
+    }
+    if (message.success !== false) {
+      writer.uint32(24).bool(message.success);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): CartResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseCartResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.cart = Cart.decode(reader, reader.uint32());
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetCartRequest(): GetCartRequest {
+  return { user_id: 0 };
+}
+
+export const GetCartRequest = {
+  encode(message: GetCartRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.user_id !== 0) {
+      writer.uint32(8).int32(message.user_id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetCartRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetCartRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.user_id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseAddToCartRequest(): AddToCartRequest {
+  return { user_id: 0, product_id: 0, quantity: 0 };
+}
+
+export const AddToCartRequest = {
+  encode(message: AddToCartRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.user_id !== 0) {
+      writer.uint32(8).int32(message.user_id);
+    }
+    if (message.product_id !== 0) {
+      writer.uint32(16).int32(message.product_id);
+    }
+    if (message.quantity !== 0) {
+      writer.uint32(24).int32(message.quantity);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): AddToCartRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseAddToCartRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.user_id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.product_id = reader.int32();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.quantity = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseUpdateQuantityRequest(): UpdateQuantityRequest {
+  return { user_id: 0, product_id: 0, quantity: 0 };
+}
+
+export const UpdateQuantityRequest = {
+  encode(message: UpdateQuantityRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.user_id !== 0) {
+      writer.uint32(8).int32(message.user_id);
+    }
+    if (message.product_id !== 0) {
+      writer.uint32(16).int32(message.product_id);
+    }
+    if (message.quantity !== 0) {
+      writer.uint32(24).int32(message.quantity);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): UpdateQuantityRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseUpdateQuantityRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.user_id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.product_id = reader.int32();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.quantity = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseRemoveFromCartRequest(): RemoveFromCartRequest {
+  return { user_id: 0, product_id: 0 };
+}
+
+export const RemoveFromCartRequest = {
+  encode(message: RemoveFromCartRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.user_id !== 0) {
+      writer.uint32(8).int32(message.user_id);
+    }
+    if (message.product_id !== 0) {
+      writer.uint32(16).int32(message.product_id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): RemoveFromCartRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseRemoveFromCartRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.user_id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.product_id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseClearCartRequest(): ClearCartRequest {
+  return { user_id: 0 };
+}
+
+export const ClearCartRequest = {
+  encode(message: ClearCartRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.user_id !== 0) {
+      writer.uint32(8).int32(message.user_id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): ClearCartRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseClearCartRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.user_id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseCheckoutRequest(): CheckoutRequest {
+  return { user_id: 0, shipping_address: "", billing_address: "", payment_method: "", order_number: "" };
+}
+
+export const CheckoutRequest = {
+  encode(message: CheckoutRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.user_id !== 0) {
+      writer.uint32(8).int32(message.user_id);
+    }
+    if (message.shipping_address !== "") {
+      writer.uint32(18).string(message.shipping_address);
+    }
+    if (message.billing_address !== "") {
+      writer.uint32(26).string(message.billing_address);
+    }
+    if (message.payment_method !== "") {
+      writer.uint32(34).string(message.payment_method);
+    }
+    if (message.order_number !== "") {
+      writer.uint32(42).string(message.order_number);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): CheckoutRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseCheckoutRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.user_id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.shipping_address = reader.string();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.billing_address = reader.string();
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          message.payment_method = reader.string();
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.order_number = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseCheckoutResponse(): CheckoutResponse {
+  return { order: undefined, order_items: [], message: "", success: false };
+}
+
+export const CheckoutResponse = {
+  encode(message: CheckoutResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.order !== undefined) {
+      Order.encode(message.order, writer.uint32(10).fork()).ldelim();
+    }
+    for (const v of message.order_items) {
+      OrderItem.encode(v!, writer.uint32(18).fork()).ldelim();
+    }
+    if (message.message !== "") {
+      writer.uint32(26).string(message.message);
+    }
+    if (message.success !== false) {
+      writer.uint32(32).bool(message.success);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): CheckoutResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseCheckoutResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.order = Order.decode(reader, reader.uint32());
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.order_items.push(OrderItem.decode(reader, reader.uint32()));
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+        case 4:
+          if (tag !== 32) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+/** Cart service definition: one cart per user, turned into an order by Checkout */
+export type CartServiceService = typeof CartServiceService;
+export const CartServiceService = {
+  /** Get the user's cart with its totals at the products' current prices */
+  getCart: {
+    path: "/cart.CartService/GetCart",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: GetCartRequest) => Buffer.from(GetCartRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => GetCartRequest.decode(value),
+    responseSerialize: (value: CartResponse) => Buffer.from(CartResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => CartResponse.decode(value),
+  },
+  /** Add a product to the cart, or add to its quantity when the cart already has it */
+  addToCart: {
+    path: "/cart.CartService/AddToCart",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: AddToCartRequest) => Buffer.from(AddToCartRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => AddToCartRequest.decode(value),
+    responseSerialize: (value: CartResponse) => Buffer.from(CartResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => CartResponse.decode(value),
+  },
+  /** Set the quantity of a product in the cart */
+  updateQuantity: {
+    path: "/cart.CartService/UpdateQuantity",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: UpdateQuantityRequest) => Buffer.from(UpdateQuantityRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => UpdateQuantityRequest.decode(value),
+    responseSerialize: (value: CartResponse) => Buffer.from(CartResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => CartResponse.decode(value),
+  },
+  /** Remove a product from the cart */
+  removeFromCart: {
+    path: "/cart.CartService/RemoveFromCart",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: RemoveFromCartRequest) => Buffer.from(RemoveFromCartRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => RemoveFromCartRequest.decode(value),
+    responseSerialize: (value: CartResponse) => Buffer.from(CartResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => CartResponse.decode(value),
+  },
+  /** Remove every product from the cart */
+  clearCart: {
+    path: "/cart.CartService/ClearCart",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: ClearCartRequest) => Buffer.from(ClearCartRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => ClearCartRequest.decode(value),
+    responseSerialize: (value: CartResponse) => Buffer.from(CartResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => CartResponse.decode(value),
+  },
+  /** Create an order with one item per cart item, reserving their stock, and empty the cart */
+  checkout: {
+    path: "/cart.CartService/Checkout",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: CheckoutRequest) => Buffer.from(CheckoutRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => CheckoutRequest.decode(value),
+    responseSerialize: (value: CheckoutResponse) => Buffer.from(CheckoutResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => CheckoutResponse.decode(value),
+  },
+} as const;
+
+export interface CartServiceServer extends UntypedServiceImplementation {
+  /** Get the user's cart with its totals at the products' current prices */
+  getCart: handleUnaryCall<GetCartRequest, CartResponse>;
+  /** Add a product to the cart, or add to its quantity when the cart already has it */
+  addToCart: handleUnaryCall<AddToCartRequest, CartResponse>;
+  /** Set the quantity of a product in the cart */
+  updateQuantity: handleUnaryCall<UpdateQuantityRequest, CartResponse>;
+  /** Remove a product from the cart */
+  removeFromCart: handleUnaryCall<RemoveFromCartRequest, CartResponse>;
+  /** Remove every product from the cart */
+  clearCart: handleUnaryCall<ClearCartRequest, CartResponse>;
+  /** Create an order with one item per cart item, reserving their stock, and empty the cart */
+  checkout: handleUnaryCall<CheckoutRequest, CheckoutResponse>;
+}
+
+export interface CartServiceClient extends Client {
+  /** Get the user's cart with its totals at the products' current prices */
+  getCart(
+    request: GetCartRequest,
+    callback: (error: ServiceError | null, response: CartResponse) => void,
+  ): ClientUnaryCall;
+  getCart(
+    request: GetCartRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: CartResponse) => void,
+  ): ClientUnaryCall;
+  getCart(
+    request: GetCartRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: CartResponse) => void,
+  ): ClientUnaryCall;
+  /** Add a product to the cart, or add to its quantity when the cart already has it */
+  addToCart(
+    request: AddToCartRequest,
+    callback: (error: ServiceError | null, response: CartResponse) => void,
+  ): ClientUnaryCall;
+  addToCart(
+    request: AddToCartRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: CartResponse) => void,
+  ): ClientUnaryCall;
+  addToCart(
+    request: AddToCartRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: CartResponse) => void,
+  ): ClientUnaryCall;
+  /** Set the quantity of a product in the cart */
+  updateQuantity(
+    request: UpdateQuantityRequest,
+    callback: (error: ServiceError | null, response: CartResponse) => void,
+  ): ClientUnaryCall;
+  updateQuantity(
+    request: UpdateQuantityRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: CartResponse) => void,
+  ): ClientUnaryCall;
+  updateQuantity(
+    request: UpdateQuantityRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: CartResponse) => void,
+  ): ClientUnaryCall;
+  /** Remove a product from the cart */
+  removeFromCart(
+    request: RemoveFromCartRequest,
+    callback: (error: ServiceError | null, response: CartResponse) => void,
+  ): ClientUnaryCall;
+  removeFromCart(
+    request: RemoveFromCartRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: CartResponse) => void,
+  ): ClientUnaryCall;
+  removeFromCart(
+    request: RemoveFromCartRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: CartResponse) => void,
+  ): ClientUnaryCall;
+  /** Remove every product from the cart */
+  clearCart(
+    request: ClearCartRequest,
+    callback: (error: ServiceError | null, response: CartResponse) => void,
+  ): ClientUnaryCall;
+  clearCart(
+    request: ClearCartRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: CartResponse) => void,
+  ): ClientUnaryCall;
+  clearCart(
+    request: ClearCartRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: CartResponse) => void,
+  ): ClientUnaryCall;
+  /** Create an order with one item per cart item, reserving their stock, and empty the cart */
+  checkout(
+    request: CheckoutRequest,
+    callback: (error: ServiceError | null, response: CheckoutResponse) => void,
+  ): ClientUnaryCall;
+  checkout(
+    request: CheckoutRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: CheckoutResponse) => void,
+  ): ClientUnaryCall;
+  checkout(
+    request: CheckoutRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: CheckoutResponse) => void,
+  ): ClientUnaryCall;
+}
+
+export const CartServiceClient = makeGenericClientConstructor(CartServiceService, "cart.CartService") as unknown as {
+  new (address: string, credentials: ChannelCredentials, options?: Partial<ClientOptions>): CartServiceClient;
+  service: typeof CartServiceService;
+  serviceName: string;
+};
@@ -0,0 +1,2111 @@
+// Code generated by protoc-gen-ts_proto. DO NOT EDIT.
+// versions:
+//   protoc-gen-ts_proto  v1.181.2
+//   protoc               v3.21.12
+// source: order.proto
+
+/* eslint-disable */
+import {
+  type CallOptions,
+  ChannelCredentials,
+  Client,
+  ClientDuplexStream,
+  type ClientOptions,
+  ClientReadableStream,
+  type ClientUnaryCall,
+  handleBidiStreamingCall,
+  handleServerStreamingCall,
+  type handleUnaryCall,
+  makeGenericClientConstructor,
+  Metadata,
+  type ServiceError,
+  type UntypedServiceImplementation,
+} from "@grpc/grpc-js";
+import _m0 from "protobufjs/minimal";
+import { AuditLogResponse } from "./audit";
+
+export const protobufPackage = "order";
+
+/** Order lifecycle status */
+export enum OrderStatus {
+  ORDER_STATUS_UNSPECIFIED = "ORDER_STATUS_UNSPECIFIED",
+  ORDER_STATUS_PENDING = "ORDER_STATUS_PENDING",
+  ORDER_STATUS_CONFIRMED = "ORDER_STATUS_CONFIRMED",
+  ORDER_STATUS_SHIPPED = "ORDER_STATUS_SHIPPED",
+  ORDER_STATUS_DELIVERED = "ORDER_STATUS_DELIVERED",
+  ORDER_STATUS_CANCELLED = "ORDER_STATUS_CANCELLED",
+  UNRECOGNIZED = "UNRECOGNIZED",
+}
+
+export function orderStatusFromJSON(object: any): OrderStatus {
+  switch (object) {
+    case 0:
+    case "ORDER_STATUS_UNSPECIFIED":
+      return OrderStatus.ORDER_STATUS_UNSPECIFIED;
+    case 1:
+    case "ORDER_STATUS_PENDING":
+      return OrderStatus.ORDER_STATUS_PENDING;
+    case 2:
+    case "ORDER_STATUS_CONFIRMED":
+      return OrderStatus.ORDER_STATUS_CONFIRMED;
+    case 3:
+    case "ORDER_STATUS_SHIPPED":
+      return OrderStatus.ORDER_STATUS_SHIPPED;
+    case 4:
+    case "ORDER_STATUS_DELIVERED":
+      return OrderStatus.ORDER_STATUS_DELIVERED;
+    case 5:
+    case "ORDER_STATUS_CANCELLED":
+      return OrderStatus.ORDER_STATUS_CANCELLED;
+    case -1:
+    case "UNRECOGNIZED":
+    default:
+      return OrderStatus.UNRECOGNIZED;
+  }
+}
+
+export function orderStatusToNumber(object: OrderStatus): number {
+  switch (object) {
+    case OrderStatus.ORDER_STATUS_UNSPECIFIED:
+      return 0;
+    case OrderStatus.ORDER_STATUS_PENDING:
+      return 1;
+    case OrderStatus.ORDER_STATUS_CONFIRMED:
+      return 2;
+    case OrderStatus.ORDER_STATUS_SHIPPED:
+      return 3;
+    case OrderStatus.ORDER_STATUS_DELIVERED:
+      return 4;
+    case OrderStatus.ORDER_STATUS_CANCELLED:
+      return 5;
+    case OrderStatus.UNRECOGNIZED:
+    default:
+      return -1;
+  }
+}
+
+/** Kind of an OrderEvent */
+export enum OrderEventType {
+  ORDER_EVENT_TYPE_UNSPECIFIED = "ORDER_EVENT_TYPE_UNSPECIFIED",
+  ORDER_EVENT_TYPE_CREATED = "ORDER_EVENT_TYPE_CREATED",
+  ORDER_EVENT_TYPE_STATUS_CHANGED = "ORDER_EVENT_TYPE_STATUS_CHANGED",
+  ORDER_EVENT_TYPE_ITEM_ADDED = "ORDER_EVENT_TYPE_ITEM_ADDED",
+  ORDER_EVENT_TYPE_DELETED = "ORDER_EVENT_TYPE_DELETED",
+  /** ORDER_EVENT_TYPE_REJECTED - An update_status sent on the channel failed; only sent back to its sender */
+  ORDER_EVENT_TYPE_REJECTED = "ORDER_EVENT_TYPE_REJECTED",
+  ORDER_EVENT_TYPE_RESTORED = "ORDER_EVENT_TYPE_RESTORED",
+  UNRECOGNIZED = "UNRECOGNIZED",
+}
+
+export function orderEventTypeFromJSON(object: any): OrderEventType {
+  switch (object) {
+    case 0:
+    case "ORDER_EVENT_TYPE_UNSPECIFIED":
+      return OrderEventType.ORDER_EVENT_TYPE_UNSPECIFIED;
+    case 1:
+    case "ORDER_EVENT_TYPE_CREATED":
+      return OrderEventType.ORDER_EVENT_TYPE_CREATED;
+    case 2:
+    case "ORDER_EVENT_TYPE_STATUS_CHANGED":
+      return OrderEventType.ORDER_EVENT_TYPE_STATUS_CHANGED;
+    case 3:
+    case "ORDER_EVENT_TYPE_ITEM_ADDED":
+      return OrderEventType.ORDER_EVENT_TYPE_ITEM_ADDED;
+    case 4:
+    case "ORDER_EVENT_TYPE_DELETED":
+      return OrderEventType.ORDER_EVENT_TYPE_DELETED;
+    case 5:
+    case "ORDER_EVENT_TYPE_REJECTED":
+      return OrderEventType.ORDER_EVENT_TYPE_REJECTED;
+    case 6:
+    case "ORDER_EVENT_TYPE_RESTORED":
+      return OrderEventType.ORDER_EVENT_TYPE_RESTORED;
+    case -1:
+    case "UNRECOGNIZED":
+    default:
+      return OrderEventType.UNRECOGNIZED;
+  }
+}
+
+export function orderEventTypeToNumber(object: OrderEventType): number {
+  switch (object) {
+    case OrderEventType.ORDER_EVENT_TYPE_UNSPECIFIED:
+      return 0;
+    case OrderEventType.ORDER_EVENT_TYPE_CREATED:
+      return 1;
+    case OrderEventType.ORDER_EVENT_TYPE_STATUS_CHANGED:
+      return 2;
+    case OrderEventType.ORDER_EVENT_TYPE_ITEM_ADDED:
+      return 3;
+    case OrderEventType.ORDER_EVENT_TYPE_DELETED:
+      return 4;
+    case OrderEventType.ORDER_EVENT_TYPE_REJECTED:
+      return 5;
+    case OrderEventType.ORDER_EVENT_TYPE_RESTORED:
+      return 6;
+    case OrderEventType.UNRECOGNIZED:
+    default:
+      return -1;
+  }
+}
+
+/** Order message definition */
+export interface Order {
+  id: number;
+  user_id: number;
+  order_number: string;
+  total_amount: number;
+  status: OrderStatus;
+  shipping_address: string;
+  billing_address: string;
+  payment_method: string;
+  created_at: string;
+  updated_at: string;
+  /** Incremented by every change; send it back as expected_version to update only this state */
+  version: number;
+}
+
+/** Order Item message definition */
+export interface OrderItem {
+  id: number;
+  order_id: number;
+  product_id: number;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+}
+
+/** Request/Response messages for CreateOrder */
+export interface CreateOrderRequest {
+  user_id: number;
+  order_number: string;
+  /** Ignored: a new order's total starts at 0 and follows its items */
+  total_amount: number;
+  /** Defaults to ORDER_STATUS_PENDING when unspecified */
+  status: OrderStatus;
+  shipping_address: string;
+  billing_address: string;
+  payment_method: string;
+}
+
+export interface OrderResponse {
+  order: Order | undefined;
+  message: string;
+  success: boolean;
+}
+
+/** Request/Response messages for GetOrderById */
+export interface GetOrderByIdRequest {
+  id: number;
+}
+
+/** Request/Response messages for GetOrderByNumber */
+export interface GetOrderByNumberRequest {
+  order_number: string;
+}
+
+/** Request/Response messages for GetAllOrders */
+export interface GetAllOrdersRequest {
+  page: number;
+  limit: number;
+}
+
+export interface GetAllOrdersResponse {
+  orders: Order[];
+  total: number;
+  page: number;
+  limit: number;
+  message: string;
+  success: boolean;
+}
+
+/** Request/Response messages for GetOrdersByUserId */
+export interface GetOrdersByUserIdRequest {
+  user_id: number;
+  page: number;
+  limit: number;
+}
+
+/** Request/Response messages for UpdateOrderStatus */
+export interface UpdateOrderStatusRequest {
+  id: number;
+  status: OrderStatus;
+  /** Fail with ABORTED unless the order still has this version */
+  expected_version?: number | undefined;
+}
+
+/** Request/Response messages for DeleteOrder */
+export interface DeleteOrderRequest {
+  id: number;
+}
+
+export interface DeleteOrderResponse {
+  success: boolean;
+  message: string;
+}
+
+/** Request message for RestoreOrder */
+export interface RestoreOrderRequest {
+  id: number;
+}
+
+/** Request message for GetOrderAuditLog */
+export interface GetOrderAuditLogRequest {
+  id: number;
+}
+
+/** Request/Response messages for AddOrderItem */
+export interface AddOrderItemRequest {
+  order_id: number;
+  product_id: number;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+}
+
+export interface OrderItemResponse {
+  order_item: OrderItem | undefined;
+  message: string;
+  success: boolean;
+}
+
+/** Request/Response messages for GetOrderItems */
+export interface GetOrderItemsRequest {
+  order_id: number;
+}
+
+export interface GetOrderItemsResponse {
+  order_items: OrderItem[];
+  message: string;
+  success: boolean;
+}
+
+/** Request/Response messages for RemoveOrderItem */
+export interface RemoveOrderItemRequest {
+  id: number;
+}
+
+export interface RemoveOrderItemResponse {
+  success: boolean;
+  message: string;
+}
+
+/** Request message for StreamOrders; batch_size is how many rows are read from the store at a time */
+export interface StreamOrdersRequest {
+  user_id: number;
+  status: OrderStatus;
+  batch_size: number;
+}
+
+/** Which orders a channel receives events for; no order_ids means all orders */
+export interface OrderEventSubscription {
+  order_ids: number[];
+}
+
+/** Client message on the OrderEvents channel */
+export interface OrderEventRequest {
+  subscribe?: OrderEventSubscription | undefined;
+  update_status?: UpdateOrderStatusRequest | undefined;
+}
+
+/** Server message on the OrderEvents channel */
+export interface OrderEvent {
+  type: OrderEventType;
+  order_id: number;
+  order: Order | undefined;
+  occurred_at: string;
+  error: string;
+}
+
+function createBaseOrder(): Order {
+  return {
+    id: 0,
+    user_id: 0,
+    order_number: "",
+    total_amount: 0,
+    status: OrderStatus.ORDER_STATUS_UNSPECIFIED,
+    shipping_address: "",
+    billing_address: "",
+    payment_method: "",
+    created_at: "",
+    updated_at: "",
+    version: 0,
+  };
+}
+
+export const Order = {
+  encode(message: Order, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    if (message.user_id !== 0) {
+      writer.uint32(16).int32(message.user_id);
+    }
+    if (message.order_number !== "") {
+      writer.uint32(26).string(message.order_number);
+    }
+    if (message.total_amount !== 0) {
+      writer.uint32(33).double(message.total_amount);
+    }
+    if (message.status !== OrderStatus.ORDER_STATUS_UNSPECIFIED) {
+      writer.uint32(40).int32(orderStatusToNumber(message.status));
+    }
+    if (message.shipping_address !== "") {
+      writer.uint32(50).string(message.shipping_address);
+    }
+    if (message.billing_address !== "") {
+      writer.uint32(58).string(message.billing_address);
+    }
+    if (message.payment_method !== "") {
+      writer.uint32(66).string(message.payment_method);
+    }
+    if (message.created_at !== "") {
+      writer.uint32(74).string(message.created_at);
+    }
+    if (message.updated_at !== "") {
+      writer.uint32(82).string(message.updated_at);
+    }
+    if (message.version !== 0) {
+      writer.uint32(88).int32(message.version);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): Order {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseOrder();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.user_id = reader.int32();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.order_number = reader.string();
+          continue;
+        case 4:
+          if (tag !== 33) {
+            break;
+          }
+
+          message.total_amount = reader.double();
+          continue;
+        case 5:
+          if (tag !== 40) {
+            break;
+          }
+
+          message.status = orderStatusFromJSON(reader.int32());
+          continue;
+        case 6:
+          if (tag !== 50) {
+            break;
+          }
+
+          message.shipping_address = reader.string();
+          continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.billing_address = reader.string();
+          continue;
+        case 8:
+          if (tag !== 66) {
+            break;
+          }
+
+          message.payment_method = reader.string();
+          continue;
+        case 9:
+          if (tag !== 74) {
+            break;
+          }
+
+          message.created_at = reader.string();
+          continue;
+        case 10:
+          if (tag !== 82) {
+            break;
+          }
+
+          message.updated_at = reader.string();
+          continue;
+        case 11:
+          if (tag !== 88) {
+            break;
+          }
+
+          message.version = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseOrderItem(): OrderItem {
+  return { id: 0, order_id: 0, product_id: 0, quantity: 0, unit_price: 0, total_price: 0 };
+}
+
+export const OrderItem = {
+  encode(message: OrderItem, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    if (message.order_id !== 0) {
+      writer.uint32(16).int32(message.order_id);
+    }
+    if (message.product_id !== 0) {
+      writer.uint32(24).int32(message.product_id);
+    }
+    if (message.quantity !== 0) {
+      writer.uint32(32).int32(message.quantity);
+    }
+    if (message.unit_price !== 0) {
+      writer.uint32(41).double(message.unit_price);
+    }
+    if (message.total_price !== 0) {
+      writer.uint32(49).double(message.total_price);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): OrderItem {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseOrderItem();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.order_id = reader.int32();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.product_id = reader.int32();
+          continue;
+        case 4:
+          if (tag !== 32) {
+            break;
+          }
+
+          message.quantity = reader.int32();
+          continue;
+        case 5:
+          if (tag !== 41) {
+            break;
+          }
+
+          message.unit_price = reader.double();
+          continue;
+        case 6:
+          if (tag !== 49) {
+            break;
+          }
+
+          message.total_price = reader.double();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseCreateOrderRequest(): CreateOrderRequest {
+  return {
+    user_id: 0,
+    order_number: "",
+    total_amount: 0,
+    status: OrderStatus.ORDER_STATUS_UNSPECIFIED,
+    shipping_address: "",
+    billing_address: "",
+    payment_method: "",
+  };
+}
+
+export const CreateOrderRequest = {
+  encode(message: CreateOrderRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.user_id !== 0) {
+      writer.uint32(8).int32(message.user_id);
+    }
+    if (message.order_number !== "") {
+      writer.uint32(18).string(message.order_number);
+    }
+    if (message.total_amount !== 0) {
+      writer.uint32(25).double(message.total_amount);
+    }
+    if (message.status !== OrderStatus.ORDER_STATUS_UNSPECIFIED) {
+      writer.uint32(32).int32(orderStatusToNumber(message.status));
+    }
+    if (message.shipping_address !== "") {
+      writer.uint32(42).string(message.shipping_address);
+    }
+    if (message.billing_address !== "") {
+      writer.uint32(50).string(message.billing_address);
+    }
+    if (message.payment_method !== "") {
+      writer.uint32(58).string(message.payment_method);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): CreateOrderRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseCreateOrderRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.user_id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.order_number = reader.string();
+          continue;
+        case 3:
+          if (tag !== 25) {
+            break;
+          }
+
+          message.total_amount = reader.double();
+          continue;
+        case 4:
+          if (tag !== 32) {
+            break;
+          }
+
+          message.status = orderStatusFromJSON(reader.int32());
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.shipping_address = reader.string();
+          continue;
+        case 6:
+          if (tag !== 50) {
+            break;
+          }
+
+          message.billing_address = reader.string();
+          continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.payment_method = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseOrderResponse(): OrderResponse {
+  return { order: undefined, message: "", success: false };
+}
+
+export const OrderResponse = {
+  encode(message: OrderResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.order !== undefined) {
+      Order.encode(message.order, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.message !== "") {
+      writer.uint32(18).string(message.message);
+    }
+    if (message.success !== false) {
+      writer.uint32(24).bool(message.success);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): OrderResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseOrderResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.order = Order.decode(reader, reader.uint32());
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetOrderByIdRequest(): GetOrderByIdRequest {
+  return { id: 0 };
+}
+
+export const GetOrderByIdRequest = {
+  encode(message: GetOrderByIdRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetOrderByIdRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetOrderByIdRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetOrderByNumberRequest(): GetOrderByNumberRequest {
+  return { order_number: "" };
+}
+
+export const GetOrderByNumberRequest = {
+  encode(message: GetOrderByNumberRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.order_number !== "") {
+      writer.uint32(10).string(message.order_number);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetOrderByNumberRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetOrderByNumberRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.order_number = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetAllOrdersRequest(): GetAllOrdersRequest {
+  return { page: 0, limit: 0 };
+}
+
+export const GetAllOrdersRequest = {
+  encode(message: GetAllOrdersRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.page !== 0) {
+      writer.uint32(8).int32(message.page);
+    }
+    if (message.limit !== 0) {
+      writer.uint32(16).int32(message.limit);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetAllOrdersRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetAllOrdersRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.page = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.limit = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetAllOrdersResponse(): GetAllOrdersResponse {
+  return { orders: [], total: 0, page: 0, limit: 0, message: "", success: false };
+}
+
+export const GetAllOrdersResponse = {
+  encode(message: GetAllOrdersResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    for (const v of message.orders) {
+      Order.encode(v!, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.total !== 0) {
+      writer.uint32(16).int32(message.total);
+    }
+    if (message.page !== 0) {
+      writer.uint32(24).int32(message.page);
+    }
+    if (message.limit !== 0) {
+      writer.uint32(32).int32(message.limit);
+    }
+    if (message.message !== "") {
+      writer.uint32(42).string(message.message);
+    }
+    if (message.success !== false) {
+      writer.uint32(48).bool(message.success);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetAllOrdersResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetAllOrdersResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.orders.push(Order.decode(reader, reader.uint32()));
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.total = reader.int32();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.page = reader.int32();
+          continue;
+        case 4:
+          if (tag !== 32) {
+            break;
+          }
+
+          message.limit = reader.int32();
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+        case 6:
+          if (tag !== 48) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetOrdersByUserIdRequest(): GetOrdersByUserIdRequest {
+  return { user_id: 0, page: 0, limit: 0 };
+}
+
+export const GetOrdersByUserIdRequest = {
+  encode(message: GetOrdersByUserIdRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.user_id !== 0) {
+      writer.uint32(8).int32(message.user_id);
+    }
+    if (message.page !== 0) {
+      writer.uint32(16).int32(message.page);
+    }
+    if (message.limit !== 0) {
+      writer.uint32(24).int32(message.limit);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetOrdersByUserIdRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetOrdersByUserIdRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.user_id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.page = reader.int32();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.limit = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseUpdateOrderStatusRequest(): UpdateOrderStatusRequest {
+  return { id: 0, status: OrderStatus.ORDER_STATUS_UNSPECIFIED, expected_version: undefined };
+}
+
+export const UpdateOrderStatusRequest = {
+  encode(message: UpdateOrderStatusRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    if (message.status !== OrderStatus.ORDER_STATUS_UNSPECIFIED) {
+      writer.uint32(16).int32(orderStatusToNumber(message.status));
+    }
+    if (message.expected_version !== undefined) {
+      writer.uint32(24).int32(message.expected_version);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): UpdateOrderStatusRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseUpdateOrderStatusRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.status = orderStatusFromJSON(reader.int32());
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.expected_version = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseDeleteOrderRequest(): DeleteOrderRequest {
+  return { id: 0 };
+}
+
+export const DeleteOrderRequest = {
+  encode(message: DeleteOrderRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): DeleteOrderRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseDeleteOrderRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseDeleteOrderResponse(): DeleteOrderResponse {
+  return { success: false, message: "" };
+}
+
+export const DeleteOrderResponse = {
+  encode(message: DeleteOrderResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.success !== false) {
+      writer.uint32(8).bool(message.success);
+    }
+    if (message.message !== "") {
+      writer.uint32(18).string(message.message);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): DeleteOrderResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseDeleteOrderResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseRestoreOrderRequest(): RestoreOrderRequest {
+  return { id: 0 };
+}
+
+export const RestoreOrderRequest = {
+  encode(message: RestoreOrderRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): RestoreOrderRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseRestoreOrderRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetOrderAuditLogRequest(): GetOrderAuditLogRequest {
+  return { id: 0 };
+}
+
+export const GetOrderAuditLogRequest = {
+  encode(message: GetOrderAuditLogRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetOrderAuditLogRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetOrderAuditLogRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseAddOrderItemRequest(): AddOrderItemRequest {
+  return { order_id: 0, product_id: 0, quantity: 0, unit_price: 0, total_price: 0 };
+}
+
+export const AddOrderItemRequest = {
+  encode(message: AddOrderItemRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.order_id !== 0) {
+      writer.uint32(8).int32(message.order_id);
+    }
+    if (message.product_id !== 0) {
+      writer.uint32(16).int32(message.product_id);
+    }
+    if (message.quantity !== 0) {
+      writer.uint32(24).int32(message.quantity);
+    }
+    if (message.unit_price !== 0) {
+      writer.uint32(33).double(message.unit_price);
+    }
+    if (message.total_price !== 0) {
+      writer.uint32(41).double(message.total_price);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): AddOrderItemRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseAddOrderItemRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.order_id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.product_id = reader.int32();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.quantity = reader.int32();
+          continue;
+        case 4:
+          if (tag !== 33) {
+            break;
+          }
+
+          message.unit_price = reader.double();
+          continue;
+        case 5:
+          if (tag !== 41) {
+            break;
+          }
+
+          message.total_price = reader.double();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseOrderItemResponse(): OrderItemResponse {
+  return { order_item: undefined, message: "", success: false };
+}
+
+export const OrderItemResponse = {
+  encode(message: OrderItemResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.order_item !== undefined) {
+      OrderItem.encode(message.order_item, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.message !== "") {
+      writer.uint32(18).string(message.message);
+    }
+    if (message.success !== false) {
+      writer.uint32(24).bool(message.success);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): OrderItemResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseOrderItemResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.order_item = OrderItem.decode(reader, reader.uint32());
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetOrderItemsRequest(): GetOrderItemsRequest {
+  return { order_id: 0 };
+}
+
+export const GetOrderItemsRequest = {
+  encode(message: GetOrderItemsRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.order_id !== 0) {
+      writer.uint32(8).int32(message.order_id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetOrderItemsRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetOrderItemsRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.order_id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetOrderItemsResponse(): GetOrderItemsResponse {
+  return { order_items: [], message: "", success: false };
+}
+
+export const GetOrderItemsResponse = {
+  encode(message: GetOrderItemsResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    for (const v of message.order_items) {
+      OrderItem.encode(v!, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.message !== "") {
+      writer.uint32(18).string(message.message);
+    }
+    if (message.success !== false) {
+      writer.uint32(24).bool(message.success);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetOrderItemsResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetOrderItemsResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.order_items.push(OrderItem.decode(reader, reader.uint32()));
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseRemoveOrderItemRequest(): RemoveOrderItemRequest {
+  return { id: 0 };
+}
+
+export const RemoveOrderItemRequest = {
+  encode(message: RemoveOrderItemRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): RemoveOrderItemRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseRemoveOrderItemRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseRemoveOrderItemResponse(): RemoveOrderItemResponse {
+  return { success: false, message: "" };
+}
+
+export const RemoveOrderItemResponse = {
+  encode(message: RemoveOrderItemResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.success !== false) {
+      writer.uint32(8).bool(message.success);
+    }
+    if (message.message !== "") {
+      writer.uint32(18).string(message.message);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): RemoveOrderItemResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseRemoveOrderItemResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseStreamOrdersRequest(): StreamOrdersRequest {
+  return { user_id: 0, status: OrderStatus.ORDER_STATUS_UNSPECIFIED, batch_size: 0 };
+}
+
+export const StreamOrdersRequest = {
+  encode(message: StreamOrdersRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.user_id !== 0) {
+      writer.uint32(8).int32(message.user_id);
+    }
+    if (message.status !== OrderStatus.ORDER_STATUS_UNSPECIFIED) {
+      writer.uint32(16).int32(orderStatusToNumber(message.status));
+    }
+    if (message.batch_size !== 0) {
+      writer.uint32(24).int32(message.batch_size);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): StreamOrdersRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseStreamOrdersRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.user_id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.status = orderStatusFromJSON(reader.int32());
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.batch_size = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseOrderEventSubscription(): OrderEventSubscription {
+  return { order_ids: [] };
+}
+
+export const OrderEventSubscription = {
+  encode(message: OrderEventSubscription, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    writer.uint32(10).fork();
+    for (const v of message.order_ids) {
+      writer.int32(v);
+    }
+    writer.ldelim();
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): OrderEventSubscription {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseOrderEventSubscription();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag === 8) {
+            message.order_ids.push(reader.int32());
+
+            continue;
+          }
+
+          if (tag === 10) {
+            const end2 = reader.uint32() + reader.pos;
+            while (reader.pos < end2) {
+              message.order_ids.push(reader.int32());
+            }
+
+            continue;
+          }
+
+          break;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseOrderEventRequest(): OrderEventRequest {
+  return { subscribe: undefined, update_status: undefined };
+}
+
+export const OrderEventRequest = {
+  encode(message: OrderEventRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.subscribe !== undefined) {
+      OrderEventSubscription.encode(message.subscribe, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.update_status !== undefined) {
+      UpdateOrderStatusRequest.encode(message.update_status, writer.uint32(18).fork()).ldelim();
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): OrderEventRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseOrderEventRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.subscribe = OrderEventSubscription.decode(reader, reader.uint32());
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.update_status = UpdateOrderStatusRequest.decode(reader, reader.uint32());
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseOrderEvent(): OrderEvent {
+  return {
+    type: OrderEventType.ORDER_EVENT_TYPE_UNSPECIFIED,
+    order_id: 0,
+    order: undefined,
+    occurred_at: "",
+    error: "",
+  };
+}
+
+export const OrderEvent = {
+  encode(message: OrderEvent, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.type !== OrderEventType.ORDER_EVENT_TYPE_UNSPECIFIED) {
+      writer.uint32(8).int32(orderEventTypeToNumber(message.type));
+    }
+    if (message.order_id !== 0) {
+      writer.uint32(16).int32(message.order_id);
+    }
+    if (message.order !== undefined) {
+      Order.encode(message.order, writer.uint32(26).fork()).ldelim();
+    }
+    if (message.occurred_at !== "") {
+      writer.uint32(34).string(message.occurred_at);
+    }
+    if (message.error !== "") {
+      writer.uint32(42).string(message.error);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): OrderEvent {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseOrderEvent();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.type = orderEventTypeFromJSON(reader.int32());
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.order_id = reader.int32();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.order = Order.decode(reader, reader.uint32());
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          message.occurred_at = reader.string();
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.error = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+/** Order service definition */
+export type OrderServiceService = typeof OrderServiceService;
+export const OrderServiceService = {
+  /** Create a new order */
+  createOrder: {
+    path: "/order.OrderService/CreateOrder",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: CreateOrderRequest) => Buffer.from(CreateOrderRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => CreateOrderRequest.decode(value),
+    responseSerialize: (value: OrderResponse) => Buffer.from(OrderResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => OrderResponse.decode(value),
+  },
+  /** Get order by ID */
+  getOrderById: {
+    path: "/order.OrderService/GetOrderById",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: GetOrderByIdRequest) => Buffer.from(GetOrderByIdRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => GetOrderByIdRequest.decode(value),
+    responseSerialize: (value: OrderResponse) => Buffer.from(OrderResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => OrderResponse.decode(value),
+  },
+  /** Get order by order number */
+  getOrderByNumber: {
+    path: "/order.OrderService/GetOrderByNumber",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: GetOrderByNumberRequest) => Buffer.from(GetOrderByNumberRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => GetOrderByNumberRequest.decode(value),
+    responseSerialize: (value: OrderResponse) => Buffer.from(OrderResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => OrderResponse.decode(value),
+  },
+  /** Get all orders */
+  getAllOrders: {
+    path: "/order.OrderService/GetAllOrders",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: GetAllOrdersRequest) => Buffer.from(GetAllOrdersRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => GetAllOrdersRequest.decode(value),
+    responseSerialize: (value: GetAllOrdersResponse) => Buffer.from(GetAllOrdersResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => GetAllOrdersResponse.decode(value),
+  },
+  /** Get orders by user ID */
+  getOrdersByUserId: {
+    path: "/order.OrderService/GetOrdersByUserId",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: GetOrdersByUserIdRequest) => Buffer.from(GetOrdersByUserIdRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => GetOrdersByUserIdRequest.decode(value),
+    responseSerialize: (value: GetAllOrdersResponse) => Buffer.from(GetAllOrdersResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => GetAllOrdersResponse.decode(value),
+  },
+  /** Update order status */
+  updateOrderStatus: {
+    path: "/order.OrderService/UpdateOrderStatus",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: UpdateOrderStatusRequest) => Buffer.from(UpdateOrderStatusRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => UpdateOrderStatusRequest.decode(value),
+    responseSerialize: (value: OrderResponse) => Buffer.from(OrderResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => OrderResponse.decode(value),
+  },
+  /** Soft delete order, keeping its items; reads skip deleted orders until they are restored */
+  deleteOrder: {
+    path: "/order.OrderService/DeleteOrder",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: DeleteOrderRequest) => Buffer.from(DeleteOrderRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => DeleteOrderRequest.decode(value),
+    responseSerialize: (value: DeleteOrderResponse) => Buffer.from(DeleteOrderResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => DeleteOrderResponse.decode(value),
+  },
+  /** Restore a deleted order, reserving its items' stock again */
+  restoreOrder: {
+    path: "/order.OrderService/RestoreOrder",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: RestoreOrderRequest) => Buffer.from(RestoreOrderRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => RestoreOrderRequest.decode(value),
+    responseSerialize: (value: OrderResponse) => Buffer.from(OrderResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => OrderResponse.decode(value),
+  },
+  /** Recorded changes of an order, deleted or not */
+  getOrderAuditLog: {
+    path: "/order.OrderService/GetOrderAuditLog",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: GetOrderAuditLogRequest) => Buffer.from(GetOrderAuditLogRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => GetOrderAuditLogRequest.decode(value),
+    responseSerialize: (value: AuditLogResponse) => Buffer.from(AuditLogResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => AuditLogResponse.decode(value),
+  },
+  /** Add order item */
+  addOrderItem: {
+    path: "/order.OrderService/AddOrderItem",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: AddOrderItemRequest) => Buffer.from(AddOrderItemRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => AddOrderItemRequest.decode(value),
+    responseSerialize: (value: OrderItemResponse) => Buffer.from(OrderItemResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => OrderItemResponse.decode(value),
+  },
+  /** Get order items */
+  getOrderItems: {
+    path: "/order.OrderService/GetOrderItems",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: GetOrderItemsRequest) => Buffer.from(GetOrderItemsRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => GetOrderItemsRequest.decode(value),
+    responseSerialize: (value: GetOrderItemsResponse) => Buffer.from(GetOrderItemsResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => GetOrderItemsResponse.decode(value),
+  },
+  /** Remove order item */
+  removeOrderItem: {
+    path: "/order.OrderService/RemoveOrderItem",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: RemoveOrderItemRequest) => Buffer.from(RemoveOrderItemRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => RemoveOrderItemRequest.decode(value),
+    responseSerialize: (value: RemoveOrderItemResponse) => Buffer.from(RemoveOrderItemResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => RemoveOrderItemResponse.decode(value),
+  },
+  /** Stream all orders (optionally of one user and/or status) in ID order */
+  streamOrders: {
+    path: "/order.OrderService/StreamOrders",
+    requestStream: false,
+    responseStream: true,
+    requestSerialize: (value: StreamOrdersRequest) => Buffer.from(StreamOrdersRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => StreamOrdersRequest.decode(value),
+    responseSerialize: (value: Order) => Buffer.from(Order.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => Order.decode(value),
+  },
+  /** Order event channel: subscribe to order events and send status updates on one stream */
+  orderEvents: {
+    path: "/order.OrderService/OrderEvents",
+    requestStream: true,
+    responseStream: true,
+    requestSerialize: (value: OrderEventRequest) => Buffer.from(OrderEventRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => OrderEventRequest.decode(value),
+    responseSerialize: (value: OrderEvent) => Buffer.from(OrderEvent.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => OrderEvent.decode(value),
+  },
+} as const;
+
+export interface OrderServiceServer extends UntypedServiceImplementation {
+  /** Create a new order */
+  createOrder: handleUnaryCall<CreateOrderRequest, OrderResponse>;
+  /** Get order by ID */
+  getOrderById: handleUnaryCall<GetOrderByIdRequest, OrderResponse>;
+  /** Get order by order number */
+  getOrderByNumber: handleUnaryCall<GetOrderByNumberRequest, OrderResponse>;
+  /** Get all orders */
+  getAllOrders: handleUnaryCall<GetAllOrdersRequest, GetAllOrdersResponse>;
+  /** Get orders by user ID */
+  getOrdersByUserId: handleUnaryCall<GetOrdersByUserIdRequest, GetAllOrdersResponse>;
+  /** Update order status */
+  updateOrderStatus: handleUnaryCall<UpdateOrderStatusRequest, OrderResponse>;
+  /** Soft delete order, keeping its items; reads skip deleted orders until they are restored */
+  deleteOrder: handleUnaryCall<DeleteOrderRequest, DeleteOrderResponse>;
+  /** Restore a deleted order, reserving its items' stock again */
+  restoreOrder: handleUnaryCall<RestoreOrderRequest, OrderResponse>;
+  /** Recorded changes of an order, deleted or not */
+  getOrderAuditLog: handleUnaryCall<GetOrderAuditLogRequest, AuditLogResponse>;
+  /** Add order item */
+  addOrderItem: handleUnaryCall<AddOrderItemRequest, OrderItemResponse>;
+  /** Get order items */
+  getOrderItems: handleUnaryCall<GetOrderItemsRequest, GetOrderItemsResponse>;
+  /** Remove order item */
+  removeOrderItem: handleUnaryCall<RemoveOrderItemRequest, RemoveOrderItemResponse>;
+  /** Stream all orders (optionally of one user and/or status) in ID order */
+  streamOrders: handleServerStreamingCall<StreamOrdersRequest, Order>;
+  /** Order event channel: subscribe to order events and send status updates on one stream */
+  orderEvents: handleBidiStreamingCall<OrderEventRequest, OrderEvent>;
+}
+
+export interface OrderServiceClient extends Client {
+  /** Create a new order */
+  createOrder(
+    request: CreateOrderRequest,
+    callback: (error: ServiceError | null, response: OrderResponse) => void,
+  ): ClientUnaryCall;
+  createOrder(
+    request: CreateOrderRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: OrderResponse) => void,
+  ): ClientUnaryCall;
+  createOrder(
+    request: CreateOrderRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: OrderResponse) => void,
+  ): ClientUnaryCall;
+  /** Get order by ID */
+  getOrderById(
+    request: GetOrderByIdRequest,
+    callback: (error: ServiceError | null, response: OrderResponse) => void,
+  ): ClientUnaryCall;
+  getOrderById(
+    request: GetOrderByIdRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: OrderResponse) => void,
+  ): ClientUnaryCall;
+  getOrderById(
+    request: GetOrderByIdRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: OrderResponse) => void,
+  ): ClientUnaryCall;
+  /** Get order by order number */
+  getOrderByNumber(
+    request: GetOrderByNumberRequest,
+    callback: (error: ServiceError | null, response: OrderResponse) => void,
+  ): ClientUnaryCall;
+  getOrderByNumber(
+    request: GetOrderByNumberRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: OrderResponse) => void,
+  ): ClientUnaryCall;
+  getOrderByNumber(
+    request: GetOrderByNumberRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: OrderResponse) => void,
+  ): ClientUnaryCall;
+  /** Get all orders */
+  getAllOrders(
+    request: GetAllOrdersRequest,
+    callback: (error: ServiceError | null, response: GetAllOrdersResponse) => void,
+  ): ClientUnaryCall;
+  getAllOrders(
+    request: GetAllOrdersRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: GetAllOrdersResponse) => void,
+  ): ClientUnaryCall;
+  getAllOrders(
+    request: GetAllOrdersRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: GetAllOrdersResponse) => void,
+  ): ClientUnaryCall;
+  /** Get orders by user ID */
+  getOrdersByUserId(
+    request: GetOrdersByUserIdRequest,
+    callback: (error: ServiceError | null, response: GetAllOrdersResponse) => void,
+  ): ClientUnaryCall;
+  getOrdersByUserId(
+    request: GetOrdersByUserIdRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: GetAllOrdersResponse) => void,
+  ): ClientUnaryCall;
+  getOrdersByUserId(
+    request: GetOrdersByUserIdRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: GetAllOrdersResponse) => void,
+  ): ClientUnaryCall;
+  /** Update order status */
+  updateOrderStatus(
+    request: UpdateOrderStatusRequest,
+    callback: (error: ServiceError | null, response: OrderResponse) => void,
+  ): ClientUnaryCall;
+  updateOrderStatus(
+    request: UpdateOrderStatusRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: OrderResponse) => void,
+  ): ClientUnaryCall;
+  updateOrderStatus(
+    request: UpdateOrderStatusRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: OrderResponse) => void,
+  ): ClientUnaryCall;
+  /** Soft delete order, keeping its items; reads skip deleted orders until they are restored */
+  deleteOrder(
+    request: DeleteOrderRequest,
+    callback: (error: ServiceError | null, response: DeleteOrderResponse) => void,
+  ): ClientUnaryCall;
+  deleteOrder(
+    request: DeleteOrderRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: DeleteOrderResponse) => void,
+  ): ClientUnaryCall;
+  deleteOrder(
+    request: DeleteOrderRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: DeleteOrderResponse) => void,
+  ): ClientUnaryCall;
+  /** Restore a deleted order, reserving its items' stock again */
+  restoreOrder(
+    request: RestoreOrderRequest,
+    callback: (error: ServiceError | null, response: OrderResponse) => void,
+  ): ClientUnaryCall;
+  restoreOrder(
+    request: RestoreOrderRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: OrderResponse) => void,
+  ): ClientUnaryCall;
+  restoreOrder(
+    request: RestoreOrderRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: OrderResponse) => void,
+  ): ClientUnaryCall;
+  /** Recorded changes of an order, deleted or not */
+  getOrderAuditLog(
+    request: GetOrderAuditLogRequest,
+    callback: (error: ServiceError | null, response: AuditLogResponse) => void,
+  ): ClientUnaryCall;
+  getOrderAuditLog(
+    request: GetOrderAuditLogRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: AuditLogResponse) => void,
+  ): ClientUnaryCall;
+  getOrderAuditLog(
+    request: GetOrderAuditLogRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: AuditLogResponse) => void,
+  ): ClientUnaryCall;
+  /** Add order item */
+  addOrderItem(
+    request: AddOrderItemRequest,
+    callback: (error: ServiceError | null, response: OrderItemResponse) => void,
+  ): ClientUnaryCall;
+  addOrderItem(
+    request: AddOrderItemRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: OrderItemResponse) => void,
+  ): ClientUnaryCall;
+  addOrderItem(
+    request: AddOrderItemRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: OrderItemResponse) => void,
+  ): ClientUnaryCall;
+  /** Get order items */
+  getOrderItems(
+    request: GetOrderItemsRequest,
+    callback: (error: ServiceError | null, response: GetOrderItemsResponse) => void,
+  ): ClientUnaryCall;
+  getOrderItems(
+    request: GetOrderItemsRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: GetOrderItemsResponse) => void,
+  ): ClientUnaryCall;
+  getOrderItems(
+    request: GetOrderItemsRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: GetOrderItemsResponse) => void,
+  ): ClientUnaryCall;
+  /** Remove order item */
+  removeOrderItem(
+    request: RemoveOrderItemRequest,
+    callback: (error: ServiceError | null, response: RemoveOrderItemResponse) => void,
+  ): ClientUnaryCall;
+  removeOrderItem(
+    request: RemoveOrderItemRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: RemoveOrderItemResponse) => void,
+  ): ClientUnaryCall;
+  removeOrderItem(
+    request: RemoveOrderItemRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: RemoveOrderItemResponse) => void,
+  ): ClientUnaryCall;
+  /** Stream all orders (optionally of one user and/or status) in ID order */
+  streamOrders(request: StreamOrdersRequest, options?: Partial<CallOptions>): ClientReadableStream<Order>;
+  streamOrders(
+    request: StreamOrdersRequest,
+    metadata?: Metadata,
+    options?: Partial<CallOptions>,
+  ): ClientReadableStream<Order>;
+  /** Order event channel: subscribe to order events and send status updates on one stream */
+  orderEvents(): ClientDuplexStream<OrderEventRequest, OrderEvent>;
+  orderEvents(options: Partial<CallOptions>): ClientDuplexStream<OrderEventRequest, OrderEvent>;
+  orderEvents(metadata: Metadata, options?: Partial<CallOptions>): ClientDuplexStream<OrderEventRequest, OrderEvent>;
+}
+
+export const OrderServiceClient = makeGenericClientConstructor(
+  OrderServiceService,
+  "order.OrderService",
+) as unknown as {
+  new (address: string, credentials: ChannelCredentials, options?: Partial<ClientOptions>): OrderServiceClient;
+  service: typeof OrderServiceService;
+  serviceName: string;
+};
@@ -0,0 +1,1737 @@
+// Code generated by protoc-gen-ts_proto. DO NOT EDIT.
+// versions:
+//   protoc-gen-ts_proto  v1.181.2
+//   protoc               v3.21.12
+// source: product.proto
+
+/* eslint-disable */
+import {
+  type CallOptions,
+  ChannelCredentials,
+  Client,
+  type ClientOptions,
+  ClientReadableStream,
+  type ClientUnaryCall,
+  ClientWritableStream,
+  handleClientStreamingCall,
+  handleServerStreamingCall,
+  type handleUnaryCall,
+  makeGenericClientConstructor,
+  Metadata,
+  type ServiceError,
+  type UntypedServiceImplementation,
+} from "@grpc/grpc-js";
+import _m0 from "protobufjs/minimal";
+import { AuditLogResponse } from "./audit";
+
+export const protobufPackage = "product";
+
+/** Sort order of SearchProducts; UNSPECIFIED ranks by relevance when a query is given, newest first otherwise */
+export enum ProductSortOrder {
+  PRODUCT_SORT_ORDER_UNSPECIFIED = "PRODUCT_SORT_ORDER_UNSPECIFIED",
+  PRODUCT_SORT_ORDER_RELEVANCE = "PRODUCT_SORT_ORDER_RELEVANCE",
+  PRODUCT_SORT_ORDER_PRICE_ASC = "PRODUCT_SORT_ORDER_PRICE_ASC",
+  PRODUCT_SORT_ORDER_PRICE_DESC = "PRODUCT_SORT_ORDER_PRICE_DESC",
+  PRODUCT_SORT_ORDER_NAME = "PRODUCT_SORT_ORDER_NAME",
+  PRODUCT_SORT_ORDER_NEWEST = "PRODUCT_SORT_ORDER_NEWEST",
+  UNRECOGNIZED = "UNRECOGNIZED",
+}
+
+export function productSortOrderFromJSON(object: any): ProductSortOrder {
+  switch (object) {
+    case 0:
+    case "PRODUCT_SORT_ORDER_UNSPECIFIED":
+      return ProductSortOrder.PRODUCT_SORT_ORDER_UNSPECIFIED;
+    case 1:
+    case "PRODUCT_SORT_ORDER_RELEVANCE":
+      return ProductSortOrder.PRODUCT_SORT_ORDER_RELEVANCE;
+    case 2:
+    case "PRODUCT_SORT_ORDER_PRICE_ASC":
+      return ProductSortOrder.PRODUCT_SORT_ORDER_PRICE_ASC;
+    case 3:
+    case "PRODUCT_SORT_ORDER_PRICE_DESC":
+      return ProductSortOrder.PRODUCT_SORT_ORDER_PRICE_DESC;
+    case 4:
+    case "PRODUCT_SORT_ORDER_NAME":
+      return ProductSortOrder.PRODUCT_SORT_ORDER_NAME;
+    case 5:
+    case "PRODUCT_SORT_ORDER_NEWEST":
+      return ProductSortOrder.PRODUCT_SORT_ORDER_NEWEST;
+    case -1:
+    case "UNRECOGNIZED":
+    default:
+      return ProductSortOrder.UNRECOGNIZED;
+  }
+}
+
+export function productSortOrderToNumber(object: ProductSortOrder): number {
+  switch (object) {
+    case ProductSortOrder.PRODUCT_SORT_ORDER_UNSPECIFIED:
+      return 0;
+    case ProductSortOrder.PRODUCT_SORT_ORDER_RELEVANCE:
+      return 1;
+    case ProductSortOrder.PRODUCT_SORT_ORDER_PRICE_ASC:
+      return 2;
+    case ProductSortOrder.PRODUCT_SORT_ORDER_PRICE_DESC:
+      return 3;
+    case ProductSortOrder.PRODUCT_SORT_ORDER_NAME:
+      return 4;
+    case ProductSortOrder.PRODUCT_SORT_ORDER_NEWEST:
+      return 5;
+    case ProductSortOrder.UNRECOGNIZED:
+    default:
+      return -1;
+  }
+}
+
+/** Product message definition */
+export interface Product {
+  id: number;
+  name: string;
+  description: string;
+  price: number;
+  category: string;
+  brand: string;
+  stock_quantity: number;
+  sku: string;
+  image_url: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  /** Incremented by every change; send it back as expected_version to update only this state */
+  version: number;
+}
+
+/** Request/Response messages for CreateProduct */
+export interface CreateProductRequest {
+  name: string;
+  description: string;
+  price: number;
+  category: string;
+  brand: string;
+  stock_quantity: number;
+  sku: string;
+  image_url: string;
+  is_active: boolean;
+}
+
+export interface ProductResponse {
+  product: Product | undefined;
+  message: string;
+  success: boolean;
+}
+
+/** Request/Response messages for GetProductById */
+export interface GetProductByIdRequest {
+  id: number;
+}
+
+/** Request/Response messages for GetProductBySku */
+export interface GetProductBySkuRequest {
+  sku: string;
+}
+
+/** Request/Response messages for GetAllProducts */
+export interface GetAllProductsRequest {
+  page: number;
+  limit: number;
+}
+
+export interface GetAllProductsResponse {
+  products: Product[];
+  total: number;
+  page: number;
+  limit: number;
+  message: string;
+  success: boolean;
+}
+
+/** Request/Response messages for GetProductsByCategory */
+export interface GetProductsByCategoryRequest {
+  category: string;
+  page: number;
+  limit: number;
+}
+
+/** Request message for SearchProducts; empty fields do not filter */
+export interface SearchProductsRequest {
+  query: string;
+  brand: string;
+  category: string;
+  min_price?: number | undefined;
+  max_price?: number | undefined;
+  in_stock_only: boolean;
+  is_active?: boolean | undefined;
+  sort: ProductSortOrder;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Request/Response messages for UpdateProduct
+ * Only the fields that are set are changed; unset fields keep their values
+ */
+export interface UpdateProductRequest {
+  id: number;
+  name?: string | undefined;
+  description?: string | undefined;
+  price?: number | undefined;
+  category?: string | undefined;
+  brand?: string | undefined;
+  stock_quantity?: number | undefined;
+  sku?: string | undefined;
+  image_url?: string | undefined;
+  is_active?:
+    | boolean
+    | undefined;
+  /** Fail with ABORTED unless the product still has this version */
+  expected_version?: number | undefined;
+}
+
+/** Request/Response messages for DeleteProduct */
+export interface DeleteProductRequest {
+  id: number;
+}
+
+export interface DeleteProductResponse {
+  success: boolean;
+  message: string;
+}
+
+/** Request message for RestoreProduct */
+export interface RestoreProductRequest {
+  id: number;
+}
+
+/** Request message for GetProductAuditLog */
+export interface GetProductAuditLogRequest {
+  id: number;
+}
+
+/** Request message for StreamProducts; batch_size is how many rows are read from the store at a time */
+export interface StreamProductsRequest {
+  category: string;
+  batch_size: number;
+}
+
+/** Response message for BulkCreateProducts */
+export interface BulkCreateProductsResponse {
+  products: Product[];
+  created: number;
+  message: string;
+  success: boolean;
+}
+
+function createBaseProduct(): Product {
+  return {
+    id: 0,
+    name: "",
+    description: "",
+    price: 0,
+    category: "",
+    brand: "",
+    stock_quantity: 0,
+    sku: "",
+    image_url: "",
+    is_active: false,
+    created_at: "",
+    updated_at: "",
+    version: 0,
+  };
+}
+
+export const Product = {
+  encode(message: Product, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    if (message.name !== "") {
+      writer.uint32(18).string(message.name);
+    }
+    if (message.description !== "") {
+      writer.uint32(26).string(message.description);
+    }
+    if (message.price !== 0) {
+      writer.uint32(33).double(message.price);
+    }
+    if (message.category !== "") {
+      writer.uint32(42).string(message.category);
+    }
+    if (message.brand !== "") {
+      writer.uint32(50).string(message.brand);
+    }
+    if (message.stock_quantity !== 0) {
+      writer.uint32(56).int32(message.stock_quantity);
+    }
+    if (message.sku !== "") {
+      writer.uint32(66).string(message.sku);
+    }
+    if (message.image_url !== "") {
+      writer.uint32(74).string(message.image_url);
+    }
+    if (message.is_active !== false) {
+      writer.uint32(80).bool(message.is_active);
+    }
+    if (message.created_at !== "") {
+      writer.uint32(90).string(message.created_at);
+    }
+    if (message.updated_at !== "") {
+      writer.uint32(98).string(message.updated_at);
+    }
+    if (message.version !== 0) {
+      writer.uint32(104).int32(message.version);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): Product {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseProduct();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.name = reader.string();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.description = reader.string();
+          continue;
+        case 4:
+          if (tag !== 33) {
+            break;
+          }
+
+          message.price = reader.double();
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.category = reader.string();
+          continue;
+        case 6:
+          if (tag !== 50) {
+            break;
+          }
+
+          message.brand = reader.string();
+          continue;
+        case 7:
+          if (tag !== 56) {
+            break;
+          }
+
+          message.stock_quantity = reader.int32();
+          continue;
+        case 8:
+          if (tag !== 66) {
+            break;
+          }
+
+          message.sku = reader.string();
+          continue;
+        case 9:
+          if (tag !== 74) {
+            break;
+          }
+
+          message.image_url = reader.string();
+          continue;
+        case 10:
+          if (tag !== 80) {
+            break;
+          }
+
+          message.is_active = reader.bool();
+          continue;
+        case 11:
+          if (tag !== 90) {
+            break;
+          }
+
+          message.created_at = reader.string();
+          continue;
+        case 12:
+          if (tag !== 98) {
+            break;
+          }
+
+          message.updated_at = reader.string();
+          continue;
+        case 13:
+          if (tag !== 104) {
+            break;
+          }
+
+          message.version = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseCreateProductRequest(): CreateProductRequest {
+  return {
+    name: "",
+    description: "",
+    price: 0,
+    category: "",
+    brand: "",
+    stock_quantity: 0,
+    sku: "",
+    image_url: "",
+    is_active: false,
+  };
+}
+
+export const CreateProductRequest = {
+  encode(message: CreateProductRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.name !== "") {
+      writer.uint32(10).string(message.name);
+    }
+    if (message.description !== "") {
+      writer.uint32(18).string(message.description);
+    }
+    if (message.price !== 0) {
+      writer.uint32(25).double(message.price);
+    }
+    if (message.category !== "") {
+      writer.uint32(34).string(message.category);
+    }
+    if (message.brand !== "") {
+      writer.uint32(42).string(message.brand);
+    }
+    if (message.stock_quantity !== 0) {
+      writer.uint32(48).int32(message.stock_quantity);
+    }
+    if (message.sku !== "") {
+      writer.uint32(58).string(message.sku);
+    }
+    if (message.image_url !== "") {
+      writer.uint32(66).string(message.image_url);
+    }
+    if (message.is_active !== false) {
+      writer.uint32(72).bool(message.is_active);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): CreateProductRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseCreateProductRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.name = reader.string();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.description = reader.string();
+          continue;
+        case 3:
+          if (tag !== 25) {
+            break;
+          }
+
+          message.price = reader.double();
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          message.category = reader.string();
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.brand = reader.string();
+          continue;
+        case 6:
+          if (tag !== 48) {
+            break;
+          }
+
+          message.stock_quantity = reader.int32();
+          continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.sku = reader.string();
+          continue;
+        case 8:
+          if (tag !== 66) {
+            break;
+          }
+
+          message.image_url = reader.string();
+          continue;
+        case 9:
+          if (tag !== 72) {
+            break;
+          }
+
+          message.is_active = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseProductResponse(): ProductResponse {
+  return { product: undefined, message: "", success: false };
+}
+
+export const ProductResponse = {
+  encode(message: ProductResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.product !== undefined) {
+      Product.encode(message.product, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.message !== "") {
+      writer.uint32(18).string(message.message);
+    }
+    if (message.success !== false) {
+      writer.uint32(24).bool(message.success);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): ProductResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseProductResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.product = Product.decode(reader, reader.uint32());
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetProductByIdRequest(): GetProductByIdRequest {
+  return { id: 0 };
+}
+
+export const GetProductByIdRequest = {
+  encode(message: GetProductByIdRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetProductByIdRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetProductByIdRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetProductBySkuRequest(): GetProductBySkuRequest {
+  return { sku: "" };
+}
+
+export const GetProductBySkuRequest = {
+  encode(message: GetProductBySkuRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.sku !== "") {
+      writer.uint32(10).string(message.sku);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetProductBySkuRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetProductBySkuRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.sku = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetAllProductsRequest(): GetAllProductsRequest {
+  return { page: 0, limit: 0 };
+}
+
+export const GetAllProductsRequest = {
+  encode(message: GetAllProductsRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.page !== 0) {
+      writer.uint32(8).int32(message.page);
+    }
+    if (message.limit !== 0) {
+      writer.uint32(16).int32(message.limit);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetAllProductsRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetAllProductsRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.page = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.limit = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetAllProductsResponse(): GetAllProductsResponse {
+  return { products: [], total: 0, page: 0, limit: 0, message: "", success: false };
+}
+
+export const GetAllProductsResponse = {
+  encode(message: GetAllProductsResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    for (const v of message.products) {
+      Product.encode(v!, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.total !== 0) {
+      writer.uint32(16).int32(message.total);
+    }
+    if (message.page !== 0) {
+      writer.uint32(24).int32(message.page);
+    }
+    if (message.limit !== 0) {
+      writer.uint32(32).int32(message.limit);
+    }
+    if (message.message !== "") {
+      writer.uint32(42).string(message.message);
+    }
+    if (message.success !== false) {
+      writer.uint32(48).bool(message.success);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetAllProductsResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetAllProductsResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.products.push(Product.decode(reader, reader.uint32()));
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.total = reader.int32();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.page = reader.int32();
+          continue;
+        case 4:
+          if (tag !== 32) {
+            break;
+          }
+
+          message.limit = reader.int32();
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+        case 6:
+          if (tag !== 48) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetProductsByCategoryRequest(): GetProductsByCategoryRequest {
+  return { category: "", page: 0, limit: 0 };
+}
+
+export const GetProductsByCategoryRequest = {
+  encode(message: GetProductsByCategoryRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.category !== "") {
+      writer.uint32(10).string(message.category);
+    }
+    if (message.page !== 0) {
+      writer.uint32(16).int32(message.page);
+    }
+    if (message.limit !== 0) {
+      writer.uint32(24).int32(message.limit);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetProductsByCategoryRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetProductsByCategoryRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.category = reader.string();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.page = reader.int32();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.limit = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseSearchProductsRequest(): SearchProductsRequest {
+  return {
+    query: "",
+    brand: "",
+    category: "",
+    min_price: undefined,
+    max_price: undefined,
+    in_stock_only: false,
+    is_active: undefined,
+    sort: ProductSortOrder.PRODUCT_SORT_ORDER_UNSPECIFIED,
+    page: 0,
+    limit: 0,
+  };
+}
+
+export const SearchProductsRequest = {
+  encode(message: SearchProductsRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.query !== "") {
+      writer.uint32(10).string(message.query);
+    }
+    if (message.brand !== "") {
+      writer.uint32(18).string(message.brand);
+    }
+    if (message.category !== "") {
+      writer.uint32(26).string(message.category);
+    }
+    if (message.min_price !== undefined) {
+      writer.uint32(33).double(message.min_price);
+    }
+    if (message.max_price !== undefined) {
+      writer.uint32(41).double(message.max_price);
+    }
+    if (message.in_stock_only !== false) {
+      writer.uint32(48).bool(message.in_stock_only);
+    }
+    if (message.is_active !== undefined) {
+      writer.uint32(56).bool(message.is_active);
+    }
+    if (message.sort !== ProductSortOrder.PRODUCT_SORT_ORDER_UNSPECIFIED) {
+      writer.uint32(64).int32(productSortOrderToNumber(message.sort));
+    }
+    if (message.page !== 0) {
+      writer.uint32(72).int32(message.page);
+    }
+    if (message.limit !== 0) {
+      writer.uint32(80).int32(message.limit);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): SearchProductsRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseSearchProductsRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.query = reader.string();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.brand = reader.string();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.category = reader.string();
+          continue;
+        case 4:
+          if (tag !== 33) {
+            break;
+          }
+
+          message.min_price = reader.double();
+          continue;
+        case 5:
+          if (tag !== 41) {
+            break;
+          }
+
+          message.max_price = reader.double();
+          continue;
+        case 6:
+          if (tag !== 48) {
+            break;
+          }
+
+          message.in_stock_only = reader.bool();
+          continue;
+        case 7:
+          if (tag !== 56) {
+            break;
+          }
+
+          message.is_active = reader.bool();
+          continue;
+        case 8:
+          if (tag !== 64) {
+            break;
+          }
+
+          message.sort = productSortOrderFromJSON(reader.int32());
+          continue;
+        case 9:
+          if (tag !== 72) {
+            break;
+          }
+
+          message.page = reader.int32();
+          continue;
+        case 10:
+          if (tag !== 80) {
+            break;
+          }
+
+          message.limit = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseUpdateProductRequest(): UpdateProductRequest {
+  return {
+    id: 0,
+    name: undefined,
+    description: undefined,
+    price: undefined,
+    category: undefined,
+    brand: undefined,
+    stock_quantity: undefined,
+    sku: undefined,
+    image_url: undefined,
+    is_active: undefined,
+    expected_version: undefined,
+  };
+}
+
+export const UpdateProductRequest = {
+  encode(message: UpdateProductRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    if (message.name !== undefined) {
+      writer.uint32(18).string(message.name);
+    }
+    if (message.description !== undefined) {
+      writer.uint32(26).string(message.description);
+    }
+    if (message.price !== undefined) {
+      writer.uint32(33).double(message.price);
+    }
+    if (message.category !== undefined) {
+      writer.uint32(42).string(message.category);
+    }
+    if (message.brand !== undefined) {
+      writer.uint32(50).string(message.brand);
+    }
+    if (message.stock_quantity !== undefined) {
+      writer.uint32(56).int32(message.stock_quantity);
+    }
+    if (message.sku !== undefined) {
+      writer.uint32(66).string(message.sku);
+    }
+    if (message.image_url !== undefined) {
+      writer.uint32(74).string(message.image_url);
+    }
+    if (message.is_active !== undefined) {
+      writer.uint32(80).bool(message.is_active);
+    }
+    if (message.expected_version !== undefined) {
+      writer.uint32(88).int32(message.expected_version);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): UpdateProductRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseUpdateProductRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.name = reader.string();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.description = reader.string();
+          continue;
+        case 4:
+          if (tag !== 33) {
+            break;
+          }
+
+          message.price = reader.double();
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.category = reader.string();
+          continue;
+        case 6:
+          if (tag !== 50) {
+            break;
+          }
+
+          message.brand = reader.string();
+          continue;
+        case 7:
+          if (tag !== 56) {
+            break;
+          }
+
+          message.stock_quantity = reader.int32();
+          continue;
+        case 8:
+          if (tag !== 66) {
+            break;
+          }
+
+          message.sku = reader.string();
+          continue;
+        case 9:
+          if (tag !== 74) {
+            break;
+          }
+
+          message.image_url = reader.string();
+          continue;
+        case 10:
+          if (tag !== 80) {
+            break;
+          }
+
+          message.is_active = reader.bool();
+          continue;
+        case 11:
+          if (tag !== 88) {
+            break;
+          }
+
+          message.expected_version = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseDeleteProductRequest(): DeleteProductRequest {
+  return { id: 0 };
+}
+
+export const DeleteProductRequest = {
+  encode(message: DeleteProductRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): DeleteProductRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseDeleteProductRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseDeleteProductResponse(): DeleteProductResponse {
+  return { success: false, message: "" };
+}
+
+export const DeleteProductResponse = {
+  encode(message: DeleteProductResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.success !== false) {
+      writer.uint32(8).bool(message.success);
+    }
+    if (message.message !== "") {
+      writer.uint32(18).string(message.message);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): DeleteProductResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseDeleteProductResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseRestoreProductRequest(): RestoreProductRequest {
+  return { id: 0 };
+}
+
+export const RestoreProductRequest = {
+  encode(message: RestoreProductRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): RestoreProductRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseRestoreProductRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetProductAuditLogRequest(): GetProductAuditLogRequest {
+  return { id: 0 };
+}
+
+export const GetProductAuditLogRequest = {
+  encode(message: GetProductAuditLogRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetProductAuditLogRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetProductAuditLogRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseStreamProductsRequest(): StreamProductsRequest {
+  return { category: "", batch_size: 0 };
+}
+
+export const StreamProductsRequest = {
+  encode(message: StreamProductsRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.category !== "") {
+      writer.uint32(10).string(message.category);
+    }
+    if (message.batch_size !== 0) {
+      writer.uint32(16).int32(message.batch_size);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): StreamProductsRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseStreamProductsRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.category = reader.string();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.batch_size = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseBulkCreateProductsResponse(): BulkCreateProductsResponse {
+  return { products: [], created: 0, message: "", success: false };
+}
+
+export const BulkCreateProductsResponse = {
+  encode(message: BulkCreateProductsResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    for (const v of message.products) {
+      Product.encode(v!, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.created !== 0) {
+      writer.uint32(16).int32(message.created);
+    }
+    if (message.message !== "") {
+      writer.uint32(26).string(message.message);
+    }
+    if (message.success !== false) {
+      writer.uint32(32).bool(message.success);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): BulkCreateProductsResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseBulkCreateProductsResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.products.push(Product.decode(reader, reader.uint32()));
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.created = reader.int32();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+        case 4:
+          if (tag !== 32) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+/** Product service definition */
+export type ProductServiceService = typeof ProductServiceService;
+export const ProductServiceService = {
+  /** Create a new product */
+  createProduct: {
+    path: "/product.ProductService/CreateProduct",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: CreateProductRequest) => Buffer.from(CreateProductRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => CreateProductRequest.decode(value),
+    responseSerialize: (value: ProductResponse) => Buffer.from(ProductResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => ProductResponse.decode(value),
+  },
+  /** Get product by ID */
+  getProductById: {
+    path: "/product.ProductService/GetProductById",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: GetProductByIdRequest) => Buffer.from(GetProductByIdRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => GetProductByIdRequest.decode(value),
+    responseSerialize: (value: ProductResponse) => Buffer.from(ProductResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => ProductResponse.decode(value),
+  },
+  /** Get product by SKU */
+  getProductBySku: {
+    path: "/product.ProductService/GetProductBySku",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: GetProductBySkuRequest) => Buffer.from(GetProductBySkuRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => GetProductBySkuRequest.decode(value),
+    responseSerialize: (value: ProductResponse) => Buffer.from(ProductResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => ProductResponse.decode(value),
+  },
+  /** Get all products */
+  getAllProducts: {
+    path: "/product.ProductService/GetAllProducts",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: GetAllProductsRequest) => Buffer.from(GetAllProductsRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => GetAllProductsRequest.decode(value),
+    responseSerialize: (value: GetAllProductsResponse) => Buffer.from(GetAllProductsResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => GetAllProductsResponse.decode(value),
+  },
+  /** Get products by category */
+  getProductsByCategory: {
+    path: "/product.ProductService/GetProductsByCategory",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: GetProductsByCategoryRequest) =>
+      Buffer.from(GetProductsByCategoryRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => GetProductsByCategoryRequest.decode(value),
+    responseSerialize: (value: GetAllProductsResponse) => Buffer.from(GetAllProductsResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => GetAllProductsResponse.decode(value),
+  },
+  /** Search products by free text and filters */
+  searchProducts: {
+    path: "/product.ProductService/SearchProducts",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: SearchProductsRequest) => Buffer.from(SearchProductsRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => SearchProductsRequest.decode(value),
+    responseSerialize: (value: GetAllProductsResponse) => Buffer.from(GetAllProductsResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => GetAllProductsResponse.decode(value),
+  },
+  /** Stream all products (optionally of one category) in ID order */
+  streamProducts: {
+    path: "/product.ProductService/StreamProducts",
+    requestStream: false,
+    responseStream: true,
+    requestSerialize: (value: StreamProductsRequest) => Buffer.from(StreamProductsRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => StreamProductsRequest.decode(value),
+    responseSerialize: (value: Product) => Buffer.from(Product.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => Product.decode(value),
+  },
+  /** Create products from a stream of requests, all or none */
+  bulkCreateProducts: {
+    path: "/product.ProductService/BulkCreateProducts",
+    requestStream: true,
+    responseStream: false,
+    requestSerialize: (value: CreateProductRequest) => Buffer.from(CreateProductRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => CreateProductRequest.decode(value),
+    responseSerialize: (value: BulkCreateProductsResponse) =>
+      Buffer.from(BulkCreateProductsResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => BulkCreateProductsResponse.decode(value),
+  },
+  /** Update product */
+  updateProduct: {
+    path: "/product.ProductService/UpdateProduct",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: UpdateProductRequest) => Buffer.from(UpdateProductRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => UpdateProductRequest.decode(value),
+    responseSerialize: (value: ProductResponse) => Buffer.from(ProductResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => ProductResponse.decode(value),
+  },
+  /** Soft delete product; reads skip deleted products until they are restored, order items keep them */
+  deleteProduct: {
+    path: "/product.ProductService/DeleteProduct",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: DeleteProductRequest) => Buffer.from(DeleteProductRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => DeleteProductRequest.decode(value),
+    responseSerialize: (value: DeleteProductResponse) => Buffer.from(DeleteProductResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => DeleteProductResponse.decode(value),
+  },
+  /** Restore a deleted product */
+  restoreProduct: {
+    path: "/product.ProductService/RestoreProduct",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: RestoreProductRequest) => Buffer.from(RestoreProductRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => RestoreProductRequest.decode(value),
+    responseSerialize: (value: ProductResponse) => Buffer.from(ProductResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => ProductResponse.decode(value),
+  },
+  /** Recorded changes of a product, deleted or not */
+  getProductAuditLog: {
+    path: "/product.ProductService/GetProductAuditLog",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: GetProductAuditLogRequest) =>
+      Buffer.from(GetProductAuditLogRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => GetProductAuditLogRequest.decode(value),
+    responseSerialize: (value: AuditLogResponse) => Buffer.from(AuditLogResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => AuditLogResponse.decode(value),
+  },
+} as const;
+
+export interface ProductServiceServer extends UntypedServiceImplementation {
+  /** Create a new product */
+  createProduct: handleUnaryCall<CreateProductRequest, ProductResponse>;
+  /** Get product by ID */
+  getProductById: handleUnaryCall<GetProductByIdRequest, ProductResponse>;
+  /** Get product by SKU */
+  getProductBySku: handleUnaryCall<GetProductBySkuRequest, ProductResponse>;
+  /** Get all products */
+  getAllProducts: handleUnaryCall<GetAllProductsRequest, GetAllProductsResponse>;
+  /** Get products by category */
+  getProductsByCategory: handleUnaryCall<GetProductsByCategoryRequest, GetAllProductsResponse>;
+  /** Search products by free text and filters */
+  searchProducts: handleUnaryCall<SearchProductsRequest, GetAllProductsResponse>;
+  /** Stream all products (optionally of one category) in ID order */
+  streamProducts: handleServerStreamingCall<StreamProductsRequest, Product>;
+  /** Create products from a stream of requests, all or none */
+  bulkCreateProducts: handleClientStreamingCall<CreateProductRequest, BulkCreateProductsResponse>;
+  /** Update product */
+  updateProduct: handleUnaryCall<UpdateProductRequest, ProductResponse>;
+  /** Soft delete product; reads skip deleted products until they are restored, order items keep them */
+  deleteProduct: handleUnaryCall<DeleteProductRequest, DeleteProductResponse>;
+  /** Restore a deleted product */
+  restoreProduct: handleUnaryCall<RestoreProductRequest, ProductResponse>;
+  /** Recorded changes of a product, deleted or not */
+  getProductAuditLog: handleUnaryCall<GetProductAuditLogRequest, AuditLogResponse>;
+}
+
+export interface ProductServiceClient extends Client {
+  /** Create a new product */
+  createProduct(
+    request: CreateProductRequest,
+    callback: (error: ServiceError | null, response: ProductResponse) => void,
+  ): ClientUnaryCall;
+  createProduct(
+    request: CreateProductRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: ProductResponse) => void,
+  ): ClientUnaryCall;
+  createProduct(
+    request: CreateProductRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: ProductResponse) => void,
+  ): ClientUnaryCall;
+  /** Get product by ID */
+  getProductById(
+    request: GetProductByIdRequest,
+    callback: (error: ServiceError | null, response: ProductResponse) => void,
+  ): ClientUnaryCall;
+  getProductById(
+    request: GetProductByIdRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: ProductResponse) => void,
+  ): ClientUnaryCall;
+  getProductById(
+    request: GetProductByIdRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: ProductResponse) => void,
+  ): ClientUnaryCall;
+  /** Get product by SKU */
+  getProductBySku(
+    request: GetProductBySkuRequest,
+    callback: (error: ServiceError | null, response: ProductResponse) => void,
+  ): ClientUnaryCall;
+  getProductBySku(
+    request: GetProductBySkuRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: ProductResponse) => void,
+  ): ClientUnaryCall;
+  getProductBySku(
+    request: GetProductBySkuRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: ProductResponse) => void,
+  ): ClientUnaryCall;
+  /** Get all products */
+  getAllProducts(
+    request: GetAllProductsRequest,
+    callback: (error: ServiceError | null, response: GetAllProductsResponse) => void,
+  ): ClientUnaryCall;
+  getAllProducts(
+    request: GetAllProductsRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: GetAllProductsResponse) => void,
+  ): ClientUnaryCall;
+  getAllProducts(
+    request: GetAllProductsRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: GetAllProductsResponse) => void,
+  ): ClientUnaryCall;
+  /** Get products by category */
+  getProductsByCategory(
+    request: GetProductsByCategoryRequest,
+    callback: (error: ServiceError | null, response: GetAllProductsResponse) => void,
+  ): ClientUnaryCall;
+  getProductsByCategory(
+    request: GetProductsByCategoryRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: GetAllProductsResponse) => void,
+  ): ClientUnaryCall;
+  getProductsByCategory(
+    request: GetProductsByCategoryRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: GetAllProductsResponse) => void,
+  ): ClientUnaryCall;
+  /** Search products by free text and filters */
+  searchProducts(
+    request: SearchProductsRequest,
+    callback: (error: ServiceError | null, response: GetAllProductsResponse) => void,
+  ): ClientUnaryCall;
+  searchProducts(
+    request: SearchProductsRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: GetAllProductsResponse) => void,
+  ): ClientUnaryCall;
+  searchProducts(
+    request: SearchProductsRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: GetAllProductsResponse) => void,
+  ): ClientUnaryCall;
+  /** Stream all products (optionally of one category) in ID order */
+  streamProducts(request: StreamProductsRequest, options?: Partial<CallOptions>): ClientReadableStream<Product>;
+  streamProducts(
+    request: StreamProductsRequest,
+    metadata?: Metadata,
+    options?: Partial<CallOptions>,
+  ): ClientReadableStream<Product>;
+  /** Create products from a stream of requests, all or none */
+  bulkCreateProducts(
+    callback: (error: ServiceError | null, response: BulkCreateProductsResponse) => void,
+  ): ClientWritableStream<CreateProductRequest>;
+  bulkCreateProducts(
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: BulkCreateProductsResponse) => void,
+  ): ClientWritableStream<CreateProductRequest>;
+  bulkCreateProducts(
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: BulkCreateProductsResponse) => void,
+  ): ClientWritableStream<CreateProductRequest>;
+  bulkCreateProducts(
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: BulkCreateProductsResponse) => void,
+  ): ClientWritableStream<CreateProductRequest>;
+  /** Update product */
+  updateProduct(
+    request: UpdateProductRequest,
+    callback: (error: ServiceError | null, response: ProductResponse) => void,
+  ): ClientUnaryCall;
+  updateProduct(
+    request: UpdateProductRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: ProductResponse) => void,
+  ): ClientUnaryCall;
+  updateProduct(
+    request: UpdateProductRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: ProductResponse) => void,
+  ): ClientUnaryCall;
+  /** Soft delete product; reads skip deleted products until they are restored, order items keep them */
+  deleteProduct(
+    request: DeleteProductRequest,
+    callback: (error: ServiceError | null, response: DeleteProductResponse) => void,
+  ): ClientUnaryCall;
+  deleteProduct(
+    request: DeleteProductRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: DeleteProductResponse) => void,
+  ): ClientUnaryCall;
+  deleteProduct(
+    request: DeleteProductRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: DeleteProductResponse) => void,
+  ): ClientUnaryCall;
+  /** Restore a deleted product */
+  restoreProduct(
+    request: RestoreProductRequest,
+    callback: (error: ServiceError | null, response: ProductResponse) => void,
+  ): ClientUnaryCall;
+  restoreProduct(
+    request: RestoreProductRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: ProductResponse) => void,
+  ): ClientUnaryCall;
+  restoreProduct(
+    request: RestoreProductRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: ProductResponse) => void,
+  ): ClientUnaryCall;
+  /** Recorded changes of a product, deleted or not */
+  getProductAuditLog(
+    request: GetProductAuditLogRequest,
+    callback: (error: ServiceError | null, response: AuditLogResponse) => void,
+  ): ClientUnaryCall;
+  getProductAuditLog(
+    request: GetProductAuditLogRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: AuditLogResponse) => void,
+  ): ClientUnaryCall;
+  getProductAuditLog(
+    request: GetProductAuditLogRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: AuditLogResponse) => void,
+  ): ClientUnaryCall;
+}
+
+export const ProductServiceClient = makeGenericClientConstructor(
+  ProductServiceService,
+  "product.ProductService",
+) as unknown as {
+  new (address: string, credentials: ChannelCredentials, options?: Partial<ClientOptions>): ProductServiceClient;
+  service: typeof ProductServiceService;
+  serviceName: string;
+};
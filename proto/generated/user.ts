@@ -0,0 +1,1555 @@
+// Code generated by protoc-gen-ts_proto. DO NOT EDIT.
+// versions:
+//   protoc-gen-ts_proto  v1.181.2
+//   protoc               v3.21.12
+// source: user.proto
+
+/* eslint-disable */
+import {
+  type CallOptions,
+  ChannelCredentials,
+  Client,
+  type ClientOptions,
+  type ClientUnaryCall,
+  ClientWritableStream,
+  handleClientStreamingCall,
+  type handleUnaryCall,
+  makeGenericClientConstructor,
+  Metadata,
+  type ServiceError,
+  type UntypedServiceImplementation,
+} from "@grpc/grpc-js";
+import _m0 from "protobufjs/minimal";
+import { AuditLogResponse } from "./audit";
+
+export const protobufPackage = "user";
+
+/** User message definition; passwords are write-only and never sent back */
+export interface User {
+  id: number;
+  username: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  phone: string;
+  address: string;
+  city: string;
+  state: string;
+  zip_code: string;
+  country: string;
+  created_at: string;
+  updated_at: string;
+  /** Incremented by every change; send it back as expected_version to update only this state */
+  version: number;
+}
+
+/** Request/Response messages for CreateUser */
+export interface CreateUserRequest {
+  username: string;
+  email: string;
+  password: string;
+  first_name: string;
+  last_name: string;
+  phone: string;
+  address: string;
+  city: string;
+  state: string;
+  zip_code: string;
+  country: string;
+}
+
+export interface UserResponse {
+  user: User | undefined;
+  message: string;
+  success: boolean;
+}
+
+/** Request/Response messages for GetUserById */
+export interface GetUserByIdRequest {
+  id: number;
+}
+
+/** Request/Response messages for GetUserByEmail */
+export interface GetUserByEmailRequest {
+  email: string;
+}
+
+/** Request/Response messages for GetAllUsers */
+export interface GetAllUsersRequest {
+  page: number;
+  limit: number;
+}
+
+export interface GetAllUsersResponse {
+  users: User[];
+  total: number;
+  page: number;
+  limit: number;
+  message: string;
+  success: boolean;
+}
+
+/**
+ * Request/Response messages for UpdateUser
+ * Only the fields that are set are changed; unset fields keep their values
+ */
+export interface UpdateUserRequest {
+  id: number;
+  username?: string | undefined;
+  email?: string | undefined;
+  password?: string | undefined;
+  first_name?: string | undefined;
+  last_name?: string | undefined;
+  phone?: string | undefined;
+  address?: string | undefined;
+  city?: string | undefined;
+  state?: string | undefined;
+  zip_code?: string | undefined;
+  country?:
+    | string
+    | undefined;
+  /** Fail with ABORTED unless the user still has this version */
+  expected_version?: number | undefined;
+}
+
+/** Request/Response messages for DeleteUser */
+export interface DeleteUserRequest {
+  id: number;
+}
+
+export interface DeleteUserResponse {
+  success: boolean;
+  message: string;
+}
+
+/** Request message for RestoreUser */
+export interface RestoreUserRequest {
+  id: number;
+}
+
+/** Request message for GetUserAuditLog */
+export interface GetUserAuditLogRequest {
+  id: number;
+}
+
+/** Response message for BulkCreateUsers */
+export interface BulkCreateUsersResponse {
+  users: User[];
+  created: number;
+  message: string;
+  success: boolean;
+}
+
+/** Request/Response messages for Login */
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface LoginResponse {
+  /** Send as `authorization: Bearer <token>` */
+  token: string;
+  expires_at: string;
+  user: User | undefined;
+  message: string;
+  success: boolean;
+}
+
+function createBaseUser(): User {
+  return {
+    id: 0,
+    username: "",
+    email: "",
+    first_name: "",
+    last_name: "",
+    phone: "",
+    address: "",
+    city: "",
+    state: "",
+    zip_code: "",
+    country: "",
+    created_at: "",
+    updated_at: "",
+    version: 0,
+  };
+}
+
+export const User = {
+  encode(message: User, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    if (message.username !== "") {
+      writer.uint32(18).string(message.username);
+    }
+    if (message.email !== "") {
+      writer.uint32(26).string(message.email);
+    }
+    if (message.first_name !== "") {
+      writer.uint32(42).string(message.first_name);
+    }
+    if (message.last_name !== "") {
+      writer.uint32(50).string(message.last_name);
+    }
+    if (message.phone !== "") {
+      writer.uint32(58).string(message.phone);
+    }
+    if (message.address !== "") {
+      writer.uint32(66).string(message.address);
+    }
+    if (message.city !== "") {
+      writer.uint32(74).string(message.city);
+    }
+    if (message.state !== "") {
+      writer.uint32(82).string(message.state);
+    }
+    if (message.zip_code !== "") {
+      writer.uint32(90).string(message.zip_code);
+    }
+    if (message.country !== "") {
+      writer.uint32(98).string(message.country);
+    }
+    if (message.created_at !== "") {
+      writer.uint32(106).string(message.created_at);
+    }
+    if (message.updated_at !== "") {
+      writer.uint32(114).string(message.updated_at);
+    }
+    if (message.version !== 0) {
+      writer.uint32(120).int32(message.version);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): User {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseUser();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.username = reader.string();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.email = reader.string();
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.first_name = reader.string();
+          continue;
+        case 6:
+          if (tag !== 50) {
+            break;
+          }
+
+          message.last_name = reader.string();
+          continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.phone = reader.string();
+          continue;
+        case 8:
+          if (tag !== 66) {
+            break;
+          }
+
+          message.address = reader.string();
+          continue;
+        case 9:
+          if (tag !== 74) {
+            break;
+          }
+
+          message.city = reader.string();
+          continue;
+        case 10:
+          if (tag !== 82) {
+            break;
+          }
+
+          message.state = reader.string();
+          continue;
+        case 11:
+          if (tag !== 90) {
+            break;
+          }
+
+          message.zip_code = reader.string();
+          continue;
+        case 12:
+          if (tag !== 98) {
+            break;
+          }
+
+          message.country = reader.string();
+          continue;
+        case 13:
+          if (tag !== 106) {
+            break;
+          }
+
+          message.created_at = reader.string();
+          continue;
+        case 14:
+          if (tag !== 114) {
+            break;
+          }
+
+          message.updated_at = reader.string();
+          continue;
+        case 15:
+          if (tag !== 120) {
+            break;
+          }
+
+          message.version = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseCreateUserRequest(): CreateUserRequest {
+  return {
+    username: "",
+    email: "",
+    password: "",
+    first_name: "",
+    last_name: "",
+    phone: "",
+    address: "",
+    city: "",
+    state: "",
+    zip_code: "",
+    country: "",
+  };
+}
+
+export const CreateUserRequest = {
+  encode(message: CreateUserRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.username !== "") {
+      writer.uint32(10).string(message.username);
+    }
+    if (message.email !== "") {
+      writer.uint32(18).string(message.email);
+    }
+    if (message.password !== "") {
+      writer.uint32(26).string(message.password);
+    }
+    if (message.first_name !== "") {
+      writer.uint32(34).string(message.first_name);
+    }
+    if (message.last_name !== "") {
+      writer.uint32(42).string(message.last_name);
+    }
+    if (message.phone !== "") {
+      writer.uint32(50).string(message.phone);
+    }
+    if (message.address !== "") {
+      writer.uint32(58).string(message.address);
+    }
+    if (message.city !== "") {
+      writer.uint32(66).string(message.city);
+    }
+    if (message.state !== "") {
+      writer.uint32(74).string(message.state);
+    }
+    if (message.zip_code !== "") {
+      writer.uint32(82).string(message.zip_code);
+    }
+    if (message.country !== "") {
+      writer.uint32(90).string(message.country);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): CreateUserRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseCreateUserRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.username = reader.string();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.email = reader.string();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.password = reader.string();
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          message.first_name = reader.string();
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.last_name = reader.string();
+          continue;
+        case 6:
+          if (tag !== 50) {
+            break;
+          }
+
+          message.phone = reader.string();
+          continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.address = reader.string();
+          continue;
+        case 8:
+          if (tag !== 66) {
+            break;
+          }
+
+          message.city = reader.string();
+          continue;
+        case 9:
+          if (tag !== 74) {
+            break;
+          }
+
+          message.state = reader.string();
+          continue;
+        case 10:
+          if (tag !== 82) {
+            break;
+          }
+
+          message.zip_code = reader.string();
+          continue;
+        case 11:
+          if (tag !== 90) {
+            break;
+          }
+
+          message.country = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseUserResponse(): UserResponse {
+  return { user: undefined, message: "", success: false };
+}
+
+export const UserResponse = {
+  encode(message: UserResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.user !== undefined) {
+      User.encode(message.user, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.message !== "") {
+      writer.uint32(18).string(message.message);
+    }
+    if (message.success !== false) {
+      writer.uint32(24).bool(message.success);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): UserResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseUserResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.user = User.decode(reader, reader.uint32());
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetUserByIdRequest(): GetUserByIdRequest {
+  return { id: 0 };
+}
+
+export const GetUserByIdRequest = {
+  encode(message: GetUserByIdRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetUserByIdRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetUserByIdRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetUserByEmailRequest(): GetUserByEmailRequest {
+  return { email: "" };
+}
+
+export const GetUserByEmailRequest = {
+  encode(message: GetUserByEmailRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.email !== "") {
+      writer.uint32(10).string(message.email);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetUserByEmailRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetUserByEmailRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.email = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetAllUsersRequest(): GetAllUsersRequest {
+  return { page: 0, limit: 0 };
+}
+
+export const GetAllUsersRequest = {
+  encode(message: GetAllUsersRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.page !== 0) {
+      writer.uint32(8).int32(message.page);
+    }
+    if (message.limit !== 0) {
+      writer.uint32(16).int32(message.limit);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetAllUsersRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetAllUsersRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.page = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.limit = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetAllUsersResponse(): GetAllUsersResponse {
+  return { users: [], total: 0, page: 0, limit: 0, message: "", success: false };
+}
+
+export const GetAllUsersResponse = {
+  encode(message: GetAllUsersResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    for (const v of message.users) {
+      User.encode(v!, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.total !== 0) {
+      writer.uint32(16).int32(message.total);
+    }
+    if (message.page !== 0) {
+      writer.uint32(24).int32(message.page);
+    }
+    if (message.limit !== 0) {
+      writer.uint32(32).int32(message.limit);
+    }
+    if (message.message !== "") {
+      writer.uint32(42).string(message.message);
+    }
+    if (message.success !== false) {
+      writer.uint32(48).bool(message.success);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetAllUsersResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetAllUsersResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.users.push(User.decode(reader, reader.uint32()));
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.total = reader.int32();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.page = reader.int32();
+          continue;
+        case 4:
+          if (tag !== 32) {
+            break;
+          }
+
+          message.limit = reader.int32();
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+        case 6:
+          if (tag !== 48) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseUpdateUserRequest(): UpdateUserRequest {
+  return {
+    id: 0,
+    username: undefined,
+    email: undefined,
+    password: undefined,
+    first_name: undefined,
+    last_name: undefined,
+    phone: undefined,
+    address: undefined,
+    city: undefined,
+    state: undefined,
+    zip_code: undefined,
+    country: undefined,
+    expected_version: undefined,
+  };
+}
+
+export const UpdateUserRequest = {
+  encode(message: UpdateUserRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    if (message.username !== undefined) {
+      writer.uint32(18).string(message.username);
+    }
+    if (message.email !== undefined) {
+      writer.uint32(26).string(message.email);
+    }
+    if (message.password !== undefined) {
+      writer.uint32(34).string(message.password);
+    }
+    if (message.first_name !== undefined) {
+      writer.uint32(42).string(message.first_name);
+    }
+    if (message.last_name !== undefined) {
+      writer.uint32(50).string(message.last_name);
+    }
+    if (message.phone !== undefined) {
+      writer.uint32(58).string(message.phone);
+    }
+    if (message.address !== undefined) {
+      writer.uint32(66).string(message.address);
+    }
+    if (message.city !== undefined) {
+      writer.uint32(74).string(message.city);
+    }
+    if (message.state !== undefined) {
+      writer.uint32(82).string(message.state);
+    }
+    if (message.zip_code !== undefined) {
+      writer.uint32(90).string(message.zip_code);
+    }
+    if (message.country !== undefined) {
+      writer.uint32(98).string(message.country);
+    }
+    if (message.expected_version !== undefined) {
+      writer.uint32(104).int32(message.expected_version);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): UpdateUserRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseUpdateUserRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.username = reader.string();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.email = reader.string();
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          message.password = reader.string();
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.first_name = reader.string();
+          continue;
+        case 6:
+          if (tag !== 50) {
+            break;
+          }
+
+          message.last_name = reader.string();
+          continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.phone = reader.string();
+          continue;
+        case 8:
+          if (tag !== 66) {
+            break;
+          }
+
+          message.address = reader.string();
+          continue;
+        case 9:
+          if (tag !== 74) {
+            break;
+          }
+
+          message.city = reader.string();
+          continue;
+        case 10:
+          if (tag !== 82) {
+            break;
+          }
+
+          message.state = reader.string();
+          continue;
+        case 11:
+          if (tag !== 90) {
+            break;
+          }
+
+          message.zip_code = reader.string();
+          continue;
+        case 12:
+          if (tag !== 98) {
+            break;
+          }
+
+          message.country = reader.string();
+          continue;
+        case 13:
+          if (tag !== 104) {
+            break;
+          }
+
+          message.expected_version = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseDeleteUserRequest(): DeleteUserRequest {
+  return { id: 0 };
+}
+
+export const DeleteUserRequest = {
+  encode(message: DeleteUserRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): DeleteUserRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseDeleteUserRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseDeleteUserResponse(): DeleteUserResponse {
+  return { success: false, message: "" };
+}
+
+export const DeleteUserResponse = {
+  encode(message: DeleteUserResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.success !== false) {
+      writer.uint32(8).bool(message.success);
+    }
+    if (message.message !== "") {
+      writer.uint32(18).string(message.message);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): DeleteUserResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseDeleteUserResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseRestoreUserRequest(): RestoreUserRequest {
+  return { id: 0 };
+}
+
+export const RestoreUserRequest = {
+  encode(message: RestoreUserRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): RestoreUserRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseRestoreUserRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseGetUserAuditLogRequest(): GetUserAuditLogRequest {
+  return { id: 0 };
+}
+
+export const GetUserAuditLogRequest = {
+  encode(message: GetUserAuditLogRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== 0) {
+      writer.uint32(8).int32(message.id);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetUserAuditLogRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetUserAuditLogRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.id = reader.int32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseBulkCreateUsersResponse(): BulkCreateUsersResponse {
+  return { users: [], created: 0, message: "", success: false };
+}
+
+export const BulkCreateUsersResponse = {
+  encode(message: BulkCreateUsersResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    for (const v of message.users) {
+      User.encode(v!, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.created !== 0) {
+      writer.uint32(16).int32(message.created);
+    }
+    if (message.message !== "") {
+      writer.uint32(26).string(message.message);
+    }
+    if (message.success !== false) {
+      writer.uint32(32).bool(message.success);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): BulkCreateUsersResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseBulkCreateUsersResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.users.push(User.decode(reader, reader.uint32()));
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.created = reader.int32();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+        case 4:
+          if (tag !== 32) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseLoginRequest(): LoginRequest {
+  return { email: "", password: "" };
+}
+
+export const LoginRequest = {
+  encode(message: LoginRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.email !== "") {
+      writer.uint32(10).string(message.email);
+    }
+    if (message.password !== "") {
+      writer.uint32(18).string(message.password);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): LoginRequest {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseLoginRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.email = reader.string();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.password = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+function createBaseLoginResponse(): LoginResponse {
+  return { token: "", expires_at: "", user: undefined, message: "", success: false };
+}
+
+export const LoginResponse = {
+  encode(message: LoginResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.token !== "") {
+      writer.uint32(10).string(message.token);
+    }
+    if (message.expires_at !== "") {
+      writer.uint32(18).string(message.expires_at);
+    }
+    if (message.user !== undefined) {
+      User.encode(message.user, writer.uint32(26).fork()).ldelim();
+    }
+    if (message.message !== "") {
+      writer.uint32(34).string(message.message);
+    }
+    if (message.success !== false) {
+      writer.uint32(40).bool(message.success);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): LoginResponse {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseLoginResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.token = reader.string();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.expires_at = reader.string();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.user = User.decode(reader, reader.uint32());
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          message.message = reader.string();
+          continue;
+        case 5:
+          if (tag !== 40) {
+            break;
+          }
+
+          message.success = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+};
+
+/** User service definition */
+export type UserServiceService = typeof UserServiceService;
+export const UserServiceService = {
+  /** Create a new user */
+  createUser: {
+    path: "/user.UserService/CreateUser",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: CreateUserRequest) => Buffer.from(CreateUserRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => CreateUserRequest.decode(value),
+    responseSerialize: (value: UserResponse) => Buffer.from(UserResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => UserResponse.decode(value),
+  },
+  /** Get user by ID */
+  getUserById: {
+    path: "/user.UserService/GetUserById",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: GetUserByIdRequest) => Buffer.from(GetUserByIdRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => GetUserByIdRequest.decode(value),
+    responseSerialize: (value: UserResponse) => Buffer.from(UserResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => UserResponse.decode(value),
+  },
+  /** Get user by email */
+  getUserByEmail: {
+    path: "/user.UserService/GetUserByEmail",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: GetUserByEmailRequest) => Buffer.from(GetUserByEmailRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => GetUserByEmailRequest.decode(value),
+    responseSerialize: (value: UserResponse) => Buffer.from(UserResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => UserResponse.decode(value),
+  },
+  /** Get all users */
+  getAllUsers: {
+    path: "/user.UserService/GetAllUsers",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: GetAllUsersRequest) => Buffer.from(GetAllUsersRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => GetAllUsersRequest.decode(value),
+    responseSerialize: (value: GetAllUsersResponse) => Buffer.from(GetAllUsersResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => GetAllUsersResponse.decode(value),
+  },
+  /** Update user */
+  updateUser: {
+    path: "/user.UserService/UpdateUser",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: UpdateUserRequest) => Buffer.from(UpdateUserRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => UpdateUserRequest.decode(value),
+    responseSerialize: (value: UserResponse) => Buffer.from(UserResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => UserResponse.decode(value),
+  },
+  /** Soft delete user; reads skip deleted users until they are restored */
+  deleteUser: {
+    path: "/user.UserService/DeleteUser",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: DeleteUserRequest) => Buffer.from(DeleteUserRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => DeleteUserRequest.decode(value),
+    responseSerialize: (value: DeleteUserResponse) => Buffer.from(DeleteUserResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => DeleteUserResponse.decode(value),
+  },
+  /** Restore a deleted user */
+  restoreUser: {
+    path: "/user.UserService/RestoreUser",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: RestoreUserRequest) => Buffer.from(RestoreUserRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => RestoreUserRequest.decode(value),
+    responseSerialize: (value: UserResponse) => Buffer.from(UserResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => UserResponse.decode(value),
+  },
+  /** Recorded changes of a user, deleted or not */
+  getUserAuditLog: {
+    path: "/user.UserService/GetUserAuditLog",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: GetUserAuditLogRequest) => Buffer.from(GetUserAuditLogRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => GetUserAuditLogRequest.decode(value),
+    responseSerialize: (value: AuditLogResponse) => Buffer.from(AuditLogResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => AuditLogResponse.decode(value),
+  },
+  /** Create users from a stream of requests, all or none */
+  bulkCreateUsers: {
+    path: "/user.UserService/BulkCreateUsers",
+    requestStream: true,
+    responseStream: false,
+    requestSerialize: (value: CreateUserRequest) => Buffer.from(CreateUserRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => CreateUserRequest.decode(value),
+    responseSerialize: (value: BulkCreateUsersResponse) => Buffer.from(BulkCreateUsersResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => BulkCreateUsersResponse.decode(value),
+  },
+  /** Exchange email and password for a bearer token; the only call besides CreateUser that needs no token */
+  login: {
+    path: "/user.UserService/Login",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: LoginRequest) => Buffer.from(LoginRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer) => LoginRequest.decode(value),
+    responseSerialize: (value: LoginResponse) => Buffer.from(LoginResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer) => LoginResponse.decode(value),
+  },
+} as const;
+
+export interface UserServiceServer extends UntypedServiceImplementation {
+  /** Create a new user */
+  createUser: handleUnaryCall<CreateUserRequest, UserResponse>;
+  /** Get user by ID */
+  getUserById: handleUnaryCall<GetUserByIdRequest, UserResponse>;
+  /** Get user by email */
+  getUserByEmail: handleUnaryCall<GetUserByEmailRequest, UserResponse>;
+  /** Get all users */
+  getAllUsers: handleUnaryCall<GetAllUsersRequest, GetAllUsersResponse>;
+  /** Update user */
+  updateUser: handleUnaryCall<UpdateUserRequest, UserResponse>;
+  /** Soft delete user; reads skip deleted users until they are restored */
+  deleteUser: handleUnaryCall<DeleteUserRequest, DeleteUserResponse>;
+  /** Restore a deleted user */
+  restoreUser: handleUnaryCall<RestoreUserRequest, UserResponse>;
+  /** Recorded changes of a user, deleted or not */
+  getUserAuditLog: handleUnaryCall<GetUserAuditLogRequest, AuditLogResponse>;
+  /** Create users from a stream of requests, all or none */
+  bulkCreateUsers: handleClientStreamingCall<CreateUserRequest, BulkCreateUsersResponse>;
+  /** Exchange email and password for a bearer token; the only call besides CreateUser that needs no token */
+  login: handleUnaryCall<LoginRequest, LoginResponse>;
+}
+
+export interface UserServiceClient extends Client {
+  /** Create a new user */
+  createUser(
+    request: CreateUserRequest,
+    callback: (error: ServiceError | null, response: UserResponse) => void,
+  ): ClientUnaryCall;
+  createUser(
+    request: CreateUserRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: UserResponse) => void,
+  ): ClientUnaryCall;
+  createUser(
+    request: CreateUserRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: UserResponse) => void,
+  ): ClientUnaryCall;
+  /** Get user by ID */
+  getUserById(
+    request: GetUserByIdRequest,
+    callback: (error: ServiceError | null, response: UserResponse) => void,
+  ): ClientUnaryCall;
+  getUserById(
+    request: GetUserByIdRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: UserResponse) => void,
+  ): ClientUnaryCall;
+  getUserById(
+    request: GetUserByIdRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: UserResponse) => void,
+  ): ClientUnaryCall;
+  /** Get user by email */
+  getUserByEmail(
+    request: GetUserByEmailRequest,
+    callback: (error: ServiceError | null, response: UserResponse) => void,
+  ): ClientUnaryCall;
+  getUserByEmail(
+    request: GetUserByEmailRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: UserResponse) => void,
+  ): ClientUnaryCall;
+  getUserByEmail(
+    request: GetUserByEmailRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: UserResponse) => void,
+  ): ClientUnaryCall;
+  /** Get all users */
+  getAllUsers(
+    request: GetAllUsersRequest,
+    callback: (error: ServiceError | null, response: GetAllUsersResponse) => void,
+  ): ClientUnaryCall;
+  getAllUsers(
+    request: GetAllUsersRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: GetAllUsersResponse) => void,
+  ): ClientUnaryCall;
+  getAllUsers(
+    request: GetAllUsersRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: GetAllUsersResponse) => void,
+  ): ClientUnaryCall;
+  /** Update user */
+  updateUser(
+    request: UpdateUserRequest,
+    callback: (error: ServiceError | null, response: UserResponse) => void,
+  ): ClientUnaryCall;
+  updateUser(
+    request: UpdateUserRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: UserResponse) => void,
+  ): ClientUnaryCall;
+  updateUser(
+    request: UpdateUserRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: UserResponse) => void,
+  ): ClientUnaryCall;
+  /** Soft delete user; reads skip deleted users until they are restored */
+  deleteUser(
+    request: DeleteUserRequest,
+    callback: (error: ServiceError | null, response: DeleteUserResponse) => void,
+  ): ClientUnaryCall;
+  deleteUser(
+    request: DeleteUserRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: DeleteUserResponse) => void,
+  ): ClientUnaryCall;
+  deleteUser(
+    request: DeleteUserRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: DeleteUserResponse) => void,
+  ): ClientUnaryCall;
+  /** Restore a deleted user */
+  restoreUser(
+    request: RestoreUserRequest,
+    callback: (error: ServiceError | null, response: UserResponse) => void,
+  ): ClientUnaryCall;
+  restoreUser(
+    request: RestoreUserRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: UserResponse) => void,
+  ): ClientUnaryCall;
+  restoreUser(
+    request: RestoreUserRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: UserResponse) => void,
+  ): ClientUnaryCall;
+  /** Recorded changes of a user, deleted or not */
+  getUserAuditLog(
+    request: GetUserAuditLogRequest,
+    callback: (error: ServiceError | null, response: AuditLogResponse) => void,
+  ): ClientUnaryCall;
+  getUserAuditLog(
+    request: GetUserAuditLogRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: AuditLogResponse) => void,
+  ): ClientUnaryCall;
+  getUserAuditLog(
+    request: GetUserAuditLogRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: AuditLogResponse) => void,
+  ): ClientUnaryCall;
+  /** Create users from a stream of requests, all or none */
+  bulkCreateUsers(
+    callback: (error: ServiceError | null, response: BulkCreateUsersResponse) => void,
+  ): ClientWritableStream<CreateUserRequest>;
+  bulkCreateUsers(
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: BulkCreateUsersResponse) => void,
+  ): ClientWritableStream<CreateUserRequest>;
+  bulkCreateUsers(
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: BulkCreateUsersResponse) => void,
+  ): ClientWritableStream<CreateUserRequest>;
+  bulkCreateUsers(
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: BulkCreateUsersResponse) => void,
+  ): ClientWritableStream<CreateUserRequest>;
+  /** Exchange email and password for a bearer token; the only call besides CreateUser that needs no token */
+  login(
+    request: LoginRequest,
+    callback: (error: ServiceError | null, response: LoginResponse) => void,
+  ): ClientUnaryCall;
+  login(
+    request: LoginRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: LoginResponse) => void,
+  ): ClientUnaryCall;
+  login(
+    request: LoginRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: LoginResponse) => void,
+  ): ClientUnaryCall;
+}
+
+export const UserServiceClient = makeGenericClientConstructor(UserServiceService, "user.UserService") as unknown as {
+  new (address: string, credentials: ChannelCredentials, options?: Partial<ClientOptions>): UserServiceClient;
+  service: typeof UserServiceService;
+  serviceName: string;
+};
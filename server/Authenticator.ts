@@ -0,0 +1,156 @@
+import * as grpc from '@grpc/grpc-js';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { apiKeyFromEnv, bearerToken } from '../utils/GrpcAuth';
+import { PermissionDeniedError, UnauthenticatedError, toServiceError } from './ServerErrors';
+
+/**
+ * Who a call acts for: a user signed in through Login, or a service holding the API key
+ */
+export type Principal = { role: 'user'; user_id: number } | { role: 'service' };
+
+export interface IssuedToken {
+  token: string;
+  expires_at: Date;
+}
+
+export interface AuthenticatorOptions {
+  /** HMAC key signing the issued tokens */
+  secret: string;
+  apiKey: string;
+  tokenTtlMs: number;
+}
+
+/**
+ * Calls that need no credentials: signing in and signing up
+ */
+const PUBLIC_METHODS: ReadonlySet<string> = new Set([
+  '/user.UserService/Login',
+  '/user.UserService/CreateUser'
+]);
+
+/**
+ * Authenticator
+ * Issues signed bearer tokens on Login and authenticates the bearer token of every other call.
+ * Tokens are `<payload>.<signature>` (base64url JSON { sub, exp } and its HMAC-SHA256) and stop
+ * being valid at exp or when the server restarts with a different secret.
+ */
+export class Authenticator {
+  constructor(private readonly options: AuthenticatorOptions) {}
+
+  /**
+   * GRPC_AUTH_SECRET (random per process when unset), GRPC_API_KEY (required) and GRPC_TOKEN_TTL
+   * (ms, default one hour)
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): Authenticator {
+    return new Authenticator({
+      secret: env.GRPC_AUTH_SECRET || randomBytes(32).toString('hex'),
+      apiKey: apiKeyFromEnv(env),
+      tokenTtlMs: env.GRPC_TOKEN_TTL ? parseInt(env.GRPC_TOKEN_TTL, 10) : 60 * 60 * 1000
+    });
+  }
+
+  issueToken(userId: number): IssuedToken {
+    const expiresAt = new Date(Date.now() + this.options.tokenTtlMs);
+    const payload = Buffer.from(JSON.stringify({ sub: userId, exp: expiresAt.getTime() })).toString('base64url');
+    return { token: `${payload}.${this.sign(payload)}`, expires_at: expiresAt };
+  }
+
+  /**
+   * The principal of the call's bearer token; throws UnauthenticatedError when it is missing, forged or expired
+   */
+  authenticate(metadata: grpc.Metadata): Principal {
+    const token = bearerToken(metadata);
+    if (!token) throw new UnauthenticatedError('Missing bearer token');
+    if (safeEqual(token, this.options.apiKey)) return { role: 'service' };
+
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature || !safeEqual(signature, this.sign(payload))) {
+      throw new UnauthenticatedError('Invalid bearer token');
+    }
+    const { sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof exp !== 'number' || exp <= Date.now()) {
+      throw new UnauthenticatedError('Bearer token has expired');
+    }
+    return { role: 'user', user_id: sub };
+  }
+
+  /**
+   * Who the changes of a call are recorded as made by: `user:<id>`, `service`, or `anonymous` for a
+   * public call without valid credentials
+   */
+  actorOf(metadata: grpc.Metadata): string {
+    try {
+      const principal = this.authenticate(metadata);
+      return principal.role === 'service' ? 'service' : `user:${principal.user_id}`;
+    } catch {
+      return 'anonymous';
+    }
+  }
+
+  /**
+   * Server interceptor rejecting every non-public call without valid credentials with UNAUTHENTICATED
+   * before it reaches its handler
+   */
+  interceptor(): grpc.ServerInterceptor {
+    return (method, call) => new grpc.ServerInterceptingCall(call, {
+      start: next => next({
+        onReceiveMetadata: (metadata, nextMetadata) => {
+          if (PUBLIC_METHODS.has(method.path)) return nextMetadata(metadata);
+          try {
+            this.authenticate(metadata);
+            nextMetadata(metadata);
+          } catch (error) {
+            const { code = grpc.status.UNAUTHENTICATED, details = '', metadata = new grpc.Metadata() } = toServiceError(error);
+            call.sendStatus({ code, details, metadata });
+          }
+        }
+      })
+    });
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.options.secret).update(payload).digest('base64url');
+  }
+}
+
+/**
+ * Users may only read, change, delete, restore and audit their own account; services may do so for anyone
+ */
+export function assertMayAccessUser(principal: Principal, userId: number): void {
+  if (principal.role === 'user' && principal.user_id !== userId) {
+    throw new PermissionDeniedError('Users may only access their own account');
+  }
+}
+
+/**
+ * Catalog changes, listing every account and bulk imports are reserved for services holding the API key
+ */
+export function assertService(principal: Principal, action: string): void {
+  if (principal.role !== 'service') {
+    throw new PermissionDeniedError(`Only services may ${action}`);
+  }
+}
+
+/**
+ * Users may only access their own orders (those with their user_id); services may access all of them
+ */
+export function assertMayAccessOrdersOf(principal: Principal, userId: number): void {
+  if (principal.role === 'user' && principal.user_id !== userId) {
+    throw new PermissionDeniedError('Users may only access their own orders');
+  }
+}
+
+/**
+ * Users may only use their own cart; services may use anyone's
+ */
+export function assertMayAccessCartOf(principal: Principal, userId: number): void {
+  if (principal.role === 'user' && principal.user_id !== userId) {
+    throw new PermissionDeniedError('Users may only access their own cart');
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -0,0 +1,92 @@
+import {
+  User, NewUser, Product, ProductSearch, Order, OrderItem, OrderStatus, OrderStatusChange, OrderTotalMismatch, AuditedEntity, AuditEntry,
+  CartCheckout, CartWithItems, OrderWithItems
+} from '../utils/DatabaseModels';
+import { ListQuery, ListResult } from '../utils/ListQuery';
+
+/**
+ * Data Store
+ * Persistence contract used by the gRPC handlers.
+ * Implemented by InMemoryStore and, structurally, by DatabaseService.
+ * Users, products and orders are soft deleted: reads skip them until they are restored.
+ * Their updates fail with VersionConflictError when an expected version is given and the row has
+ * moved on from it (see utils/RowVersions.ts). Creating an order and adding an item take an optional
+ * idempotency key; a repeat of the key replays the first response (see utils/Idempotency.ts).
+ */
+export interface DataStore {
+  /** The same store, recording its changes in the audit log as made by the actor */
+  actingAs(actor: string): DataStore;
+
+  /** Passwords are stored hashed; no user read back carries one */
+  createUser(user: NewUser): Promise<User>;
+  /** Bulk creates are all or nothing */
+  bulkCreateUsers(users: NewUser[]): Promise<User[]>;
+  getUserById(id: number): Promise<User | null>;
+  getUserByEmail(email: string): Promise<User | null>;
+  /** The user when the password matches, otherwise null */
+  verifyCredentials(email: string, password: string): Promise<User | null>;
+  getAllUsers(): Promise<User[]>;
+  /** List methods filter, sort (newest first by default) and paginate, and count the matching rows */
+  listUsers(query?: ListQuery<User>): Promise<ListResult<User>>;
+  updateUser(id: number, updates: Partial<User>, expectedVersion?: number): Promise<User | null>;
+  deleteUser(id: number): Promise<boolean>;
+  /** Restore methods return null when there is no deleted row with the ID */
+  restoreUser(id: number): Promise<User | null>;
+
+  createProduct(product: Product): Promise<Product>;
+  bulkCreateProducts(products: Product[]): Promise<Product[]>;
+  getProductById(id: number): Promise<Product | null>;
+  getProductBySku(sku: string): Promise<Product | null>;
+  getAllProducts(): Promise<Product[]>;
+  getProductsByCategory(category: string): Promise<Product[]>;
+  listProducts(query?: ListQuery<Product>): Promise<ListResult<Product>>;
+  searchProducts(search: ProductSearch): Promise<ListResult<Product>>;
+  updateProduct(id: number, updates: Partial<Product>, expectedVersion?: number): Promise<Product | null>;
+  deleteProduct(id: number): Promise<boolean>;
+  restoreProduct(id: number): Promise<Product | null>;
+
+  createOrder(order: Order, idempotencyKey?: string): Promise<Order>;
+  getOrderById(id: number): Promise<Order | null>;
+  getOrderByNumber(orderNumber: string): Promise<Order | null>;
+  getOrdersByUserId(userId: number): Promise<Order[]>;
+  getAllOrders(): Promise<Order[]>;
+  listOrders(query?: ListQuery<Order>): Promise<ListResult<Order>>;
+  /**
+   * Applies the transition through the order state machine and records it in the status history;
+   * cancelling releases the stock reserved by the order's items
+   */
+  updateOrderStatus(id: number, status: OrderStatus, expectedVersion?: number): Promise<Order | null>;
+  getOrderStatusHistory(orderId: number): Promise<OrderStatusChange[]>;
+  /** Deleting an order releases the stock reserved by its items, restoring it reserves the stock again */
+  deleteOrder(id: number): Promise<boolean>;
+  restoreOrder(id: number): Promise<Order | null>;
+
+  /**
+   * Item changes validate total_price = unit_price × quantity, reserve or release product stock
+   * (OutOfStockError when short) and recompute the order total_amount
+   */
+  addOrderItem(orderItem: OrderItem, idempotencyKey?: string): Promise<OrderItem>;
+  getOrderItemById(id: number): Promise<OrderItem | null>;
+  getOrderItems(orderId: number): Promise<OrderItem[]>;
+  removeOrderItem(id: number): Promise<boolean>;
+  findOrderTotalMismatches(): Promise<OrderTotalMismatch[]>;
+
+  /**
+   * Each user has one cart, created on first use. Every call returns it priced at the products'
+   * current prices (see utils/Carts.ts); items of deleted products are left out until they are restored.
+   */
+  getCart(userId: number): Promise<CartWithItems>;
+  /** Adds to the quantity when the cart already has the product */
+  addToCart(userId: number, productId: number, quantity: number): Promise<CartWithItems>;
+  updateCartQuantity(userId: number, productId: number, quantity: number): Promise<CartWithItems>;
+  removeFromCart(userId: number, productId: number): Promise<CartWithItems>;
+  clearCart(userId: number): Promise<CartWithItems>;
+  /**
+   * Creates a pending order with one item per cart item, reserving their stock, and empties the cart;
+   * nothing changes when it fails, e.g. with EmptyCartError or OutOfStockError
+   */
+  checkout(userId: number, checkout: CartCheckout): Promise<OrderWithItems>;
+
+  /** Creates, updates (including status changes), deletes and restores of the entity, oldest first */
+  getAuditLog(entityType: AuditedEntity, entityId: number): Promise<AuditEntry[]>;
+}
@@ -0,0 +1,775 @@
+import * as grpc from '@grpc/grpc-js';
+import {
+  User, NewUser, Product, Order, OrderItem, OrderStatus, AuditAction, AuditEntry, CartCheckout, CartWithItems
+} from '../utils/DatabaseModels';
+import { fromOrderStatusMessage, toOrderStatusMessage } from '../utils/OrderStatusMapping';
+import { fromProductSortOrderMessage } from '../utils/ProductSearch';
+import { EntityNotFoundError, ValidationError } from '../utils/DatabaseErrors';
+import { ListResult } from '../utils/ListQuery';
+import { idempotencyKeyOf } from '../utils/Idempotency';
+import {
+  CART_CHECKOUT_SCHEMA, CART_ITEM_SCHEMA, ORDER_ITEM_SCHEMA, ORDER_SCHEMA, PRODUCT_SCHEMA, USER_SCHEMA, assertValid
+} from '../utils/Validation';
+import {
+  Authenticator, Principal, assertMayAccessCartOf, assertMayAccessOrdersOf, assertMayAccessUser, assertService
+} from './Authenticator';
+import { DataStore } from './DataStore';
+import { OrderEventBus } from './OrderEvents';
+import { UnauthenticatedError, toServiceError } from './ServerErrors';
+import { AuditAction as AuditActionMessage, AuditEntry as AuditEntryMessage } from '../proto/generated/audit';
+import { User as UserMessage, UserServiceServer } from '../proto/generated/user';
+import { Product as ProductMessage, ProductServiceServer } from '../proto/generated/product';
+import {
+  Order as OrderMessage, OrderItem as OrderItemMessage, OrderServiceServer, OrderStatus as OrderStatusMessage,
+  OrderEvent, OrderEventRequest, OrderEventType, UpdateOrderStatusRequest
+} from '../proto/generated/order';
+import { Cart as CartMessage, CartResponse, CartServiceServer } from '../proto/generated/cart';
+
+/**
+ * gRPC Handlers
+ * Implements UserService, ProductService, OrderService and CartService from proto/*.proto on top of a store
+ */
+
+/**
+ * Wrap an async request handler into a unary callback handler with status mapping
+ */
+function unary<Request, Response>(
+  handler: (request: Request, call: grpc.ServerUnaryCall<Request, Response>) => Promise<Response>
+): grpc.handleUnaryCall<Request, Response> {
+  return (call, callback) => {
+    handler(call.request, call)
+      .then(response => callback(null, response))
+      .catch(error => callback(toServiceError(error), null));
+  };
+}
+
+/**
+ * Wrap an async handler consuming the request stream into a client-streaming handler with status mapping
+ */
+function clientStream<Request, Response>(
+  handler: (requests: AsyncIterable<Request>, call: grpc.ServerReadableStream<Request, Response>) => Promise<Response>
+): grpc.handleClientStreamingCall<Request, Response> {
+  return (call, callback) => {
+    handler(call, call)
+      .then(response => callback(null, response))
+      .catch(error => callback(toServiceError(error), null));
+  };
+}
+
+/**
+ * Wrap an async handler writing responses through send() into a server-streaming handler.
+ * send() waits while the client is not reading (backpressure) and resolves false once the
+ * client has cancelled, so the handler can stop early.
+ */
+function serverStream<Request, Response>(
+  handler: (
+    request: Request,
+    send: (message: Response) => Promise<boolean>,
+    call: grpc.ServerWritableStream<Request, Response>
+  ) => Promise<void>
+): grpc.handleServerStreamingCall<Request, Response> {
+  return (call) => {
+    const send = (message: Response): Promise<boolean> => {
+      if (call.cancelled) return Promise.resolve(false);
+      if (call.write(message)) return Promise.resolve(true);
+
+      return new Promise(resolve => {
+        const settle = (writable: boolean) => () => {
+          call.off('drain', onDrain);
+          call.off('cancelled', onCancelled);
+          resolve(writable);
+        };
+        const onDrain = settle(true);
+        const onCancelled = settle(false);
+        call.once('drain', onDrain);
+        call.once('cancelled', onCancelled);
+      });
+    };
+
+    handler(call.request, send, call)
+      .then(() => call.end())
+      .catch(error => call.emit('error', toServiceError(error)));
+  };
+}
+
+/**
+ * Every row of a list query, fetched one cursor page (batch) at a time
+ */
+async function* inBatches<T>(list: (cursor?: string) => Promise<ListResult<T>>): AsyncGenerator<T> {
+  let cursor: string | undefined;
+  do {
+    const batch = await list(cursor);
+    yield* batch.items;
+    cursor = batch.next_cursor;
+  } while (cursor);
+}
+
+/**
+ * Fail with INVALID_ARGUMENT when any of the given fields is empty
+ */
+function requireFields<T>(request: T, fields: (keyof T & string)[]): void {
+  const missing = fields.filter(field => !request[field]);
+  if (missing.length > 0) {
+    throw new ValidationError('request', missing.map(field => ({ field, description: 'is required' })));
+  }
+}
+
+/**
+ * The given fields the request sets; update fields are proto3 optional, so unset ones arrive
+ * undefined while '', 0 and false are real values
+ */
+function setFieldsOf<T>(request: Partial<T>, fields: (keyof T)[]): Partial<T> {
+  const updates: Partial<T> = {};
+  fields.forEach(field => {
+    if (request[field] !== undefined) {
+      updates[field] = request[field];
+    }
+  });
+  return updates;
+}
+
+/**
+ * The store, recording the changes made through it in the audit log as made by the caller
+ */
+function storeActingFor(store: DataStore, auth: Authenticator, call: { metadata: grpc.Metadata }): DataStore {
+  return store.actingAs(auth.actorOf(call.metadata));
+}
+
+function toTimestamp(value?: Date): string {
+  return value ? new Date(value).toISOString() : '';
+}
+
+// ==================== MESSAGE MAPPING ====================
+
+export function toUserMessage(user: User): UserMessage {
+  return {
+    id: user.id!,
+    username: user.username,
+    email: user.email,
+    first_name: user.first_name,
+    last_name: user.last_name,
+    phone: user.phone || '',
+    address: user.address || '',
+    city: user.city || '',
+    state: user.state || '',
+    zip_code: user.zip_code || '',
+    country: user.country || '',
+    created_at: toTimestamp(user.created_at),
+    updated_at: toTimestamp(user.updated_at),
+    version: user.version!
+  };
+}
+
+export function toProductMessage(product: Product): ProductMessage {
+  return {
+    id: product.id!,
+    name: product.name,
+    description: product.description || '',
+    price: Number(product.price),
+    category: product.category,
+    brand: product.brand,
+    stock_quantity: product.stock_quantity,
+    sku: product.sku,
+    image_url: product.image_url || '',
+    is_active: product.is_active,
+    created_at: toTimestamp(product.created_at),
+    updated_at: toTimestamp(product.updated_at),
+    version: product.version!
+  };
+}
+
+export function toOrderMessage(order: Order): OrderMessage {
+  return {
+    id: order.id!,
+    user_id: order.user_id,
+    order_number: order.order_number,
+    total_amount: Number(order.total_amount),
+    status: toOrderStatusMessage(order.status),
+    shipping_address: order.shipping_address,
+    billing_address: order.billing_address,
+    payment_method: order.payment_method,
+    created_at: toTimestamp(order.created_at),
+    updated_at: toTimestamp(order.updated_at),
+    version: order.version!
+  };
+}
+
+export function toOrderItemMessage(item: OrderItem): OrderItemMessage {
+  return {
+    id: item.id!,
+    order_id: item.order_id,
+    product_id: item.product_id,
+    quantity: item.quantity,
+    unit_price: Number(item.unit_price),
+    total_price: Number(item.total_price)
+  };
+}
+
+export function toCartMessage(cart: CartWithItems): CartMessage {
+  return {
+    id: cart.cart.id!,
+    user_id: cart.cart.user_id,
+    items: cart.items.map(item => ({
+      id: item.id!,
+      product_id: item.product_id,
+      product_name: item.product_name,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      total_price: item.total_price
+    })),
+    item_count: cart.item_count,
+    total_quantity: cart.total_quantity,
+    total_amount: cart.total_amount,
+    created_at: toTimestamp(cart.cart.created_at),
+    updated_at: toTimestamp(cart.cart.updated_at)
+  };
+}
+
+const AUDIT_ACTION_MESSAGES: Readonly<Record<AuditAction, AuditActionMessage>> = {
+  [AuditAction.CREATE]: AuditActionMessage.AUDIT_ACTION_CREATE,
+  [AuditAction.UPDATE]: AuditActionMessage.AUDIT_ACTION_UPDATE,
+  [AuditAction.DELETE]: AuditActionMessage.AUDIT_ACTION_DELETE,
+  [AuditAction.RESTORE]: AuditActionMessage.AUDIT_ACTION_RESTORE
+};
+
+/**
+ * before and after travel as JSON strings, empty for the side a create or delete does not have
+ */
+export function toAuditEntryMessage(entry: AuditEntry): AuditEntryMessage {
+  return {
+    id: entry.id!,
+    entity_type: entry.entity_type,
+    entity_id: entry.entity_id,
+    action: AUDIT_ACTION_MESSAGES[entry.action],
+    actor: entry.actor,
+    before: entry.before ? JSON.stringify(entry.before) : '',
+    after: entry.after ? JSON.stringify(entry.after) : '',
+    changed_at: toTimestamp(entry.changed_at)
+  };
+}
+
+// ==================== USER SERVICE ====================
+
+const USER_UPDATE_FIELDS: (keyof User)[] = [
+  'username', 'email', 'password', 'first_name', 'last_name',
+  'phone', 'address', 'city', 'state', 'zip_code', 'country'
+];
+
+
+/**
+ * User handlers; users signed in through Login may only read, change, delete, restore and audit their
+ * own account, while listing every account and bulk imports are left to services
+ */
+export function createUserHandlers(store: DataStore, auth: Authenticator): UserServiceServer {
+  const authorizeUser = (call: { metadata: grpc.Metadata }, userId: number): void =>
+    assertMayAccessUser(auth.authenticate(call.metadata), userId);
+
+  return {
+    createUser: unary(async (request, call) => {
+      assertValid('User', USER_SCHEMA, request);
+      const user = await storeActingFor(store, auth, call).createUser(request);
+      return { user: toUserMessage(user), message: 'User created successfully', success: true };
+    }),
+
+    bulkCreateUsers: clientStream(async (requests, call) => {
+      assertService(auth.authenticate(call.metadata), 'bulk create users');
+      const users: NewUser[] = [];
+      for await (const request of requests) {
+        assertValid('User', USER_SCHEMA, request);
+        users.push(request);
+      }
+      const created = await storeActingFor(store, auth, call).bulkCreateUsers(users);
+      return {
+        users: created.map(toUserMessage), created: created.length, message: 'Users created successfully', success: true
+      };
+    }),
+
+    getUserById: unary(async (request, call) => {
+      authorizeUser(call, request.id);
+      const user = await store.getUserById(request.id);
+      if (!user) throw new EntityNotFoundError('User', 'ID', request.id);
+      return { user: toUserMessage(user), message: 'OK', success: true };
+    }),
+
+    getUserByEmail: unary(async (request, call) => {
+      const user = await store.getUserByEmail(request.email);
+      if (!user) throw new EntityNotFoundError('User', 'email', request.email);
+      authorizeUser(call, user.id!);
+      return { user: toUserMessage(user), message: 'OK', success: true };
+    }),
+
+    getAllUsers: unary(async (request, call) => {
+      assertService(auth.authenticate(call.metadata), 'list all users');
+      const { items, total, page, limit } = await store.listUsers({ page: request.page, limit: request.limit });
+      return { users: items.map(toUserMessage), total, page, limit, message: 'OK', success: true };
+    }),
+
+    updateUser: unary(async (request, call) => {
+      authorizeUser(call, request.id);
+      const updates = setFieldsOf<User>(request, USER_UPDATE_FIELDS);
+      assertValid('User', USER_SCHEMA, updates, { partial: true });
+      const user = await storeActingFor(store, auth, call).updateUser(request.id, updates, request.expected_version);
+      if (!user) throw new EntityNotFoundError('User', 'ID', request.id);
+      return { user: toUserMessage(user), message: 'User updated successfully', success: true };
+    }),
+
+    deleteUser: unary(async (request, call) => {
+      authorizeUser(call, request.id);
+      const deleted = await storeActingFor(store, auth, call).deleteUser(request.id);
+      if (!deleted) throw new EntityNotFoundError('User', 'ID', request.id);
+      return { success: true, message: 'User deleted successfully' };
+    }),
+
+    restoreUser: unary(async (request, call) => {
+      authorizeUser(call, request.id);
+      const user = await storeActingFor(store, auth, call).restoreUser(request.id);
+      if (!user) throw new EntityNotFoundError('Deleted user', 'ID', request.id);
+      return { user: toUserMessage(user), message: 'User restored successfully', success: true };
+    }),
+
+    getUserAuditLog: unary(async (request, call) => {
+      authorizeUser(call, request.id);
+      const entries = await store.getAuditLog('User', request.id);
+      return { entries: entries.map(toAuditEntryMessage), message: 'OK', success: true };
+    }),
+
+    login: unary(async (request) => {
+      requireFields(request, ['email', 'password']);
+      const user = await store.verifyCredentials(request.email, request.password);
+      if (!user) {
+        throw new UnauthenticatedError('Invalid email or password');
+      }
+      const { token, expires_at } = auth.issueToken(user.id!);
+      return {
+        token,
+        expires_at: expires_at.toISOString(),
+        user: toUserMessage(user),
+        message: 'Logged in successfully',
+        success: true
+      };
+    })
+  };
+}
+
+// ==================== PRODUCT SERVICE ====================
+
+const PRODUCT_UPDATE_FIELDS: (keyof Product)[] = [
+  'name', 'description', 'price', 'category', 'brand', 'stock_quantity', 'sku', 'image_url', 'is_active'
+];
+
+/**
+ * Product handlers; anyone signed in may browse the catalog, but only services may change it or read its audit log
+ */
+export function createProductHandlers(store: DataStore, auth: Authenticator): ProductServiceServer {
+  const authorizeCatalogChange = (call: { metadata: grpc.Metadata }, action: string): void =>
+    assertService(auth.authenticate(call.metadata), action);
+
+  return {
+    createProduct: unary(async (request, call) => {
+      authorizeCatalogChange(call, 'create products');
+      assertValid('Product', PRODUCT_SCHEMA, request);
+      const product = await storeActingFor(store, auth, call).createProduct(request);
+      return { product: toProductMessage(product), message: 'Product created successfully', success: true };
+    }),
+
+    getProductById: unary(async (request) => {
+      const product = await store.getProductById(request.id);
+      if (!product) throw new EntityNotFoundError('Product', 'ID', request.id);
+      return { product: toProductMessage(product), message: 'OK', success: true };
+    }),
+
+    getProductBySku: unary(async (request) => {
+      const product = await store.getProductBySku(request.sku);
+      if (!product) throw new EntityNotFoundError('Product', 'SKU', request.sku);
+      return { product: toProductMessage(product), message: 'OK', success: true };
+    }),
+
+    getAllProducts: unary(async (request) => {
+      const { items, total, page, limit } = await store.listProducts({ page: request.page, limit: request.limit });
+      return { products: items.map(toProductMessage), total, page, limit, message: 'OK', success: true };
+    }),
+
+    getProductsByCategory: unary(async (request) => {
+      const { items, total, page, limit } = await store.listProducts({
+        page: request.page, limit: request.limit, filters: { category: request.category }, sort: { column: 'name' }
+      });
+      return { products: items.map(toProductMessage), total, page, limit, message: 'OK', success: true };
+    }),
+
+    searchProducts: unary(async (request) => {
+      const { items, total, page, limit } = await store.searchProducts({
+        query: request.query,
+        brand: request.brand,
+        category: request.category,
+        min_price: request.min_price,
+        max_price: request.max_price,
+        in_stock_only: request.in_stock_only,
+        is_active: request.is_active,
+        sort: fromProductSortOrderMessage(request.sort),
+        page: request.page,
+        limit: request.limit
+      });
+      return { products: items.map(toProductMessage), total, page, limit, message: 'OK', success: true };
+    }),
+
+    streamProducts: serverStream(async (request, send) => {
+      const products = inBatches(cursor => store.listProducts({
+        limit: request.batch_size,
+        cursor,
+        sort: { column: 'id' },
+        filters: request.category ? { category: request.category } : {}
+      }));
+      for await (const product of products) {
+        if (!(await send(toProductMessage(product)))) return;
+      }
+    }),
+
+    bulkCreateProducts: clientStream(async (requests, call) => {
+      authorizeCatalogChange(call, 'create products');
+      const products: Product[] = [];
+      for await (const request of requests) {
+        assertValid('Product', PRODUCT_SCHEMA, request);
+        products.push(request);
+      }
+      const created = await storeActingFor(store, auth, call).bulkCreateProducts(products);
+      return {
+        products: created.map(toProductMessage),
+        created: created.length,
+        message: 'Products created successfully',
+        success: true
+      };
+    }),
+
+    updateProduct: unary(async (request, call) => {
+      authorizeCatalogChange(call, 'update products');
+      const updates = setFieldsOf<Product>(request, PRODUCT_UPDATE_FIELDS);
+      assertValid('Product', PRODUCT_SCHEMA, updates, { partial: true });
+      const product = await storeActingFor(store, auth, call)
+        .updateProduct(request.id, updates, request.expected_version);
+      if (!product) throw new EntityNotFoundError('Product', 'ID', request.id);
+      return { product: toProductMessage(product), message: 'Product updated successfully', success: true };
+    }),
+
+    deleteProduct: unary(async (request, call) => {
+      authorizeCatalogChange(call, 'delete products');
+      const deleted = await storeActingFor(store, auth, call).deleteProduct(request.id);
+      if (!deleted) throw new EntityNotFoundError('Product', 'ID', request.id);
+      return { success: true, message: 'Product deleted successfully' };
+    }),
+
+    restoreProduct: unary(async (request, call) => {
+      authorizeCatalogChange(call, 'restore products');
+      const product = await storeActingFor(store, auth, call).restoreProduct(request.id);
+      if (!product) throw new EntityNotFoundError('Deleted product', 'ID', request.id);
+      return { product: toProductMessage(product), message: 'Product restored successfully', success: true };
+    }),
+
+    getProductAuditLog: unary(async (request, call) => {
+      authorizeCatalogChange(call, 'read the product audit log');
+      const entries = await store.getAuditLog('Product', request.id);
+      return { entries: entries.map(toAuditEntryMessage), message: 'OK', success: true };
+    })
+  };
+}
+
+// ==================== ORDER SERVICE ====================
+
+function orderEvent(type: OrderEventType, orderId: number, order?: Order): OrderEvent {
+  return {
+    type,
+    order_id: orderId,
+    order: order ? toOrderMessage(order) : undefined,
+    occurred_at: new Date().toISOString(),
+    error: ''
+  };
+}
+
+/**
+ * Order handlers; changes made through them are published on the event bus for OrderEvents subscribers.
+ * Users signed in through Login may only access their own orders, so only services can restore a
+ * deleted one.
+ */
+export function createOrderHandlers(
+  store: DataStore,
+  auth: Authenticator,
+  events: OrderEventBus = new OrderEventBus()
+): OrderServiceServer {
+  const principalOf = (call: { metadata: grpc.Metadata }): Principal => auth.authenticate(call.metadata);
+
+  /**
+   * Fail unless the principal may access the order: NOT_FOUND when a user names a missing order,
+   * PERMISSION_DENIED when it belongs to someone else. Services skip the lookup.
+   */
+  const authorizeOrder = async (principal: Principal, orderId: number): Promise<void> => {
+    if (principal.role === 'service') return;
+    const order = await store.getOrderById(orderId);
+    if (!order) throw new EntityNotFoundError('Order', 'ID', orderId);
+    assertMayAccessOrdersOf(principal, order.user_id);
+  };
+
+  /**
+   * user_id filter of a listing: users only ever list their own orders
+   */
+  const ordersOf = (principal: Principal, userId?: number): number | undefined => {
+    if (principal.role === 'service') return userId || undefined;
+    if (userId) assertMayAccessOrdersOf(principal, userId);
+    return principal.user_id;
+  };
+
+  const updateStatus = async (
+    principal: Principal,
+    request: UpdateOrderStatusRequest,
+    changes: DataStore
+  ): Promise<Order> => {
+    await authorizeOrder(principal, request.id);
+    const order = await changes.updateOrderStatus(
+      request.id, fromOrderStatusMessage(request.status), request.expected_version
+    );
+    if (!order) throw new EntityNotFoundError('Order', 'ID', request.id);
+    events.publish(orderEvent(OrderEventType.ORDER_EVENT_TYPE_STATUS_CHANGED, order.id!, order));
+    return order;
+  };
+
+  return {
+    createOrder: unary(async (request, call) => {
+      const status = request.status === OrderStatusMessage.ORDER_STATUS_UNSPECIFIED
+        ? OrderStatus.PENDING
+        : fromOrderStatusMessage(request.status);
+      assertValid('Order', ORDER_SCHEMA, { ...request, status });
+      assertMayAccessOrdersOf(principalOf(call), request.user_id);
+      const order = await storeActingFor(store, auth, call)
+        .createOrder({ ...request, status }, idempotencyKeyOf(call.metadata));
+      events.publish(orderEvent(OrderEventType.ORDER_EVENT_TYPE_CREATED, order.id!, order));
+      return { order: toOrderMessage(order), message: 'Order created successfully', success: true };
+    }),
+
+    getOrderById: unary(async (request, call) => {
+      const order = await store.getOrderById(request.id);
+      if (!order) throw new EntityNotFoundError('Order', 'ID', request.id);
+      assertMayAccessOrdersOf(principalOf(call), order.user_id);
+      return { order: toOrderMessage(order), message: 'OK', success: true };
+    }),
+
+    getOrderByNumber: unary(async (request, call) => {
+      const order = await store.getOrderByNumber(request.order_number);
+      if (!order) throw new EntityNotFoundError('Order', 'order number', request.order_number);
+      assertMayAccessOrdersOf(principalOf(call), order.user_id);
+      return { order: toOrderMessage(order), message: 'OK', success: true };
+    }),
+
+    getAllOrders: unary(async (request, call) => {
+      const { items, total, page, limit } = await store.listOrders({
+        page: request.page, limit: request.limit, filters: { user_id: ordersOf(principalOf(call)) }
+      });
+      return { orders: items.map(toOrderMessage), total, page, limit, message: 'OK', success: true };
+    }),
+
+    getOrdersByUserId: unary(async (request, call) => {
+      const { items, total, page, limit } = await store.listOrders({
+        page: request.page, limit: request.limit, filters: { user_id: ordersOf(principalOf(call), request.user_id) }
+      });
+      return { orders: items.map(toOrderMessage), total, page, limit, message: 'OK', success: true };
+    }),
+
+    streamOrders: serverStream(async (request, send, call) => {
+      const userId = ordersOf(principalOf(call), request.user_id);
+      const orders = inBatches(cursor => store.listOrders({
+        limit: request.batch_size,
+        cursor,
+        sort: { column: 'id' },
+        filters: {
+          user_id: userId,
+          status: request.status === OrderStatusMessage.ORDER_STATUS_UNSPECIFIED
+            ? undefined
+            : fromOrderStatusMessage(request.status)
+        }
+      }));
+      for await (const order of orders) {
+        if (!(await send(toOrderMessage(order)))) return;
+      }
+    }),
+
+    updateOrderStatus: unary(async (request, call) => {
+      const order = await updateStatus(principalOf(call), request, storeActingFor(store, auth, call));
+      return { order: toOrderMessage(order), message: 'Order status updated successfully', success: true };
+    }),
+
+    deleteOrder: unary(async (request, call) => {
+      await authorizeOrder(principalOf(call), request.id);
+      const order = await store.getOrderById(request.id);
+      const deleted = await storeActingFor(store, auth, call).deleteOrder(request.id);
+      if (!deleted) throw new EntityNotFoundError('Order', 'ID', request.id);
+      // Carry the order as it was, so subscribers to all of a user's orders see its deletion too
+      events.publish(orderEvent(OrderEventType.ORDER_EVENT_TYPE_DELETED, request.id, order ?? undefined));
+      return { success: true, message: 'Order deleted successfully' };
+    }),
+
+    restoreOrder: unary(async (request, call) => {
+      await authorizeOrder(principalOf(call), request.id);
+      const order = await storeActingFor(store, auth, call).restoreOrder(request.id);
+      if (!order) throw new EntityNotFoundError('Deleted order', 'ID', request.id);
+      events.publish(orderEvent(OrderEventType.ORDER_EVENT_TYPE_RESTORED, order.id!, order));
+      return { order: toOrderMessage(order), message: 'Order restored successfully', success: true };
+    }),
+
+    getOrderAuditLog: unary(async (request, call) => {
+      await authorizeOrder(principalOf(call), request.id);
+      const entries = await store.getAuditLog('Order', request.id);
+      return { entries: entries.map(toAuditEntryMessage), message: 'OK', success: true };
+    }),
+
+    addOrderItem: unary(async (request, call) => {
+      assertValid('Order item', ORDER_ITEM_SCHEMA, request);
+      await authorizeOrder(principalOf(call), request.order_id);
+      const orderItem = await storeActingFor(store, auth, call).addOrderItem(request, idempotencyKeyOf(call.metadata));
+      const order = await store.getOrderById(request.order_id);
+      if (order) events.publish(orderEvent(OrderEventType.ORDER_EVENT_TYPE_ITEM_ADDED, order.id!, order));
+      return { order_item: toOrderItemMessage(orderItem), message: 'Order item added successfully', success: true };
+    }),
+
+    getOrderItems: unary(async (request, call) => {
+      await authorizeOrder(principalOf(call), request.order_id);
+      const orderItems = await store.getOrderItems(request.order_id);
+      return { order_items: orderItems.map(toOrderItemMessage), message: 'OK', success: true };
+    }),
+
+    removeOrderItem: unary(async (request, call) => {
+      const principal = principalOf(call);
+      if (principal.role === 'user') {
+        const item = await store.getOrderItemById(request.id);
+        if (!item) throw new EntityNotFoundError('Order item', 'ID', request.id);
+        await authorizeOrder(principal, item.order_id);
+      }
+      const removed = await storeActingFor(store, auth, call).removeOrderItem(request.id);
+      if (!removed) throw new EntityNotFoundError('Order item', 'ID', request.id);
+      return { success: true, message: 'Order item removed successfully' };
+    }),
+
+    /**
+     * Subscribe to the events of the given orders (all orders, or all of a user's own orders, for an
+     * empty list) and send status updates on the same stream. Requests are handled in arrival order;
+     * a rejected update or subscription is reported to the sender only, as a REJECTED event, and
+     * leaves the stream open.
+     */
+    orderEvents: (call) => {
+      const principal = principalOf(call);
+      const changes = storeActingFor(store, auth, call);
+      let subscription: Set<number> | null = null;
+      let pending = Promise.resolve();
+
+      const visible = (event: OrderEvent) => subscription !== null && (subscription.size > 0
+        ? subscription.has(event.order_id)
+        : principal.role === 'service' || event.order?.user_id === principal.user_id);
+
+      const unsubscribe = events.subscribe(event => {
+        if (visible(event)) call.write(event);
+      });
+
+      const reject = (orderId: number, error: unknown) => call.write({
+        ...orderEvent(OrderEventType.ORDER_EVENT_TYPE_REJECTED, orderId),
+        error: toServiceError(error).details || 'Request failed'
+      });
+
+      const handle = async (request: OrderEventRequest) => {
+        if (request.subscribe) {
+          const orderIds = new Set<number>();
+          for (const orderId of request.subscribe.order_ids) {
+            try {
+              await authorizeOrder(principal, orderId);
+              orderIds.add(orderId);
+            } catch (error) {
+              reject(orderId, error);
+            }
+          }
+          subscription = request.subscribe.order_ids.length > 0 && orderIds.size === 0 ? null : orderIds;
+        } else if (request.update_status) {
+          try {
+            await updateStatus(principal, request.update_status, changes);
+          } catch (error) {
+            reject(request.update_status.id, error);
+          }
+        }
+      };
+
+      call.on('data', (request: OrderEventRequest) => {
+        pending = pending.then(() => handle(request));
+      });
+      call.on('end', () => {
+        pending.then(() => {
+          unsubscribe();
+          call.end();
+        });
+      });
+      call.on('cancelled', unsubscribe);
+      call.on('error', unsubscribe);
+    }
+  };
+}
+
+// ==================== CART SERVICE ====================
+
+/**
+ * Cart handlers; users signed in through Login may only use their own cart. Checkout publishes the
+ * created order on the event bus, so pass the bus of the order handlers.
+ */
+export function createCartHandlers(
+  store: DataStore,
+  auth: Authenticator,
+  events: OrderEventBus = new OrderEventBus()
+): CartServiceServer {
+  const authorizeCart = (call: { metadata: grpc.Metadata }, userId: number): void =>
+    assertMayAccessCartOf(auth.authenticate(call.metadata), userId);
+
+  const cartResponse = (cart: CartWithItems, message: string): CartResponse =>
+    ({ cart: toCartMessage(cart), message, success: true });
+
+  return {
+    getCart: unary(async (request, call) => {
+      authorizeCart(call, request.user_id);
+      return cartResponse(await store.getCart(request.user_id), 'OK');
+    }),
+
+    addToCart: unary(async (request, call) => {
+      assertValid('Cart item', CART_ITEM_SCHEMA, request);
+      authorizeCart(call, request.user_id);
+      const cart = await store.addToCart(request.user_id, request.product_id, request.quantity);
+      return cartResponse(cart, 'Product added to cart');
+    }),
+
+    updateQuantity: unary(async (request, call) => {
+      assertValid('Cart item', CART_ITEM_SCHEMA, request);
+      authorizeCart(call, request.user_id);
+      const cart = await store.updateCartQuantity(request.user_id, request.product_id, request.quantity);
+      return cartResponse(cart, 'Cart quantity updated');
+    }),
+
+    removeFromCart: unary(async (request, call) => {
+      authorizeCart(call, request.user_id);
+      return cartResponse(await store.removeFromCart(request.user_id, request.product_id), 'Product removed from cart');
+    }),
+
+    clearCart: unary(async (request, call) => {
+      authorizeCart(call, request.user_id);
+      return cartResponse(await store.clearCart(request.user_id), 'Cart cleared');
+    }),
+
+    checkout: unary(async (request, call) => {
+      const checkout: CartCheckout = {
+        shipping_address: request.shipping_address,
+        billing_address: request.billing_address,
+        payment_method: request.payment_method,
+        order_number: request.order_number || undefined
+      };
+      assertValid('Checkout', CART_CHECKOUT_SCHEMA, checkout);
+      authorizeCart(call, request.user_id);
+      const { order, items } = await storeActingFor(store, auth, call).checkout(request.user_id, checkout);
+      events.publish(orderEvent(OrderEventType.ORDER_EVENT_TYPE_CREATED, order.id!, order));
+      return {
+        order: toOrderMessage(order),
+        order_items: items.map(toOrderItemMessage),
+        message: 'Checked out successfully',
+        success: true
+      };
+    })
+  };
+}
@@ -0,0 +1,781 @@
+import {
+  User, NewUser, Product, ProductSearch, ProductSortOrder, Order, OrderItem, OrderStatus, OrderStatusChange, OrderTotalMismatch,
+  AuditAction, AuditedEntity, AuditEntry, SYSTEM_ACTOR, Cart, CartCheckout, CartItem, CartWithItems, OrderWithItems
+} from '../utils/DatabaseModels';
+import { EntityNotFoundError, DuplicateEntityError, IdempotencyConflictError } from '../utils/DatabaseErrors';
+import { INITIAL_ORDER_STATUS, assertInitialStatus, assertTransition } from '../utils/OrderStateMachine';
+import { parseOrderStatus } from '../utils/OrderStatusMapping';
+import { assertItemTotal, computeOrderTotal, toCents } from '../utils/OrderTotals';
+import { assertAcceptsItems, assertInStock, holdsStockReservation } from '../utils/Inventory';
+import { INITIAL_VERSION, assertVersion } from '../utils/RowVersions';
+import {
+  IdempotentOperation, assertIdempotencyKey, fromStoredResponse, idempotencyKeyTtl, requestHash, toStoredResponse
+} from '../utils/Idempotency';
+import { ListQuery, ListResult, NEWEST_FIRST, applyListQuery, normalizePaging } from '../utils/ListQuery';
+import { matchesProductSearch, productSearchRank, resolveSortOrder } from '../utils/ProductSearch';
+import { hashPassword, verifyPassword } from '../utils/PasswordHashing';
+import { checkoutOrder, priceCart } from '../utils/Carts';
+import { DataStore } from './DataStore';
+
+/**
+ * A user, product or order row as far as soft deletes and row versions are concerned
+ */
+type VersionedRow = { version?: number; updated_at?: Date; deleted_at?: Date | null };
+
+/**
+ * The response of a call made with an idempotency key, pending while the call is in flight
+ */
+type IdempotencyRecord = { request_hash: string; response: Promise<Record<string, unknown>>; created_at: number };
+
+/**
+ * In-Memory Store
+ * Keeps users, products, orders and order items in process memory for the gRPC server.
+ * Method names and return shapes mirror DatabaseService so the handlers stay backend agnostic.
+ * Soft deleted users, products and orders move to the deleted* maps until they are restored.
+ * Every change of one of them goes through touched(), which does what the touch_row trigger does in Postgres.
+ */
+export class InMemoryStore implements DataStore {
+  /** Users without their password; the hashes live in passwordHashes, keyed by user ID */
+  private users = new Map<number, User>();
+  private passwordHashes = new Map<number, string>();
+  private products = new Map<number, Product>();
+  private orders = new Map<number, Order>();
+  private orderItems = new Map<number, OrderItem>();
+  private orderStatusHistory = new Map<number, OrderStatusChange>();
+  private deletedUsers = new Map<number, User>();
+  private deletedProducts = new Map<number, Product>();
+  private deletedOrders = new Map<number, Order>();
+  private auditLog = new Map<number, AuditEntry>();
+  /** Keyed by user ID */
+  private carts = new Map<number, Cart>();
+  private cartItems = new Map<number, CartItem>();
+  /** Keyed by `<operation>:<idempotency key>` */
+  private idempotencyKeys = new Map<string, IdempotencyRecord>();
+  private sequences = {
+    users: 0, products: 0, orders: 0, order_items: 0, order_status_history: 0, audit_log: 0, carts: 0, cart_items: 0
+  };
+  private actor = SYSTEM_ACTOR;
+
+  /**
+   * Remove all entities and restart the ID sequences
+   */
+  reset(): void {
+    this.users.clear();
+    this.passwordHashes.clear();
+    this.products.clear();
+    this.orders.clear();
+    this.orderItems.clear();
+    this.orderStatusHistory.clear();
+    this.deletedUsers.clear();
+    this.deletedProducts.clear();
+    this.deletedOrders.clear();
+    this.auditLog.clear();
+    this.carts.clear();
+    this.cartItems.clear();
+    this.idempotencyKeys.clear();
+    this.sequences = {
+      users: 0, products: 0, orders: 0, order_items: 0, order_status_history: 0, audit_log: 0, carts: 0, cart_items: 0
+    };
+  }
+
+  /**
+   * A view of this store sharing all of its data, whose changes are recorded as made by the actor
+   */
+  actingAs(actor: string): InMemoryStore {
+    const view: InMemoryStore = Object.create(this);
+    view.actor = actor;
+    return view;
+  }
+
+  // ==================== USER OPERATIONS ====================
+
+  async createUser(user: NewUser): Promise<User> {
+    // Hash before the checks, so nothing can slip in between the checks and the insert
+    const passwordHash = await hashPassword(user.password);
+    this.assertUnique([this.users, this.deletedUsers], 'User', 'username', user.username);
+    this.assertUnique([this.users, this.deletedUsers], 'User', 'email', user.email);
+
+    return this.insertUser(user, passwordHash);
+  }
+
+  async bulkCreateUsers(users: NewUser[]): Promise<User[]> {
+    const passwordHashes = await Promise.all(users.map(user => hashPassword(user.password)));
+    this.assertUniqueBatch([this.users, this.deletedUsers], 'User', users, ['username', 'email']);
+
+    return users.map((user, index) => this.insertUser(user, passwordHashes[index]));
+  }
+
+  async getUserById(id: number): Promise<User | null> {
+    return this.copyOf(this.users.get(id));
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    return this.copyOf(this.findOne(this.users, user => user.email === email));
+  }
+
+  async verifyCredentials(email: string, password: string): Promise<User | null> {
+    const user = this.findOne(this.users, candidate => candidate.email === email);
+    if (!user || !(await verifyPassword(password, this.passwordHashes.get(user.id!)!))) return null;
+    return this.getUserById(user.id!);
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.newestFirst(this.users);
+  }
+
+  async listUsers(query: ListQuery<User> = {}): Promise<ListResult<User>> {
+    return this.listOf(this.users, query);
+  }
+
+  async updateUser(id: number, updates: Partial<User>, expectedVersion?: number): Promise<User | null> {
+    const { password, ...profile } = updates;
+    const passwordHash = password === undefined ? undefined : await hashPassword(password);
+    const existing = this.users.get(id);
+    if (!existing) return null;
+    assertVersion('User', existing, expectedVersion);
+
+    const users = [this.users, this.deletedUsers];
+    if (profile.username !== undefined) this.assertUnique(users, 'User', 'username', profile.username, id);
+    if (profile.email !== undefined) this.assertUnique(users, 'User', 'email', profile.email, id);
+
+    const updatedUser = this.touched(existing, { ...profile, id, created_at: existing.created_at });
+    this.users.set(id, updatedUser);
+    if (passwordHash !== undefined) this.passwordHashes.set(id, passwordHash);
+    this.recordChange('User', id, AuditAction.UPDATE, existing, updatedUser);
+    return { ...updatedUser };
+  }
+
+  /**
+   * Soft delete a user; their orders and password hash are kept
+   */
+  async deleteUser(id: number): Promise<boolean> {
+    return this.softDelete('User', this.users, this.deletedUsers, id) !== null;
+  }
+
+  async restoreUser(id: number): Promise<User | null> {
+    return this.copyOf(this.restore('User', this.users, this.deletedUsers, id));
+  }
+
+  // ==================== PRODUCT OPERATIONS ====================
+
+  async createProduct(product: Product): Promise<Product> {
+    this.assertUnique([this.products, this.deletedProducts], 'Product', 'sku', product.sku);
+
+    const now = new Date();
+    const createdProduct: Product = {
+      ...product, id: ++this.sequences.products, created_at: now, updated_at: now, version: INITIAL_VERSION
+    };
+    this.products.set(createdProduct.id!, createdProduct);
+    this.recordChange('Product', createdProduct.id!, AuditAction.CREATE, null, createdProduct);
+    return { ...createdProduct };
+  }
+
+  async bulkCreateProducts(products: Product[]): Promise<Product[]> {
+    this.assertUniqueBatch([this.products, this.deletedProducts], 'Product', products, ['sku']);
+
+    const createdProducts: Product[] = [];
+    for (const product of products) {
+      createdProducts.push(await this.createProduct(product));
+    }
+    return createdProducts;
+  }
+
+  async getProductById(id: number): Promise<Product | null> {
+    return this.copyOf(this.products.get(id));
+  }
+
+  async getProductBySku(sku: string): Promise<Product | null> {
+    return this.copyOf(this.findOne(this.products, product => product.sku === sku));
+  }
+
+  async getAllProducts(): Promise<Product[]> {
+    return this.newestFirst(this.products);
+  }
+
+  async getProductsByCategory(category: string): Promise<Product[]> {
+    return [...this.products.values()]
+      .filter(product => product.category === category)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(product => ({ ...product }));
+  }
+
+  async listProducts(query: ListQuery<Product> = {}): Promise<ListResult<Product>> {
+    return this.listOf(this.products, query);
+  }
+
+  async searchProducts(search: ProductSearch): Promise<ListResult<Product>> {
+    const { page, limit } = normalizePaging(search);
+    const compare: Record<ProductSortOrder, (a: Product, b: Product) => number> = {
+      [ProductSortOrder.RELEVANCE]: (a, b) =>
+        productSearchRank(b, search.query) - productSearchRank(a, search.query) || b.id! - a.id!,
+      [ProductSortOrder.PRICE_ASC]: (a, b) => Number(a.price) - Number(b.price) || a.id! - b.id!,
+      [ProductSortOrder.PRICE_DESC]: (a, b) => Number(b.price) - Number(a.price) || b.id! - a.id!,
+      [ProductSortOrder.NAME]: (a, b) => a.name.localeCompare(b.name) || a.id! - b.id!,
+      [ProductSortOrder.NEWEST]: (a, b) => b.id! - a.id!
+    };
+
+    const matching = [...this.products.values()]
+      .filter(product => matchesProductSearch(product, search))
+      .sort(compare[resolveSortOrder(search)]);
+    const items = matching.slice((page - 1) * limit, page * limit).map(product => ({ ...product }));
+    return { items, total: matching.length, page, limit };
+  }
+
+  async updateProduct(id: number, updates: Partial<Product>, expectedVersion?: number): Promise<Product | null> {
+    const existing = this.products.get(id);
+    if (!existing) return null;
+    assertVersion('Product', existing, expectedVersion);
+
+    if (updates.sku !== undefined) this.assertUnique([this.products, this.deletedProducts], 'Product', 'sku', updates.sku, id);
+
+    const updatedProduct = this.touched(existing, { ...updates, id, created_at: existing.created_at });
+    this.products.set(id, updatedProduct);
+    this.recordChange('Product', id, AuditAction.UPDATE, existing, updatedProduct);
+    return { ...updatedProduct };
+  }
+
+  /**
+   * Soft delete a product; the items of the orders that contain it are kept
+   */
+  async deleteProduct(id: number): Promise<boolean> {
+    return this.softDelete('Product', this.products, this.deletedProducts, id) !== null;
+  }
+
+  async restoreProduct(id: number): Promise<Product | null> {
+    return this.copyOf(this.restore('Product', this.products, this.deletedProducts, id));
+  }
+
+  // ==================== ORDER OPERATIONS ====================
+
+  async createOrder(order: Order, idempotencyKey?: string): Promise<Order> {
+    const status = parseOrderStatus(order.status || INITIAL_ORDER_STATUS);
+    assertInitialStatus(status);
+
+    return await this.idempotent('CreateOrder', idempotencyKey, order, async () => {
+      if (!this.users.has(order.user_id)) {
+        throw new EntityNotFoundError('User', 'ID', order.user_id);
+      }
+      this.assertUnique([this.orders, this.deletedOrders], 'Order', 'order_number', order.order_number);
+
+      const now = new Date();
+      const createdOrder: Order = {
+        ...order,
+        id: ++this.sequences.orders,
+        total_amount: 0,
+        status,
+        created_at: now,
+        updated_at: now,
+        version: INITIAL_VERSION
+      };
+      this.orders.set(createdOrder.id!, createdOrder);
+      this.recordChange('Order', createdOrder.id!, AuditAction.CREATE, null, createdOrder);
+      return { ...createdOrder };
+    });
+  }
+
+  async getOrderById(id: number): Promise<Order | null> {
+    return this.copyOf(this.orders.get(id));
+  }
+
+  async getOrderByNumber(orderNumber: string): Promise<Order | null> {
+    return this.copyOf(this.findOne(this.orders, order => order.order_number === orderNumber));
+  }
+
+  async getOrdersByUserId(userId: number): Promise<Order[]> {
+    return (await this.getAllOrders()).filter(order => order.user_id === userId);
+  }
+
+  async getAllOrders(): Promise<Order[]> {
+    return this.newestFirst(this.orders);
+  }
+
+  async listOrders(query: ListQuery<Order> = {}): Promise<ListResult<Order>> {
+    return this.listOf(this.orders, query);
+  }
+
+  async updateOrderStatus(id: number, status: OrderStatus, expectedVersion?: number): Promise<Order | null> {
+    const existing = this.orders.get(id);
+    if (!existing) {
+      throw new EntityNotFoundError('Order', 'ID', id);
+    }
+    assertVersion('Order', existing, expectedVersion);
+
+    assertTransition(existing.status, parseOrderStatus(status));
+    if (status === OrderStatus.CANCELLED && holdsStockReservation(existing.status)) {
+      this.releaseOrderStock(id);
+    }
+
+    const now = new Date();
+    const change: OrderStatusChange = {
+      id: ++this.sequences.order_status_history,
+      order_id: id,
+      from_status: existing.status,
+      to_status: status,
+      changed_at: now
+    };
+    this.orderStatusHistory.set(change.id!, change);
+
+    const updatedOrder = this.touched(existing, { status });
+    this.orders.set(id, updatedOrder);
+    this.recordChange('Order', id, AuditAction.UPDATE, existing, updatedOrder);
+    return { ...updatedOrder };
+  }
+
+  async getOrderStatusHistory(orderId: number): Promise<OrderStatusChange[]> {
+    return [...this.orderStatusHistory.values()]
+      .filter(change => change.order_id === orderId)
+      .map(change => ({ ...change }));
+  }
+
+  /**
+   * Soft delete an order, keeping its items and status history but returning their stock
+   * unless the order has shipped or was cancelled
+   */
+  async deleteOrder(id: number): Promise<boolean> {
+    const order = this.orders.get(id);
+    if (!order) return false;
+
+    if (holdsStockReservation(order.status)) {
+      this.releaseOrderStock(id);
+    }
+    this.softDelete('Order', this.orders, this.deletedOrders, id);
+    return true;
+  }
+
+  async restoreOrder(id: number): Promise<Order | null> {
+    const order = this.deletedOrders.get(id);
+    if (!order) return null;
+
+    if (holdsStockReservation(order.status)) {
+      this.reserveOrderStock(id);
+    }
+    return this.copyOf(this.restore('Order', this.orders, this.deletedOrders, id));
+  }
+
+  // ==================== ORDER ITEM OPERATIONS ====================
+
+  async addOrderItem(orderItem: OrderItem, idempotencyKey?: string): Promise<OrderItem> {
+    return await this.idempotent('AddOrderItem', idempotencyKey, orderItem, async () => {
+      const order = this.orders.get(orderItem.order_id);
+      if (!order) {
+        throw new EntityNotFoundError('Order', 'ID', orderItem.order_id);
+      }
+      assertAcceptsItems(order);
+      const product = this.products.get(orderItem.product_id);
+      if (!product) {
+        throw new EntityNotFoundError('Product', 'ID', orderItem.product_id);
+      }
+      assertItemTotal(orderItem);
+      assertInStock(product, orderItem.quantity);
+
+      this.updateAudited('Product', this.products, product, { stock_quantity: product.stock_quantity - orderItem.quantity });
+      const createdItem: OrderItem = { ...orderItem, id: ++this.sequences.order_items };
+      this.orderItems.set(createdItem.id!, createdItem);
+      this.recalculateOrderTotal(orderItem.order_id);
+      return { ...createdItem };
+    });
+  }
+
+  async getOrderItemById(id: number): Promise<OrderItem | null> {
+    const item = this.orderItems.get(id);
+    return item ? { ...item } : null;
+  }
+
+  async getOrderItems(orderId: number): Promise<OrderItem[]> {
+    return [...this.orderItems.values()]
+      .filter(item => item.order_id === orderId)
+      .map(item => ({ ...item }));
+  }
+
+  async removeOrderItem(id: number): Promise<boolean> {
+    const item = this.orderItems.get(id);
+    if (!item) return false;
+    const order = this.orders.get(item.order_id);
+    if (!order) {
+      throw new EntityNotFoundError('Order', 'ID', item.order_id);
+    }
+    assertAcceptsItems(order);
+
+    this.orderItems.delete(id);
+    this.releaseStock(item.product_id, item.quantity);
+    this.recalculateOrderTotal(item.order_id);
+    return true;
+  }
+
+  async findOrderTotalMismatches(): Promise<OrderTotalMismatch[]> {
+    const mismatches: OrderTotalMismatch[] = [];
+    for (const order of this.orders.values()) {
+      const computedTotal = computeOrderTotal(await this.getOrderItems(order.id!));
+      if (toCents(order.total_amount) !== toCents(computedTotal)) {
+        mismatches.push({
+          order_id: order.id!,
+          order_number: order.order_number,
+          stored_total: Number(order.total_amount),
+          computed_total: computedTotal
+        });
+      }
+    }
+    return mismatches;
+  }
+
+  // ==================== CART OPERATIONS ====================
+
+  async getCart(userId: number): Promise<CartWithItems> {
+    return this.pricedCart(this.cartOf(userId));
+  }
+
+  async addToCart(userId: number, productId: number, quantity: number): Promise<CartWithItems> {
+    return this.changeCart(userId, cart => {
+      if (!this.products.has(productId)) {
+        throw new EntityNotFoundError('Product', 'ID', productId);
+      }
+      const item = this.cartItemOf(cart, productId);
+      if (item) {
+        this.cartItems.set(item.id!, { ...item, quantity: item.quantity + quantity });
+      } else {
+        const id = ++this.sequences.cart_items;
+        this.cartItems.set(id, { id, cart_id: cart.id!, product_id: productId, quantity });
+      }
+    });
+  }
+
+  async updateCartQuantity(userId: number, productId: number, quantity: number): Promise<CartWithItems> {
+    return this.changeCart(userId, cart => {
+      const item = this.cartItemOf(cart, productId);
+      if (!item) {
+        throw new EntityNotFoundError('Cart item', 'product ID', productId);
+      }
+      this.cartItems.set(item.id!, { ...item, quantity });
+    });
+  }
+
+  async removeFromCart(userId: number, productId: number): Promise<CartWithItems> {
+    return this.changeCart(userId, cart => {
+      const item = this.cartItemOf(cart, productId);
+      if (!item) {
+        throw new EntityNotFoundError('Cart item', 'product ID', productId);
+      }
+      this.cartItems.delete(item.id!);
+    });
+  }
+
+  async clearCart(userId: number): Promise<CartWithItems> {
+    return this.changeCart(userId, cart => this.emptyCart(cart));
+  }
+
+  async checkout(userId: number, checkout: CartCheckout): Promise<OrderWithItems> {
+    const cart = this.cartOf(userId);
+    const { order, items } = checkoutOrder(this.pricedCart(cart), checkout);
+    // Check every item before creating anything, so a failed checkout changes nothing
+    items.forEach(item => assertInStock(this.products.get(item.product_id)!, item.quantity));
+    this.assertUnique([this.orders, this.deletedOrders], 'Order', 'order_number', order.order_number);
+
+    const createdOrder = await this.createOrder(order);
+    const createdItems: OrderItem[] = [];
+    for (const item of items) {
+      createdItems.push(await this.addOrderItem({ ...item, order_id: createdOrder.id! }));
+    }
+    this.changeCart(userId, emptied => this.emptyCart(emptied));
+    // As recalculated by the items
+    return { order: (await this.getOrderById(createdOrder.id!))!, items: createdItems };
+  }
+
+  // ==================== AUDIT LOG ====================
+
+  async getAuditLog(entityType: AuditedEntity, entityId: number): Promise<AuditEntry[]> {
+    return [...this.auditLog.values()]
+      .filter(entry => entry.entity_type === entityType && entry.entity_id === entityId)
+      .map(entry => ({ ...entry }));
+  }
+
+  // ==================== HELPERS ====================
+
+  private insertUser(user: NewUser, passwordHash: string): User {
+    const { password, ...profile } = user;
+    const now = new Date();
+    const createdUser: User = {
+      ...profile, id: ++this.sequences.users, created_at: now, updated_at: now, version: INITIAL_VERSION
+    };
+    this.users.set(createdUser.id!, createdUser);
+    this.passwordHashes.set(createdUser.id!, passwordHash);
+    this.recordChange('User', createdUser.id!, AuditAction.CREATE, null, createdUser);
+    return { ...createdUser };
+  }
+
+  /**
+   * The user's cart, created on first use
+   */
+  private cartOf(userId: number): Cart {
+    if (!this.users.has(userId)) {
+      throw new EntityNotFoundError('User', 'ID', userId);
+    }
+
+    let cart = this.carts.get(userId);
+    if (!cart) {
+      const now = new Date();
+      cart = { id: ++this.sequences.carts, user_id: userId, created_at: now, updated_at: now };
+      this.carts.set(userId, cart);
+    }
+    return cart;
+  }
+
+  /**
+   * Change the user's cart and return it as changed, with updated_at stamped
+   */
+  private changeCart(userId: number, change: (cart: Cart) => void): CartWithItems {
+    const cart = this.cartOf(userId);
+    change(cart);
+    const touched = { ...cart, updated_at: new Date() };
+    this.carts.set(userId, touched);
+    return this.pricedCart(touched);
+  }
+
+  private cartItemOf(cart: Cart, productId: number): CartItem | undefined {
+    return this.findOne(this.cartItems, item => item.cart_id === cart.id && item.product_id === productId);
+  }
+
+  private emptyCart(cart: Cart): void {
+    this.cartItems.forEach((item, id) => {
+      if (item.cart_id === cart.id) this.cartItems.delete(id);
+    });
+  }
+
+  /**
+   * The cart priced at its products' current prices; items of deleted products are left out
+   */
+  private pricedCart(cart: Cart): CartWithItems {
+    const lines = [...this.cartItems.values()]
+      .filter(item => item.cart_id === cart.id && this.products.has(item.product_id))
+      .map(item => ({ item: { ...item }, product: this.products.get(item.product_id)! }));
+    return priceCart({ ...cart }, lines);
+  }
+
+  /**
+   * Perform a write once per idempotency key, like DatabaseService does. A repeat within the TTL
+   * with the same payload gets the first response, waiting for it while the first call is in flight;
+   * a write that fails is forgotten, so it can be retried with the same key.
+   */
+  private async idempotent<T>(
+    operation: IdempotentOperation,
+    key: string | undefined,
+    payload: unknown,
+    perform: () => Promise<T>
+  ): Promise<T> {
+    if (key === undefined) return await perform();
+    assertIdempotencyKey(key);
+
+    const expiredBefore = Date.now() - idempotencyKeyTtl();
+    this.idempotencyKeys.forEach((record, storedKey) => {
+      if (record.created_at < expiredBefore) this.idempotencyKeys.delete(storedKey);
+    });
+
+    const hash = requestHash(payload);
+    const storedKey = `${operation}:${key}`;
+    const stored = this.idempotencyKeys.get(storedKey);
+    if (stored) {
+      if (stored.request_hash !== hash) {
+        throw new IdempotencyConflictError(operation, key);
+      }
+      return fromStoredResponse<T>(await stored.response);
+    }
+
+    const response = perform().then(toStoredResponse);
+    this.idempotencyKeys.set(storedKey, { request_hash: hash, response, created_at: Date.now() });
+    try {
+      return fromStoredResponse<T>(await response);
+    } catch (error) {
+      this.idempotencyKeys.delete(storedKey);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a change in the audit log; rows are stored as JSON would return them, like the JSONB columns do
+   */
+  private recordChange<T extends object>(
+    entity: AuditedEntity,
+    entityId: number,
+    action: AuditAction,
+    before: T | null,
+    after: T | null
+  ): void {
+    const entry: AuditEntry = {
+      id: ++this.sequences.audit_log,
+      entity_type: entity,
+      entity_id: entityId,
+      action,
+      actor: this.actor,
+      before: before && JSON.parse(JSON.stringify(before)),
+      after: after && JSON.parse(JSON.stringify(after)),
+      changed_at: new Date()
+    };
+    this.auditLog.set(entry.id!, entry);
+  }
+
+  /**
+   * Move a row to the deleted rows, stamped with deleted_at; null when there is no live row with the ID
+   */
+  private softDelete<T extends VersionedRow>(
+    entity: AuditedEntity,
+    table: Map<number, T>,
+    deleted: Map<number, T>,
+    id: number
+  ): T | null {
+    const row = table.get(id);
+    if (!row) return null;
+
+    const deletedRow = this.touched(row, { deleted_at: new Date() } as Partial<T>);
+    table.delete(id);
+    deleted.set(id, deletedRow);
+    this.recordChange(entity, id, AuditAction.DELETE, row, deletedRow);
+    return deletedRow;
+  }
+
+  /**
+   * Move a row back from the deleted rows; null when there is no deleted row with the ID
+   */
+  private restore<T extends VersionedRow>(
+    entity: AuditedEntity,
+    table: Map<number, T>,
+    deleted: Map<number, T>,
+    id: number
+  ): T | null {
+    const row = deleted.get(id);
+    if (!row) return null;
+
+    const restoredRow = this.touched(row, { deleted_at: null } as Partial<T>);
+    deleted.delete(id);
+    table.set(id, restoredRow);
+    this.recordChange(entity, id, AuditAction.RESTORE, row, restoredRow);
+    return restoredRow;
+  }
+
+  /**
+   * The row with the changes applied as its next version, stamped with the time of the change
+   */
+  private touched<T extends VersionedRow>(row: T, changes: Partial<T>): T {
+    return { ...row, ...changes, version: (row.version ?? INITIAL_VERSION) + 1, updated_at: new Date() };
+  }
+
+  /**
+   * Store the row's next version with the changes applied and record it in the audit log, for changes
+   * that follow from another one, such as stock reservations and order totals
+   */
+  private updateAudited<T extends VersionedRow & { id?: number }>(
+    entity: AuditedEntity,
+    table: Map<number, T>,
+    row: T,
+    changes: Partial<T>
+  ): void {
+    const updatedRow = this.touched(row, changes);
+    table.set(row.id!, updatedRow);
+    this.recordChange(entity, row.id!, AuditAction.UPDATE, row, updatedRow);
+  }
+
+  private recalculateOrderTotal(orderId: number): void {
+    const order = this.orders.get(orderId)!;
+    const items = [...this.orderItems.values()].filter(item => item.order_id === orderId);
+    this.updateAudited('Order', this.orders, order, { total_amount: computeOrderTotal(items) });
+  }
+
+  /**
+   * Put quantity units back into a product's stock, deleted or not
+   */
+  private releaseStock(productId: number, quantity: number): void {
+    const table = this.products.has(productId) ? this.products : this.deletedProducts;
+    const product = table.get(productId);
+    if (!product) return;
+
+    this.updateAudited('Product', table, product, { stock_quantity: product.stock_quantity + quantity });
+  }
+
+  /**
+   * Take the quantities of all of an order's items out of stock again, all or none
+   */
+  private reserveOrderStock(orderId: number): void {
+    const quantities = new Map<number, number>();
+    for (const item of this.orderItems.values()) {
+      if (item.order_id === orderId) {
+        quantities.set(item.product_id, (quantities.get(item.product_id) || 0) + item.quantity);
+      }
+    }
+
+    for (const [productId, quantity] of quantities) {
+      const product = this.products.get(productId);
+      if (!product) {
+        throw new EntityNotFoundError('Product', 'ID', productId);
+      }
+      assertInStock(product, quantity);
+    }
+    for (const [productId, quantity] of quantities) {
+      const product = this.products.get(productId)!;
+      this.updateAudited('Product', this.products, product, { stock_quantity: product.stock_quantity - quantity });
+    }
+  }
+
+  private releaseOrderStock(orderId: number): void {
+    for (const item of this.orderItems.values()) {
+      if (item.order_id === orderId) this.releaseStock(item.product_id, item.quantity);
+    }
+  }
+
+  private listOf<T extends { id?: number; created_at?: Date }>(table: Map<number, T>, query: ListQuery<T>): ListResult<T> {
+    const result = applyListQuery([...table.values()], { sort: NEWEST_FIRST, ...query });
+    return { ...result, items: result.items.map(row => ({ ...row })) };
+  }
+
+  /**
+   * Check a value against the rows of the tables, e.g. a table and its deleted rows
+   */
+  private assertUnique<T extends { id?: number }>(
+    tables: Map<number, T>[],
+    entity: string,
+    field: keyof T,
+    value: unknown,
+    excludeId?: number
+  ): void {
+    const conflict = tables.some(table => this.findOne(table, row => row[field] === value && row.id !== excludeId));
+    if (conflict) {
+      throw new DuplicateEntityError(entity, String(field), value);
+    }
+  }
+
+  /**
+   * Check a whole batch against the table and against itself before any row is inserted,
+   * so a bulk create either inserts every row or none
+   */
+  private assertUniqueBatch<T extends { id?: number }>(
+    tables: Map<number, T>[],
+    entity: string,
+    rows: T[],
+    fields: (keyof T)[]
+  ): void {
+    for (const field of fields) {
+      const seen = new Set<unknown>();
+      for (const row of rows) {
+        this.assertUnique(tables, entity, field, row[field]);
+        if (seen.has(row[field])) {
+          throw new DuplicateEntityError(entity, String(field), row[field]);
+        }
+        seen.add(row[field]);
+      }
+    }
+  }
+
+  private findOne<T>(table: Map<number, T>, predicate: (row: T) => boolean): T | undefined {
+    for (const row of table.values()) {
+      if (predicate(row)) return row;
+    }
+    return undefined;
+  }
+
+  private newestFirst<T extends { id?: number }>(table: Map<number, T>): T[] {
+    return [...table.values()]
+      .sort((a, b) => b.id! - a.id!)
+      .map(row => ({ ...row }));
+  }
+
+  private copyOf<T>(row: T | undefined): T | null {
+    return row ? { ...row } : null;
+  }
+}
@@ -0,0 +1,29 @@
+import { EventEmitter } from 'events';
+import { OrderEvent } from '../proto/generated/order';
+
+const ORDER_EVENT = 'order-event';
+
+/**
+ * Order Event Bus
+ * Fans out the order events published by the order handlers to every open OrderEvents channel
+ */
+export class OrderEventBus {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open channel
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: OrderEvent): void {
+    this.emitter.emit(ORDER_EVENT, event);
+  }
+
+  /**
+   * Register a listener; returns a function removing it again
+   */
+  subscribe(listener: (event: OrderEvent) => void): () => void {
+    this.emitter.on(ORDER_EVENT, listener);
+    return () => this.emitter.off(ORDER_EVENT, listener);
+  }
+}
@@ -0,0 +1,188 @@
+import * as grpc from '@grpc/grpc-js';
+import { DatabaseError } from 'pg';
+import {
+  EntityNotFoundError, DuplicateEntityError, IllegalStatusTransitionError, InvalidOrderStatusError,
+  OrderItemTotalMismatchError, OutOfStockError, InvalidListQueryError, ValidationError, FieldViolation,
+  VersionConflictError, IdempotencyConflictError, EmptyCartError, ClosedOrderError
+} from '../utils/DatabaseErrors';
+import { ErrorDetails, statusDetailsMetadata } from '../utils/GrpcErrors';
+import { ResourceInfo } from '../proto/generated/error_details';
+
+/**
+ * Server Errors
+ * Request errors raised by the gRPC handlers and the mapping of store errors to gRPC status codes and details
+ */
+
+/**
+ * Raised when a call carries no valid credentials
+ */
+export class UnauthenticatedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnauthenticatedError';
+  }
+}
+
+/**
+ * Raised when the caller is authenticated but may not access the resource
+ */
+export class PermissionDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/**
+ * PostgreSQL error codes surfaced by DatabaseService
+ * https://www.postgresql.org/docs/current/errcodes-appendix.html
+ */
+const PG_STATUS_CODES: Record<string, grpc.status> = {
+  '23505': grpc.status.ALREADY_EXISTS, // unique_violation
+  '23503': grpc.status.NOT_FOUND, // foreign_key_violation
+  '23502': grpc.status.INVALID_ARGUMENT, // not_null_violation
+  '23514': grpc.status.INVALID_ARGUMENT, // check_violation
+  '22001': grpc.status.INVALID_ARGUMENT, // string_data_right_truncation
+  '22P02': grpc.status.INVALID_ARGUMENT // invalid_text_representation
+};
+
+/**
+ * What the client is told of an error the server did not expect
+ */
+const INTERNAL_ERROR_MESSAGE = 'Internal error';
+
+/**
+ * Unique constraints of the schema (Postgres default names, see utils/migrations) and the field each
+ * one keeps unique, so a unique violation carries the same ResourceInfo as the in-memory store's
+ * DuplicateEntityError
+ */
+const UNIQUE_CONSTRAINTS: Record<string, { entity: string; field: string }> = {
+  users_username_key: { entity: 'User', field: 'username' },
+  users_email_key: { entity: 'User', field: 'email' },
+  products_sku_key: { entity: 'Product', field: 'sku' },
+  orders_order_number_key: { entity: 'Order', field: 'order_number' }
+};
+
+/**
+ * Convert a store error into a gRPC status error for the callback. Errors with structured details
+ * also carry them as a google.rpc.Status in the trailing metadata (see utils/GrpcErrors.ts).
+ */
+export function toServiceError(error: unknown): Partial<grpc.ServiceError> {
+  const { code, details, errorDetails } = classify(error);
+  return errorDetails
+    ? { code, details, metadata: statusDetailsMetadata(code, details, errorDetails) }
+    : { code, details };
+}
+
+function classify(error: unknown): { code: grpc.status; details: string; errorDetails?: ErrorDetails } {
+  if (error instanceof DatabaseError && error.code === '23505') {
+    error = duplicateEntityOf(error) || error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof EntityNotFoundError) {
+    return { code: grpc.status.NOT_FOUND, details: message, errorDetails: { resourceInfo: resourceInfo(error, message) } };
+  }
+  if (error instanceof DuplicateEntityError) {
+    return { code: grpc.status.ALREADY_EXISTS, details: message, errorDetails: { resourceInfo: resourceInfo(error, message) } };
+  }
+  if (error instanceof UnauthenticatedError) {
+    return { code: grpc.status.UNAUTHENTICATED, details: message };
+  }
+  if (error instanceof PermissionDeniedError) {
+    return { code: grpc.status.PERMISSION_DENIED, details: message };
+  }
+  if (error instanceof IllegalStatusTransitionError) {
+    return {
+      code: grpc.status.FAILED_PRECONDITION,
+      details: message,
+      errorDetails: preconditionFailure('ORDER_STATUS_TRANSITION', `order_status/${error.from}`, message)
+    };
+  }
+  if (error instanceof OutOfStockError) {
+    return {
+      code: grpc.status.FAILED_PRECONDITION,
+      details: message,
+      errorDetails: preconditionFailure('STOCK', `product/${error.productId}`, message)
+    };
+  }
+  if (error instanceof ClosedOrderError) {
+    return {
+      code: grpc.status.FAILED_PRECONDITION,
+      details: message,
+      errorDetails: preconditionFailure('ORDER_STATUS', `order/${error.orderId}`, message)
+    };
+  }
+  if (error instanceof EmptyCartError) {
+    return {
+      code: grpc.status.FAILED_PRECONDITION,
+      details: message,
+      errorDetails: preconditionFailure('CART_NOT_EMPTY', `user/${error.userId}/cart`, message)
+    };
+  }
+  if (error instanceof IdempotencyConflictError) {
+    return {
+      code: grpc.status.FAILED_PRECONDITION,
+      details: message,
+      errorDetails: preconditionFailure('IDEMPOTENCY_KEY', `idempotency-key/${error.key}`, message)
+    };
+  }
+  if (error instanceof VersionConflictError) {
+    // ABORTED rather than FAILED_PRECONDITION: the client should read the row again and retry on top of it
+    return {
+      code: grpc.status.ABORTED,
+      details: message,
+      errorDetails: preconditionFailure('VERSION', `${error.entity.toLowerCase()}/${error.id}`, message)
+    };
+  }
+  if (error instanceof ValidationError) {
+    return { code: grpc.status.INVALID_ARGUMENT, details: message, errorDetails: badRequest(error.violations) };
+  }
+  if (error instanceof InvalidOrderStatusError) {
+    return {
+      code: grpc.status.INVALID_ARGUMENT,
+      details: message,
+      errorDetails: badRequest([{ field: 'status', description: message }])
+    };
+  }
+  if (error instanceof OrderItemTotalMismatchError) {
+    return {
+      code: grpc.status.INVALID_ARGUMENT,
+      details: message,
+      errorDetails: badRequest([{ field: 'total_price', description: message }])
+    };
+  }
+  if (error instanceof InvalidListQueryError) {
+    return { code: grpc.status.INVALID_ARGUMENT, details: message };
+  }
+  if (error instanceof DatabaseError && error.code && PG_STATUS_CODES[error.code] !== undefined) {
+    return { code: PG_STATUS_CODES[error.code], details: error.detail || message };
+  }
+  // Unexpected errors may quote SQL, constraints or stack details: log them here, not to the client
+  console.error('Internal error:', error);
+  return { code: grpc.status.INTERNAL, details: INTERNAL_ERROR_MESSAGE };
+}
+
+/**
+ * The DuplicateEntityError of a unique violation of a known constraint; its detail reads
+ * `Key (sku)=(SKU-1) already exists.`
+ */
+function duplicateEntityOf(error: DatabaseError): DuplicateEntityError | undefined {
+  const constraint = error.constraint ? UNIQUE_CONSTRAINTS[error.constraint] : undefined;
+  const value = /^Key \(.+?\)=\((.*)\) already exists\.$/.exec(error.detail || '')?.[1];
+  return constraint && value !== undefined
+    ? new DuplicateEntityError(constraint.entity, constraint.field, value)
+    : undefined;
+}
+
+function resourceInfo(error: EntityNotFoundError | DuplicateEntityError, message: string): ResourceInfo {
+  return { resource_type: error.entity, resource_name: String(error.value), owner: '', description: message };
+}
+
+function preconditionFailure(type: string, subject: string, description: string): ErrorDetails {
+  return { preconditionFailure: { violations: [{ type, subject, description }] } };
+}
+
+function badRequest(violations: FieldViolation[]): ErrorDetails {
+  return { badRequest: { field_violations: violations } };
+}
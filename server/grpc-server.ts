@@ -0,0 +1,104 @@
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+import * as path from 'path';
+import dotenv from 'dotenv';
+import { DatabaseService } from '../utils/DatabaseService';
+import { DatabaseConnection } from '../utils/DatabaseConnection';
+import { Authenticator } from './Authenticator';
+import { DataStore } from './DataStore';
+import { InMemoryStore } from './InMemoryStore';
+import { createUserHandlers, createProductHandlers, createOrderHandlers, createCartHandlers } from './GrpcHandlers';
+import { OrderEventBus } from './OrderEvents';
+
+// Load environment variables
+dotenv.config();
+
+const protoOptions: protoLoader.Options = {
+  keepCase: true,
+  longs: String,
+  enums: String,
+  defaults: true,
+  oneofs: true
+};
+
+const loadProto = (file: string): any =>
+  grpc.loadPackageDefinition(
+    protoLoader.loadSync(path.join(__dirname, '..', 'proto', file), protoOptions)
+  );
+
+/**
+ * Create a gRPC server exposing the User, Product, Order and Cart services over the given store;
+ * every call except Login and CreateUser must carry a bearer token accepted by the authenticator
+ */
+export function createServer(store: DataStore, auth: Authenticator = Authenticator.fromEnv()): grpc.Server {
+  const userProto = loadProto('user.proto').user;
+  const productProto = loadProto('product.proto').product;
+  const orderProto = loadProto('order.proto').order;
+  const cartProto = loadProto('cart.proto').cart;
+  const orderEvents = new OrderEventBus();
+
+  const server = new grpc.Server({ interceptors: [auth.interceptor()] });
+  server.addService(userProto.UserService.service, createUserHandlers(store, auth));
+  server.addService(productProto.ProductService.service, createProductHandlers(store, auth));
+  server.addService(orderProto.OrderService.service, createOrderHandlers(store, auth, orderEvents));
+  server.addService(cartProto.CartService.service, createCartHandlers(store, auth, orderEvents));
+  return server;
+}
+
+/**
+ * Create the store selected by GRPC_STORE: 'memory' (default) or 'postgres'.
+ * The postgres store is DatabaseService itself, so gRPC writes are visible to database tests.
+ */
+export async function createStore(kind: string = process.env.GRPC_STORE || 'memory'): Promise<DataStore> {
+  switch (kind) {
+    case 'memory':
+      return new InMemoryStore();
+    case 'postgres': {
+      const dbService = new DatabaseService();
+      await dbService.initializeDatabase();
+      return dbService;
+    }
+    default:
+      throw new Error(`Unknown GRPC_STORE '${kind}', expected 'memory' or 'postgres'`);
+  }
+}
+
+/**
+ * Start the gRPC server on GRPC_HOST:GRPC_PORT and resolve once it is bound
+ */
+export function startServer(store: DataStore): Promise<grpc.Server> {
+  const host = process.env.GRPC_HOST || 'localhost';
+  const port = process.env.GRPC_PORT || '50051';
+  const address = `${host}:${port}`;
+  const server = createServer(store);
+
+  return new Promise((resolve, reject) => {
+    server.bindAsync(address, grpc.ServerCredentials.createInsecure(), (error) => {
+      if (error) {
+        console.error('Server bind failed:', error);
+        return reject(error);
+      }
+      console.log(`gRPC server started at ${address} (${store.constructor.name})`);
+      resolve(server);
+    });
+  });
+}
+
+if (require.main === module) {
+  createStore()
+    .then(startServer)
+    .then((server) => {
+      process.on('SIGINT', () => {
+        server.tryShutdown(async () => {
+          if (process.env.GRPC_STORE === 'postgres') {
+            await DatabaseConnection.getInstance().close();
+          }
+          process.exit(0);
+        });
+      });
+    })
+    .catch((error) => {
+      console.error('Failed to start gRPC server:', error);
+      process.exit(1);
+    });
+}
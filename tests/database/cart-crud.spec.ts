@@ -0,0 +1,125 @@
+import { test, expect } from './fixtures';
+import { DatabaseTestData } from '../../utils/DatabaseTestData';
+import { CartCheckout, OrderStatus } from '../../utils/DatabaseModels';
+import { EmptyCartError, EntityNotFoundError, OutOfStockError, ValidationError } from '../../utils/DatabaseErrors';
+import { DatabaseService } from '../../utils/DatabaseService';
+
+/**
+ * Cart Operations Test Suite
+ * Tests the cart of a user, priced at the current product prices, and checking it out into an order
+ */
+test.describe('Cart Operations', () => {
+  const checkout: CartCheckout = {
+    shipping_address: '123 Cart Street, Test City, TS 12345',
+    billing_address: '123 Cart Street, Test City, TS 12345',
+    payment_method: 'Credit Card'
+  };
+
+  const createUserAndProduct = async (dbService: DatabaseService, price: number, stockQuantity: number) => {
+    const user = await dbService.createUser(DatabaseTestData.generateSingleUser());
+    const product = await dbService.createProduct({
+      ...DatabaseTestData.generateSingleProduct(), price, stock_quantity: stockQuantity
+    });
+    return { user, product };
+  };
+
+  test.describe('Cart Items', () => {
+    test('should create an empty cart on first use', async ({ dbService }) => {
+      const user = await dbService.createUser(DatabaseTestData.generateSingleUser());
+
+      const first = await dbService.getCart(user.id!);
+      const second = await dbService.getCart(user.id!);
+
+      expect(first.cart.id).toBeDefined();
+      expect(second.cart.id).toBe(first.cart.id);
+      expect(first.items).toEqual([]);
+      expect(first.total_amount).toBe(0);
+    });
+
+    test('should add to the quantity of a product already in the cart', async ({ dbService }) => {
+      const { user, product } = await createUserAndProduct(dbService, 19.99, 10);
+
+      await dbService.addToCart(user.id!, product.id!, 1);
+      const cart = await dbService.addToCart(user.id!, product.id!, 2);
+
+      expect(cart.items).toEqual([
+        expect.objectContaining({ product_id: product.id, quantity: 3, unit_price: 19.99, total_price: 59.97 })
+      ]);
+      expect(cart.total_quantity).toBe(3);
+      expect(cart.total_amount).toBe(59.97);
+    });
+
+    test('should price the cart at the current product prices', async ({ dbService }) => {
+      const { user, product } = await createUserAndProduct(dbService, 10, 10);
+      await dbService.addToCart(user.id!, product.id!, 2);
+
+      await dbService.updateProduct(product.id!, { price: 12.5 });
+
+      expect((await dbService.getCart(user.id!)).total_amount).toBe(25);
+    });
+
+    test('should update, remove and clear cart items', async ({ dbService }) => {
+      const { user, product } = await createUserAndProduct(dbService, 10, 10);
+      const other = await dbService.createProduct(DatabaseTestData.generateSingleProduct());
+      await dbService.addToCart(user.id!, product.id!, 1);
+      await dbService.addToCart(user.id!, other.id!, 1);
+
+      expect((await dbService.updateCartQuantity(user.id!, product.id!, 4)).items[0].quantity).toBe(4);
+      expect((await dbService.removeFromCart(user.id!, other.id!)).item_count).toBe(1);
+      expect((await dbService.clearCart(user.id!)).items).toEqual([]);
+      await expect(dbService.removeFromCart(user.id!, other.id!)).rejects.toBeInstanceOf(EntityNotFoundError);
+    });
+
+    test('should reject invalid quantities and unknown products', async ({ dbService }) => {
+      const { user, product } = await createUserAndProduct(dbService, 10, 10);
+
+      await expect(dbService.addToCart(user.id!, product.id!, 0)).rejects.toBeInstanceOf(ValidationError);
+      await expect(dbService.addToCart(user.id!, 99999, 1)).rejects.toBeInstanceOf(EntityNotFoundError);
+    });
+
+    test('should leave items of deleted products out of the cart until they are restored', async ({ dbService }) => {
+      const { user, product } = await createUserAndProduct(dbService, 10, 10);
+      await dbService.addToCart(user.id!, product.id!, 1);
+
+      await dbService.deleteProduct(product.id!);
+      expect((await dbService.getCart(user.id!)).items).toEqual([]);
+
+      await dbService.restoreProduct(product.id!);
+      expect((await dbService.getCart(user.id!)).item_count).toBe(1);
+    });
+  });
+
+  test.describe('Checkout', () => {
+    test('should create a pending order with the cart items and empty the cart', async ({ dbService }) => {
+      const { user, product } = await createUserAndProduct(dbService, 12.5, 5);
+      await dbService.addToCart(user.id!, product.id!, 2);
+
+      const { order, items } = await dbService.checkout(user.id!, checkout);
+
+      expect(order).toMatchObject({ user_id: user.id, status: OrderStatus.PENDING });
+      expect(Number(order.total_amount)).toBe(25);
+      expect(items).toEqual([
+        expect.objectContaining({ order_id: order.id, product_id: product.id, quantity: 2 })
+      ]);
+      expect((await dbService.getProductById(product.id!))!.stock_quantity).toBe(3);
+      expect((await dbService.getCart(user.id!)).items).toEqual([]);
+      expect(await dbService.findOrderTotalMismatches()).toEqual([]);
+    });
+
+    test('should reject an empty cart', async ({ dbService }) => {
+      const user = await dbService.createUser(DatabaseTestData.generateSingleUser());
+
+      await expect(dbService.checkout(user.id!, checkout)).rejects.toBeInstanceOf(EmptyCartError);
+    });
+
+    test('should change nothing when a product is out of stock', async ({ dbService }) => {
+      const { user, product } = await createUserAndProduct(dbService, 10, 1);
+      await dbService.addToCart(user.id!, product.id!, 2);
+
+      await expect(dbService.checkout(user.id!, checkout)).rejects.toBeInstanceOf(OutOfStockError);
+
+      expect((await dbService.getCart(user.id!)).total_quantity).toBe(2);
+      expect(await dbService.getOrdersByUserId(user.id!)).toEqual([]);
+    });
+  });
+});
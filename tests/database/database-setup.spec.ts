@@ -1,6 +1,10 @@
 import { test, expect } from "@playwright/test";
 import { DatabaseConnection } from "../../utils/DatabaseConnection";
 import { DatabaseService } from "../../utils/DatabaseService";
+import { DatabaseTestData } from "../../utils/DatabaseTestData";
+import { MigrationRunner } from "../../utils/MigrationRunner";
+import { MIGRATIONS } from "../../utils/migrations";
+import { Migration } from "../../utils/DatabaseModels";
 
 /**
  * Database Setup and Connection Test Suite
@@ -97,6 +101,49 @@ test.describe("Database Setup and Connection", () => {
     });
   });
 
+  test.describe("Schema Migrations", () => {
+    const scratchMigration: Migration = {
+      version: 9001,
+      name: "scratch_table",
+      up: "CREATE TABLE migration_scratch (id SERIAL PRIMARY KEY)",
+      down: "DROP TABLE migration_scratch",
+    };
+
+    test("should record every migration as applied", async () => {
+      const runner = new MigrationRunner(dbConnection);
+      await runner.migrate();
+
+      const status = await runner.status();
+
+      expect(status.map((migration) => migration.version)).toEqual(
+        MIGRATIONS.map((migration) => migration.version)
+      );
+      expect(status.every((migration) => migration.applied)).toBe(true);
+    });
+
+    test("should not reapply migrations that already ran", async () => {
+      const runner = new MigrationRunner(dbConnection);
+      await runner.migrate();
+
+      await expect(runner.migrate()).resolves.toHaveLength(0);
+    });
+
+    test("should migrate and roll back the latest migration", async () => {
+      const runner = new MigrationRunner(dbConnection, [...MIGRATIONS, scratchMigration]);
+
+      const applied = await runner.migrate();
+      expect(applied.map((migration) => migration.version)).toEqual([9001]);
+      await expect(dbConnection.query("SELECT * FROM migration_scratch")).resolves.toBeDefined();
+
+      const reverted = await runner.rollback();
+      expect(reverted.map((migration) => migration.version)).toEqual([9001]);
+      await expect(dbConnection.query("SELECT * FROM migration_scratch")).rejects.toThrow();
+
+      const status = await runner.status();
+      expect(status.find((migration) => migration.version === 9001)!.applied).toBe(false);
+    });
+  });
+
   test.describe("Database Transactions", () => {
     test("should handle transactions successfully", async () => {
       const queries = [
@@ -137,6 +184,56 @@ test.describe("Database Setup and Connection", () => {
 
       await expect(dbConnection.transaction(queries)).rejects.toThrow();
     });
+
+    test("should run withTransaction statements in order", async () => {
+      const count = await dbConnection.withTransaction(async (tx) => {
+        await tx.query("CREATE TEMP TABLE test_with_transaction (id SERIAL, name TEXT)");
+        const { rows } = await tx.query(
+          "INSERT INTO test_with_transaction (name) VALUES ($1) RETURNING id",
+          ["Parent"]
+        );
+        await tx.query("INSERT INTO test_with_transaction (name) VALUES ($1)", [
+          `Child of ${rows[0].id}`,
+        ]);
+        const result = await tx.query("SELECT COUNT(*) as count FROM test_with_transaction");
+        return result.rows[0].count;
+      });
+
+      expect(count).toBe("2");
+    });
+
+    test("should roll back withTransaction when the callback throws", async () => {
+      await dbService.initializeDatabase();
+      const userData = DatabaseTestData.generateSingleUser();
+
+      await expect(
+        dbService.withTransaction(async (tx) => {
+          await tx.createUser(userData);
+          throw new Error("Abort transaction");
+        })
+      ).rejects.toThrow("Abort transaction");
+
+      expect(await dbService.getUserByEmail(userData.email)).toBeNull();
+    });
+
+    test("should roll back only the failed savepoint of a nested transaction", async () => {
+      const names = await dbConnection.withTransaction(async (tx) => {
+        await tx.query("CREATE TEMP TABLE test_savepoint (name TEXT)");
+        await tx.query("INSERT INTO test_savepoint (name) VALUES ($1)", ["Outer"]);
+
+        await expect(
+          tx.withTransaction(async (nested) => {
+            await nested.query("INSERT INTO test_savepoint (name) VALUES ($1)", ["Inner"]);
+            await nested.query("SELECT * FROM non_existent_table");
+          })
+        ).rejects.toThrow();
+
+        const { rows } = await tx.query("SELECT name FROM test_savepoint");
+        return rows.map((row) => row.name);
+      });
+
+      expect(names).toEqual(["Outer"]);
+    });
   });
 
   test.describe("Data Cleanup", () => {
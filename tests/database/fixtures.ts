@@ -0,0 +1,28 @@
+import { test as base } from '@playwright/test';
+import { DatabaseConnection, TransactionClient } from '../../utils/DatabaseConnection';
+import { DatabaseService } from '../../utils/DatabaseService';
+
+type DatabaseFixtures = {
+  /** Transaction opened before the test and rolled back after it */
+  tx: TransactionClient;
+  /** DatabaseService bound to the test transaction */
+  dbService: DatabaseService;
+};
+
+/**
+ * Database Test Fixtures
+ * Every test runs inside its own transaction that is rolled back afterwards,
+ * so database specs can run in parallel without cleaning up after each other.
+ * The schema is created by the database-setup project that these specs depend on.
+ */
+export const test = base.extend<DatabaseFixtures>({
+  tx: async ({}, use) => {
+    await DatabaseConnection.getInstance().withRollback(use);
+  },
+
+  dbService: async ({ tx }, use) => {
+    await use(new DatabaseService(tx));
+  }
+});
+
+export { expect } from '@playwright/test';
@@ -1,42 +1,22 @@
-import { test, expect } from '@playwright/test';
-import { DatabaseService } from '../../utils/DatabaseService';
+import { test, expect } from './fixtures';
 import { DatabaseTestData } from '../../utils/DatabaseTestData';
-import { User, Product, Order, OrderItem, OrderStatus } from '../../utils/DatabaseModels';
+import { NewUser, Product, Order, OrderItem, OrderStatus } from '../../utils/DatabaseModels';
+import {
+  IllegalStatusTransitionError, InvalidOrderStatusError, OrderItemTotalMismatchError, OutOfStockError,
+  VersionConflictError, IdempotencyConflictError, ClosedOrderError
+} from '../../utils/DatabaseErrors';
+import { DatabaseService } from '../../utils/DatabaseService';
 
 /**
  * Order CRUD Operations Test Suite
  * Tests all Create, Read, Update, Delete operations for Order entity and Order Items
  */
 test.describe('Order CRUD Operations', () => {
-  let dbService: DatabaseService;
-  let testUsers: User[];
-  let testProducts: Product[];
-
-  test.beforeAll(async () => {
-    // Initialize database service and schema
-    dbService = new DatabaseService();
-    await dbService.initializeDatabase();
-    
-    // Generate test data
-    testUsers = DatabaseTestData.generateUsers(3);
-    testProducts = DatabaseTestData.generateProducts(5);
-  });
-
-  test.afterAll(async () => {
-    // Clean up all test data
-    await dbService.cleanupTestData();
-  });
-
-  test.beforeEach(async () => {
-    // Clean up before each test to ensure isolation
-    await dbService.cleanupTestData();
-    
-    // Small delay to ensure cleanup is processed
-    await new Promise(resolve => setTimeout(resolve, 100));
-  });
+  const testUsers: NewUser[] = DatabaseTestData.generateUsers(3);
+  const testProducts: Product[] = DatabaseTestData.generateProducts(5);
 
   test.describe('Create Operations', () => {
-    test('should create a single order successfully', async () => {
+    test('should create a single order successfully', async ({ dbService }) => {
       // First create a user
       const userData = DatabaseTestData.generateSingleUser();
       const createdUser = await dbService.createUser(userData);
@@ -49,14 +29,14 @@ test.describe('Order CRUD Operations', () => {
       expect(createdOrder.id).toBeDefined();
       expect(createdOrder.user_id).toBe(createdUser.id);
       expect(createdOrder.order_number).toBe(orderData.order_number);
-      expect(createdOrder.total_amount).toBe(orderData.total_amount.toString());
+      expect(createdOrder.total_amount).toBe('0.00');
       expect(createdOrder.status).toBe(orderData.status);
       expect(createdOrder.shipping_address).toBe(orderData.shipping_address);
       expect(createdOrder.billing_address).toBe(orderData.billing_address);
       expect(createdOrder.payment_method).toBe(orderData.payment_method);
       expect(createdOrder.created_at).toBeDefined();
     });
-    test('should create multiple orders successfully', async () => {
+    test('should create multiple orders successfully', async ({ dbService }) => {
       // First create users
       const createdUsers = await Promise.all(testUsers.map(userData => dbService.createUser(userData)));
       
@@ -79,15 +59,45 @@ test.describe('Order CRUD Operations', () => {
       });
     });
 
-    test('should fail to create order with non-existent user', async () => {
+    test('should fail to create order with non-existent user', async ({ dbService }) => {
       const orderData = DatabaseTestData.generateSingleOrder(99999); // Non-existent user ID
       
       await expect(dbService.createOrder(orderData)).rejects.toThrow();
     });
+
+    test('should create an order with its items atomically', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const createdProduct = await dbService.createProduct(DatabaseTestData.generateSingleProduct());
+      const { order_id, ...itemData } = DatabaseTestData.generateSingleOrderItem(0, createdProduct.id!);
+
+      const { order, items } = await dbService.createOrderWithItems(
+        DatabaseTestData.generateSingleOrder(createdUser.id!),
+        [itemData, itemData]
+      );
+
+      expect(order.id).toBeDefined();
+      expect(items).toHaveLength(2);
+      expect(items.every(item => item.order_id === order.id)).toBe(true);
+      expect(await dbService.getOrderItems(order.id!)).toHaveLength(2);
+    });
+
+    test('should roll back the order when one of its items fails', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const createdProduct = await dbService.createProduct(DatabaseTestData.generateSingleProduct());
+      const orderData = DatabaseTestData.generateSingleOrder(createdUser.id!);
+      const { order_id, ...validItem } = DatabaseTestData.generateSingleOrderItem(0, createdProduct.id!);
+      const invalidItem = { ...validItem, product_id: 99999 }; // Non-existent product ID
+
+      await expect(
+        dbService.createOrderWithItems(orderData, [validItem, invalidItem])
+      ).rejects.toThrow();
+
+      expect(await dbService.getOrderByNumber(orderData.order_number)).toBeNull();
+    });
   });
 
   test.describe('Read Operations', () => {
-    test('should retrieve order by ID', async () => {
+    test('should retrieve order by ID', async ({ dbService }) => {
       // First create a user and order
       const userData = DatabaseTestData.generateSingleUser();
       const createdUser = await dbService.createUser(userData);
@@ -102,7 +112,7 @@ test.describe('Order CRUD Operations', () => {
       expect(retrievedOrder!.user_id).toBe(createdUser.id);
     });
 
-    test('should retrieve order by order number', async () => {
+    test('should retrieve order by order number', async ({ dbService }) => {
       // First create a user and order
       const userData = DatabaseTestData.generateSingleUser();
       const createdUser = await dbService.createUser(userData);
@@ -116,13 +126,13 @@ test.describe('Order CRUD Operations', () => {
       expect(retrievedOrder!.order_number).toBe(orderData.order_number);
     });
 
-    test('should return null for non-existent order ID', async () => {
+    test('should return null for non-existent order ID', async ({ dbService }) => {
       const retrievedOrder = await dbService.getOrderById(99999);
       
       expect(retrievedOrder).toBeNull();
     });
 
-    test('should retrieve all orders', async () => {
+    test('should retrieve all orders', async ({ dbService }) => {
       // First create users
       const createdUsers = await Promise.all(testUsers.map(userData => dbService.createUser(userData)));
       
@@ -154,7 +164,7 @@ test.describe('Order CRUD Operations', () => {
       }, {} as Record<number, Order | undefined>);
     });
 
-    test('should retrieve orders by user ID', async () => {
+    test('should retrieve orders by user ID', async ({ dbService }) => {
       // First create users
       const userData1 = DatabaseTestData.generateSingleUser();
       const userData2 = DatabaseTestData.generateSingleUser();
@@ -183,7 +193,7 @@ test.describe('Order CRUD Operations', () => {
   });
 
   test.describe('Update Operations', () => {
-    test('should update order status successfully', async () => {
+    test('should update order status successfully', async ({ dbService }) => {
       // First create a user and order
       const userData = DatabaseTestData.generateSingleUser();
       const createdUser = await dbService.createUser(userData);
@@ -198,13 +208,272 @@ test.describe('Order CRUD Operations', () => {
       expect(updatedOrder!.id).toBe(createdOrder.id);
     });
 
-    test('should fail to update non-existent order', async () => {
+    test('should walk an order through its lifecycle and record each transition', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const createdOrder = await dbService.createOrder(DatabaseTestData.generateSingleOrder(createdUser.id!));
+      
+      await dbService.updateOrderStatus(createdOrder.id!, OrderStatus.CONFIRMED);
+      await dbService.updateOrderStatus(createdOrder.id!, OrderStatus.SHIPPED);
+      const deliveredOrder = await dbService.updateOrderStatus(createdOrder.id!, OrderStatus.DELIVERED);
+      const history = await dbService.getOrderStatusHistory(createdOrder.id!);
+      
+      expect(deliveredOrder!.status).toBe(OrderStatus.DELIVERED);
+      expect(history.map(change => [change.from_status, change.to_status])).toEqual([
+        [OrderStatus.PENDING, OrderStatus.CONFIRMED],
+        [OrderStatus.CONFIRMED, OrderStatus.SHIPPED],
+        [OrderStatus.SHIPPED, OrderStatus.DELIVERED]
+      ]);
+      expect(history.every(change => change.changed_at)).toBe(true);
+    });
+
+    test('should reject illegal status transitions', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const createdOrder = await dbService.createOrder(DatabaseTestData.generateSingleOrder(createdUser.id!));
+      
+      await expect(
+        dbService.updateOrderStatus(createdOrder.id!, OrderStatus.DELIVERED)
+      ).rejects.toBeInstanceOf(IllegalStatusTransitionError);
+      
+      await dbService.updateOrderStatus(createdOrder.id!, OrderStatus.CANCELLED);
+      await expect(
+        dbService.updateOrderStatus(createdOrder.id!, OrderStatus.PENDING)
+      ).rejects.toThrow('Illegal order status transition from cancelled to pending');
+      
+      const order = await dbService.getOrderById(createdOrder.id!);
+      expect(order!.status).toBe(OrderStatus.CANCELLED);
+      expect(await dbService.getOrderStatusHistory(createdOrder.id!)).toHaveLength(1);
+    });
+
+    test('should only create orders in the pending status', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      
+      await expect(
+        dbService.createOrder({ ...DatabaseTestData.generateSingleOrder(createdUser.id!), status: OrderStatus.DELIVERED })
+      ).rejects.toThrow('Illegal order status transition from new to delivered');
+      
+      expect(await dbService.getOrdersByUserId(createdUser.id!)).toHaveLength(0);
+    });
+
+    test('should reject statuses outside the OrderStatus vocabulary', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const orderData = DatabaseTestData.generateSingleOrder(createdUser.id!);
+      
+      await expect(
+        dbService.createOrder({ ...orderData, status: 'processing' as OrderStatus })
+      ).rejects.toBeInstanceOf(InvalidOrderStatusError);
+      
+      const createdOrder = await dbService.createOrder(orderData);
+      await expect(
+        dbService.updateOrderStatus(createdOrder.id!, 'processing' as OrderStatus)
+      ).rejects.toBeInstanceOf(InvalidOrderStatusError);
+    });
+
+    test('should reject a status change based on a stale version', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const product = await dbService.createProduct(DatabaseTestData.generateSingleProduct());
+      const order = await dbService.createOrder(DatabaseTestData.generateSingleOrder(createdUser.id!));
+      await dbService.addOrderItem({
+        order_id: order.id!, product_id: product.id!, quantity: 1, unit_price: 10, total_price: 10
+      });
+
+      await expect(
+        dbService.updateOrderStatus(order.id!, OrderStatus.CONFIRMED, order.version)
+      ).rejects.toBeInstanceOf(VersionConflictError);
+
+      const currentOrder = await dbService.getOrderById(order.id!);
+      expect(currentOrder!.status).toBe(order.status);
+      const confirmedOrder = await dbService.updateOrderStatus(order.id!, OrderStatus.CONFIRMED, currentOrder!.version);
+      expect(confirmedOrder!.version).toBe(currentOrder!.version! + 1);
+    });
+
+    test('should fail to update non-existent order', async ({ dbService }) => {
       await expect(dbService.updateOrderStatus(99999, OrderStatus.CONFIRMED)).rejects.toThrow();
     });
   });
 
+  test.describe('List Queries', () => {
+    test('should filter orders by status and creation date', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const pendingOrder = await dbService.createOrder(DatabaseTestData.generateSingleOrder(createdUser.id!));
+      const cancelledOrder = await dbService.createOrder(DatabaseTestData.generateSingleOrder(createdUser.id!));
+      await dbService.updateOrderStatus(cancelledOrder.id!, OrderStatus.CANCELLED);
+      
+      const pending = await dbService.listOrders({
+        filters: { status: OrderStatus.PENDING, created_at: { min: new Date(Date.now() - 60_000) } }
+      });
+      const future = await dbService.listOrders({ filters: { created_at: { min: new Date(Date.now() + 60_000) } } });
+      
+      expect(pending.total).toBe(1);
+      expect(pending.items[0].id).toBe(pendingOrder.id);
+      expect(future.total).toBe(0);
+    });
+  });
+
+  test.describe('Order Totals', () => {
+    test('should recompute the order total when items are added and removed', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const createdProduct = await dbService.createProduct(DatabaseTestData.generateSingleProduct());
+      const createdOrder = await dbService.createOrder(DatabaseTestData.generateSingleOrder(createdUser.id!));
+      
+      const firstItem = await dbService.addOrderItem({
+        order_id: createdOrder.id!, product_id: createdProduct.id!, quantity: 2, unit_price: 49.99, total_price: 99.98
+      });
+      await dbService.addOrderItem({
+        order_id: createdOrder.id!, product_id: createdProduct.id!, quantity: 3, unit_price: 0.1, total_price: 0.3
+      });
+      expect((await dbService.getOrderById(createdOrder.id!))!.total_amount).toBe('100.28');
+      
+      await dbService.removeOrderItem(firstItem.id!);
+      expect((await dbService.getOrderById(createdOrder.id!))!.total_amount).toBe('0.30');
+    });
+
+    test('should reject an item whose total is not unit price times quantity', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const createdProduct = await dbService.createProduct(DatabaseTestData.generateSingleProduct());
+      const createdOrder = await dbService.createOrder(DatabaseTestData.generateSingleOrder(createdUser.id!));
+      
+      await expect(dbService.addOrderItem({
+        order_id: createdOrder.id!, product_id: createdProduct.id!, quantity: 2, unit_price: 49.99, total_price: 100
+      })).rejects.toBeInstanceOf(OrderItemTotalMismatchError);
+      
+      expect(await dbService.getOrderItems(createdOrder.id!)).toHaveLength(0);
+    });
+
+    test('should list orders whose stored total disagrees with their items', async ({ dbService, tx }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const createdProduct = await dbService.createProduct(DatabaseTestData.generateSingleProduct());
+      const { order } = await dbService.createOrderWithItems(
+        DatabaseTestData.generateSingleOrder(createdUser.id!),
+        [{ product_id: createdProduct.id!, quantity: 1, unit_price: 25, total_price: 25 }]
+      );
+      expect(await dbService.findOrderTotalMismatches()).toEqual([]);
+      
+      // Simulate a write that bypassed DatabaseService
+      await tx.query('UPDATE orders SET total_amount = 30 WHERE id = $1', [order.id]);
+      
+      expect(await dbService.findOrderTotalMismatches()).toEqual([
+        { order_id: order.id, order_number: order.order_number, stored_total: 30, computed_total: 25 }
+      ]);
+    });
+  });
+
+  test.describe('Inventory Reservation', () => {
+    const createOrderWithProduct = async (dbService: DatabaseService, stockQuantity: number) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const product = await dbService.createProduct({ ...DatabaseTestData.generateSingleProduct(), stock_quantity: stockQuantity });
+      const order = await dbService.createOrder(DatabaseTestData.generateSingleOrder(createdUser.id!));
+      return { order, product };
+    };
+    
+    test('should reserve stock when an item is added and release it when removed', async ({ dbService }) => {
+      const { order, product } = await createOrderWithProduct(dbService, 5);
+      
+      const item = await dbService.addOrderItem({
+        order_id: order.id!, product_id: product.id!, quantity: 3, unit_price: 10, total_price: 30
+      });
+      expect((await dbService.getProductById(product.id!))!.stock_quantity).toBe(2);
+      
+      await dbService.removeOrderItem(item.id!);
+      expect((await dbService.getProductById(product.id!))!.stock_quantity).toBe(5);
+    });
+    
+    test('should reject an item exceeding the stock', async ({ dbService }) => {
+      const { order, product } = await createOrderWithProduct(dbService, 2);
+      
+      await expect(dbService.addOrderItem({
+        order_id: order.id!, product_id: product.id!, quantity: 3, unit_price: 10, total_price: 30
+      })).rejects.toBeInstanceOf(OutOfStockError);
+      
+      expect((await dbService.getProductById(product.id!))!.stock_quantity).toBe(2);
+      expect(await dbService.getOrderItems(order.id!)).toHaveLength(0);
+    });
+    
+    test('should not create an order whose items exceed the stock together', async ({ dbService }) => {
+      const { order, product } = await createOrderWithProduct(dbService, 5);
+      const orderData = DatabaseTestData.generateSingleOrder(order.user_id);
+      const item = { product_id: product.id!, quantity: 3, unit_price: 10, total_price: 30 };
+      
+      await expect(dbService.createOrderWithItems(orderData, [item, item])).rejects.toBeInstanceOf(OutOfStockError);
+      
+      expect(await dbService.getOrderByNumber(orderData.order_number)).toBeNull();
+      expect((await dbService.getProductById(product.id!))!.stock_quantity).toBe(5);
+    });
+    
+    test('should release the stock of a cancelled order exactly once', async ({ dbService }) => {
+      const { order, product } = await createOrderWithProduct(dbService, 5);
+      const item = await dbService.addOrderItem({
+        order_id: order.id!, product_id: product.id!, quantity: 4, unit_price: 10, total_price: 40
+      });
+      
+      await dbService.updateOrderStatus(order.id!, OrderStatus.CANCELLED);
+      expect((await dbService.getProductById(product.id!))!.stock_quantity).toBe(5);
+      
+      await dbService.removeOrderItem(item.id!);
+      expect((await dbService.getProductById(product.id!))!.stock_quantity).toBe(5);
+    });
+    
+    test('should record the stock and total changes of an item with its actor', async ({ dbService }) => {
+      const { order, product } = await createOrderWithProduct(dbService, 5);
+      const actor = `user:${order.user_id}`;
+      
+      const item = await dbService.actingAs(actor).addOrderItem({
+        order_id: order.id!, product_id: product.id!, quantity: 3, unit_price: 10, total_price: 30
+      });
+      await dbService.actingAs(actor).removeOrderItem(item.id!);
+      
+      const productEntries = await dbService.getAuditLog('Product', product.id!);
+      const orderEntries = await dbService.getAuditLog('Order', order.id!);
+      expect(productEntries.slice(1).map(entry => [entry.actor, entry.after!.stock_quantity])).toEqual([
+        [actor, 2],
+        [actor, 5]
+      ]);
+      expect(orderEntries.slice(1).map(entry => [entry.actor, entry.after!.total_amount])).toEqual([
+        [actor, '30.00'],
+        [actor, '0.00']
+      ]);
+    });
+    
+    test('should reject an item added to a cancelled order', async ({ dbService }) => {
+      const { order, product } = await createOrderWithProduct(dbService, 5);
+      await dbService.updateOrderStatus(order.id!, OrderStatus.CANCELLED);
+      
+      await expect(dbService.addOrderItem({
+        order_id: order.id!, product_id: product.id!, quantity: 3, unit_price: 10, total_price: 30
+      })).rejects.toBeInstanceOf(ClosedOrderError);
+      
+      expect((await dbService.getProductById(product.id!))!.stock_quantity).toBe(5);
+      expect(await dbService.getOrderItems(order.id!)).toHaveLength(0);
+    });
+    
+    test('should reject removing an item from a cancelled order', async ({ dbService }) => {
+      const { order, product } = await createOrderWithProduct(dbService, 5);
+      const item = await dbService.addOrderItem({
+        order_id: order.id!, product_id: product.id!, quantity: 3, unit_price: 10, total_price: 30
+      });
+      await dbService.updateOrderStatus(order.id!, OrderStatus.CANCELLED);
+      
+      await expect(dbService.removeOrderItem(item.id!)).rejects.toBeInstanceOf(ClosedOrderError);
+      
+      expect((await dbService.getProductById(product.id!))!.stock_quantity).toBe(5);
+      expect(await dbService.getOrderItems(order.id!)).toHaveLength(1);
+    });
+    
+    test('should keep the stock of a shipped order consumed', async ({ dbService }) => {
+      const { order, product } = await createOrderWithProduct(dbService, 5);
+      await dbService.addOrderItem({
+        order_id: order.id!, product_id: product.id!, quantity: 4, unit_price: 10, total_price: 40
+      });
+      await dbService.updateOrderStatus(order.id!, OrderStatus.CONFIRMED);
+      await dbService.updateOrderStatus(order.id!, OrderStatus.SHIPPED);
+      
+      await dbService.deleteOrder(order.id!);
+      
+      expect((await dbService.getProductById(product.id!))!.stock_quantity).toBe(1);
+    });
+  });
+
   test.describe('Delete Operations', () => {
-    test('should delete order successfully', async () => {
+    test('should delete order successfully', async ({ dbService }) => {
       // First create a user and order
       const userData = DatabaseTestData.generateSingleUser();
       const createdUser = await dbService.createUser(userData);
@@ -220,10 +489,103 @@ test.describe('Order CRUD Operations', () => {
       expect(retrievedOrder).toBeNull();
     });
 
-    test('should fail to delete non-existent order', async () => {
+    test('should fail to delete non-existent order', async ({ dbService }) => {
       const deleteResult = await dbService.deleteOrder(99999);
       
       expect(deleteResult).toBe(false);
     });
   });
+
+  test.describe('Restore Operations', () => {
+    test('should keep the items of a deleted order and reserve their stock again on restore', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const product = await dbService.createProduct({ ...DatabaseTestData.generateSingleProduct(), stock_quantity: 5 });
+      const order = await dbService.createOrder(DatabaseTestData.generateSingleOrder(createdUser.id!));
+      await dbService.addOrderItem({
+        order_id: order.id!, product_id: product.id!, quantity: 3, unit_price: 10, total_price: 30
+      });
+
+      await dbService.deleteOrder(order.id!);
+      expect((await dbService.getProductById(product.id!))!.stock_quantity).toBe(5);
+
+      const restoredOrder = await dbService.restoreOrder(order.id!);
+
+      expect(restoredOrder!.status).toBe(order.status);
+      expect(await dbService.getOrderItems(order.id!)).toHaveLength(1);
+      expect((await dbService.getProductById(product.id!))!.stock_quantity).toBe(2);
+    });
+
+    test('should not restore an order whose stock has been sold meanwhile', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const product = await dbService.createProduct({ ...DatabaseTestData.generateSingleProduct(), stock_quantity: 5 });
+      const order = await dbService.createOrder(DatabaseTestData.generateSingleOrder(createdUser.id!));
+      await dbService.addOrderItem({
+        order_id: order.id!, product_id: product.id!, quantity: 3, unit_price: 10, total_price: 30
+      });
+      await dbService.deleteOrder(order.id!);
+      await dbService.updateProduct(product.id!, { stock_quantity: 1 });
+
+      await expect(dbService.restoreOrder(order.id!)).rejects.toBeInstanceOf(OutOfStockError);
+
+      expect(await dbService.getOrderById(order.id!)).toBeNull();
+      expect((await dbService.getProductById(product.id!))!.stock_quantity).toBe(1);
+    });
+
+    test('should keep the orders of a deleted user', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const order = await dbService.createOrder(DatabaseTestData.generateSingleOrder(createdUser.id!));
+
+      await dbService.deleteUser(createdUser.id!);
+
+      expect(await dbService.getOrderById(order.id!)).not.toBeNull();
+    });
+  });
+
+  test.describe('Idempotency Keys', () => {
+    test('should return the first order to a create repeated with the same key', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const orderData = DatabaseTestData.generateSingleOrder(createdUser.id!);
+
+      const first = await dbService.createOrder(orderData, 'create-order-1');
+      const repeated = await dbService.createOrder(orderData, 'create-order-1');
+
+      expect(repeated).toEqual(first);
+      expect(await dbService.getOrdersByUserId(createdUser.id!)).toHaveLength(1);
+    });
+
+    test('should reject a key repeated with a different order', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      await dbService.createOrder(DatabaseTestData.generateSingleOrder(createdUser.id!), 'create-order-2');
+
+      await expect(
+        dbService.createOrder(DatabaseTestData.generateSingleOrder(createdUser.id!), 'create-order-2')
+      ).rejects.toBeInstanceOf(IdempotencyConflictError);
+      expect(await dbService.getOrdersByUserId(createdUser.id!)).toHaveLength(1);
+    });
+
+    test('should reserve stock once for an item added again with the same key', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const product = await dbService.createProduct({ ...DatabaseTestData.generateSingleProduct(), stock_quantity: 5 });
+      const order = await dbService.createOrder(DatabaseTestData.generateSingleOrder(createdUser.id!));
+      const item = { order_id: order.id!, product_id: product.id!, quantity: 2, unit_price: 10, total_price: 20 };
+
+      const first = await dbService.addOrderItem(item, 'add-item-1');
+      const repeated = await dbService.addOrderItem(item, 'add-item-1');
+
+      expect(repeated.id).toBe(first.id);
+      expect(await dbService.getOrderItems(order.id!)).toHaveLength(1);
+      expect((await dbService.getProductById(product.id!))!.stock_quantity).toBe(3);
+    });
+
+    test('should let an expired key be used again', async ({ dbService, tx }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const first = await dbService.createOrder(DatabaseTestData.generateSingleOrder(createdUser.id!), 'create-order-3');
+
+      await tx.query("UPDATE idempotency_keys SET created_at = created_at - INTERVAL '2 days'");
+      const second = await dbService.createOrder(DatabaseTestData.generateSingleOrder(createdUser.id!), 'create-order-3');
+
+      expect(second.id).not.toBe(first.id);
+      expect(await dbService.getOrdersByUserId(createdUser.id!)).toHaveLength(2);
+    });
+  });
 }); 
\ No newline at end of file
@@ -1,40 +1,18 @@
-import { test, expect } from '@playwright/test';
-import { DatabaseService } from '../../utils/DatabaseService';
+import { test, expect } from './fixtures';
 import { DatabaseTestData } from '../../utils/DatabaseTestData';
-import { Product } from '../../utils/DatabaseModels';
+import { Product, ProductSortOrder } from '../../utils/DatabaseModels';
+import { InvalidListQueryError, ValidationError, VersionConflictError } from '../../utils/DatabaseErrors';
+import { DatabaseService } from '../../utils/DatabaseService';
 
 /**
  * Product CRUD Operations Test Suite
  * Tests all Create, Read, Update, Delete operations for Product entity
  */
 test.describe('Product CRUD Operations', () => {
-  let dbService: DatabaseService;
-  let testProducts: Product[];
-
-  test.beforeAll(async () => {
-    // Initialize database service and schema
-    dbService = new DatabaseService();
-    await dbService.initializeDatabase();
-    
-    // Generate test data
-    testProducts = DatabaseTestData.generateProducts(5);
-  });
-
-  test.afterAll(async () => {
-    // Clean up all test data
-    await dbService.cleanupTestData();
-  });
-
-  test.beforeEach(async () => {
-    // Clean up before each test to ensure isolation
-    await dbService.cleanupTestData();
-    
-    // Small delay to ensure cleanup is processed
-    await new Promise(resolve => setTimeout(resolve, 100));
-  });
+  const testProducts: Product[] = DatabaseTestData.generateProducts(5);
 
   test.describe('Create Operations', () => {
-    test('should create a single product successfully', async () => {
+    test('should create a single product successfully', async ({ dbService }) => {
       const productData = DatabaseTestData.generateSingleProduct();
       
       const createdProduct = await dbService.createProduct(productData);
@@ -52,7 +30,7 @@ test.describe('Product CRUD Operations', () => {
       expect(createdProduct.created_at).toBeDefined();
     });
 
-    test('should create multiple products successfully', async () => {
+    test('should create multiple products successfully', async ({ dbService }) => {
       const createdProducts = await Promise.all(testProducts.map(productData => dbService.createProduct(productData)));
       
       expect(createdProducts).toHaveLength(testProducts.length);
@@ -64,7 +42,7 @@ test.describe('Product CRUD Operations', () => {
       }));
     });
 
-    test('should fail to create product with duplicate SKU', async () => {
+    test('should fail to create product with duplicate SKU', async ({ dbService }) => {
       const productData = DatabaseTestData.generateSingleProduct();
       
       // Create first product
@@ -76,7 +54,22 @@ test.describe('Product CRUD Operations', () => {
       await expect(dbService.createProduct(duplicateProduct)).rejects.toThrow();
     });
 
-    test('should create product with minimum required fields', async () => {
+    test('should bulk create products in one transaction', async ({ dbService }) => {
+      const createdProducts = await dbService.bulkCreateProducts(testProducts);
+
+      expect(createdProducts.map(product => product.sku)).toEqual(testProducts.map(product => product.sku));
+      expect(await dbService.getAllProducts()).toHaveLength(testProducts.length);
+    });
+
+    test('should roll back a bulk create when one product fails', async ({ dbService }) => {
+      const [first, second] = testProducts;
+
+      await expect(dbService.bulkCreateProducts([first, { ...second, sku: first.sku }])).rejects.toThrow();
+
+      expect(await dbService.getProductBySku(first.sku)).toBeNull();
+    });
+
+    test('should create product with minimum required fields', async ({ dbService }) => {
       const minimalProduct = {
         name: 'Minimal Product',
         description: 'Minimal description',
@@ -95,7 +88,7 @@ test.describe('Product CRUD Operations', () => {
   });
 
   test.describe('Read Operations', () => {
-    test('should retrieve product by ID', async () => {
+    test('should retrieve product by ID', async ({ dbService }) => {
       const productData = DatabaseTestData.generateSingleProduct();
       const createdProduct = await dbService.createProduct(productData);
       
@@ -107,7 +100,7 @@ test.describe('Product CRUD Operations', () => {
       expect(retrievedProduct!.sku).toBe(productData.sku);
     });
 
-    test('should retrieve product by SKU', async () => {
+    test('should retrieve product by SKU', async ({ dbService }) => {
       const productData = DatabaseTestData.generateSingleProduct();
       const createdProduct = await dbService.createProduct(productData);
       
@@ -118,18 +111,18 @@ test.describe('Product CRUD Operations', () => {
       expect(retrievedProduct!.sku).toBe(productData.sku);
     });
 
-    test('should return null for non-existent product ID', async () => {
+    test('should return null for non-existent product ID', async ({ dbService }) => {
       const retrievedProduct = await dbService.getProductById(99999);
       
       expect(retrievedProduct).toBeNull();
     });
 
-    test('should return null for non-existent SKU', async () => {
+    test('should return null for non-existent SKU', async ({ dbService }) => {
       const retrievedProduct = await dbService.getProductBySku('NONEXISTENT-SKU');
       
       expect(retrievedProduct).toBeNull();
     });
-    test('should retrieve all products', async () => {
+    test('should retrieve all products', async ({ dbService }) => {
       // Create multiple products
       const createdProducts = await Promise.all(
         testProducts.map(productData => dbService.createProduct(productData))
@@ -147,13 +140,13 @@ test.describe('Product CRUD Operations', () => {
       });
     });
 
-    test('should return empty array when no products exist', async () => {
+    test('should return empty array when no products exist', async ({ dbService }) => {
       const allProducts = await dbService.getAllProducts();
       
       expect(allProducts).toHaveLength(0);
     });
 
-    test('should retrieve products by category', async () => {
+    test('should retrieve products by category', async ({ dbService }) => {
       // Create products with different categories
       const electronicsProduct = { ...DatabaseTestData.generateSingleProduct(), category: 'Electronics' };
       const clothingProduct = { ...DatabaseTestData.generateSingleProduct(), category: 'Clothing' };
@@ -169,15 +162,120 @@ test.describe('Product CRUD Operations', () => {
       expect(electronicsProducts.every(p => p.category === 'Electronics')).toBe(true);
     });
 
-    test('should return empty array for non-existent category', async () => {
+    test('should return empty array for non-existent category', async ({ dbService }) => {
       const products = await dbService.getProductsByCategory('NonExistentCategory');
       
       expect(products).toHaveLength(0);
     });
   });
 
+  test.describe('List Queries', () => {
+    test('should return one page of products with the total count', async ({ dbService }) => {
+      for (const productData of DatabaseTestData.generateProducts(5)) {
+        await dbService.createProduct(productData);
+      }
+      
+      const secondPage = await dbService.listProducts({ page: 2, limit: 2, sort: { column: 'sku' } });
+      
+      expect(secondPage.total).toBe(5);
+      expect(secondPage.page).toBe(2);
+      expect(secondPage.limit).toBe(2);
+      expect(secondPage.items.map(product => product.sku)).toEqual(['SKU-000003', 'SKU-000004']);
+    });
+    
+    test('should filter products by price range, brand and active flag', async ({ dbService }) => {
+      const base = DatabaseTestData.generateSingleProduct();
+      const products = [
+        { ...base, sku: `${base.sku}-1`, price: 10, brand: 'Acme', is_active: true },
+        { ...base, sku: `${base.sku}-2`, price: 50, brand: 'Acme', is_active: true },
+        { ...base, sku: `${base.sku}-3`, price: 50, brand: 'Acme', is_active: false },
+        { ...base, sku: `${base.sku}-4`, price: 50, brand: 'Other', is_active: true },
+        { ...base, sku: `${base.sku}-5`, price: 90, brand: 'Acme', is_active: true }
+      ];
+      for (const productData of products) {
+        await dbService.createProduct(productData);
+      }
+      
+      const result = await dbService.listProducts({
+        filters: { price: { min: 20, max: 80 }, brand: 'Acme', is_active: true }
+      });
+      
+      expect(result.total).toBe(1);
+      expect(result.items.map(product => product.sku)).toEqual([`${base.sku}-2`]);
+    });
+    
+    test('should page through products with a cursor', async ({ dbService }) => {
+      for (const productData of DatabaseTestData.generateProducts(5)) {
+        await dbService.createProduct(productData);
+      }
+      
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const result = await dbService.listProducts({ limit: 2, cursor, sort: { column: 'sku', direction: 'DESC' } });
+        seen.push(...result.items.map(product => product.sku));
+        cursor = result.next_cursor;
+      } while (cursor);
+      
+      expect(seen).toEqual(['SKU-000005', 'SKU-000004', 'SKU-000003', 'SKU-000002', 'SKU-000001']);
+    });
+    
+    test('should reject a malformed cursor', async ({ dbService }) => {
+      await expect(dbService.listProducts({ cursor: 'not-a-cursor' })).rejects.toBeInstanceOf(InvalidListQueryError);
+    });
+  });
+
+  test.describe('Search', () => {
+    const createSearchProducts = async (dbService: DatabaseService) => {
+      const base = DatabaseTestData.generateSingleProduct();
+      const products: Product[] = [
+        { ...base, sku: `${base.sku}-1`, name: 'Blue Top', description: 'Pairs well with any summer dress', price: 20 },
+        { ...base, sku: `${base.sku}-2`, name: 'Summer Dress', description: 'Light cotton', price: 60, brand: 'Acme' },
+        { ...base, sku: `${base.sku}-3`, name: 'Evening Dress', description: 'Silk', price: 150, stock_quantity: 0 },
+        { ...base, sku: `${base.sku}-4`, name: 'Party Dress', description: 'Sequins', price: 90, is_active: false },
+        { ...base, sku: `${base.sku}-5`, name: 'Running Shoes', description: 'Lightweight', price: 80 }
+      ];
+      for (const productData of products) {
+        await dbService.createProduct(productData);
+      }
+    };
+    
+    test('should match name and description with stemming and rank name matches first', async ({ dbService }) => {
+      await createSearchProducts(dbService);
+      
+      const result = await dbService.searchProducts({ query: 'dresses' });
+      
+      expect(result.total).toBe(4);
+      expect(result.items.map(product => product.name)).not.toContain('Running Shoes');
+      expect(result.items[result.items.length - 1].name).toBe('Blue Top');
+    });
+    
+    test('should combine the text query with filters', async ({ dbService }) => {
+      await createSearchProducts(dbService);
+      
+      const inStock = await dbService.searchProducts({ query: 'dress', in_stock_only: true, is_active: true });
+      const byBrand = await dbService.searchProducts({ query: 'dress', brand: 'Acme' });
+      const byPrice = await dbService.searchProducts({ min_price: 50, max_price: 100 });
+      
+      expect(inStock.items.map(product => product.name).sort()).toEqual(['Blue Top', 'Summer Dress']);
+      expect(byBrand.items.map(product => product.name)).toEqual(['Summer Dress']);
+      expect(byPrice.items.map(product => product.name).sort()).toEqual(['Party Dress', 'Running Shoes', 'Summer Dress']);
+    });
+    
+    test('should sort and paginate search results', async ({ dbService }) => {
+      await createSearchProducts(dbService);
+      
+      const result = await dbService.searchProducts({
+        query: 'dress', sort: ProductSortOrder.PRICE_DESC, page: 1, limit: 2
+      });
+      
+      expect(result.total).toBe(4);
+      expect(result.items.map(product => Number(product.price))).toEqual([150, 90]);
+    });
+  });
+
   test.describe('Update Operations', () => {
-    test('should update product information successfully', async () => {
+    test('should update product information successfully', async ({ dbService }) => {
       const productData = DatabaseTestData.generateSingleProduct();
       const createdProduct = await dbService.createProduct(productData);
       
@@ -205,7 +303,7 @@ test.describe('Product CRUD Operations', () => {
       expect(updatedProduct!.brand).toBe(productData.brand);
     });
 
-    test('should update only specified fields', async () => {
+    test('should update only specified fields', async ({ dbService }) => {
       const productData = DatabaseTestData.generateSingleProduct();
       const createdProduct = await dbService.createProduct(productData);
       
@@ -220,7 +318,7 @@ test.describe('Product CRUD Operations', () => {
       expect(updatedProduct!.description).toBe(productData.description); // Should remain unchanged
     });
 
-    test('should return null when updating non-existent product', async () => {
+    test('should return null when updating non-existent product', async ({ dbService }) => {
       const updates = {
         name: 'Updated Name'
       };
@@ -230,7 +328,7 @@ test.describe('Product CRUD Operations', () => {
       expect(updatedProduct).toBeNull();
     });
 
-    test('should handle empty update object', async () => {
+    test('should handle empty update object', async ({ dbService }) => {
       const productData = DatabaseTestData.generateSingleProduct();
       const createdProduct = await dbService.createProduct(productData);
       
@@ -240,7 +338,7 @@ test.describe('Product CRUD Operations', () => {
       expect(updatedProduct!.id).toBe(createdProduct.id);
     });
 
-    test('should update stock quantity', async () => {
+    test('should update stock quantity', async ({ dbService }) => {
       const productData = DatabaseTestData.generateSingleProduct();
       const createdProduct = await dbService.createProduct(productData);
       
@@ -253,8 +351,93 @@ test.describe('Product CRUD Operations', () => {
     });
   });
 
+  test.describe('Optimistic Concurrency', () => {
+    test('should bump the version and updated_at on every update', async ({ dbService }) => {
+      const createdProduct = await dbService.createProduct(DatabaseTestData.generateSingleProduct());
+
+      const updatedProduct = await dbService.updateProduct(createdProduct.id!, { price: 42 });
+
+      expect(createdProduct.version).toBe(1);
+      expect(updatedProduct!.version).toBe(2);
+      expect(updatedProduct!.updated_at!.getTime()).toBeGreaterThan(createdProduct.updated_at!.getTime());
+    });
+
+    test('should reject an update based on a version another update has replaced', async ({ dbService }) => {
+      const createdProduct = await dbService.createProduct(DatabaseTestData.generateSingleProduct());
+      await dbService.updateProduct(createdProduct.id!, { price: 42 }, createdProduct.version);
+
+      await expect(
+        dbService.updateProduct(createdProduct.id!, { stock_quantity: 0 }, createdProduct.version)
+      ).rejects.toBeInstanceOf(VersionConflictError);
+
+      const currentProduct = await dbService.getProductById(createdProduct.id!);
+      expect(Number(currentProduct!.price)).toBe(42);
+      expect(currentProduct!.stock_quantity).toBe(createdProduct.stock_quantity);
+    });
+
+    test('should let only one of two concurrent updates of the same version win', async ({ dbService }) => {
+      const createdProduct = await dbService.createProduct(DatabaseTestData.generateSingleProduct());
+
+      const results = await Promise.allSettled([
+        dbService.updateProduct(createdProduct.id!, { name: 'First Writer' }, createdProduct.version),
+        dbService.updateProduct(createdProduct.id!, { name: 'Second Writer' }, createdProduct.version)
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(results.filter(result => result.status === 'rejected')).toEqual([
+        expect.objectContaining({ reason: expect.any(VersionConflictError) })
+      ]);
+      expect((await dbService.getProductById(createdProduct.id!))!.version).toBe(2);
+    });
+  });
+
+  test.describe('Validation', () => {
+    test('should reject an invalid product with every violated field', async ({ dbService }) => {
+      const productData = {
+        ...DatabaseTestData.generateSingleProduct(),
+        name: 'N'.repeat(201),
+        price: 0,
+        stock_quantity: 2.5,
+        brand: ' '
+      };
+
+      const error = await dbService.createProduct(productData).catch(error => error);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.violations).toEqual([
+        { field: 'name', description: 'must be at most 200 characters' },
+        { field: 'price', description: 'must be greater than 0' },
+        { field: 'brand', description: 'is required' },
+        { field: 'stock_quantity', description: 'must be a whole number' }
+      ]);
+      expect(await dbService.getProductBySku(productData.sku)).toBeNull();
+    });
+
+    test('should reject a price too large for its column', async ({ dbService }) => {
+      const productData = { ...DatabaseTestData.generateSingleProduct(), price: 100000000 };
+
+      const error = await dbService.createProduct(productData).catch(error => error);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.violations).toEqual([{ field: 'price', description: 'must be at most 99999999.99' }]);
+      expect(await dbService.getProductBySku(productData.sku)).toBeNull();
+    });
+
+    test('should validate only the fields an update sets', async ({ dbService }) => {
+      const createdProduct = await dbService.createProduct(DatabaseTestData.generateSingleProduct());
+
+      await expect(dbService.updateProduct(createdProduct.id!, { stock_quantity: -1 })).rejects.toThrow(
+        'Invalid Product: stock_quantity must be at least 0'
+      );
+      const updatedProduct = await dbService.updateProduct(createdProduct.id!, { name: 'Renamed Product' });
+
+      expect(updatedProduct!.name).toBe('Renamed Product');
+      expect(updatedProduct!.stock_quantity).toBe(createdProduct.stock_quantity);
+    });
+  });
+
   test.describe('Delete Operations', () => {
-    test('should delete product successfully', async () => {
+    test('should delete product successfully', async ({ dbService }) => {
       const productData = DatabaseTestData.generateSingleProduct();
       const createdProduct = await dbService.createProduct(productData);
       
@@ -267,13 +450,13 @@ test.describe('Product CRUD Operations', () => {
       expect(retrievedProduct).toBeNull();
     });
 
-    test('should return false when deleting non-existent product', async () => {
+    test('should return false when deleting non-existent product', async ({ dbService }) => {
       const deleteResult = await dbService.deleteProduct(99999);
       
       expect(deleteResult).toBe(false);
     });
 
-    test('should delete multiple products', async () => {
+    test('should delete multiple products', async ({ dbService }) => {
       // Create multiple products
       const createdProducts = await Promise.all(testProducts.map(productData => dbService.createProduct(productData)));
       
@@ -284,5 +467,18 @@ test.describe('Product CRUD Operations', () => {
       const allProducts = await dbService.getAllProducts();
       expect(allProducts).toHaveLength(0);
     });
+
+    test('should leave deleted products out of search and listings until restored', async ({ dbService }) => {
+      const createdProduct = await dbService.createProduct(DatabaseTestData.generateSingleProduct());
+      await dbService.deleteProduct(createdProduct.id!);
+
+      expect((await dbService.searchProducts({ query: createdProduct.name })).total).toBe(0);
+      expect((await dbService.listProducts()).total).toBe(0);
+
+      const restoredProduct = await dbService.restoreProduct(createdProduct.id!);
+
+      expect(restoredProduct!.sku).toBe(createdProduct.sku);
+      expect((await dbService.listProducts()).total).toBe(1);
+    });
   });
 }); 
\ No newline at end of file
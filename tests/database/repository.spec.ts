@@ -0,0 +1,107 @@
+import { test, expect } from './fixtures';
+import { DatabaseTestData } from '../../utils/DatabaseTestData';
+import { Repository } from '../../utils/Repository';
+import { Product, PRODUCTS_TABLE } from '../../utils/DatabaseModels';
+
+/**
+ * Generic Repository Test Suite
+ * Tests the metadata driven CRUD shared by all DatabaseService entities
+ */
+test.describe('Generic Repository', () => {
+  test('should create and find an entity by ID', async ({ tx }) => {
+    const products = new Repository(PRODUCTS_TABLE, tx);
+    const productData = DatabaseTestData.generateSingleProduct();
+
+    const created = await products.create(productData);
+    const found = await products.findById(created.id!);
+
+    expect(found).not.toBeNull();
+    expect(found!.sku).toBe(productData.sku);
+    expect(found!.created_at).toBeDefined();
+  });
+
+  test('should use database defaults for undefined columns', async ({ tx }) => {
+    const products = new Repository(PRODUCTS_TABLE, tx);
+    const { is_active, ...productData } = DatabaseTestData.generateSingleProduct();
+
+    const created = await products.create(productData as Product);
+
+    expect(created.is_active).toBe(true);
+  });
+
+  test('should find entities by criteria and count them', async ({ tx }) => {
+    const products = new Repository(PRODUCTS_TABLE, tx);
+    const productsData = DatabaseTestData.generateProducts(5);
+    for (const productData of productsData) {
+      await products.create(productData);
+    }
+
+    const electronics = await products.findBy({ category: 'Electronics' });
+
+    expect(electronics.length).toBeGreaterThan(0);
+    expect(electronics.every(product => product.category === 'Electronics')).toBe(true);
+    expect(await products.count({ category: 'Electronics' })).toBe(electronics.length);
+    expect(await products.count()).toBe(5);
+  });
+
+  test('should update only the given columns', async ({ tx }) => {
+    const products = new Repository(PRODUCTS_TABLE, tx);
+    const created = await products.create(DatabaseTestData.generateSingleProduct());
+
+    const updated = await products.update(created.id!, { stock_quantity: 0 });
+
+    expect(updated!.stock_quantity).toBe(0);
+    expect(updated!.name).toBe(created.name);
+    expect(updated!.price).toBe(created.price);
+  });
+
+  test('should return null when updating a missing entity', async ({ tx }) => {
+    const products = new Repository(PRODUCTS_TABLE, tx);
+    const updated = await products.update(99999, { name: 'Missing' });
+
+    expect(updated).toBeNull();
+  });
+
+  test('should delete an entity', async ({ tx }) => {
+    const products = new Repository(PRODUCTS_TABLE, tx);
+    const created = await products.create(DatabaseTestData.generateSingleProduct());
+
+    expect(await products.delete(created.id!)).toBe(true);
+    expect(await products.delete(created.id!)).toBe(false);
+    expect(await products.findById(created.id!)).toBeNull();
+  });
+
+  test('should soft delete an entity and restore it', async ({ tx }) => {
+    const products = new Repository(PRODUCTS_TABLE, tx);
+    const created = await products.create(DatabaseTestData.generateSingleProduct());
+    await products.delete(created.id!);
+
+    expect((await products.findById(created.id!, { withDeleted: true }))!.deleted_at).toBeInstanceOf(Date);
+    expect(await products.update(created.id!, { name: 'Deleted' })).toBeNull();
+    expect(await products.count()).toBe(0);
+
+    const restored = await products.restore(created.id!);
+
+    expect(restored!.deleted_at).toBeNull();
+    expect(await products.count()).toBe(1);
+    expect(await products.restore(created.id!)).toBeNull();
+  });
+
+  test('should version rows and stamp updated_at on any update, including raw SQL', async ({ tx }) => {
+    const products = new Repository(PRODUCTS_TABLE, tx);
+    const created = await products.create(DatabaseTestData.generateSingleProduct());
+
+    await tx.query('UPDATE products SET stock_quantity = stock_quantity + 1 WHERE id = $1', [created.id]);
+    const found = await products.findById(created.id!);
+
+    expect(found!.version).toBe(created.version! + 1);
+    expect(found!.updated_at!.getTime()).toBeGreaterThan(created.updated_at!.getTime());
+  });
+
+  test('should reject criteria on unknown columns', async ({ tx }) => {
+    const products = new Repository(PRODUCTS_TABLE, tx);
+    await expect(
+      products.findBy({ 'name; DROP TABLE products': 'x' } as Partial<Product>)
+    ).rejects.toThrow('Unknown column');
+  });
+});
@@ -1,40 +1,16 @@
-import { test, expect } from '@playwright/test';
-import { DatabaseService } from '../../utils/DatabaseService';
+import { test, expect } from './fixtures';
 import { DatabaseTestData } from '../../utils/DatabaseTestData';
-import { User } from '../../utils/DatabaseModels';
+import { AuditAction, NewUser } from '../../utils/DatabaseModels';
 
 /**
  * User CRUD Operations Test Suite
  * Tests all Create, Read, Update, Delete operations for User entity
  */
 test.describe('User CRUD Operations', () => {
-  let dbService: DatabaseService;
-  let testUsers: User[];
-
-  test.beforeAll(async () => {
-    // Initialize database service and schema
-    dbService = new DatabaseService();
-    await dbService.initializeDatabase();
-    
-    // Generate test data
-    testUsers = DatabaseTestData.generateUsers(3);
-  });
-
-  test.afterAll(async () => {
-    // Clean up all test data
-    await dbService.cleanupTestData();
-  });
-
-  test.beforeEach(async () => {
-    // Clean up before each test to ensure isolation
-    await dbService.cleanupTestData();
-    
-    // Small delay to ensure cleanup is processed
-    await new Promise(resolve => setTimeout(resolve, 100));
-  });
+  const testUsers: NewUser[] = DatabaseTestData.generateUsers(3);
 
   test.describe('Create Operations', () => {
-    test('should create a single user successfully', async () => {
+    test('should create a single user successfully', async ({ dbService }) => {
       const userData = DatabaseTestData.generateSingleUser();
       
       const createdUser = await dbService.createUser(userData);
@@ -48,7 +24,7 @@ test.describe('User CRUD Operations', () => {
       expect(createdUser.created_at).toBeDefined();
     });
     
-    test('should create multiple users successfully', async () => {
+    test('should create multiple users successfully', async ({ dbService }) => {
       const createdUsers = await Promise.all(testUsers.map(userData => dbService.createUser(userData)));
       
       expect(createdUsers).toHaveLength(testUsers.length);
@@ -61,7 +37,7 @@ test.describe('User CRUD Operations', () => {
       }));
     });
 
-    test('should fail to create user with duplicate email', async () => {
+    test('should fail to create user with duplicate email', async ({ dbService }) => {
       const userData = DatabaseTestData.generateSingleUser();
       
       // Create first user
@@ -76,7 +52,7 @@ test.describe('User CRUD Operations', () => {
       await expect(dbService.createUser(duplicateUser)).rejects.toThrow();
     });
 
-    test('should fail to create user with duplicate username', async () => {
+    test('should fail to create user with duplicate username', async ({ dbService }) => {
       const userData = DatabaseTestData.generateSingleUser();
       
       // Create first user
@@ -93,7 +69,7 @@ test.describe('User CRUD Operations', () => {
   });
 
   test.describe('Read Operations', () => {
-    test('should retrieve user by ID', async () => {
+    test('should retrieve user by ID', async ({ dbService }) => {
       const userData = DatabaseTestData.generateSingleUser();
       const createdUser = await dbService.createUser(userData);
       
@@ -105,7 +81,7 @@ test.describe('User CRUD Operations', () => {
       expect(retrievedUser!.email).toBe(userData.email);
     });
 
-    test('should retrieve user by email', async () => {
+    test('should retrieve user by email', async ({ dbService }) => {
       const userData = DatabaseTestData.generateSingleUser();
       const createdUser = await dbService.createUser(userData);
       
@@ -116,19 +92,19 @@ test.describe('User CRUD Operations', () => {
       expect(retrievedUser!.email).toBe(userData.email);
     });
 
-    test('should return null for non-existent user ID', async () => {
+    test('should return null for non-existent user ID', async ({ dbService }) => {
       const retrievedUser = await dbService.getUserById(99999);
       
       expect(retrievedUser).toBeNull();
     });
 
-    test('should return null for non-existent email', async () => {
+    test('should return null for non-existent email', async ({ dbService }) => {
       const retrievedUser = await dbService.getUserByEmail('nonexistent@example.com');
       
       expect(retrievedUser).toBeNull();
     });
     
-    test('should retrieve all users', async () => {
+    test('should retrieve all users', async ({ dbService }) => {
       // Create multiple users
       const createdUsers = await Promise.all(testUsers.map(userData => dbService.createUser(userData)));
       
@@ -141,7 +117,7 @@ test.describe('User CRUD Operations', () => {
       await Promise.all(createdUsers.map(createdUser => expect(allUsers.find(user => user.id === createdUser.id)?.username).toBe(createdUser.username)));
     });
 
-    test('should return empty array when no users exist', async () => {
+    test('should return empty array when no users exist', async ({ dbService }) => {
       const allUsers = await dbService.getAllUsers();
       
       expect(allUsers).toHaveLength(0);
@@ -149,7 +125,7 @@ test.describe('User CRUD Operations', () => {
   });
 
   test.describe('Update Operations', () => {
-    test('should update user information successfully', async () => {
+    test('should update user information successfully', async ({ dbService }) => {
       const userData = DatabaseTestData.generateSingleUser();
       const createdUser = await dbService.createUser(userData);
       
@@ -174,7 +150,7 @@ test.describe('User CRUD Operations', () => {
       expect(updatedUser!.email).toBe(userData.email);
     });
 
-    test('should update only specified fields', async () => {
+    test('should update only specified fields', async ({ dbService }) => {
       const userData = DatabaseTestData.generateSingleUser();
       const createdUser = await dbService.createUser(userData);
       
@@ -189,7 +165,7 @@ test.describe('User CRUD Operations', () => {
       expect(updatedUser!.email).toBe(userData.email); // Should remain unchanged
     });
 
-    test('should return null when updating non-existent user', async () => {
+    test('should return null when updating non-existent user', async ({ dbService }) => {
       const updates = {
         first_name: 'Updated Name'
       };
@@ -199,7 +175,7 @@ test.describe('User CRUD Operations', () => {
       expect(updatedUser).toBeNull();
     });
 
-    test('should handle empty update object', async () => {
+    test('should handle empty update object', async ({ dbService }) => {
       const userData = DatabaseTestData.generateSingleUser();
       const createdUser = await dbService.createUser(userData);
       
@@ -210,8 +186,66 @@ test.describe('User CRUD Operations', () => {
     });
   });
 
+  test.describe('Credentials', () => {
+    test('should store a hash instead of the password', async ({ dbService, tx }) => {
+      const userData = DatabaseTestData.generateSingleUser();
+
+      const createdUser = await dbService.createUser(userData);
+
+      const { rows } = await tx.query('SELECT password FROM users WHERE id = $1', [createdUser.id]);
+      expect(rows[0].password).toMatch(/^scrypt\$/);
+      expect(rows[0].password).not.toContain(userData.password);
+    });
+
+    test('should leave the password out of every read', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+
+      const reads = [
+        createdUser,
+        await dbService.getUserById(createdUser.id!),
+        await dbService.getUserByEmail(createdUser.email),
+        await dbService.updateUser(createdUser.id!, { first_name: 'Renamed' }),
+        ...(await dbService.getAllUsers()),
+        ...(await dbService.listUsers()).items
+      ];
+
+      reads.forEach(user => expect(user).not.toHaveProperty('password'));
+    });
+
+    test('should verify credentials against the stored hash', async ({ dbService }) => {
+      const userData = DatabaseTestData.generateSingleUser();
+      const createdUser = await dbService.createUser(userData);
+
+      const verified = await dbService.verifyCredentials(userData.email, userData.password);
+
+      expect(verified?.id).toBe(createdUser.id);
+      expect(verified).not.toHaveProperty('password');
+      expect(await dbService.verifyCredentials(userData.email, 'wrong-password')).toBeNull();
+      expect(await dbService.verifyCredentials('nobody@example.com', userData.password)).toBeNull();
+    });
+
+    test('should reject weak passwords before hashing them', async ({ dbService }) => {
+      const userData = { ...DatabaseTestData.generateSingleUser(), password: 'short1' };
+
+      await expect(dbService.createUser(userData)).rejects.toThrow(
+        'Invalid User: password must be 8 to 128 characters with a letter and a digit'
+      );
+      expect(await dbService.getUserByEmail(userData.email)).toBeNull();
+    });
+
+    test('should hash a changed password', async ({ dbService }) => {
+      const userData = DatabaseTestData.generateSingleUser();
+      const createdUser = await dbService.createUser(userData);
+
+      await dbService.updateUser(createdUser.id!, { password: 'new-password-456' });
+
+      expect(await dbService.verifyCredentials(userData.email, userData.password)).toBeNull();
+      expect((await dbService.verifyCredentials(userData.email, 'new-password-456'))?.id).toBe(createdUser.id);
+    });
+  });
+
   test.describe('Delete Operations', () => {
-    test('should delete user successfully', async () => {
+    test('should delete user successfully', async ({ dbService }) => {
       const userData = DatabaseTestData.generateSingleUser();
       const createdUser = await dbService.createUser(userData);
       
@@ -224,12 +258,12 @@ test.describe('User CRUD Operations', () => {
       expect(retrievedUser).toBeNull();
     });
 
-    test('should return false when deleting non-existent user', async () => {
+    test('should return false when deleting non-existent user', async ({ dbService }) => {
       const deleteResult = await dbService.deleteUser(99999);
       
       expect(deleteResult).toBe(false);
     });
-    test('should delete multiple users', async () => {
+    test('should delete multiple users', async ({ dbService }) => {
       // Create multiple users
       const createdUsers = await Promise.all(testUsers.map(userData => dbService.createUser(userData)));
       
@@ -242,4 +276,52 @@ test.describe('User CRUD Operations', () => {
       expect(allUsers).toHaveLength(0);
     });
   });
+
+  test.describe('Restore and Audit Log', () => {
+    test('should restore a deleted user with their unique values reserved meanwhile', async ({ dbService }) => {
+      const userData = DatabaseTestData.generateSingleUser();
+      const createdUser = await dbService.createUser(userData);
+      await dbService.deleteUser(createdUser.id!);
+
+      expect(await dbService.getUserByEmail(userData.email)).toBeNull();
+      expect(await dbService.verifyCredentials(userData.email, userData.password)).toBeNull();
+      await expect(dbService.createUser(userData)).rejects.toThrow();
+
+      const restoredUser = await dbService.restoreUser(createdUser.id!);
+
+      expect(restoredUser!.email).toBe(userData.email);
+      expect(await dbService.verifyCredentials(userData.email, userData.password)).not.toBeNull();
+      expect(await dbService.restoreUser(createdUser.id!)).toBeNull();
+    });
+
+    test('should record each change with its actor', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+      const asAdmin = dbService.actingAs('user:1');
+
+      await asAdmin.updateUser(createdUser.id!, { first_name: 'Audited' });
+      await asAdmin.deleteUser(createdUser.id!);
+
+      const entries = await dbService.getAuditLog('User', createdUser.id!);
+
+      expect(entries.map(entry => [entry.action, entry.actor])).toEqual([
+        [AuditAction.CREATE, 'system'],
+        [AuditAction.UPDATE, 'user:1'],
+        [AuditAction.DELETE, 'user:1']
+      ]);
+      expect(entries[0].before).toBeNull();
+      expect(entries[1].before).toMatchObject({ first_name: createdUser.first_name });
+      expect(entries[1].after).toMatchObject({ first_name: 'Audited' });
+      expect(entries[0].after).not.toHaveProperty('password');
+    });
+
+    test('should record nothing for a change that does not happen', async ({ dbService }) => {
+      const createdUser = await dbService.createUser(DatabaseTestData.generateSingleUser());
+
+      await dbService.restoreUser(createdUser.id!);
+      await dbService.updateUser(99999, { first_name: 'Missing' });
+
+      expect(await dbService.getAuditLog('User', createdUser.id!)).toHaveLength(1);
+      expect(await dbService.getAuditLog('User', 99999)).toHaveLength(0);
+    });
+  });
 }); 
\ No newline at end of file
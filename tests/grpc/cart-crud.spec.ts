@@ -0,0 +1,164 @@
+import { test, expect } from "@playwright/test";
+import * as grpc from "@grpc/grpc-js";
+import { GrpcService } from "../../utils/GrpcService";
+import { DatabaseTestData } from "../../utils/DatabaseTestData";
+import { ADDRESS, PAYMENT_METHOD } from "../../utils/constants";
+import { OrderStatus } from "../../proto/generated/order";
+
+/**
+ * gRPC Cart Test Suite
+ * Tests the cart operations the UI cart page drives (add, update quantity, remove, clear, summary)
+ * and checking a cart out into an order
+ */
+test.describe("gRPC Cart Operations", () => {
+  let grpcService: GrpcService;
+  const createdOrderIds: number[] = [];
+  const createdUserIds: number[] = [];
+  const createdProductIds: number[] = [];
+
+  const createUser = async () => {
+    const { user } = await grpcService.createUser(DatabaseTestData.generateSingleUser());
+    createdUserIds.push(user.id);
+    return user;
+  };
+
+  const createProduct = async (price: number, stockQuantity: number) => {
+    const { product } = await grpcService.createProduct({
+      ...DatabaseTestData.generateSingleProduct(),
+      price,
+      stock_quantity: stockQuantity,
+    });
+    createdProductIds.push(product.id);
+    return product;
+  };
+
+  const checkoutOf = (userId: number) => ({
+    user_id: userId,
+    shipping_address: ADDRESS,
+    billing_address: ADDRESS,
+    payment_method: PAYMENT_METHOD,
+  });
+
+  test.beforeAll(async () => {
+    grpcService = new GrpcService();
+  });
+
+  test.afterAll(async () => {
+    await Promise.allSettled(createdOrderIds.map((orderId) => grpcService.deleteOrder(orderId)));
+    await Promise.allSettled(createdProductIds.map((productId) => grpcService.deleteProduct(productId)));
+    await Promise.allSettled(createdUserIds.map((userId) => grpcService.deleteUser(userId)));
+    grpcService.close();
+  });
+
+  test.describe("Cart Items", () => {
+    test("should start with an empty cart", async () => {
+      const user = await createUser();
+
+      const { cart } = await grpcService.getCart(user.id);
+
+      expect(cart.user_id).toBe(user.id);
+      expect(cart.items).toEqual([]);
+      expect(cart.total_amount).toBe(0);
+    });
+
+    test("should add products and compute the cart totals", async () => {
+      const user = await createUser();
+      const keyboard = await createProduct(49.99, 10);
+      const mouse = await createProduct(19.5, 10);
+
+      await grpcService.addToCart(user.id, keyboard.id, 1);
+      await grpcService.addToCart(user.id, mouse.id, 2);
+      const { cart } = await grpcService.addToCart(user.id, keyboard.id, 1);
+
+      expect(cart.items).toEqual([
+        expect.objectContaining({
+          product_id: keyboard.id, product_name: keyboard.name, quantity: 2, unit_price: 49.99, total_price: 99.98,
+        }),
+        expect.objectContaining({
+          product_id: mouse.id, product_name: mouse.name, quantity: 2, unit_price: 19.5, total_price: 39,
+        }),
+      ]);
+      expect(cart.item_count).toBe(2);
+      expect(cart.total_quantity).toBe(4);
+      expect(cart.total_amount).toBe(138.98);
+    });
+
+    test("should update quantities, remove products and clear the cart", async () => {
+      const user = await createUser();
+      const first = await createProduct(10, 10);
+      const second = await createProduct(5, 10);
+      await grpcService.addToCart(user.id, first.id, 1);
+      await grpcService.addToCart(user.id, second.id, 1);
+
+      const updated = await grpcService.updateCartQuantity(user.id, first.id, 3);
+      expect(updated.cart.total_amount).toBe(35);
+
+      const removed = await grpcService.removeFromCart(user.id, second.id);
+      expect(removed.cart.items.map((item) => item.product_id)).toEqual([first.id]);
+
+      const cleared = await grpcService.clearCart(user.id);
+      expect(cleared.cart.items).toEqual([]);
+    });
+
+    test("should reject a zero quantity and products missing from the cart", async () => {
+      const user = await createUser();
+      const product = await createProduct(10, 10);
+
+      await expect(grpcService.addToCart(user.id, product.id, 0)).rejects.toMatchObject({
+        code: grpc.status.INVALID_ARGUMENT,
+      });
+      await expect(grpcService.updateCartQuantity(user.id, product.id, 2)).rejects.toMatchObject({
+        code: grpc.status.NOT_FOUND,
+      });
+      await expect(grpcService.removeFromCart(user.id, product.id)).rejects.toMatchObject({
+        code: grpc.status.NOT_FOUND,
+      });
+    });
+  });
+
+  test.describe("Checkout", () => {
+    test("should turn the cart into a pending order, reserving stock and emptying the cart", async () => {
+      const user = await createUser();
+      const product = await createProduct(12.5, 5);
+      await grpcService.addToCart(user.id, product.id, 2);
+
+      const { order, order_items } = await grpcService.checkout(checkoutOf(user.id));
+      createdOrderIds.push(order.id);
+
+      expect(order).toMatchObject({ user_id: user.id, status: OrderStatus.ORDER_STATUS_PENDING, total_amount: 25 });
+      expect(order_items).toEqual([
+        expect.objectContaining({
+          order_id: order.id, product_id: product.id, quantity: 2, unit_price: 12.5, total_price: 25,
+        }),
+      ]);
+      expect((await grpcService.getOrderById(order.id)).order.total_amount).toBe(25);
+      expect((await grpcService.getProductById(product.id)).product.stock_quantity).toBe(3);
+      expect((await grpcService.getCart(user.id)).cart.items).toEqual([]);
+    });
+
+    test("should reject checking out an empty cart", async () => {
+      const user = await createUser();
+
+      const error = await grpcService.checkout(checkoutOf(user.id)).catch((error) => error);
+
+      expect(error.code).toBe(grpc.status.FAILED_PRECONDITION);
+      expect(error.violations).toEqual([
+        expect.objectContaining({ type: "CART_NOT_EMPTY", subject: `user/${user.id}/cart` }),
+      ]);
+    });
+
+    test("should keep the cart when its products are out of stock", async () => {
+      const user = await createUser();
+      const product = await createProduct(10, 1);
+      await grpcService.addToCart(user.id, product.id, 2);
+
+      await expect(grpcService.checkout(checkoutOf(user.id))).rejects.toMatchObject({
+        code: grpc.status.FAILED_PRECONDITION,
+      });
+
+      expect((await grpcService.getCart(user.id)).cart.total_quantity).toBe(2);
+      expect((await grpcService.getProductById(product.id)).product.stock_quantity).toBe(1);
+      expect((await grpcService.getOrdersByUserId(user.id)).orders).toEqual([]);
+    });
+  });
+});
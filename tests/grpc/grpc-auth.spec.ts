@@ -0,0 +1,311 @@
+import { test, expect } from "@playwright/test";
+import * as grpc from "@grpc/grpc-js";
+import { GrpcClient } from "../../utils/GrpcClient";
+import { GrpcService } from "../../utils/GrpcService";
+import { apiKeyFromEnv } from "../../utils/GrpcAuth";
+import { DatabaseTestData } from "../../utils/DatabaseTestData";
+import { ADDRESS, PAYMENT_METHOD } from "../../utils/constants";
+import { OrderEventType, OrderStatus } from "../../proto/generated/order";
+
+/**
+ * gRPC Authentication Test Suite
+ * Tests Login, bearer-token authentication, the own-account and own-order authorization of signed-in users
+ * and the user and catalog calls left to services
+ */
+test.describe("gRPC Authentication", () => {
+  let grpcService: GrpcService;
+  const createdUserIds: number[] = [];
+  const createdOrderIds: number[] = [];
+  const createdProductIds: number[] = [];
+  const userClients: GrpcClient[] = [];
+
+  test.beforeAll(async () => {
+    grpcService = new GrpcService();
+  });
+
+  test.afterAll(async () => {
+    await Promise.allSettled(createdOrderIds.map((orderId) => grpcService.deleteOrder(orderId)));
+    await Promise.allSettled(createdProductIds.map((productId) => grpcService.deleteProduct(productId)));
+    await Promise.allSettled(createdUserIds.map((userId) => grpcService.deleteUser(userId)));
+    userClients.forEach((client) => client.close());
+    grpcService.close();
+  });
+
+  /**
+   * Create a user together with one order of their own
+   */
+  const createUserWithOrder = async () => {
+    const userData = DatabaseTestData.generateSingleUser();
+    const { user } = await grpcService.createUser(userData);
+    createdUserIds.push(user.id);
+
+    const { order } = await grpcService.createOrder({
+      user_id: user.id,
+      order_number: `ORD-AUTH-${user.id}-${Date.now()}`,
+      total_amount: 10,
+      status: OrderStatus.ORDER_STATUS_PENDING,
+      shipping_address: ADDRESS,
+      billing_address: ADDRESS,
+      payment_method: PAYMENT_METHOD,
+    });
+    createdOrderIds.push(order.id);
+
+    return { user, password: userData.password, orderId: order.id };
+  };
+
+  /**
+   * Sign in and return a service acting for the user
+   */
+  const signIn = async (email: string, password: string): Promise<GrpcService> => {
+    const { token } = await grpcService.login(email, password);
+    const client = GrpcClient.create({ authToken: token });
+    userClients.push(client);
+    return new GrpcService(client);
+  };
+
+  test.describe("Login", () => {
+    test("should issue a token for valid credentials", async () => {
+      const { user, password } = await createUserWithOrder();
+
+      const response = await grpcService.login(user.email, password);
+
+      expect(response.success).toBe(true);
+      expect(response.token).toBeTruthy();
+      expect(response.user?.id).toBe(user.id);
+      expect(new Date(response.expires_at).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    test("should reject a wrong password", async () => {
+      const { user } = await createUserWithOrder();
+
+      await expect(grpcService.login(user.email, "not-the-password")).rejects.toMatchObject({
+        code: grpc.status.UNAUTHENTICATED,
+      });
+    });
+  });
+
+  test.describe("Authentication", () => {
+    test("should reject calls without a token", async () => {
+      const client = GrpcClient.getInstance();
+
+      await expect(
+        client.executeCall(client.getUserService(), "GetAllUsers", { page: 1, limit: 1 }, { authToken: "" })
+      ).rejects.toMatchObject({ code: grpc.status.UNAUTHENTICATED });
+    });
+
+    test("should require a configured API key instead of defaulting to a known one", async () => {
+      expect(() => apiKeyFromEnv({})).toThrow(/GRPC_API_KEY/);
+      expect(apiKeyFromEnv({ GRPC_API_KEY: "configured-key" })).toBe("configured-key");
+    });
+
+    test("should reject a forged token", async () => {
+      const { user, password } = await createUserWithOrder();
+      const { token } = await grpcService.login(user.email, password);
+      const [, signature] = token.split(".");
+      const forged = `${Buffer.from(JSON.stringify({ sub: 1, exp: Date.now() + 60000 })).toString("base64url")}.${signature}`;
+      const client = GrpcClient.getInstance();
+
+      await expect(
+        client.executeCall(client.getOrderService(), "GetAllOrders", { page: 1, limit: 1 }, { authToken: forged })
+      ).rejects.toMatchObject({ code: grpc.status.UNAUTHENTICATED });
+    });
+  });
+
+  test.describe("User Authorization", () => {
+    test("should let users update their own account", async () => {
+      const { user, password } = await createUserWithOrder();
+      const asUser = await signIn(user.email, password);
+
+      const response = await asUser.updateUser(user.id, { city: "Lisbon" });
+
+      expect(response.user.city).toBe("Lisbon");
+    });
+
+    test("should deny changes to the accounts of other users", async () => {
+      const victim = await createUserWithOrder();
+      const other = await createUserWithOrder();
+      const asOther = await signIn(other.user.email, other.password);
+
+      await expect(asOther.updateUser(victim.user.id, { password: "Hijacked123" })).rejects.toMatchObject({
+        code: grpc.status.PERMISSION_DENIED,
+      });
+      await expect(asOther.deleteUser(victim.user.id)).rejects.toMatchObject({
+        code: grpc.status.PERMISSION_DENIED,
+      });
+      await expect(grpcService.login(victim.user.email, "Hijacked123")).rejects.toMatchObject({
+        code: grpc.status.UNAUTHENTICATED,
+      });
+      expect((await grpcService.getUserById(victim.user.id)).user.id).toBe(victim.user.id);
+    });
+
+    test("should deny restoring and auditing the accounts of other users", async () => {
+      const victim = await createUserWithOrder();
+      const other = await createUserWithOrder();
+      const asOther = await signIn(other.user.email, other.password);
+      await grpcService.deleteUser(victim.user.id);
+
+      await expect(asOther.restoreUser(victim.user.id)).rejects.toMatchObject({
+        code: grpc.status.PERMISSION_DENIED,
+      });
+      await expect(asOther.getUserAuditLog(victim.user.id)).rejects.toMatchObject({
+        code: grpc.status.PERMISSION_DENIED,
+      });
+      await expect(grpcService.getUserById(victim.user.id)).rejects.toMatchObject({
+        code: grpc.status.NOT_FOUND,
+      });
+    });
+
+    test("should let users read their own account but not those of others", async () => {
+      const victim = await createUserWithOrder();
+      const other = await createUserWithOrder();
+      const asOther = await signIn(other.user.email, other.password);
+
+      expect((await asOther.getUserById(other.user.id)).user.id).toBe(other.user.id);
+      expect((await asOther.getUserByEmail(other.user.email)).user.id).toBe(other.user.id);
+      await expect(asOther.getUserById(victim.user.id)).rejects.toMatchObject({
+        code: grpc.status.PERMISSION_DENIED,
+      });
+      await expect(asOther.getUserByEmail(victim.user.email)).rejects.toMatchObject({
+        code: grpc.status.PERMISSION_DENIED,
+      });
+    });
+
+    test("should leave listing and bulk creating users to services", async () => {
+      const { user, password } = await createUserWithOrder();
+      const asUser = await signIn(user.email, password);
+      const userData = DatabaseTestData.generateSingleUser();
+
+      await expect(asUser.getAllUsers(1, 10)).rejects.toMatchObject({
+        code: grpc.status.PERMISSION_DENIED,
+      });
+      await expect(asUser.bulkCreateUsers([userData])).rejects.toMatchObject({
+        code: grpc.status.PERMISSION_DENIED,
+      });
+      await expect(grpcService.getUserByEmail(userData.email)).rejects.toMatchObject({
+        code: grpc.status.NOT_FOUND,
+      });
+    });
+  });
+
+  test.describe("Product Authorization", () => {
+    test("should let users browse the catalog", async () => {
+      const { user, password } = await createUserWithOrder();
+      const { product } = await grpcService.createProduct(DatabaseTestData.generateSingleProduct());
+      createdProductIds.push(product.id);
+      const asUser = await signIn(user.email, password);
+
+      expect((await asUser.getProductById(product.id)).product.id).toBe(product.id);
+    });
+
+    test("should deny users every change to the catalog and its audit log", async () => {
+      const { user, password } = await createUserWithOrder();
+      const { product } = await grpcService.createProduct(DatabaseTestData.generateSingleProduct());
+      createdProductIds.push(product.id);
+      const asUser = await signIn(user.email, password);
+      const denied = { code: grpc.status.PERMISSION_DENIED };
+
+      await expect(asUser.createProduct(DatabaseTestData.generateSingleProduct())).rejects.toMatchObject(denied);
+      await expect(asUser.bulkCreateProducts([DatabaseTestData.generateSingleProduct()])).rejects.toMatchObject(denied);
+      await expect(asUser.updateProduct(product.id, { price: 0.01 })).rejects.toMatchObject(denied);
+      await expect(asUser.deleteProduct(product.id)).rejects.toMatchObject(denied);
+      await expect(asUser.getProductAuditLog(product.id)).rejects.toMatchObject(denied);
+      await grpcService.deleteProduct(product.id);
+      await expect(asUser.restoreProduct(product.id)).rejects.toMatchObject(denied);
+      await expect(grpcService.getProductById(product.id)).rejects.toMatchObject({ code: grpc.status.NOT_FOUND });
+    });
+  });
+
+  test.describe("Order Authorization", () => {
+    test("should let users read their own orders", async () => {
+      const { user, password, orderId } = await createUserWithOrder();
+      const asUser = await signIn(user.email, password);
+
+      const response = await asUser.getOrderById(orderId);
+
+      expect(response.order.user_id).toBe(user.id);
+    });
+
+    test("should deny access to the orders of other users", async () => {
+      const owner = await createUserWithOrder();
+      const other = await createUserWithOrder();
+      const asOther = await signIn(other.user.email, other.password);
+
+      await expect(asOther.getOrderById(owner.orderId)).rejects.toMatchObject({
+        code: grpc.status.PERMISSION_DENIED,
+      });
+      await expect(
+        asOther.updateOrderStatus(owner.orderId, OrderStatus.ORDER_STATUS_CANCELLED)
+      ).rejects.toMatchObject({ code: grpc.status.PERMISSION_DENIED });
+      expect((await grpcService.getOrderById(owner.orderId)).order.status).toBe(
+        OrderStatus.ORDER_STATUS_PENDING
+      );
+    });
+
+    test("should only list the user's own orders", async () => {
+      const owner = await createUserWithOrder();
+      await createUserWithOrder();
+      const asOwner = await signIn(owner.user.email, owner.password);
+
+      const response = await asOwner.getAllOrders(1, 100);
+
+      expect(response.orders.map((order) => order.id)).toEqual([owner.orderId]);
+    });
+
+    test("should send the deletion of a user's own order to their subscription", async () => {
+      const { user, password, orderId } = await createUserWithOrder();
+      const asUser = await signIn(user.email, password);
+      const events = asUser.openOrderEvents({ timeout: 10000 });
+      const received = events[Symbol.asyncIterator]();
+
+      await events.send({ subscribe: { order_ids: [] } });
+      await events.send({ update_status: { id: orderId, status: OrderStatus.ORDER_STATUS_CONFIRMED } });
+      expect((await received.next()).value).toMatchObject({ type: OrderEventType.ORDER_EVENT_TYPE_STATUS_CHANGED });
+      await grpcService.deleteOrder(orderId);
+      events.end();
+
+      const deleted = await received.next();
+      expect(deleted.value).toMatchObject({
+        type: OrderEventType.ORDER_EVENT_TYPE_DELETED,
+        order_id: orderId,
+        order: expect.objectContaining({ user_id: user.id }),
+      });
+      expect((await received.next()).done).toBe(true);
+    });
+
+    test("should record the changes of a user in the audit log as theirs", async () => {
+      const { user, password, orderId } = await createUserWithOrder();
+      const asUser = await signIn(user.email, password);
+
+      await asUser.updateOrderStatus(orderId, OrderStatus.ORDER_STATUS_CANCELLED);
+
+      const { entries } = await asUser.getOrderAuditLog(orderId);
+      expect(entries.map((entry) => entry.actor)).toEqual(["service", `user:${user.id}`]);
+    });
+
+    test("should record the stock and total changes of a user's items as theirs", async () => {
+      const { user, password, orderId } = await createUserWithOrder();
+      const { product } = await grpcService.createProduct({
+        ...DatabaseTestData.generateSingleProduct(),
+        stock_quantity: 5,
+      });
+      createdProductIds.push(product.id);
+      const asUser = await signIn(user.email, password);
+
+      const { order_item } = await asUser.addOrderItem({
+        order_id: orderId, product_id: product.id, quantity: 3, unit_price: 10, total_price: 30,
+      });
+      await asUser.removeOrderItem(order_item.id);
+
+      const productLog = await grpcService.getProductAuditLog(product.id);
+      const orderLog = await asUser.getOrderAuditLog(orderId);
+      expect(productLog.entries.slice(1).map((entry) => [entry.actor, JSON.parse(entry.after).stock_quantity])).toEqual([
+        [`user:${user.id}`, 2],
+        [`user:${user.id}`, 5],
+      ]);
+      expect(orderLog.entries.slice(1).map((entry) => [entry.actor, Number(JSON.parse(entry.after).total_amount)])).toEqual([
+        [`user:${user.id}`, 30],
+        [`user:${user.id}`, 0],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { test, expect } from "@playwright/test";
+import * as grpc from "@grpc/grpc-js";
+import {
+  Attempt,
+  CallPolicy,
+  backoffDelay,
+  callWithPolicy,
+  callWithRetries,
+  loadCallConfig,
+  resolveCallPolicy,
+} from "../../utils/GrpcCallPolicy";
+
+/**
+ * gRPC Call Policy Test Suite
+ * Tests deadlines, retries with backoff and hedging of GrpcClient.executeCall against scripted attempts
+ */
+test.describe("gRPC Call Policy", () => {
+  const policy: CallPolicy = {
+    deadlineMs: 1000,
+    retry: { maxAttempts: 3, initialBackoffMs: 1, maxBackoffMs: 4, backoffMultiplier: 2 },
+    hedging: { maxAttempts: 2, delayMs: 20 },
+  };
+
+  const failure = (code: grpc.status) =>
+    Object.assign(new Error(grpc.status[code]), { code });
+
+  /**
+   * Attempts that play the given outcomes in order: a response, a status error, or (null)
+   * a response arriving only after the hedging delay
+   */
+  const scripted = (outcomes: (string | grpc.status | null)[]) => {
+    const cancelled: number[] = [];
+    let started = 0;
+    const start = (): Attempt<string> => {
+      const index = started++;
+      const outcome = outcomes[index];
+      let cancel = () => {};
+      const response = new Promise<string>((resolve, reject) => {
+        if (typeof outcome === "string") {
+          resolve(outcome);
+        } else if (outcome === null) {
+          setTimeout(() => resolve("slow"), policy.hedging.delayMs * 3);
+        } else if (outcome !== undefined) {
+          reject(failure(outcome));
+        }
+        cancel = () => {
+          cancelled.push(index);
+          reject(failure(grpc.status.CANCELLED));
+        };
+      });
+      return { response, cancel: () => cancel() };
+    };
+    return { start, cancelled, started: () => started };
+  };
+
+  test.describe("Config", () => {
+    test("should read deadlines, retries and hedging from the environment", async () => {
+      const config = loadCallConfig({
+        GRPC_TIMEOUT: "5000",
+        GRPC_METHOD_TIMEOUTS: "GetAllProducts=2000, SearchProducts=8000",
+        GRPC_MAX_ATTEMPTS: "5",
+        GRPC_HEDGING_DELAY: "250",
+      });
+
+      expect(resolveCallPolicy(config, "CreateUser").deadlineMs).toBe(5000);
+      expect(resolveCallPolicy(config, "GetAllProducts").deadlineMs).toBe(2000);
+      expect(resolveCallPolicy(config, "SearchProducts", { timeout: 100 }).deadlineMs).toBe(100);
+      expect(config.retry.maxAttempts).toBe(5);
+      expect(config.hedging).toEqual({ maxAttempts: 2, delayMs: 250 });
+    });
+
+    test("should reject invalid values", async () => {
+      expect(() => loadCallConfig({ GRPC_TIMEOUT: "soon" })).toThrow(/GRPC_TIMEOUT/);
+      expect(() => loadCallConfig({ GRPC_METHOD_TIMEOUTS: "GetAllProducts" })).toThrow(
+        /GRPC_METHOD_TIMEOUTS/
+      );
+    });
+
+    test("should grow the backoff exponentially up to its cap, with jitter", async () => {
+      const retry = { maxAttempts: 6, initialBackoffMs: 100, maxBackoffMs: 1000, backoffMultiplier: 2 };
+
+      expect([1, 2, 3, 4, 5].map((attempt) => backoffDelay(retry, attempt, () => 0.999))).toEqual([
+        99, 199, 399, 799, 999,
+      ]);
+      expect(backoffDelay(retry, 3, () => 0)).toBe(0);
+    });
+  });
+
+  test.describe("Retries", () => {
+    test("should retry UNAVAILABLE until the server answers", async () => {
+      const attempts = scripted([grpc.status.UNAVAILABLE, grpc.status.UNAVAILABLE, "ok"]);
+      const delays: number[] = [];
+
+      const response = await callWithRetries(attempts.start, policy, true, async (ms) => {
+        delays.push(ms);
+      });
+
+      expect(response).toBe("ok");
+      expect(attempts.started()).toBe(3);
+      expect(delays).toHaveLength(2);
+    });
+
+    test("should give up after the last attempt", async () => {
+      const attempts = scripted([
+        grpc.status.RESOURCE_EXHAUSTED,
+        grpc.status.RESOURCE_EXHAUSTED,
+        grpc.status.RESOURCE_EXHAUSTED,
+        "too late",
+      ]);
+
+      await expect(callWithRetries(attempts.start, policy, true, async () => {})).rejects.toMatchObject({
+        code: grpc.status.RESOURCE_EXHAUSTED,
+      });
+      expect(attempts.started()).toBe(3);
+    });
+
+    test("should not retry other statuses, or a write without an idempotency key", async () => {
+      const invalid = scripted([grpc.status.INVALID_ARGUMENT, "ok"]);
+      const timedOutWrite = scripted([grpc.status.DEADLINE_EXCEEDED, "ok"]);
+      const droppedWrite = scripted([grpc.status.UNAVAILABLE, "duplicate"]);
+
+      await expect(callWithPolicy("GetUserById", invalid.start, policy)).rejects.toMatchObject({
+        code: grpc.status.INVALID_ARGUMENT,
+      });
+      await expect(callWithPolicy("CreateOrder", timedOutWrite.start, policy)).rejects.toMatchObject({
+        code: grpc.status.DEADLINE_EXCEEDED,
+      });
+      await expect(callWithPolicy("CreateUser", droppedWrite.start, policy)).rejects.toMatchObject({
+        code: grpc.status.UNAVAILABLE,
+      });
+      expect(invalid.started()).toBe(1);
+      expect(timedOutWrite.started()).toBe(1);
+      expect(droppedWrite.started()).toBe(1);
+    });
+
+    test("should retry a write sent with an idempotency key that hit its deadline, without hedging it", async () => {
+      const attempts = scripted([grpc.status.DEADLINE_EXCEEDED, null]);
+
+      const response = await callWithPolicy("CreateOrder", attempts.start, policy, true);
+
+      expect(response).toBe("slow");
+      expect(attempts.started()).toBe(2);
+    });
+  });
+
+  test.describe("Hedging", () => {
+    test("should send a second attempt for a slow read and cancel the loser", async () => {
+      const attempts = scripted([null, "fast"]);
+
+      const response = await callWithPolicy("GetAllProducts", attempts.start, policy);
+
+      expect(response).toBe("fast");
+      expect(attempts.started()).toBe(2);
+      expect(attempts.cancelled).toEqual([0]);
+    });
+
+    test("should not hedge writes", async () => {
+      const attempts = scripted([null, "duplicate"]);
+
+      const response = await callWithPolicy("CreateProduct", attempts.start, policy);
+
+      expect(response).toBe("slow");
+      expect(attempts.started()).toBe(1);
+    });
+  });
+});
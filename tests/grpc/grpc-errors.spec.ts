@@ -0,0 +1,136 @@
+import { test, expect } from "@playwright/test";
+import * as grpc from "@grpc/grpc-js";
+import { GrpcClient } from "../../utils/GrpcClient";
+import { GrpcService } from "../../utils/GrpcService";
+import { DatabaseTestData } from "../../utils/DatabaseTestData";
+import { ADDRESS, PAYMENT_METHOD } from "../../utils/constants";
+import {
+  AbortedError,
+  AlreadyExistsError,
+  FailedPreconditionError,
+  GrpcError,
+  InvalidArgumentError,
+  NotFoundError,
+  UnauthenticatedError,
+  decodeStatusDetails,
+  statusDetailsMetadata,
+} from "../../utils/GrpcErrors";
+import { OrderStatus } from "../../proto/generated/order";
+
+/**
+ * gRPC Error Model Test Suite
+ * Tests the status codes, google.rpc.Status details and typed client errors of failed calls
+ */
+test.describe("gRPC Error Model", () => {
+  let grpcService: GrpcService;
+  const createdUserIds: number[] = [];
+  const createdProductIds: number[] = [];
+
+  test.beforeAll(async () => {
+    grpcService = new GrpcService();
+  });
+
+  test.afterAll(async () => {
+    await Promise.allSettled(createdProductIds.map((productId) => grpcService.deleteProduct(productId)));
+    await Promise.allSettled(createdUserIds.map((userId) => grpcService.deleteUser(userId)));
+    grpcService.close();
+  });
+
+  test("should round-trip status details through the trailer", async () => {
+    const details = {
+      badRequest: { field_violations: [{ field: "email", description: "is required" }] },
+      resourceInfo: { resource_type: "User", resource_name: "7", owner: "", description: "User with ID 7 not found" },
+    };
+
+    const metadata = statusDetailsMetadata(grpc.status.INVALID_ARGUMENT, "Invalid User", details);
+
+    expect(decodeStatusDetails(metadata)).toEqual(details);
+    expect(decodeStatusDetails(new grpc.Metadata())).toEqual({});
+  });
+
+  test("should reject a missing entity with NotFoundError and its ResourceInfo", async () => {
+    const error = await grpcService.getUserById(99999).catch((error) => error);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toBeInstanceOf(GrpcError);
+    expect(error.code).toBe(grpc.status.NOT_FOUND);
+    expect(error.resource).toMatchObject({ resource_type: "User", resource_name: "99999" });
+  });
+
+  test("should reject invalid fields with InvalidArgumentError and its field violations", async () => {
+    const userData = { ...DatabaseTestData.generateSingleUser(), email: "not-an-email", password: "short" };
+
+    const error = await grpcService.createUser(userData).catch((error) => error);
+
+    expect(error).toBeInstanceOf(InvalidArgumentError);
+    expect(error.fieldViolations).toEqual([
+      { field: "email", description: "must be a valid email address" },
+      { field: "password", description: "must be 8 to 128 characters with a letter and a digit" },
+    ]);
+  });
+
+  test("should reject an amount too large for its column with InvalidArgumentError", async () => {
+    const productData = { ...DatabaseTestData.generateSingleProduct(), price: 100000000 };
+
+    const error = await grpcService.createProduct(productData).catch((error) => error);
+
+    expect(error).toBeInstanceOf(InvalidArgumentError);
+    expect(error.fieldViolations).toEqual([{ field: "price", description: "must be at most 99999999.99" }]);
+  });
+
+  test("should reject duplicates streamed by the client with AlreadyExistsError", async () => {
+    const productData = DatabaseTestData.generateSingleProduct();
+    const { product } = await grpcService.createProduct(productData);
+    createdProductIds.push(product.id);
+
+    const error = await grpcService.bulkCreateProducts([productData]).catch((error) => error);
+
+    expect(error).toBeInstanceOf(AlreadyExistsError);
+    expect(error.resource).toMatchObject({ resource_type: "Product", resource_name: productData.sku });
+  });
+
+  test("should reject an illegal status change with FailedPreconditionError", async () => {
+    const { user } = await grpcService.createUser(DatabaseTestData.generateSingleUser());
+    createdUserIds.push(user.id);
+    const { order } = await grpcService.createOrder({
+      user_id: user.id,
+      order_number: `ORD-ERR-${user.id}-${Date.now()}`,
+      status: OrderStatus.ORDER_STATUS_PENDING,
+      shipping_address: ADDRESS,
+      billing_address: ADDRESS,
+      payment_method: PAYMENT_METHOD,
+    });
+
+    const error = await grpcService
+      .updateOrderStatus(order.id, OrderStatus.ORDER_STATUS_DELIVERED)
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(FailedPreconditionError);
+    expect(error.violations).toEqual([
+      expect.objectContaining({ type: "ORDER_STATUS_TRANSITION", subject: "order_status/pending" }),
+    ]);
+  });
+
+  test("should reject an update of a stale version with AbortedError", async () => {
+    const { user } = await grpcService.createUser(DatabaseTestData.generateSingleUser());
+    createdUserIds.push(user.id);
+    await grpcService.updateUser(user.id, { city: "Lisbon" });
+
+    const error = await grpcService
+      .updateUser(user.id, { city: "Porto", expected_version: user.version })
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(AbortedError);
+    expect(error.violations).toEqual([
+      expect.objectContaining({ type: "VERSION", subject: `user/${user.id}` }),
+    ]);
+  });
+
+  test("should reject calls without credentials with UnauthenticatedError", async () => {
+    const client = GrpcClient.getInstance();
+
+    await expect(
+      client.executeCall(client.getProductService(), "GetAllProducts", { page: 1, limit: 1 }, { authToken: "" })
+    ).rejects.toBeInstanceOf(UnauthenticatedError);
+  });
+});
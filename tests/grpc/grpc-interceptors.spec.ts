@@ -0,0 +1,173 @@
+import { test, expect } from "@playwright/test";
+import * as grpc from "@grpc/grpc-js";
+import { GrpcClient } from "../../utils/GrpcClient";
+import { GrpcService } from "../../utils/GrpcService";
+import { DatabaseTestData } from "../../utils/DatabaseTestData";
+import {
+  CallLogEntry,
+  CallTiming,
+  REDACTED,
+  authInterceptor,
+  errorMappingInterceptor,
+  loggingInterceptor,
+  redact,
+  timingInterceptor,
+} from "../../utils/GrpcInterceptors";
+import { apiKeyFromEnv } from "../../utils/GrpcAuth";
+
+/**
+ * gRPC Interceptor Test Suite
+ * Tests the GrpcClient interceptor chain: logging with redaction, auth metadata, timing and error mapping
+ */
+test.describe("gRPC Interceptors", () => {
+  let grpcClient: GrpcClient;
+  let grpcService: GrpcService;
+  let removeInterceptors: (() => void) | undefined;
+  const createdUserIds: number[] = [];
+
+  test.beforeAll(async () => {
+    grpcClient = GrpcClient.getInstance();
+    grpcService = new GrpcService();
+  });
+
+  test.afterEach(async () => {
+    removeInterceptors?.();
+    removeInterceptors = undefined;
+  });
+
+  test.afterAll(async () => {
+    await Promise.all(
+      createdUserIds.map((userId) =>
+        grpcService.deleteUser(userId).catch((error) =>
+          console.log(`Failed to clean up user ${userId}:`, error)
+        )
+      )
+    );
+    grpcClient.close();
+  });
+
+  /**
+   * Interceptor recording the metadata each call is sent with
+   */
+  const metadataRecorder = (sent: grpc.Metadata[]): grpc.Interceptor =>
+    (options, nextCall) =>
+      new grpc.InterceptingCall(nextCall(options), {
+        start(metadata, listener, next) {
+          sent.push(metadata.clone());
+          next(metadata, listener);
+        },
+      });
+
+  test("should redact sensitive fields at any depth", async () => {
+    expect(
+      redact({ user: { email: "a@example.com", Password: "secret" }, tokens: [{ token: "t" }] })
+    ).toEqual({ user: { email: "a@example.com", Password: REDACTED }, tokens: [{ token: REDACTED }] });
+  });
+
+  test("should log requests and responses with the password redacted", async () => {
+    const entries: CallLogEntry[] = [];
+    removeInterceptors = grpcClient.use(
+      loggingInterceptor({
+        verbose: true,
+        logger: { info: (entry) => entries.push(entry), error: (entry) => entries.push(entry) },
+      })
+    );
+    const userData = DatabaseTestData.generateSingleUser();
+
+    const response = await grpcService.createUser(userData);
+    createdUserIds.push(response.user.id);
+
+    const request = entries.find((entry) => entry.event === "request");
+    const status = entries.find((entry) => entry.event === "status");
+    expect(request?.method).toBe("/user.UserService/CreateUser");
+    expect(request?.message).toMatchObject({ username: userData.username, password: REDACTED });
+    expect(entries.some((entry) => entry.event === "response")).toBe(true);
+    expect(status).toMatchObject({ code: "OK" });
+    expect(JSON.stringify(entries)).not.toContain(userData.password);
+  });
+
+  test("should not log the hedged attempt that lost as a failure", async () => {
+    const failures: CallLogEntry[] = [];
+    let started = 0;
+    /**
+     * Holds the first attempt back past the hedging delay, as a slow server would, so the second one
+     * wins; cancelling it meanwhile ends it CANCELLED like a call in flight
+     */
+    const slowFirstAttempt: grpc.Interceptor = (options, nextCall) => {
+      let held: { timer: NodeJS.Timeout; listener: grpc.InterceptingListener } | undefined;
+      return new grpc.InterceptingCall(nextCall(options), {
+        start(metadata, listener, next) {
+          if (started++ > 0) return next(metadata, listener);
+          held = { timer: setTimeout(() => next(metadata, listener), 200), listener };
+        },
+        cancel(next) {
+          if (!held) return next();
+          clearTimeout(held.timer);
+          held.listener.onReceiveStatus({
+            code: grpc.status.CANCELLED, details: "Cancelled on client", metadata: new grpc.Metadata(),
+          });
+        },
+      });
+    };
+    removeInterceptors = grpcClient.use(
+      loggingInterceptor({ logger: { info: () => {}, error: (entry) => failures.push(entry) } }),
+      slowFirstAttempt
+    );
+
+    const response = await grpcClient.executeCall(
+      grpcClient.getUserService(), "GetAllUsers", { page: 1, limit: 1 }, { hedging: { maxAttempts: 2, delayMs: 20 } }
+    );
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(response.success).toBe(true);
+    expect(started).toBe(2);
+    expect(failures).toEqual([]);
+  });
+
+  test("should send the bearer token as authorization metadata", async () => {
+    const sent: grpc.Metadata[] = [];
+    removeInterceptors = grpcClient.use(authInterceptor(() => apiKeyFromEnv()), metadataRecorder(sent));
+
+    // No per-call or client credentials, so the interceptor supplies them
+    await grpcClient.executeCall(
+      grpcClient.getUserService(),
+      "GetAllUsers",
+      { page: 1, limit: 1 },
+      { authToken: "" }
+    );
+    await grpcService.getAllUsers(1, 1);
+
+    expect(sent.map((metadata) => metadata.get("authorization"))).toEqual([
+      [`Bearer ${apiKeyFromEnv()}`],
+      [`Bearer ${apiKeyFromEnv()}`],
+    ]);
+  });
+
+  test("should time calls and report their status", async () => {
+    const timings: CallTiming[] = [];
+    removeInterceptors = grpcClient.use(timingInterceptor((timing) => timings.push(timing)));
+
+    await grpcService.getAllProducts(1, 1);
+    await expect(grpcService.getProductById(99999)).rejects.toBeDefined();
+
+    expect(timings.map((timing) => [timing.method, timing.code])).toEqual([
+      ["/product.ProductService/GetAllProducts", grpc.status.OK],
+      ["/product.ProductService/GetProductById", grpc.status.NOT_FOUND],
+    ]);
+    expect(timings.every((timing) => timing.durationMs >= 0)).toBe(true);
+  });
+
+  test("should map failed statuses before they reach the caller", async () => {
+    removeInterceptors = grpcClient.use(
+      errorMappingInterceptor((status, method) => ({
+        ...status,
+        details: `${method}: ${status.details}`,
+      }))
+    );
+
+    await expect(grpcService.getUserById(99999)).rejects.toMatchObject({
+      code: grpc.status.NOT_FOUND,
+      details: expect.stringMatching(/^\/user\.UserService\/GetUserById: /),
+    });
+  });
+});
@@ -46,6 +46,7 @@ test.describe("gRPC Setup and Connection", () => {
       const userService = grpcClient.getUserService();
 
       try {
+        // @ts-expect-error the method is deliberately missing from the generated service types
         await grpcClient.executeCall(userService, "NonExistentMethod", {});
         // This should fail if the method doesn't exist
       } catch (error) {
@@ -118,7 +119,7 @@ test.describe("gRPC Setup and Connection", () => {
           userService,
           "GetAllUsers",
           { page: 1, limit: 1 },
-          1
+          { timeout: 1 }
         );
       } catch (error) {
         expect(error).toBeDefined();
@@ -130,6 +131,7 @@ test.describe("gRPC Setup and Connection", () => {
 
       try {
         await grpcClient.executeCall(userService, "CreateUser", {
+          // @ts-expect-error the payload deliberately does not match CreateUserRequest
           invalid: "data",
         });
       } catch (error) {
@@ -1,7 +1,13 @@
 import { test, expect } from "@playwright/test";
+import * as grpc from "@grpc/grpc-js";
+import { randomUUID } from "crypto";
+import { GrpcClient } from "../../utils/GrpcClient";
 import { GrpcService } from "../../utils/GrpcService";
+import { IDEMPOTENCY_KEY_HEADER } from "../../utils/Idempotency";
 import { DatabaseTestData } from "../../utils/DatabaseTestData";
-import { ADDRESS, PAYMENT_METHOD, STATUS } from "../../utils/constants";
+import { ADDRESS, PAYMENT_METHOD } from "../../utils/constants";
+import { toOrderStatusMessage } from "../../utils/OrderStatusMapping";
+import { OrderEventType, OrderStatus } from "../../proto/generated/order";
 
 /**
  * gRPC Order CRUD Test Suite
@@ -74,7 +80,7 @@ test.describe("gRPC Order CRUD Operations", () => {
           user_id: userId,
           order_number: `ORD-${Date.now()}`,
           total_amount: 99.99,
-          status: STATUS.PENDING,
+          status: OrderStatus.ORDER_STATUS_PENDING,
           shipping_address: ADDRESS,
           billing_address: ADDRESS,
           payment_method: PAYMENT_METHOD,
@@ -87,7 +93,7 @@ test.describe("gRPC Order CRUD Operations", () => {
         expect(response.order).toBeDefined();
         expect(response.order.user_id).toBe(userId);
         expect(response.order.order_number).toBe(orderData.order_number);
-        expect(response.order.total_amount).toBe(orderData.total_amount);
+        expect(response.order.total_amount).toBe(0); // Follows the items, of which there are none yet
         expect(response.order.status).toBe(orderData.status);
 
         if (response.order.id) {
@@ -112,7 +118,10 @@ test.describe("gRPC Order CRUD Operations", () => {
 
         await Promise.all(
           ordersData.map(async (orderData) => {
-            const response = await grpcService.createOrder(orderData);
+            const response = await grpcService.createOrder({
+              ...orderData,
+              status: toOrderStatusMessage(orderData.status),
+            });
 
             expect(response).toBeDefined();
             expect(response.success).toBe(true);
@@ -142,7 +151,7 @@ test.describe("gRPC Order CRUD Operations", () => {
           user_id: userId,
           order_number: "DUPLICATE-ORDER-001",
           total_amount: 99.99,
-          status: STATUS.PENDING,
+          status: OrderStatus.ORDER_STATUS_PENDING,
           shipping_address: ADDRESS,
           billing_address: ADDRESS,
           payment_method: PAYMENT_METHOD,
@@ -205,7 +214,7 @@ test.describe("gRPC Order CRUD Operations", () => {
         expect(response).toBeDefined();
         expect(response.success).toBe(true);
         expect(response.order).toBeDefined();
-        expect(response.order.status).toBe(STATUS.PENDING); // Default value
+        expect(response.order.status).toBe(OrderStatus.ORDER_STATUS_PENDING); // Default value
 
         if (response.order.id) {
           createdOrderIds.push(response.order.id);
@@ -234,7 +243,7 @@ test.describe("gRPC Order CRUD Operations", () => {
           user_id: userId,
           order_number: `TEST-ORD-${Date.now()}`,
           total_amount: 199.99,
-          status: STATUS.PENDING,
+          status: OrderStatus.ORDER_STATUS_PENDING,
           shipping_address: ADDRESS,
           billing_address: ADDRESS,
           payment_method: PAYMENT_METHOD,
@@ -377,7 +386,7 @@ test.describe("gRPC Order CRUD Operations", () => {
           user_id: userId,
           order_number: `UPDATE-ORD-${Date.now()}`,
           total_amount: 299.99,
-          status: STATUS.PENDING,
+          status: OrderStatus.ORDER_STATUS_PENDING,
           shipping_address: ADDRESS,
           billing_address: ADDRESS,
           payment_method: PAYMENT_METHOD,
@@ -402,13 +411,13 @@ test.describe("gRPC Order CRUD Operations", () => {
       try {
         const response = await grpcService.updateOrderStatus(
           testOrderId,
-          STATUS.PROCESSING
+          OrderStatus.ORDER_STATUS_CONFIRMED
         );
 
         expect(response).toBeDefined();
         expect(response.success).toBe(true);
         expect(response.order).toBeDefined();
-        expect(response.order.status).toBe(STATUS.PROCESSING);
+        expect(response.order.status).toBe(OrderStatus.ORDER_STATUS_CONFIRMED);
       } catch (error) {
         // Expected if gRPC server is not running
         expect(error).toBeDefined();
@@ -421,30 +430,33 @@ test.describe("gRPC Order CRUD Operations", () => {
         return;
       }
 
-      const statuses = [STATUS.PROCESSING, STATUS.SHIPPED, STATUS.DELIVERED];
-      await Promise.all(
-        statuses.map((status) =>
-          grpcService
-            .updateOrderStatus(testOrderId, status)
-            .then((response) => {
-              expect(response).toBeDefined();
-              expect(response.success).toBe(true);
-              expect(response.order).toBeDefined();
-              expect(response.order.status).toBe(status);
-            })
-            .catch((error) => {
-              // Expected if gRPC server is not running
-              expect(error).toBeDefined();
-            })
-        )
-      );
+      // Continues the lifecycle from the confirmed status set by the previous test
+      const statuses = [
+        OrderStatus.ORDER_STATUS_SHIPPED,
+        OrderStatus.ORDER_STATUS_DELIVERED,
+      ];
+      for (const status of statuses) {
+        try {
+          const response = await grpcService.updateOrderStatus(
+            testOrderId,
+            status
+          );
+          expect(response).toBeDefined();
+          expect(response.success).toBe(true);
+          expect(response.order).toBeDefined();
+          expect(response.order.status).toBe(status);
+        } catch (error) {
+          // Expected if gRPC server is not running
+          expect(error).toBeDefined();
+        }
+      }
     });
 
     test("should handle non-existent order status update", async () => {
       try {
         const response = await grpcService.updateOrderStatus(
           99999,
-          STATUS.PROCESSING
+          OrderStatus.ORDER_STATUS_CONFIRMED
         );
         expect(response.success).toBe(false);
       } catch (error) {
@@ -454,6 +466,275 @@ test.describe("gRPC Order CRUD Operations", () => {
     });
   });
 
+  test.describe("Order Totals", () => {
+    test("should recompute the order total from its items", async () => {
+      const userResponse = await grpcService.createUser(
+        DatabaseTestData.generateSingleUser()
+      );
+      createdUserIds.push(userResponse.user.id);
+      const productResponse = await grpcService.createProduct(
+        DatabaseTestData.generateSingleProduct()
+      );
+      createdProductIds.push(productResponse.product.id);
+      const orderResponse = await grpcService.createOrder({
+        ...DatabaseTestData.generateSingleOrder(userResponse.user.id),
+        status: OrderStatus.ORDER_STATUS_PENDING,
+      });
+      createdOrderIds.push(orderResponse.order.id);
+
+      const itemResponse = await grpcService.addOrderItem({
+        order_id: orderResponse.order.id,
+        product_id: productResponse.product.id,
+        quantity: 3,
+        unit_price: 29.99,
+        total_price: 89.97,
+      });
+      expect(
+        (await grpcService.getOrderById(orderResponse.order.id)).order.total_amount
+      ).toBe(89.97);
+
+      await grpcService.removeOrderItem(itemResponse.order_item.id);
+      expect(
+        (await grpcService.getOrderById(orderResponse.order.id)).order.total_amount
+      ).toBe(0);
+    });
+
+    test("should reject a mismatched item total with INVALID_ARGUMENT", async () => {
+      const userResponse = await grpcService.createUser(
+        DatabaseTestData.generateSingleUser()
+      );
+      createdUserIds.push(userResponse.user.id);
+      const productResponse = await grpcService.createProduct(
+        DatabaseTestData.generateSingleProduct()
+      );
+      createdProductIds.push(productResponse.product.id);
+      const orderResponse = await grpcService.createOrder({
+        ...DatabaseTestData.generateSingleOrder(userResponse.user.id),
+        status: OrderStatus.ORDER_STATUS_PENDING,
+      });
+      createdOrderIds.push(orderResponse.order.id);
+
+      await expect(
+        grpcService.addOrderItem({
+          order_id: orderResponse.order.id,
+          product_id: productResponse.product.id,
+          quantity: 2,
+          unit_price: 10,
+          total_price: 25,
+        })
+      ).rejects.toMatchObject({ code: grpc.status.INVALID_ARGUMENT });
+    });
+  });
+
+  test.describe("Order Status Transitions", () => {
+    test("should reject an illegal status transition with FAILED_PRECONDITION", async () => {
+      const userResponse = await grpcService.createUser(
+        DatabaseTestData.generateSingleUser()
+      );
+      createdUserIds.push(userResponse.user.id);
+      const orderResponse = await grpcService.createOrder({
+        ...DatabaseTestData.generateSingleOrder(userResponse.user.id),
+        status: OrderStatus.ORDER_STATUS_PENDING,
+      });
+      createdOrderIds.push(orderResponse.order.id);
+
+      await expect(
+        grpcService.updateOrderStatus(orderResponse.order.id, OrderStatus.ORDER_STATUS_DELIVERED)
+      ).rejects.toMatchObject({ code: grpc.status.FAILED_PRECONDITION });
+
+      const response = await grpcService.getOrderById(orderResponse.order.id);
+      expect(response.order.status).toBe(OrderStatus.ORDER_STATUS_PENDING);
+    });
+
+    test("should reject an order created in a later status with FAILED_PRECONDITION", async () => {
+      const userResponse = await grpcService.createUser(
+        DatabaseTestData.generateSingleUser()
+      );
+      createdUserIds.push(userResponse.user.id);
+
+      await expect(
+        grpcService.createOrder({
+          ...DatabaseTestData.generateSingleOrder(userResponse.user.id),
+          status: OrderStatus.ORDER_STATUS_DELIVERED,
+        })
+      ).rejects.toMatchObject({ code: grpc.status.FAILED_PRECONDITION });
+
+      const response = await grpcService.getOrdersByUserId(userResponse.user.id);
+      expect(response.orders).toHaveLength(0);
+    });
+
+    test("should reject an unspecified status with INVALID_ARGUMENT", async () => {
+      const userResponse = await grpcService.createUser(
+        DatabaseTestData.generateSingleUser()
+      );
+      createdUserIds.push(userResponse.user.id);
+      const orderResponse = await grpcService.createOrder({
+        ...DatabaseTestData.generateSingleOrder(userResponse.user.id),
+        status: OrderStatus.ORDER_STATUS_PENDING,
+      });
+      createdOrderIds.push(orderResponse.order.id);
+
+      await expect(
+        grpcService.updateOrderStatus(
+          orderResponse.order.id,
+          OrderStatus.ORDER_STATUS_UNSPECIFIED
+        )
+      ).rejects.toMatchObject({ code: grpc.status.INVALID_ARGUMENT });
+    });
+  });
+
+  test.describe("Inventory Reservation", () => {
+    const createOrderWithProduct = async (stockQuantity: number) => {
+      const userResponse = await grpcService.createUser(
+        DatabaseTestData.generateSingleUser()
+      );
+      createdUserIds.push(userResponse.user.id);
+      const productResponse = await grpcService.createProduct({
+        ...DatabaseTestData.generateSingleProduct(),
+        stock_quantity: stockQuantity,
+      });
+      createdProductIds.push(productResponse.product.id);
+      const orderResponse = await grpcService.createOrder({
+        ...DatabaseTestData.generateSingleOrder(userResponse.user.id),
+        status: OrderStatus.ORDER_STATUS_PENDING,
+      });
+      createdOrderIds.push(orderResponse.order.id);
+
+      return { orderId: orderResponse.order.id, productId: productResponse.product.id };
+    };
+
+    test("should reserve stock when an item is added and release it when removed", async () => {
+      const { orderId, productId } = await createOrderWithProduct(5);
+
+      const addResponse = await grpcService.addOrderItem({
+        order_id: orderId, product_id: productId, quantity: 3, unit_price: 10, total_price: 30,
+      });
+      expect((await grpcService.getProductById(productId)).product.stock_quantity).toBe(2);
+
+      await grpcService.removeOrderItem(addResponse.order_item.id);
+      expect((await grpcService.getProductById(productId)).product.stock_quantity).toBe(5);
+    });
+
+    test("should reject an item exceeding the stock with FAILED_PRECONDITION", async () => {
+      const { orderId, productId } = await createOrderWithProduct(2);
+
+      await expect(
+        grpcService.addOrderItem({
+          order_id: orderId, product_id: productId, quantity: 3, unit_price: 10, total_price: 30,
+        })
+      ).rejects.toMatchObject({ code: grpc.status.FAILED_PRECONDITION });
+
+      expect((await grpcService.getProductById(productId)).product.stock_quantity).toBe(2);
+      expect((await grpcService.getOrderItems(orderId)).order_items).toHaveLength(0);
+    });
+
+    test("should reject an item added to a cancelled order with FAILED_PRECONDITION", async () => {
+      const { orderId, productId } = await createOrderWithProduct(5);
+      await grpcService.updateOrderStatus(orderId, OrderStatus.ORDER_STATUS_CANCELLED);
+
+      const error = await grpcService
+        .addOrderItem({ order_id: orderId, product_id: productId, quantity: 3, unit_price: 10, total_price: 30 })
+        .catch((error) => error);
+
+      expect(error.code).toBe(grpc.status.FAILED_PRECONDITION);
+      expect(error.violations).toEqual([
+        expect.objectContaining({ type: "ORDER_STATUS", subject: `order/${orderId}` }),
+      ]);
+      expect((await grpcService.getProductById(productId)).product.stock_quantity).toBe(5);
+    });
+
+    test("should reject removing an item from a shipped order with FAILED_PRECONDITION", async () => {
+      const { orderId, productId } = await createOrderWithProduct(5);
+      const { order_item } = await grpcService.addOrderItem({
+        order_id: orderId, product_id: productId, quantity: 3, unit_price: 10, total_price: 30,
+      });
+      await grpcService.updateOrderStatus(orderId, OrderStatus.ORDER_STATUS_CONFIRMED);
+      await grpcService.updateOrderStatus(orderId, OrderStatus.ORDER_STATUS_SHIPPED);
+
+      const error = await grpcService.removeOrderItem(order_item.id).catch((error) => error);
+
+      expect(error.code).toBe(grpc.status.FAILED_PRECONDITION);
+      expect(error.violations).toEqual([
+        expect.objectContaining({ type: "ORDER_STATUS", subject: `order/${orderId}` }),
+      ]);
+      expect((await grpcService.getProductById(productId)).product.stock_quantity).toBe(2);
+      expect((await grpcService.getOrderById(orderId)).order.total_amount).toBe(30);
+    });
+
+    test("should release the reserved stock when the order is cancelled", async () => {
+      const { orderId, productId } = await createOrderWithProduct(5);
+      await grpcService.addOrderItem({
+        order_id: orderId, product_id: productId, quantity: 4, unit_price: 10, total_price: 40,
+      });
+
+      await grpcService.updateOrderStatus(orderId, OrderStatus.ORDER_STATUS_CANCELLED);
+
+      expect((await grpcService.getProductById(productId)).product.stock_quantity).toBe(5);
+    });
+  });
+
+  test.describe("Order Streaming", () => {
+    test("should stream the orders of a user", async () => {
+      const userResponse = await grpcService.createUser(
+        DatabaseTestData.generateSingleUser()
+      );
+      createdUserIds.push(userResponse.user.id);
+      for (let i = 0; i < 3; i++) {
+        const response = await grpcService.createOrder({
+          ...DatabaseTestData.generateSingleOrder(userResponse.user.id),
+          status: OrderStatus.ORDER_STATUS_PENDING,
+        });
+        createdOrderIds.push(response.order.id);
+      }
+
+      const streamed = [];
+      for await (const order of grpcService.streamOrders({
+        user_id: userResponse.user.id,
+        batch_size: 2,
+      })) {
+        streamed.push(order);
+      }
+
+      expect(streamed).toHaveLength(3);
+      expect(streamed.every((order) => order.user_id === userResponse.user.id)).toBe(true);
+    });
+
+    test("should push status changes to subscribers and reject illegal updates", async () => {
+      const userResponse = await grpcService.createUser(
+        DatabaseTestData.generateSingleUser()
+      );
+      createdUserIds.push(userResponse.user.id);
+      const orderResponse = await grpcService.createOrder({
+        ...DatabaseTestData.generateSingleOrder(userResponse.user.id),
+        status: OrderStatus.ORDER_STATUS_PENDING,
+      });
+      const orderId = orderResponse.order.id;
+      createdOrderIds.push(orderId);
+
+      const events = grpcService.openOrderEvents({ timeout: 10000 });
+      await events.send({ subscribe: { order_ids: [orderId] } });
+      await events.send({
+        update_status: { id: orderId, status: OrderStatus.ORDER_STATUS_CONFIRMED },
+      });
+      await events.send({
+        update_status: { id: orderId, status: OrderStatus.ORDER_STATUS_PENDING },
+      });
+      events.end();
+
+      const received = [];
+      for await (const event of events) {
+        received.push(event);
+      }
+
+      expect(received.map((event) => event.type)).toEqual([
+        OrderEventType.ORDER_EVENT_TYPE_STATUS_CHANGED,
+        OrderEventType.ORDER_EVENT_TYPE_REJECTED,
+      ]);
+      expect(received[0].order?.status).toBe(OrderStatus.ORDER_STATUS_CONFIRMED);
+      expect(received[1].error).not.toBe("");
+    });
+  });
+
   test.describe("Order Deletion", () => {
     test("should delete order successfully", async () => {
       // Create a user and order to delete
@@ -469,7 +750,7 @@ test.describe("gRPC Order CRUD Operations", () => {
           user_id: userId,
           order_number: `DELETE-ORD-${Date.now()}`,
           total_amount: 99.99,
-          status: STATUS.PENDING,
+          status: OrderStatus.ORDER_STATUS_PENDING,
           shipping_address: ADDRESS,
           billing_address: ADDRESS,
           payment_method: PAYMENT_METHOD,
@@ -506,6 +787,177 @@ test.describe("gRPC Order CRUD Operations", () => {
     });
   });
 
+  test.describe("Order Versions", () => {
+    test("should apply a status change only to the version it was based on", async () => {
+      const userResponse = await grpcService.createUser(DatabaseTestData.generateSingleUser());
+      createdUserIds.push(userResponse.user.id);
+      const { order } = await grpcService.createOrder({
+        ...DatabaseTestData.generateSingleOrder(userResponse.user.id),
+        status: OrderStatus.ORDER_STATUS_PENDING,
+      });
+      createdOrderIds.push(order.id);
+
+      const confirmed = await grpcService.updateOrderStatus(
+        order.id,
+        OrderStatus.ORDER_STATUS_CONFIRMED,
+        order.version
+      );
+
+      await expect(
+        grpcService.updateOrderStatus(order.id, OrderStatus.ORDER_STATUS_CANCELLED, order.version)
+      ).rejects.toMatchObject({ code: grpc.status.ABORTED });
+      expect(confirmed.order.version).toBe(order.version + 1);
+      expect((await grpcService.getOrderById(order.id)).order.status).toBe(OrderStatus.ORDER_STATUS_CONFIRMED);
+    });
+  });
+
+  test.describe("Idempotency Keys", () => {
+    test("should create an order once for calls repeated with the same idempotency key", async () => {
+      const userResponse = await grpcService.createUser(DatabaseTestData.generateSingleUser());
+      createdUserIds.push(userResponse.user.id);
+      const orderData = {
+        ...DatabaseTestData.generateSingleOrder(userResponse.user.id),
+        status: OrderStatus.ORDER_STATUS_PENDING,
+      };
+      const idempotencyKey = `create-order-${randomUUID()}`;
+
+      const first = await grpcService.createOrder(orderData, idempotencyKey);
+      createdOrderIds.push(first.order.id);
+      const repeated = await grpcService.createOrder(orderData, idempotencyKey);
+
+      expect(repeated.order).toEqual(first.order);
+      expect((await grpcService.getOrdersByUserId(userResponse.user.id)).orders).toHaveLength(1);
+    });
+
+    test("should reject an idempotency key repeated with a different order", async () => {
+      const userResponse = await grpcService.createUser(DatabaseTestData.generateSingleUser());
+      createdUserIds.push(userResponse.user.id);
+      const idempotencyKey = `create-order-${randomUUID()}`;
+      const { order } = await grpcService.createOrder(
+        { ...DatabaseTestData.generateSingleOrder(userResponse.user.id), status: OrderStatus.ORDER_STATUS_PENDING },
+        idempotencyKey
+      );
+      createdOrderIds.push(order.id);
+
+      const error = await grpcService
+        .createOrder(
+          { ...DatabaseTestData.generateSingleOrder(userResponse.user.id), status: OrderStatus.ORDER_STATUS_PENDING },
+          idempotencyKey
+        )
+        .catch((error) => error);
+
+      expect(error.code).toBe(grpc.status.FAILED_PRECONDITION);
+      expect(error.violations).toEqual([
+        expect.objectContaining({ type: "IDEMPOTENCY_KEY", subject: `idempotency-key/${idempotencyKey}` }),
+      ]);
+    });
+
+    test("should send a new idempotency key with every order created without one", async () => {
+      const userResponse = await grpcService.createUser(DatabaseTestData.generateSingleUser());
+      createdUserIds.push(userResponse.user.id);
+      const sent: grpc.Metadata[] = [];
+      const removeRecorder = GrpcClient.getInstance().use((options, nextCall) =>
+        new grpc.InterceptingCall(nextCall(options), {
+          start(metadata, listener, next) {
+            sent.push(metadata.clone());
+            next(metadata, listener);
+          },
+        })
+      );
+
+      try {
+        for (let index = 0; index < 2; index++) {
+          const { order } = await grpcService.createOrder({
+            ...DatabaseTestData.generateSingleOrder(userResponse.user.id),
+            status: OrderStatus.ORDER_STATUS_PENDING,
+          });
+          createdOrderIds.push(order.id);
+        }
+      } finally {
+        removeRecorder();
+      }
+
+      const keys = sent.map((metadata) => metadata.get(IDEMPOTENCY_KEY_HEADER)[0]);
+      expect(keys).toHaveLength(2);
+      expect(keys.every((key) => typeof key === "string" && key.length > 0)).toBe(true);
+      expect(new Set(keys).size).toBe(2);
+    });
+
+    test("should reserve stock once for an item added again with the same idempotency key", async () => {
+      const userResponse = await grpcService.createUser(DatabaseTestData.generateSingleUser());
+      createdUserIds.push(userResponse.user.id);
+      const productResponse = await grpcService.createProduct({
+        ...DatabaseTestData.generateSingleProduct(),
+        stock_quantity: 5,
+      });
+      const productId = productResponse.product.id;
+      createdProductIds.push(productId);
+      const { order } = await grpcService.createOrder({
+        ...DatabaseTestData.generateSingleOrder(userResponse.user.id),
+        status: OrderStatus.ORDER_STATUS_PENDING,
+      });
+      createdOrderIds.push(order.id);
+      const item = { order_id: order.id, product_id: productId, quantity: 2, unit_price: 10, total_price: 20 };
+      const idempotencyKey = `add-item-${randomUUID()}`;
+
+      const first = await grpcService.addOrderItem(item, idempotencyKey);
+      const repeated = await grpcService.addOrderItem(item, idempotencyKey);
+
+      expect(repeated.order_item.id).toBe(first.order_item.id);
+      expect((await grpcService.getOrderItems(order.id)).order_items).toHaveLength(1);
+      expect((await grpcService.getProductById(productId)).product.stock_quantity).toBe(3);
+      expect((await grpcService.getOrderById(order.id)).order.total_amount).toBe(20);
+    });
+  });
+
+  test.describe("Order Restore and Audit Log", () => {
+    test("should release the stock of a deleted order and reserve it again on restore", async () => {
+      const userResponse = await grpcService.createUser(DatabaseTestData.generateSingleUser());
+      createdUserIds.push(userResponse.user.id);
+      const productResponse = await grpcService.createProduct({
+        ...DatabaseTestData.generateSingleProduct(),
+        stock_quantity: 5,
+      });
+      const productId = productResponse.product.id;
+      createdProductIds.push(productId);
+      const { order } = await grpcService.createOrder({
+        ...DatabaseTestData.generateSingleOrder(userResponse.user.id),
+        status: OrderStatus.ORDER_STATUS_PENDING,
+      });
+      createdOrderIds.push(order.id);
+      await grpcService.addOrderItem({
+        order_id: order.id, product_id: productId, quantity: 3, unit_price: 10, total_price: 30,
+      });
+
+      await grpcService.deleteOrder(order.id);
+      expect((await grpcService.getProductById(productId)).product.stock_quantity).toBe(5);
+
+      const response = await grpcService.restoreOrder(order.id);
+
+      expect(response.order.id).toBe(order.id);
+      expect((await grpcService.getOrderItems(order.id)).order_items).toHaveLength(1);
+      expect((await grpcService.getProductById(productId)).product.stock_quantity).toBe(2);
+    });
+
+    test("should record status changes in the audit log of an order", async () => {
+      const userResponse = await grpcService.createUser(DatabaseTestData.generateSingleUser());
+      createdUserIds.push(userResponse.user.id);
+      const { order } = await grpcService.createOrder({
+        ...DatabaseTestData.generateSingleOrder(userResponse.user.id),
+        status: OrderStatus.ORDER_STATUS_PENDING,
+      });
+      createdOrderIds.push(order.id);
+      await grpcService.updateOrderStatus(order.id, OrderStatus.ORDER_STATUS_CONFIRMED);
+
+      const { entries } = await grpcService.getOrderAuditLog(order.id);
+
+      expect(entries).toHaveLength(2);
+      expect(entries[1]).toMatchObject({ entity_type: "Order", entity_id: order.id, actor: "service" });
+      expect(JSON.parse(entries[1].before).status).toBe("pending");
+      expect(JSON.parse(entries[1].after).status).toBe("confirmed");
+    });
+  });
+
   test.describe("Order Items", () => {
     let testOrderId: number;
     let testProductId: number;
@@ -530,7 +982,7 @@ test.describe("gRPC Order CRUD Operations", () => {
           user_id: userId,
           order_number: `ITEM-ORD-${Date.now()}`,
           total_amount: 0, // Will be calculated from items
-          status: STATUS.PENDING,
+          status: OrderStatus.ORDER_STATUS_PENDING,
           shipping_address: ADDRESS,
           billing_address: ADDRESS,
           payment_method: PAYMENT_METHOD,
@@ -705,7 +1157,7 @@ test.describe("gRPC Order CRUD Operations", () => {
           user_id: userId,
           order_number: "UNIQUE-ORDER-001",
           total_amount: 99.99,
-          status: STATUS.PENDING,
+          status: OrderStatus.ORDER_STATUS_PENDING,
           shipping_address: ADDRESS,
           billing_address: ADDRESS,
           payment_method: PAYMENT_METHOD,
@@ -741,7 +1193,7 @@ test.describe("gRPC Order CRUD Operations", () => {
           user_id: userId,
           order_number: `STATUS-ORD-${Date.now()}`,
           total_amount: 99.99,
-          status: STATUS.PENDING,
+          status: OrderStatus.ORDER_STATUS_PENDING,
           shipping_address: ADDRESS,
           billing_address: ADDRESS,
           payment_method: PAYMENT_METHOD,
@@ -754,17 +1206,19 @@ test.describe("gRPC Order CRUD Operations", () => {
         createdOrderIds.push(orderId);
 
         // Test valid status transitions
-        const validStatuses = [STATUS.PROCESSING, STATUS.SHIPPED, STATUS.DELIVERED];
-        await Promise.all(
-          validStatuses.map(async (status) => {
-            const updateResponse = await grpcService.updateOrderStatus(
-              orderId,
-              status
-            );
-            expect(updateResponse.success).toBe(true);
-            expect(updateResponse.order.status).toBe(status);
-          })
-        );
+        const validStatuses = [
+          OrderStatus.ORDER_STATUS_CONFIRMED,
+          OrderStatus.ORDER_STATUS_SHIPPED,
+          OrderStatus.ORDER_STATUS_DELIVERED,
+        ];
+        for (const status of validStatuses) {
+          const updateResponse = await grpcService.updateOrderStatus(
+            orderId,
+            status
+          );
+          expect(updateResponse.success).toBe(true);
+          expect(updateResponse.order.status).toBe(status);
+        }
       } catch (error) {
         // Expected if gRPC server is not running
         expect(error).toBeDefined();
@@ -792,7 +1246,10 @@ test.describe("gRPC Order CRUD Operations", () => {
         const startTime = Date.now();
 
         const promises = ordersData.map((orderData) =>
-          grpcService.createOrder(orderData)
+          grpcService.createOrder({
+            ...orderData,
+            status: toOrderStatusMessage(orderData.status),
+          })
         );
         const results = await Promise.allSettled(promises);
 
@@ -831,7 +1288,7 @@ test.describe("gRPC Order CRUD Operations", () => {
           user_id: userId,
           order_number: `CONCURRENT-ORD-${Date.now()}`,
           total_amount: 99.99,
-          status: STATUS.PENDING,
+          status: OrderStatus.ORDER_STATUS_PENDING,
           shipping_address: ADDRESS,
           billing_address: ADDRESS,
           payment_method: PAYMENT_METHOD,
@@ -848,7 +1305,7 @@ test.describe("gRPC Order CRUD Operations", () => {
         const operations = [
           grpcService.getOrderById(orderId),
           grpcService.getOrderByNumber(orderData.order_number),
-          grpcService.updateOrderStatus(orderId, STATUS.PROCESSING),
+          grpcService.updateOrderStatus(orderId, OrderStatus.ORDER_STATUS_CONFIRMED),
           grpcService.getAllOrders(1, 1),
         ];
 
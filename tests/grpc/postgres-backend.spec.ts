@@ -0,0 +1,89 @@
+import { test, expect } from "@playwright/test";
+import { GrpcService } from "../../utils/GrpcService";
+import { DatabaseService } from "../../utils/DatabaseService";
+import { DatabaseConnection } from "../../utils/DatabaseConnection";
+import { DatabaseTestData } from "../../utils/DatabaseTestData";
+import { toOrderStatusMessage } from "../../utils/OrderStatusMapping";
+
+/**
+ * gRPC PostgreSQL Backend Test Suite
+ * Writes through the gRPC API and reads back through DatabaseService.
+ * Requires the gRPC server to run with GRPC_STORE=postgres against the same database.
+ */
+test.describe("gRPC PostgreSQL Backend", () => {
+  test.skip(
+    process.env.GRPC_STORE !== "postgres",
+    "gRPC server is not running with GRPC_STORE=postgres"
+  );
+
+  let grpcService: GrpcService;
+  let dbService: DatabaseService;
+
+  test.beforeAll(async () => {
+    grpcService = new GrpcService();
+    dbService = new DatabaseService();
+    await dbService.initializeDatabase();
+  });
+
+  test.afterAll(async () => {
+    grpcService.close();
+    await DatabaseConnection.getInstance().close();
+  });
+
+  test("should persist users created via gRPC", async () => {
+    const userData = DatabaseTestData.generateSingleUser();
+
+    const response = await grpcService.createUser(userData);
+    const storedUser = await dbService.getUserById(response.user.id);
+
+    expect(storedUser).not.toBeNull();
+    expect(storedUser!.username).toBe(userData.username);
+    expect(storedUser!.email).toBe(userData.email);
+
+    await dbService.deleteUser(response.user.id);
+  });
+
+  test("should expose rows created via DatabaseService over gRPC", async () => {
+    const createdProduct = await dbService.createProduct(
+      DatabaseTestData.generateSingleProduct()
+    );
+
+    const response = await grpcService.getProductBySku(createdProduct.sku);
+
+    expect(response.product.id).toBe(createdProduct.id);
+    expect(response.product.price).toBe(Number(createdProduct.price));
+
+    await dbService.deleteProduct(createdProduct.id!);
+  });
+
+  test("should round trip an order with items", async () => {
+    const userResponse = await grpcService.createUser(
+      DatabaseTestData.generateSingleUser()
+    );
+    const productResponse = await grpcService.createProduct(
+      DatabaseTestData.generateSingleProduct()
+    );
+    const orderData = DatabaseTestData.generateSingleOrder(userResponse.user.id);
+    const orderResponse = await grpcService.createOrder({
+      ...orderData,
+      status: toOrderStatusMessage(orderData.status),
+    });
+    await grpcService.addOrderItem(
+      DatabaseTestData.generateSingleOrderItem(
+        orderResponse.order.id,
+        productResponse.product.id
+      )
+    );
+
+    const storedOrder = await dbService.getOrderById(orderResponse.order.id);
+    const storedItems = await dbService.getOrderItems(orderResponse.order.id);
+
+    expect(storedOrder!.order_number).toBe(orderResponse.order.order_number);
+    expect(storedOrder!.status).toBe(orderData.status);
+    expect(storedItems).toHaveLength(1);
+    expect(storedItems[0].product_id).toBe(productResponse.product.id);
+
+    await dbService.deleteUser(userResponse.user.id);
+    await dbService.deleteProduct(productResponse.product.id);
+  });
+});
@@ -1,6 +1,9 @@
 import { test, expect } from '@playwright/test';
+import * as grpc from '@grpc/grpc-js';
 import { GrpcService } from '../../utils/GrpcService';
 import { DatabaseTestData } from '../../utils/DatabaseTestData';
+import { ProductSortOrder } from '../../proto/generated/product';
+import { AuditAction } from '../../proto/generated/audit';
 
 /**
  * gRPC Product CRUD Test Suite
@@ -239,6 +242,25 @@ test.describe('gRPC Product CRUD Operations', () => {
       }
     });
 
+    test('should count all products of a category across pages', async () => {
+      const category = `Paged-${Date.now()}`;
+      const productsData = DatabaseTestData.generateProducts(3).map((productData, index) => ({
+        ...productData,
+        name: `Paged Product ${index + 1}`,
+        sku: `${category}-${index + 1}`,
+        category
+      }));
+      for (const productData of productsData) {
+        const response = await grpcService.createProduct(productData);
+        createdProductIds.push(response.product.id);
+      }
+
+      const secondPage = await grpcService.getProductsByCategory(category, 2, 2);
+
+      expect(secondPage.total).toBe(3);
+      expect(secondPage.products.map(product => product.name)).toEqual(['Paged Product 3']);
+    });
+
     test('should handle non-existent product ID', async () => {
       try {
         const response = await grpcService.getProductById(99999);
@@ -260,6 +282,82 @@ test.describe('gRPC Product CRUD Operations', () => {
     });
   });
 
+  test.describe('Product Search', () => {
+    test('should search products by text, filters and sort order', async () => {
+      const token = `zq${Date.now()}`;
+      const base = DatabaseTestData.generateSingleProduct();
+      const productsData = [
+        { ...base, sku: `${token}-1`, name: `${token} Dress`, price: 60, brand: 'Acme', stock_quantity: 5 },
+        { ...base, sku: `${token}-2`, name: `${token} Gown`, price: 150, brand: 'Acme', stock_quantity: 0 },
+        { ...base, sku: `${token}-3`, name: 'Plain Shirt', description: `Goes with the ${token} line`, price: 30, brand: 'Other' }
+      ];
+      for (const productData of productsData) {
+        const response = await grpcService.createProduct(productData);
+        createdProductIds.push(response.product.id);
+      }
+
+      const all = await grpcService.searchProducts({ query: token });
+      const filtered = await grpcService.searchProducts({
+        query: token, brand: 'Acme', in_stock_only: true, min_price: 50
+      });
+      const byPrice = await grpcService.searchProducts({
+        query: token, sort: ProductSortOrder.PRODUCT_SORT_ORDER_PRICE_ASC
+      });
+
+      expect(all.total).toBe(3);
+      expect(all.products[all.products.length - 1].name).toBe('Plain Shirt');
+      expect(filtered.products.map(product => product.sku)).toEqual([`${token}-1`]);
+      expect(byPrice.products.map(product => product.price)).toEqual([30, 60, 150]);
+    });
+  });
+
+  test.describe('Product Streaming', () => {
+    test('should bulk create products and stream them back in batches', async () => {
+      const category = `stream-${Date.now()}`;
+      const productsData = Array.from({ length: 5 }, () => ({ ...DatabaseTestData.generateSingleProduct(), category }));
+
+      const created = await grpcService.bulkCreateProducts(productsData);
+      createdProductIds.push(...created.products.map(product => product.id));
+
+      const streamed = [];
+      for await (const product of grpcService.streamProducts({ category, batch_size: 2 })) {
+        streamed.push(product);
+      }
+
+      expect(created.created).toBe(5);
+      expect(streamed.map(product => product.id)).toEqual(created.products.map(product => product.id));
+    });
+
+    test('should stop streaming when the consumer leaves the loop', async () => {
+      const category = `stream-${Date.now()}`;
+      const created = await grpcService.bulkCreateProducts(
+        Array.from({ length: 3 }, () => ({ ...DatabaseTestData.generateSingleProduct(), category }))
+      );
+      createdProductIds.push(...created.products.map(product => product.id));
+
+      const streamed = [];
+      for await (const product of grpcService.streamProducts({ category, batch_size: 1 })) {
+        streamed.push(product);
+        break;
+      }
+
+      expect(streamed).toHaveLength(1);
+    });
+
+    test('should create none of the products when one SKU is a duplicate', async () => {
+      const first = DatabaseTestData.generateSingleProduct();
+      const second = DatabaseTestData.generateSingleProduct();
+
+      await expect(
+        grpcService.bulkCreateProducts([first, { ...second, sku: first.sku }])
+      ).rejects.toMatchObject({ code: grpc.status.ALREADY_EXISTS });
+
+      await expect(grpcService.getProductBySku(first.sku)).rejects.toMatchObject({
+        code: grpc.status.NOT_FOUND
+      });
+    });
+  });
+
   test.describe('Product Updates', () => {
     let testProductId: number;
 
@@ -378,6 +476,22 @@ test.describe('gRPC Product CRUD Operations', () => {
       }
     });
 
+    test('should set zero and false values and leave unset fields unchanged', async () => {
+      const productData = DatabaseTestData.generateSingleProduct();
+      const { product } = await grpcService.createProduct(productData);
+      createdProductIds.push(product.id);
+
+      const response = await grpcService.updateProduct(product.id, { stock_quantity: 0, is_active: false });
+
+      expect(response.product).toMatchObject({
+        stock_quantity: 0,
+        is_active: false,
+        name: productData.name,
+        price: productData.price,
+        sku: productData.sku
+      });
+    });
+
     test('should handle non-existent product update', async () => {
       const updates = {
         name: 'Updated Name'
@@ -436,6 +550,70 @@ test.describe('gRPC Product CRUD Operations', () => {
     });
   });
 
+  test.describe('Product Versions', () => {
+    test('should increment the version with every change', async () => {
+      const { product } = await grpcService.createProduct(DatabaseTestData.generateSingleProduct());
+      createdProductIds.push(product.id);
+
+      const response = await grpcService.updateProduct(product.id, { price: 12.5 });
+
+      expect(product.version).toBe(1);
+      expect(response.product.version).toBe(2);
+      expect(new Date(response.product.updated_at).getTime()).toBeGreaterThanOrEqual(
+        new Date(product.updated_at).getTime()
+      );
+    });
+
+    test('should reject an update based on a stale version with ABORTED instead of losing the other update', async () => {
+      const { product } = await grpcService.createProduct(DatabaseTestData.generateSingleProduct());
+      createdProductIds.push(product.id);
+      await grpcService.updateProduct(product.id, { price: 20, expected_version: product.version });
+
+      await expect(
+        grpcService.updateProduct(product.id, { stock_quantity: 0, expected_version: product.version })
+      ).rejects.toMatchObject({ code: grpc.status.ABORTED });
+
+      const { product: current } = await grpcService.getProductById(product.id);
+      expect(current).toMatchObject({ price: 20, stock_quantity: product.stock_quantity, version: 2 });
+    });
+  });
+
+  test.describe('Product Restore and Audit Log', () => {
+    test('should keep the SKU of a deleted product and restore it', async () => {
+      const productData = DatabaseTestData.generateSingleProduct();
+      const { product } = await grpcService.createProduct(productData);
+      createdProductIds.push(product.id);
+
+      await grpcService.deleteProduct(product.id);
+      await expect(grpcService.getProductBySku(product.sku)).rejects.toMatchObject({ code: grpc.status.NOT_FOUND });
+      await expect(grpcService.createProduct(productData)).rejects.toMatchObject({
+        code: grpc.status.ALREADY_EXISTS,
+      });
+
+      const response = await grpcService.restoreProduct(product.id);
+
+      expect(response.product).toMatchObject({ id: product.id, sku: product.sku });
+      expect((await grpcService.getProductBySku(product.sku)).product.id).toBe(product.id);
+    });
+
+    test('should record the changes of a product in its audit log', async () => {
+      const { product } = await grpcService.createProduct(DatabaseTestData.generateSingleProduct());
+      createdProductIds.push(product.id);
+      await grpcService.updateProduct(product.id, { stock_quantity: 0 });
+      await grpcService.deleteProduct(product.id);
+
+      const { entries } = await grpcService.getProductAuditLog(product.id);
+
+      expect(entries.map((entry) => entry.action)).toEqual([
+        AuditAction.AUDIT_ACTION_CREATE,
+        AuditAction.AUDIT_ACTION_UPDATE,
+        AuditAction.AUDIT_ACTION_DELETE,
+      ]);
+      expect(JSON.parse(entries[1].after).stock_quantity).toBe(0);
+      expect(JSON.parse(entries[2].after).deleted_at).toBeTruthy();
+    });
+  });
+
   test.describe('Product Business Logic', () => {
     test('should enforce unique SKUs', async () => {
       const productData = DatabaseTestData.generateProducts(1)[0];
@@ -469,13 +647,10 @@ test.describe('gRPC Product CRUD Operations', () => {
         sku: 'TEST-SKU-NEGATIVE'
       };
       
-      try {
-        const response = await grpcService.createProduct(invalidProductData);
-        expect(response.success).toBe(false);
-      } catch (error) {
-        // Expected if gRPC server is not running or validation fails
-        expect(error).toBeDefined();
-      }
+      await expect(grpcService.createProduct(invalidProductData)).rejects.toMatchObject({
+        code: grpc.status.INVALID_ARGUMENT,
+        details: expect.stringContaining('price must be greater than 0')
+      });
     });
 
     test('should validate stock quantity', async () => {
@@ -489,13 +664,10 @@ test.describe('gRPC Product CRUD Operations', () => {
         sku: 'TEST-SKU-STOCK'
       };
       
-      try {
-        const response = await grpcService.createProduct(invalidProductData);
-        expect(response.success).toBe(false);
-      } catch (error) {
-        // Expected if gRPC server is not running or validation fails
-        expect(error).toBeDefined();
-      }
+      await expect(grpcService.createProduct(invalidProductData)).rejects.toMatchObject({
+        code: grpc.status.INVALID_ARGUMENT,
+        details: expect.stringContaining('stock_quantity must be at least 0')
+      });
     });
 
     test('should handle product categories', async () => {
@@ -1,7 +1,9 @@
 import { test, expect } from "@playwright/test";
+import * as grpc from "@grpc/grpc-js";
 import { GrpcService } from "../../utils/GrpcService";
 import { DatabaseTestData } from "../../utils/DatabaseTestData";
 import { INVALID_USER_DATA, WEAK_PASSWORD_USER } from "../../utils/constants";
+import { AuditAction } from "../../proto/generated/audit";
 
 /**
  * gRPC User CRUD Test Suite
@@ -101,13 +103,60 @@ test.describe("gRPC User CRUD Operations", () => {
         // Missing email, password, etc.
       };
 
-      try {
-        const response = await grpcService.createUser(invalidUserData);
-        expect(response.success).toBe(false);
-      } catch (error) {
-        // Expected if gRPC server is not running or validation fails
-        expect(error).toBeDefined();
-      }
+      await expect(grpcService.createUser(invalidUserData)).rejects.toMatchObject({
+        code: grpc.status.INVALID_ARGUMENT,
+        details: expect.stringContaining("email is required; password is required"),
+      });
+    });
+  });
+
+  test.describe("User Passwords", () => {
+    test("should never send the password back", async () => {
+      const userData = DatabaseTestData.generateSingleUser();
+      const created = await grpcService.createUser(userData);
+      createdUserIds.push(created.user.id);
+
+      const responses = [
+        created,
+        await grpcService.getUserById(created.user.id),
+        await grpcService.updateUser(created.user.id, { password: "changed-password-789" }),
+        await grpcService.login(userData.email, "changed-password-789"),
+      ];
+
+      responses.forEach((response) => expect(response.user).not.toHaveProperty("password"));
+      await expect(grpcService.login(userData.email, userData.password)).rejects.toMatchObject({
+        code: grpc.status.UNAUTHENTICATED,
+      });
+    });
+  });
+
+  test.describe("User Bulk Creation", () => {
+    test("should create all streamed users", async () => {
+      const usersData = Array.from({ length: 3 }, () =>
+        DatabaseTestData.generateSingleUser()
+      );
+
+      const response = await grpcService.bulkCreateUsers(usersData);
+      createdUserIds.push(...response.users.map((user) => user.id));
+
+      expect(response.success).toBe(true);
+      expect(response.created).toBe(3);
+      expect(response.users.map((user) => user.email)).toEqual(
+        usersData.map((user) => user.email)
+      );
+    });
+
+    test("should create none of the users when one is a duplicate", async () => {
+      const first = DatabaseTestData.generateSingleUser();
+      const second = DatabaseTestData.generateSingleUser();
+
+      await expect(
+        grpcService.bulkCreateUsers([first, { ...second, email: first.email }])
+      ).rejects.toMatchObject({ code: grpc.status.ALREADY_EXISTS });
+
+      await expect(grpcService.getUserByEmail(first.email)).rejects.toMatchObject({
+        code: grpc.status.NOT_FOUND,
+      });
     });
   });
 
@@ -198,6 +247,35 @@ test.describe("gRPC User CRUD Operations", () => {
       }
     });
 
+    test("should return NOT_FOUND status for non-existent user ID", async () => {
+      await expect(grpcService.getUserById(99999)).rejects.toMatchObject({
+        code: grpc.status.NOT_FOUND,
+      });
+    });
+
+    test("should paginate users with page and limit", async () => {
+      const usersData = DatabaseTestData.generateUsers(3).map((userData) => ({
+        ...userData,
+        username: `page_${Date.now()}_${userData.username}`,
+        email: `page_${Date.now()}_${userData.email}`,
+      }));
+      for (const userData of usersData) {
+        const response = await grpcService.createUser(userData);
+        createdUserIds.push(response.user.id);
+      }
+
+      const firstPage = await grpcService.getAllUsers(1, 2);
+      const secondPage = await grpcService.getAllUsers(2, 2);
+
+      expect(firstPage.users).toHaveLength(2);
+      expect(firstPage.total).toBeGreaterThanOrEqual(3);
+      expect(secondPage.page).toBe(2);
+      const firstPageIds = firstPage.users.map((user: any) => user.id);
+      secondPage.users.forEach((user: any) => {
+        expect(firstPageIds).not.toContain(user.id);
+      });
+    });
+
     test("should handle non-existent email", async () => {
       try {
         const response = await grpcService.getUserByEmail(
@@ -306,6 +384,21 @@ test.describe("gRPC User CRUD Operations", () => {
       }
     });
 
+    test("should clear a field set to empty and leave unset fields unchanged", async () => {
+      const userData = DatabaseTestData.generateSingleUser();
+      const { user } = await grpcService.createUser(userData);
+      createdUserIds.push(user.id);
+
+      const response = await grpcService.updateUser(user.id, { phone: "" });
+
+      expect(response.user).toMatchObject({
+        phone: "",
+        email: userData.email,
+        first_name: userData.first_name,
+        city: userData.city,
+      });
+    });
+
     test("should handle non-existent user update", async () => {
       const updates = {
         first_name: "Updated",
@@ -364,6 +457,44 @@ test.describe("gRPC User CRUD Operations", () => {
     });
   });
 
+  test.describe("User Restore and Audit Log", () => {
+    test("should hide a deleted user until it is restored", async () => {
+      const { user } = await grpcService.createUser(DatabaseTestData.generateSingleUser());
+      createdUserIds.push(user.id);
+
+      await grpcService.deleteUser(user.id);
+      await expect(grpcService.getUserById(user.id)).rejects.toMatchObject({ code: grpc.status.NOT_FOUND });
+
+      const response = await grpcService.restoreUser(user.id);
+
+      expect(response.user).toMatchObject({ id: user.id, email: user.email });
+      expect((await grpcService.getUserById(user.id)).user.id).toBe(user.id);
+      await expect(grpcService.restoreUser(user.id)).rejects.toMatchObject({ code: grpc.status.NOT_FOUND });
+    });
+
+    test("should record every change with its actor and the row before and after", async () => {
+      const { user } = await grpcService.createUser(DatabaseTestData.generateSingleUser());
+      createdUserIds.push(user.id);
+      await grpcService.updateUser(user.id, { first_name: "Audited" });
+      await grpcService.deleteUser(user.id);
+      await grpcService.restoreUser(user.id);
+
+      const { entries } = await grpcService.getUserAuditLog(user.id);
+
+      expect(entries.map((entry) => entry.action)).toEqual([
+        AuditAction.AUDIT_ACTION_CREATE,
+        AuditAction.AUDIT_ACTION_UPDATE,
+        AuditAction.AUDIT_ACTION_DELETE,
+        AuditAction.AUDIT_ACTION_RESTORE,
+      ]);
+      expect(entries.every((entry) => entry.actor === "service")).toBe(true);
+      expect(entries[0].before).toBe("");
+      expect(JSON.parse(entries[1].before).first_name).toBe(user.first_name);
+      expect(JSON.parse(entries[1].after).first_name).toBe("Audited");
+      expect(entries.some((entry) => entry.after.includes("password"))).toBe(false);
+    });
+  });
+
   test.describe("User Business Logic", () => {
     test("should enforce unique usernames", async () => {
       const userData = DatabaseTestData.generateUsers(1)[0];
@@ -386,24 +517,39 @@ test.describe("gRPC User CRUD Operations", () => {
       }
     });
 
+    test("should reject duplicate email with ALREADY_EXISTS status", async () => {
+      const userData = DatabaseTestData.generateSingleUser();
+      const response = await grpcService.createUser(userData);
+      createdUserIds.push(response.user.id);
+
+      await expect(
+        grpcService.createUser({ ...userData, username: `${userData.username}_2` })
+      ).rejects.toMatchObject({ code: grpc.status.ALREADY_EXISTS });
+    });
+
     test("should validate email format", async () => {
-      try {
-        const response = await grpcService.createUser(INVALID_USER_DATA);
-        expect(response.success).toBe(false);
-      } catch (error) {
-        // Expected if gRPC server is not running or validation fails
-        expect(error).toBeDefined();
-      }
+      await expect(grpcService.createUser(INVALID_USER_DATA)).rejects.toMatchObject({
+        code: grpc.status.INVALID_ARGUMENT,
+        details: "Invalid User: email must be a valid email address",
+      });
     });
 
     test("should enforce password requirements", async () => {
-      try {
-        const response = await grpcService.createUser(WEAK_PASSWORD_USER);
-        expect(response.success).toBe(false);
-      } catch (error) {
-        // Expected if gRPC server is not running or validation fails
-        expect(error).toBeDefined();
-      }
+      await expect(grpcService.createUser(WEAK_PASSWORD_USER)).rejects.toMatchObject({
+        code: grpc.status.INVALID_ARGUMENT,
+        details: expect.stringContaining("password must be 8 to 128 characters with a letter and a digit"),
+      });
+    });
+
+    test("should enforce the column length limits", async () => {
+      const userData = DatabaseTestData.generateSingleUser();
+
+      await expect(
+        grpcService.createUser({ ...userData, username: "u".repeat(51), zip_code: "1".repeat(21) })
+      ).rejects.toMatchObject({
+        code: grpc.status.INVALID_ARGUMENT,
+        details: "Invalid User: username must be at most 50 characters; zip_code must be at most 20 characters",
+      });
     });
   });
 
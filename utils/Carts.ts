@@ -0,0 +1,62 @@
+import { Cart, CartCheckout, CartItem, CartWithItems, Order, OrderItem, OrderStatus, Product } from './DatabaseModels';
+import { EmptyCartError } from './DatabaseErrors';
+import { computeOrderTotal, toCents } from './OrderTotals';
+
+/**
+ * Carts
+ * Cart pricing and checkout shared by DatabaseService and the gRPC server stores. A cart holds only
+ * products and quantities and is priced at the products' current prices whenever it is read;
+ * checkout turns it into a pending order with one item per cart item at those prices.
+ */
+
+/**
+ * The cart with its items priced by their products, in the given order, and its totals
+ */
+export function priceCart(
+  cart: Cart,
+  lines: { item: CartItem; product: Pick<Product, 'name' | 'price'> }[]
+): CartWithItems {
+  const items = lines.map(({ item, product }) => ({
+    ...item,
+    product_name: product.name,
+    unit_price: Number(product.price),
+    total_price: toCents(product.price) * item.quantity / 100
+  }));
+  return {
+    cart,
+    items,
+    item_count: items.length,
+    total_quantity: items.reduce((quantity, item) => quantity + item.quantity, 0),
+    total_amount: computeOrderTotal(items)
+  };
+}
+
+/**
+ * The order checking out the priced cart creates, with its items; EmptyCartError when it has none
+ */
+export function checkoutOrder(
+  priced: CartWithItems,
+  checkout: CartCheckout
+): { order: Order; items: Omit<OrderItem, 'order_id'>[] } {
+  if (priced.items.length === 0) {
+    throw new EmptyCartError(priced.cart.user_id);
+  }
+
+  return {
+    order: {
+      user_id: priced.cart.user_id,
+      order_number: checkout.order_number || `ORD-CART-${priced.cart.id}-${Date.now()}`,
+      total_amount: priced.total_amount,
+      status: OrderStatus.PENDING,
+      shipping_address: checkout.shipping_address,
+      billing_address: checkout.billing_address,
+      payment_method: checkout.payment_method
+    },
+    items: priced.items.map(item => ({
+      product_id: item.product_id,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      total_price: item.total_price
+    }))
+  };
+}
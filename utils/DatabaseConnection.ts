@@ -1,5 +1,6 @@
 import { Pool, PoolClient, QueryResult } from "pg";
 import dotenv from "dotenv";
+import { Queryable } from "./Repository";
 
 // Load environment variables
 dotenv.config();
@@ -66,7 +67,8 @@ export class DatabaseConnection {
   }
 
   /**
-   * Execute a transaction with multiple queries
+   * Execute a list of queries, in order, as one transaction on the shared client.
+   * Prefer withTransaction when a statement depends on the result of an earlier one.
    */
   public async transaction(
     queries: Array<{ text: string; params?: any[] }>
@@ -75,9 +77,9 @@ export class DatabaseConnection {
     try {
       await client.query("BEGIN");
 
-      await Promise.all(
-        queries.map((query) => client.query(query.text, query.params))
-      );
+      for (const query of queries) {
+        await client.query(query.text, query.params);
+      }
 
       await client.query("COMMIT");
     } catch (error) {
@@ -87,6 +89,52 @@ export class DatabaseConnection {
     }
   }
 
+  /**
+   * Run the callback inside a transaction on a dedicated pool client.
+   * Commits when the callback resolves and rolls back when it throws.
+   */
+  public async withTransaction<T>(
+    callback: (tx: TransactionClient) => Promise<T>
+  ): Promise<T> {
+    return await this.runTransaction(callback, "COMMIT");
+  }
+
+  /**
+   * Run the callback inside a transaction that is always rolled back,
+   * so nothing it writes is ever visible to other connections (test isolation)
+   */
+  public async withRollback<T>(
+    callback: (tx: TransactionClient) => Promise<T>
+  ): Promise<T> {
+    return await this.runTransaction(callback, "ROLLBACK");
+  }
+
+  private async runTransaction<T>(
+    callback: (tx: TransactionClient) => Promise<T>,
+    onSuccess: "COMMIT" | "ROLLBACK"
+  ): Promise<T> {
+    const client = await this.pool.connect();
+    const tx = new TransactionClient(client);
+    let releaseError: Error | undefined;
+
+    try {
+      await client.query("BEGIN");
+      const result = await callback(tx);
+      await client.query(onSuccess);
+      return result;
+    } catch (error) {
+      await client.query("ROLLBACK").catch((rollbackError) => {
+        // A client that cannot roll back must not go back to the pool
+        releaseError = rollbackError;
+      });
+      console.error("Transaction error:", error);
+      throw error;
+    } finally {
+      tx.finish();
+      client.release(releaseError);
+    }
+  }
+
   /**
    * Reset the client connection (useful for cleanup)
    */
@@ -122,3 +170,73 @@ export class DatabaseConnection {
     }
   }
 }
+
+/**
+ * Transaction Client
+ * Callback-scoped handle on the pool client of a withTransaction call
+ */
+export class TransactionClient implements Queryable {
+  private finished = false;
+  /** Tail of the savepoint blocks run through this handle, which run one at a time */
+  private savepoints: Promise<unknown> = Promise.resolve();
+  private readonly root: TransactionClient;
+  private readonly depth: number;
+
+  /**
+   * @param parent The handle whose savepoint block this handle runs in
+   */
+  constructor(private readonly client: PoolClient, parent?: TransactionClient) {
+    this.root = parent ? parent.root : this;
+    this.depth = parent ? parent.depth + 1 : 0;
+  }
+
+  /**
+   * Execute a query with parameters inside the transaction
+   */
+  public async query(text: string, params?: any[]): Promise<QueryResult> {
+    this.assertActive();
+    return await this.client.query(text, params);
+  }
+
+  /**
+   * Run the callback inside a savepoint of this transaction.
+   * Only the statements of the callback are rolled back when it throws.
+   * Concurrent calls wait for each other, since releasing a savepoint also releases the ones
+   * opened after it; the callback gets its own handle, so calls nested in it do not wait.
+   */
+  public async withTransaction<T>(
+    callback: (tx: TransactionClient) => Promise<T>
+  ): Promise<T> {
+    const run = this.savepoints.then(() => this.inSavepoint(callback));
+    this.savepoints = run.catch(() => undefined);
+    return await run;
+  }
+
+  /**
+   * Mark the transaction as ended; called by DatabaseConnection once it commits or rolls back
+   */
+  public finish(): void {
+    this.finished = true;
+  }
+
+  private async inSavepoint<T>(callback: (tx: TransactionClient) => Promise<T>): Promise<T> {
+    this.assertActive();
+    const savepoint = `sp_${this.depth + 1}`;
+    await this.client.query(`SAVEPOINT ${savepoint}`);
+
+    try {
+      const result = await callback(new TransactionClient(this.client, this));
+      await this.client.query(`RELEASE SAVEPOINT ${savepoint}`);
+      return result;
+    } catch (error) {
+      await this.client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+      throw error;
+    }
+  }
+
+  private assertActive(): void {
+    if (this.root.finished) {
+      throw new Error("Transaction has already ended");
+    }
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Database Errors
+ * Error types shared by DatabaseService and the gRPC server stores
+ */
+
+/**
+ * Raised when a requested (or referenced) entity does not exist
+ */
+export class EntityNotFoundError extends Error {
+  constructor(public readonly entity: string, public readonly field: string, public readonly value: unknown) {
+    super(`${entity} with ${field} ${value} not found`);
+    this.name = 'EntityNotFoundError';
+  }
+}
+
+/**
+ * Raised when a write would break a uniqueness constraint
+ */
+export class DuplicateEntityError extends Error {
+  constructor(public readonly entity: string, public readonly field: string, public readonly value: unknown) {
+    super(`${entity} with ${field} ${value} already exists`);
+    this.name = 'DuplicateEntityError';
+  }
+}
+
+/**
+ * Raised when an order status change is not allowed by the order state machine
+ */
+export class IllegalStatusTransitionError extends Error {
+  constructor(public readonly from: string, public readonly to: string) {
+    super(`Illegal order status transition from ${from} to ${to}`);
+    this.name = 'IllegalStatusTransitionError';
+  }
+}
+
+/**
+ * Raised when a value is not one of the canonical order statuses
+ */
+export class InvalidOrderStatusError extends Error {
+  constructor(public readonly value: unknown) {
+    super(`Invalid order status: ${value}`);
+    this.name = 'InvalidOrderStatusError';
+  }
+}
+
+/**
+ * Raised when an order item's total_price is not unit_price × quantity
+ */
+export class OrderItemTotalMismatchError extends Error {
+  constructor(unitPrice: number, quantity: number, totalPrice: number) {
+    super(`Order item total_price ${totalPrice} does not equal unit_price ${unitPrice} × quantity ${quantity}`);
+    this.name = 'OrderItemTotalMismatchError';
+  }
+}
+
+/**
+ * Raised when an order item asks for more units than the product has in stock
+ */
+export class OutOfStockError extends Error {
+  constructor(
+    public readonly productId: number,
+    public readonly requested: number,
+    public readonly available: number
+  ) {
+    super(`Product ${productId} is out of stock: requested ${requested}, available ${available}`);
+    this.name = 'OutOfStockError';
+  }
+}
+
+/**
+ * Raised when an item is added to or removed from an order that no longer holds a stock reservation
+ * (shipped, delivered or cancelled)
+ */
+export class ClosedOrderError extends Error {
+  constructor(public readonly orderId: number, public readonly status: string) {
+    super(`Order ${orderId} is ${status} and its items can no longer change`);
+    this.name = 'ClosedOrderError';
+  }
+}
+
+/**
+ * Raised when checking out a cart without items
+ */
+export class EmptyCartError extends Error {
+  constructor(public readonly userId: number) {
+    super(`Cart of user ${userId} is empty`);
+    this.name = 'EmptyCartError';
+  }
+}
+
+/**
+ * Raised when an update names a version of the row that another change has already replaced
+ */
+export class VersionConflictError extends Error {
+  constructor(
+    public readonly entity: string,
+    public readonly id: number,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number
+  ) {
+    super(`${entity} ${id} was changed concurrently: expected version ${expectedVersion}, found ${actualVersion}`);
+    this.name = 'VersionConflictError';
+  }
+}
+
+/**
+ * Raised when an idempotency key is repeated with a different payload than it was first used with
+ */
+export class IdempotencyConflictError extends Error {
+  constructor(public readonly operation: string, public readonly key: string) {
+    super(`Idempotency key ${key} was already used for a different ${operation} request`);
+    this.name = 'IdempotencyConflictError';
+  }
+}
+
+/**
+ * Raised when a list query cannot be evaluated, e.g. because of a malformed cursor
+ */
+export class InvalidListQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidListQueryError';
+  }
+}
+
+/**
+ * A field that failed its validation rule
+ */
+export interface FieldViolation {
+  field: string;
+  description: string;
+}
+
+/**
+ * Raised when an entity fails its validation schema; lists every violated field
+ */
+export class ValidationError extends Error {
+  constructor(public readonly entity: string, public readonly violations: FieldViolation[]) {
+    super(`Invalid ${entity}: ${violations.map(violation => `${violation.field} ${violation.description}`).join('; ')}`);
+    this.name = 'ValidationError';
+  }
+}
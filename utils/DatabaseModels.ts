@@ -7,7 +7,8 @@ export interface User {
   id?: number;
   username: string;
   email: string;
-  password: string;
+  /** Write-only: hashed before it is stored and never part of a user read back */
+  password?: string;
   first_name: string;
   last_name: string;
   phone?: string;
@@ -18,8 +19,17 @@ export interface User {
   country?: string;
   created_at?: Date;
   updated_at?: Date;
+  /** Incremented by every change of the user, see RowVersions.ts */
+  version?: number;
+  /** Set while the user is soft deleted */
+  deleted_at?: Date | null;
 }
 
+/**
+ * A user to create, which needs a password
+ */
+export type NewUser = User & { password: string };
+
 export interface Product {
   id?: number;
   name: string;
@@ -33,6 +43,10 @@ export interface Product {
   is_active: boolean;
   created_at?: Date;
   updated_at?: Date;
+  /** Incremented by every change of the product, see RowVersions.ts */
+  version?: number;
+  /** Set while the product is soft deleted */
+  deleted_at?: Date | null;
 }
 
 export interface Order {
@@ -46,6 +60,10 @@ export interface Order {
   payment_method: string;
   created_at?: Date;
   updated_at?: Date;
+  /** Incremented by every change of the order, see RowVersions.ts */
+  version?: number;
+  /** Set while the order is soft deleted */
+  deleted_at?: Date | null;
 }
 
 export interface OrderItem {
@@ -57,6 +75,126 @@ export interface OrderItem {
   total_price: number;
 }
 
+export interface OrderStatusChange {
+  id?: number;
+  order_id: number;
+  from_status: OrderStatus;
+  to_status: OrderStatus;
+  changed_at?: Date;
+}
+
+export enum AuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+  RESTORE = 'restore'
+}
+
+/**
+ * The entities whose changes are recorded in the audit log
+ */
+export type AuditedEntity = 'User' | 'Product' | 'Order';
+
+/**
+ * One change of an audited row: who made it, when, and the row before and after it
+ * (null before a create); user rows never include the password
+ */
+export interface AuditEntry {
+  id?: number;
+  entity_type: AuditedEntity;
+  entity_id: number;
+  action: AuditAction;
+  /** `user:<id>`, `service`, `anonymous` or `system` (see SYSTEM_ACTOR) */
+  actor: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changed_at?: Date;
+}
+
+/**
+ * The stored response of a call made with an idempotency key (see utils/Idempotency.ts)
+ */
+export interface IdempotencyRecord {
+  id?: number;
+  operation: string;
+  idempotency_key: string;
+  /** requestHash() of the payload the key was first used with */
+  request_hash: string;
+  response: Record<string, unknown>;
+  created_at?: Date;
+}
+
+/**
+ * Actor of the changes made without naming one, e.g. by tests and scripts using DatabaseService directly
+ */
+export const SYSTEM_ACTOR = 'system';
+
+/**
+ * An order whose stored total_amount differs from the sum of its item totals
+ */
+export interface OrderTotalMismatch {
+  order_id: number;
+  order_number: string;
+  stored_total: number;
+  computed_total: number;
+}
+
+export interface OrderWithItems {
+  order: Order;
+  items: OrderItem[];
+}
+
+/**
+ * A user's cart; each user has at most one
+ */
+export interface Cart {
+  id?: number;
+  user_id: number;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+/**
+ * A product in a cart; carts hold no prices, see PricedCartItem
+ */
+export interface CartItem {
+  id?: number;
+  cart_id: number;
+  product_id: number;
+  quantity: number;
+}
+
+/**
+ * A cart item at its product's current price
+ */
+export interface PricedCartItem extends CartItem {
+  product_name: string;
+  unit_price: number;
+  total_price: number;
+}
+
+/**
+ * A cart with its priced items and totals, as the cart page shows it
+ */
+export interface CartWithItems {
+  cart: Cart;
+  items: PricedCartItem[];
+  /** Number of distinct products */
+  item_count: number;
+  total_quantity: number;
+  total_amount: number;
+}
+
+/**
+ * What checkout needs besides the cart to create its order; the order number is generated when unset
+ */
+export interface CartCheckout {
+  shipping_address: string;
+  billing_address: string;
+  payment_method: string;
+  order_number?: string;
+}
+
 export enum OrderStatus {
   PENDING = 'pending',
   CONFIRMED = 'confirmed',
@@ -65,6 +203,32 @@ export enum OrderStatus {
   CANCELLED = 'cancelled'
 }
 
+export enum ProductSortOrder {
+  RELEVANCE = 'relevance',
+  PRICE_ASC = 'price_asc',
+  PRICE_DESC = 'price_desc',
+  NAME = 'name',
+  NEWEST = 'newest'
+}
+
+/**
+ * Product search criteria; unset fields do not filter
+ */
+export interface ProductSearch {
+  /** Free text matched against name and description */
+  query?: string;
+  brand?: string;
+  category?: string;
+  min_price?: number;
+  max_price?: number;
+  in_stock_only?: boolean;
+  is_active?: boolean;
+  /** Defaults to relevance with a query, newest first without */
+  sort?: ProductSortOrder;
+  page?: number;
+  limit?: number;
+}
+
 export interface TestData {
   users: User[];
   products: Product[];
@@ -73,78 +237,95 @@ export interface TestData {
 }
 
 /**
- * Database Schema Creation Queries
- */
-export const CREATE_TABLES_QUERIES = {
-  users: `
-    CREATE TABLE IF NOT EXISTS users (
-      id SERIAL PRIMARY KEY,
-      username VARCHAR(50) UNIQUE NOT NULL,
-      email VARCHAR(100) UNIQUE NOT NULL,
-      password VARCHAR(255) NOT NULL,
-      first_name VARCHAR(50) NOT NULL,
-      last_name VARCHAR(50) NOT NULL,
-      phone VARCHAR(20),
-      address TEXT,
-      city VARCHAR(50),
-      state VARCHAR(50),
-      zip_code VARCHAR(20),
-      country VARCHAR(50),
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    );
-  `,
-  
-  products: `
-    CREATE TABLE IF NOT EXISTS products (
-      id SERIAL PRIMARY KEY,
-      name VARCHAR(200) NOT NULL,
-      description TEXT,
-      price DECIMAL(10,2) NOT NULL,
-      category VARCHAR(100) NOT NULL,
-      brand VARCHAR(100) NOT NULL,
-      stock_quantity INTEGER NOT NULL DEFAULT 0,
-      sku VARCHAR(50) UNIQUE NOT NULL,
-      image_url TEXT,
-      is_active BOOLEAN DEFAULT true,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    );
-  `,
-  
-  orders: `
-    CREATE TABLE IF NOT EXISTS orders (
-      id SERIAL PRIMARY KEY,
-      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
-      order_number VARCHAR(50) UNIQUE NOT NULL,
-      total_amount DECIMAL(10,2) NOT NULL,
-      status VARCHAR(20) DEFAULT 'pending',
-      shipping_address TEXT NOT NULL,
-      billing_address TEXT NOT NULL,
-      payment_method VARCHAR(50) NOT NULL,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    );
-  `,
-  
-  order_items: `
-    CREATE TABLE IF NOT EXISTS order_items (
-      id SERIAL PRIMARY KEY,
-      order_id INTEGER REFERENCES orders(id) ON DELETE CASCADE,
-      product_id INTEGER REFERENCES products(id) ON DELETE CASCADE,
-      quantity INTEGER NOT NULL,
-      unit_price DECIMAL(10,2) NOT NULL,
-      total_price DECIMAL(10,2) NOT NULL
-    );
-  `
+ * Table metadata consumed by the generic Repository
+ */
+export interface TableMetadata<T> {
+  table: string;
+  /** Writable columns, in insert order (id and timestamps are managed by the database) */
+  columns: (keyof T & string)[];
+  /** Whether the table has created_at/updated_at columns */
+  timestamps: boolean;
+  /** Writable columns that are stripped from every row the Repository returns */
+  writeOnly?: (keyof T & string)[];
+  /** Whether deletes only set deleted_at, with reads skipping such rows unless asked to include them */
+  softDelete?: boolean;
+}
+
+export const USERS_TABLE: TableMetadata<User> = {
+  table: 'users',
+  columns: ['username', 'email', 'password', 'first_name', 'last_name', 'phone', 'address', 'city', 'state', 'zip_code', 'country'],
+  timestamps: true,
+  writeOnly: ['password'],
+  softDelete: true
+};
+
+export const PRODUCTS_TABLE: TableMetadata<Product> = {
+  table: 'products',
+  columns: ['name', 'description', 'price', 'category', 'brand', 'stock_quantity', 'sku', 'image_url', 'is_active'],
+  timestamps: true,
+  softDelete: true
+};
+
+export const ORDERS_TABLE: TableMetadata<Order> = {
+  table: 'orders',
+  columns: ['user_id', 'order_number', 'total_amount', 'status', 'shipping_address', 'billing_address', 'payment_method'],
+  timestamps: true,
+  softDelete: true
+};
+
+export const ORDER_ITEMS_TABLE: TableMetadata<OrderItem> = {
+  table: 'order_items',
+  columns: ['order_id', 'product_id', 'quantity', 'unit_price', 'total_price'],
+  timestamps: false
+};
+
+export const ORDER_STATUS_HISTORY_TABLE: TableMetadata<OrderStatusChange> = {
+  table: 'order_status_history',
+  columns: ['order_id', 'from_status', 'to_status'],
+  timestamps: false
 };
 
+export const AUDIT_LOG_TABLE: TableMetadata<AuditEntry> = {
+  table: 'audit_log',
+  columns: ['entity_type', 'entity_id', 'action', 'actor', 'before', 'after'],
+  timestamps: false
+};
+
+export const IDEMPOTENCY_KEYS_TABLE: TableMetadata<IdempotencyRecord> = {
+  table: 'idempotency_keys',
+  columns: ['operation', 'idempotency_key', 'request_hash', 'response'],
+  timestamps: false
+};
+
+/**
+ * A versioned schema change, applied by MigrationRunner in ascending version order
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  /** SQL applying the change */
+  up: string;
+  /** SQL reverting the change */
+  down: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  applied_at?: Date;
+}
+
 /**
  * Database Cleanup Queries
  */
 export const CLEANUP_QUERIES = {
+  cart_items: 'DELETE FROM cart_items;',
+  carts: 'DELETE FROM carts;',
   order_items: 'DELETE FROM order_items;',
   orders: 'DELETE FROM orders;',
   products: 'DELETE FROM products;',
-  users: 'DELETE FROM users;'
+  users: 'DELETE FROM users;',
+  audit_log: 'DELETE FROM audit_log;',
+  idempotency_keys: 'DELETE FROM idempotency_keys;'
 }; 
\ No newline at end of file
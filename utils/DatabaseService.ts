@@ -1,29 +1,85 @@
-import { DatabaseConnection } from './DatabaseConnection';
-import { User, Product, Order, OrderItem, OrderStatus, CREATE_TABLES_QUERIES, CLEANUP_QUERIES } from './DatabaseModels';
+import { DatabaseConnection, TransactionClient } from './DatabaseConnection';
+import {
+  User, NewUser, Product, ProductSearch, ProductSortOrder, Order, OrderItem, OrderWithItems, OrderTotalMismatch, OrderStatus, OrderStatusChange, CLEANUP_QUERIES,
+  AuditAction, AuditedEntity, AuditEntry, SYSTEM_ACTOR, IdempotencyRecord, Cart, CartCheckout, CartWithItems,
+  USERS_TABLE, PRODUCTS_TABLE, ORDERS_TABLE, ORDER_ITEMS_TABLE, ORDER_STATUS_HISTORY_TABLE, AUDIT_LOG_TABLE, IDEMPOTENCY_KEYS_TABLE
+} from './DatabaseModels';
+import { EntityNotFoundError, IdempotencyConflictError } from './DatabaseErrors';
+import { Repository } from './Repository';
+import { ListQuery, ListResult, NEWEST_FIRST, normalizePaging } from './ListQuery';
+import { PRODUCT_SEARCH_DOCUMENT, resolveSortOrder, searchTerms } from './ProductSearch';
+import { MigrationRunner } from './MigrationRunner';
+import { assertInitialStatus, assertTransition } from './OrderStateMachine';
+import { parseOrderStatus } from './OrderStatusMapping';
+import { assertItemTotal } from './OrderTotals';
+import { assertAcceptsItems, assertInStock, holdsStockReservation } from './Inventory';
+import { assertVersion } from './RowVersions';
+import {
+  IdempotentOperation, assertIdempotencyKey, fromStoredResponse, idempotencyKeyTtl, requestHash, toStoredResponse
+} from './Idempotency';
+import { hashPassword, verifyPassword } from './PasswordHashing';
+import { checkoutOrder, priceCart } from './Carts';
+import {
+  CART_CHECKOUT_SCHEMA, CART_ITEM_SCHEMA, ORDER_ITEM_SCHEMA, ORDER_SCHEMA, PRODUCT_SCHEMA, USER_SCHEMA, assertValid
+} from './Validation';
 
 /**
  * Database Service
- * Provides CRUD operations for all entities
+ * Provides CRUD operations for all entities.
+ * Users, products and orders are soft deleted and can be restored; every change to them is recorded
+ * in the audit log as made by the service's actor. Their updates take an optional expected version
+ * and fail with VersionConflictError when the row has moved on (see RowVersions.ts).
  */
 export class DatabaseService {
   private db: DatabaseConnection;
+  private executor: DatabaseConnection | TransactionClient;
+  private users: Repository<User>;
+  private products: Repository<Product>;
+  private orders: Repository<Order>;
+  private orderItems: Repository<OrderItem>;
+  private orderStatusHistory: Repository<OrderStatusChange>;
+  private auditLog: Repository<AuditEntry>;
+  private idempotencyKeys: Repository<IdempotencyRecord>;
 
-  constructor() {
+  /**
+   * @param transaction Runs the CRUD queries; pass a TransactionClient to bind the service to a transaction
+   * @param actor Who the changes made through the service are recorded as made by
+   */
+  constructor(private readonly transaction?: TransactionClient, private readonly actor: string = SYSTEM_ACTOR) {
     this.db = DatabaseConnection.getInstance();
+    this.executor = transaction || this.db;
+    this.users = new Repository(USERS_TABLE, this.executor);
+    this.products = new Repository(PRODUCTS_TABLE, this.executor);
+    this.orders = new Repository(ORDERS_TABLE, this.executor);
+    this.orderItems = new Repository(ORDER_ITEMS_TABLE, this.executor);
+    this.orderStatusHistory = new Repository(ORDER_STATUS_HISTORY_TABLE, this.executor);
+    this.auditLog = new Repository(AUDIT_LOG_TABLE, this.executor);
+    this.idempotencyKeys = new Repository(IDEMPOTENCY_KEYS_TABLE, this.executor);
+  }
+
+  /**
+   * Run the callback with a DatabaseService bound to a transaction.
+   * Nested calls on a transaction-bound service use a savepoint.
+   */
+  async withTransaction<T>(callback: (tx: DatabaseService) => Promise<T>): Promise<T> {
+    return await this.executor.withTransaction(tx => callback(new DatabaseService(tx, this.actor)));
   }
 
   /**
-   * Initialize database schema
+   * The same service (and transaction, if bound to one) recording its changes as made by the actor
+   */
+  actingAs(actor: string): DatabaseService {
+    return new DatabaseService(this.transaction, actor);
+  }
+
+  /**
+   * Initialize database schema by applying all pending migrations
    */
   async initializeDatabase(): Promise<void> {
     try {
       console.log('Initializing database schema...');
       
-      // Create tables in order (respecting foreign key constraints)
-      await this.db.query(CREATE_TABLES_QUERIES.users);
-      await this.db.query(CREATE_TABLES_QUERIES.products);
-      await this.db.query(CREATE_TABLES_QUERIES.orders);
-      await this.db.query(CREATE_TABLES_QUERIES.order_items);
+      await new MigrationRunner(this.db).migrate();
       
       console.log('Database schema initialized successfully');
     } catch (error) {
@@ -71,7 +127,7 @@ export class DatabaseService {
       console.log('Cleaning up test data...');
       
       // Use TRUNCATE with CASCADE to completely reset all tables and sequences
-      await this.db.query('TRUNCATE TABLE order_items, orders, products, users RESTART IDENTITY CASCADE;');
+      await this.db.query('TRUNCATE TABLE cart_items, carts, order_items, orders, products, users, audit_log, idempotency_keys RESTART IDENTITY CASCADE;');
       
       // Reset the client connection to ensure clean state
       await this.db.resetClient();
@@ -88,10 +144,14 @@ export class DatabaseService {
       // Try alternative cleanup approach with individual TRUNCATE statements
       try {
         console.log('Trying alternative cleanup approach...');
+        await this.db.query('TRUNCATE TABLE cart_items RESTART IDENTITY CASCADE;');
+        await this.db.query('TRUNCATE TABLE carts RESTART IDENTITY CASCADE;');
         await this.db.query('TRUNCATE TABLE order_items RESTART IDENTITY CASCADE;');
         await this.db.query('TRUNCATE TABLE orders RESTART IDENTITY CASCADE;');
         await this.db.query('TRUNCATE TABLE products RESTART IDENTITY CASCADE;');
         await this.db.query('TRUNCATE TABLE users RESTART IDENTITY CASCADE;');
+        await this.db.query('TRUNCATE TABLE audit_log RESTART IDENTITY;');
+        await this.db.query('TRUNCATE TABLE idempotency_keys RESTART IDENTITY;');
         await this.db.resetClient();
         
         const isClean = await this.verifyCleanup();
@@ -105,10 +165,14 @@ export class DatabaseService {
         // Last resort: try DELETE with CASCADE
         try {
           console.log('Trying DELETE cleanup as last resort...');
+          await this.db.query('DELETE FROM cart_items;');
+          await this.db.query('DELETE FROM carts;');
           await this.db.query('DELETE FROM order_items;');
           await this.db.query('DELETE FROM orders;');
           await this.db.query('DELETE FROM products;');
           await this.db.query('DELETE FROM users;');
+          await this.db.query('DELETE FROM audit_log;');
+          await this.db.query('DELETE FROM idempotency_keys;');
           await this.db.resetClient();
           
           const isClean = await this.verifyCleanup();
@@ -130,10 +194,10 @@ export class DatabaseService {
    */
   async debugDatabaseState(): Promise<void> {
     try {
-      const userCount = await this.db.query('SELECT COUNT(*) FROM users');
-      const productCount = await this.db.query('SELECT COUNT(*) FROM products');
-      const orderCount = await this.db.query('SELECT COUNT(*) FROM orders');
-      const orderItemCount = await this.db.query('SELECT COUNT(*) FROM order_items');
+      const userCount = await this.executor.query('SELECT COUNT(*) FROM users');
+      const productCount = await this.executor.query('SELECT COUNT(*) FROM products');
+      const orderCount = await this.executor.query('SELECT COUNT(*) FROM orders');
+      const orderItemCount = await this.executor.query('SELECT COUNT(*) FROM order_items');
       
       console.log('Current database state:', {
         users: userCount.rows[0].count,
@@ -143,7 +207,7 @@ export class DatabaseService {
       });
       
       // Show existing users
-      const users = await this.db.query('SELECT id, username, email FROM users ORDER BY id');
+      const users = await this.executor.query('SELECT id, username, email FROM users ORDER BY id');
       if (users.rows.length > 0) {
         console.log('Existing users:', users.rows);
       }
@@ -154,20 +218,14 @@ export class DatabaseService {
 
   // ==================== USER CRUD OPERATIONS ====================
 
-  async createUser(user: User): Promise<User> {
+  /**
+   * Create a user, storing a hash of the password; users are read back without it
+   */
+  async createUser(user: NewUser): Promise<User> {
     try {
-      const query = `
-        INSERT INTO users (username, email, password, first_name, last_name, phone, address, city, state, zip_code, country)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-        RETURNING *
-      `;
-      
-      const result = await this.db.query(query, [
-        user.username, user.email, user.password, user.first_name, user.last_name,
-        user.phone, user.address, user.city, user.state, user.zip_code, user.country
-      ]);
-      
-      const createdUser = result.rows[0];
+      assertValid('User', USER_SCHEMA, user);
+      const hashedUser = await this.withPasswordHash(user);
+      const createdUser = await this.withTransaction(tx => tx.createAudited('User', tx.users, hashedUser));
       console.log(`User created: ${user.username} with ID: ${createdUser.id}`);
       return createdUser;
     } catch (error) {
@@ -176,10 +234,33 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Create several users in one transaction; none are created if any insert fails
+   */
+  async bulkCreateUsers(users: NewUser[]): Promise<User[]> {
+    try {
+      users.forEach(user => assertValid('User', USER_SCHEMA, user));
+      // Hash up front so the transaction does not wait on it
+      const hashedUsers = await Promise.all(users.map(user => this.withPasswordHash(user)));
+      const createdUsers = await this.withTransaction(async (tx) => {
+        const created: User[] = [];
+        for (const user of hashedUsers) {
+          created.push(await tx.createAudited('User', tx.users, user));
+        }
+        return created;
+      });
+
+      console.log(`Users created in bulk: ${createdUsers.length}`);
+      return createdUsers;
+    } catch (error) {
+      console.error('Failed to bulk create users:', error);
+      throw error;
+    }
+  }
+
   async getUserById(id: number): Promise<User | null> {
     try {
-      const result = await this.db.query('SELECT * FROM users WHERE id = $1', [id]);
-      return result.rows[0] || null;
+      return await this.users.findById(id);
     } catch (error) {
       console.error('Failed to get user by ID:', error);
       throw error;
@@ -188,82 +269,137 @@ export class DatabaseService {
 
   async getUserByEmail(email: string): Promise<User | null> {
     try {
-      const result = await this.db.query('SELECT * FROM users WHERE email = $1', [email]);
-      return result.rows[0] || null;
+      return await this.users.findOneBy({ email });
     } catch (error) {
       console.error('Failed to get user by email:', error);
       throw error;
     }
   }
 
+  /**
+   * The user with this email when the password matches their stored hash, otherwise null
+   */
+  async verifyCredentials(email: string, password: string): Promise<User | null> {
+    try {
+      const result = await this.executor.query(
+        'SELECT id, password FROM users WHERE email = $1 AND deleted_at IS NULL', [email]
+      );
+      const row = result.rows[0];
+      if (!row || !(await verifyPassword(password, row.password))) return null;
+      return await this.users.findById(row.id);
+    } catch (error) {
+      console.error('Failed to verify credentials:', error);
+      throw error;
+    }
+  }
+
   async getAllUsers(): Promise<User[]> {
     try {
-      const result = await this.db.query('SELECT * FROM users ORDER BY created_at DESC');
-      return result.rows;
+      return await this.users.findBy({}, { orderBy: { column: 'created_at', direction: 'DESC' } });
     } catch (error) {
       console.error('Failed to get all users:', error);
       throw error;
     }
   }
 
-  async updateUser(id: number, updates: Partial<User>): Promise<User | null> {
+  /**
+   * One page of users matching the query, newest first unless it sorts otherwise
+   */
+  async listUsers(query: ListQuery<User> = {}): Promise<ListResult<User>> {
     try {
-      const fields = Object.keys(updates).filter(key => key !== 'id' && key !== 'created_at');
-      const values = Object.values(updates).filter((_, index) => fields[index]);
-      
-      if (fields.length === 0) return await this.getUserById(id);
-      
-      const setClause = fields.map((field, index) => `${field} = $${index + 2}`).join(', ');
-      const query = `UPDATE users SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *`;
-      
-      const result = await this.db.query(query, [id, ...values]);
+      return await this.users.findPage({ sort: NEWEST_FIRST, ...query });
+    } catch (error) {
+      console.error('Failed to list users:', error);
+      throw error;
+    }
+  }
+
+  async updateUser(id: number, updates: Partial<User>, expectedVersion?: number): Promise<User | null> {
+    try {
+      assertValid('User', USER_SCHEMA, updates, { partial: true });
+      const hashedUpdates = await this.withPasswordHash(updates);
+      const updatedUser = await this.changeAudited('User', AuditAction.UPDATE, id, tx => tx.users,
+        (tx, user) => {
+          assertVersion('User', user, expectedVersion);
+          return tx.users.update(id, hashedUpdates);
+        });
       console.log(`User updated: ID ${id}`);
-      return result.rows[0] || null;
+      return updatedUser;
     } catch (error) {
       console.error('Failed to update user:', error);
       throw error;
     }
   }
 
+  /**
+   * Soft delete a user; their orders are kept
+   */
   async deleteUser(id: number): Promise<boolean> {
     try {
-      const result = await this.db.query('DELETE FROM users WHERE id = $1 RETURNING id', [id]);
-      const deleted = result.rows.length > 0;
+      const deleted = await this.changeAudited('User', AuditAction.DELETE, id, tx => tx.users,
+        tx => tx.softDelete(tx.users, id));
       console.log(`User deleted: ID ${id} - ${deleted ? 'Success' : 'Not found'}`);
-      return deleted;
+      return deleted !== null;
     } catch (error) {
       console.error('Failed to delete user:', error);
       throw error;
     }
   }
 
+  /**
+   * Undo the soft delete of a user; null when there is no deleted user with this ID
+   */
+  async restoreUser(id: number): Promise<User | null> {
+    try {
+      const restoredUser = await this.changeAudited('User', AuditAction.RESTORE, id, tx => tx.users,
+        tx => tx.users.restore(id));
+      console.log(`User restored: ID ${id} - ${restoredUser ? 'Success' : 'Not found'}`);
+      return restoredUser;
+    } catch (error) {
+      console.error('Failed to restore user:', error);
+      throw error;
+    }
+  }
+
   // ==================== PRODUCT CRUD OPERATIONS ====================
 
   async createProduct(product: Product): Promise<Product> {
     try {
-      const query = `
-        INSERT INTO products (name, description, price, category, brand, stock_quantity, sku, image_url, is_active)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-        RETURNING *
-      `;
-      
-      const result = await this.db.query(query, [
-        product.name, product.description, product.price, product.category, product.brand,
-        product.stock_quantity, product.sku, product.image_url, product.is_active
-      ]);
-      
+      assertValid('Product', PRODUCT_SCHEMA, product);
+      const createdProduct = await this.withTransaction(tx => tx.createAudited('Product', tx.products, product));
       console.log(`Product created: ${product.name}`);
-      return result.rows[0];
+      return createdProduct;
     } catch (error) {
       console.error('Failed to create product:', error);
       throw error;
     }
   }
 
+  /**
+   * Create several products in one transaction; none are created if any insert fails
+   */
+  async bulkCreateProducts(products: Product[]): Promise<Product[]> {
+    try {
+      products.forEach(product => assertValid('Product', PRODUCT_SCHEMA, product));
+      const createdProducts = await this.withTransaction(async (tx) => {
+        const created: Product[] = [];
+        for (const product of products) {
+          created.push(await tx.createAudited('Product', tx.products, product));
+        }
+        return created;
+      });
+
+      console.log(`Products created in bulk: ${createdProducts.length}`);
+      return createdProducts;
+    } catch (error) {
+      console.error('Failed to bulk create products:', error);
+      throw error;
+    }
+  }
+
   async getProductById(id: number): Promise<Product | null> {
     try {
-      const result = await this.db.query('SELECT * FROM products WHERE id = $1', [id]);
-      return result.rows[0] || null;
+      return await this.products.findById(id);
     } catch (error) {
       console.error('Failed to get product by ID:', error);
       throw error;
@@ -272,8 +408,7 @@ export class DatabaseService {
 
   async getProductBySku(sku: string): Promise<Product | null> {
     try {
-      const result = await this.db.query('SELECT * FROM products WHERE sku = $1', [sku]);
-      return result.rows[0] || null;
+      return await this.products.findOneBy({ sku });
     } catch (error) {
       console.error('Failed to get product by SKU:', error);
       throw error;
@@ -282,8 +417,7 @@ export class DatabaseService {
 
   async getAllProducts(): Promise<Product[]> {
     try {
-      const result = await this.db.query('SELECT * FROM products ORDER BY created_at DESC');
-      return result.rows;
+      return await this.products.findBy({}, { orderBy: { column: 'created_at', direction: 'DESC' } });
     } catch (error) {
       console.error('Failed to get all products:', error);
       throw error;
@@ -292,67 +426,145 @@ export class DatabaseService {
 
   async getProductsByCategory(category: string): Promise<Product[]> {
     try {
-      const result = await this.db.query('SELECT * FROM products WHERE category = $1 ORDER BY name', [category]);
-      return result.rows;
+      return await this.products.findBy({ category }, { orderBy: { column: 'name' } });
     } catch (error) {
       console.error('Failed to get products by category:', error);
       throw error;
     }
   }
 
-  async updateProduct(id: number, updates: Partial<Product>): Promise<Product | null> {
+  /**
+   * One page of products matching the query (price range, brand, is_active, ...), newest first unless it sorts otherwise
+   */
+  async listProducts(query: ListQuery<Product> = {}): Promise<ListResult<Product>> {
     try {
-      const fields = Object.keys(updates).filter(key => key !== 'id' && key !== 'created_at');
-      const values = Object.values(updates).filter((_, index) => fields[index]);
-      
-      if (fields.length === 0) return await this.getProductById(id);
-      
-      const setClause = fields.map((field, index) => `${field} = $${index + 2}`).join(', ');
-      const query = `UPDATE products SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *`;
-      
-      const result = await this.db.query(query, [id, ...values]);
+      return await this.products.findPage({ sort: NEWEST_FIRST, ...query });
+    } catch (error) {
+      console.error('Failed to list products:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Full-text product search over name and description combined with filters,
+   * ranked by relevance (name matches first) unless another sort order is given
+   */
+  async searchProducts(search: ProductSearch): Promise<ListResult<Product>> {
+    try {
+      const { page, limit } = normalizePaging(search);
+      const conditions: string[] = [];
+      const values: any[] = [];
+      const bind = (value: unknown) => {
+        values.push(value);
+        return `$${values.length}`;
+      };
+
+      const tsQuery = searchTerms(search.query).length > 0
+        ? `websearch_to_tsquery('english', ${bind(search.query)})`
+        : undefined;
+      conditions.push('deleted_at IS NULL');
+      if (tsQuery) conditions.push(`${PRODUCT_SEARCH_DOCUMENT} @@ ${tsQuery}`);
+      if (search.brand) conditions.push(`brand = ${bind(search.brand)}`);
+      if (search.category) conditions.push(`category = ${bind(search.category)}`);
+      if (search.min_price !== undefined) conditions.push(`price >= ${bind(search.min_price)}`);
+      if (search.max_price !== undefined) conditions.push(`price <= ${bind(search.max_price)}`);
+      if (search.in_stock_only) conditions.push('stock_quantity > 0');
+      if (search.is_active !== undefined) conditions.push(`is_active = ${bind(search.is_active)}`);
+      const where = ` WHERE ${conditions.join(' AND ')}`;
+
+      const orderBy: Record<ProductSortOrder, string> = {
+        // resolveSortOrder only picks relevance when there is a query
+        [ProductSortOrder.RELEVANCE]: `ts_rank(${PRODUCT_SEARCH_DOCUMENT}, ${tsQuery}) DESC, id DESC`,
+        [ProductSortOrder.PRICE_ASC]: 'price ASC, id ASC',
+        [ProductSortOrder.PRICE_DESC]: 'price DESC, id DESC',
+        [ProductSortOrder.NAME]: 'name ASC, id ASC',
+        [ProductSortOrder.NEWEST]: 'created_at DESC, id DESC'
+      };
+
+      const result = await this.executor.query(
+        `SELECT * FROM products${where}
+         ORDER BY ${orderBy[resolveSortOrder(search)]}
+         LIMIT ${limit} OFFSET ${(page - 1) * limit}`,
+        values
+      );
+      const count = await this.executor.query(`SELECT COUNT(*) FROM products${where}`, values);
+
+      return { items: result.rows, total: parseInt(count.rows[0].count, 10), page, limit };
+    } catch (error) {
+      console.error('Failed to search products:', error);
+      throw error;
+    }
+  }
+
+  async updateProduct(id: number, updates: Partial<Product>, expectedVersion?: number): Promise<Product | null> {
+    try {
+      assertValid('Product', PRODUCT_SCHEMA, updates, { partial: true });
+      const updatedProduct = await this.changeAudited('Product', AuditAction.UPDATE, id, tx => tx.products,
+        (tx, product) => {
+          assertVersion('Product', product, expectedVersion);
+          return tx.products.update(id, updates);
+        });
       console.log(`Product updated: ID ${id}`);
-      return result.rows[0] || null;
+      return updatedProduct;
     } catch (error) {
       console.error('Failed to update product:', error);
       throw error;
     }
   }
 
+  /**
+   * Soft delete a product; the items of the orders that contain it are kept
+   */
   async deleteProduct(id: number): Promise<boolean> {
     try {
-      const result = await this.db.query('DELETE FROM products WHERE id = $1 RETURNING id', [id]);
-      const deleted = result.rows.length > 0;
+      const deleted = await this.changeAudited('Product', AuditAction.DELETE, id, tx => tx.products,
+        tx => tx.softDelete(tx.products, id));
       console.log(`Product deleted: ID ${id} - ${deleted ? 'Success' : 'Not found'}`);
-      return deleted;
+      return deleted !== null;
     } catch (error) {
       console.error('Failed to delete product:', error);
       throw error;
     }
   }
 
+  /**
+   * Undo the soft delete of a product; null when there is no deleted product with this ID
+   */
+  async restoreProduct(id: number): Promise<Product | null> {
+    try {
+      const restoredProduct = await this.changeAudited('Product', AuditAction.RESTORE, id, tx => tx.products,
+        tx => tx.products.restore(id));
+      console.log(`Product restored: ID ${id} - ${restoredProduct ? 'Success' : 'Not found'}`);
+      return restoredProduct;
+    } catch (error) {
+      console.error('Failed to restore product:', error);
+      throw error;
+    }
+  }
+
   // ==================== ORDER CRUD OPERATIONS ====================
 
-  async createOrder(order: Order): Promise<Order> {
+  /**
+   * Create an order; its total_amount starts at 0 and is recomputed as items are added, whatever the
+   * caller sent. With an idempotency key, a repeat of the same order within the key's TTL returns the
+   * order created the first time (see Idempotency.ts)
+   */
+  async createOrder(order: Order, idempotencyKey?: string): Promise<Order> {
     try {
-      // First verify that the user exists
-      const userExists = await this.getUserById(order.user_id);
-      if (!userExists) {
-        throw new Error(`User with ID ${order.user_id} does not exist`);
+      assertValid('Order', ORDER_SCHEMA, order);
+      if (order.status !== undefined) {
+        assertInitialStatus(parseOrderStatus(order.status));
       }
-      
-      const query = `
-        INSERT INTO orders (user_id, order_number, total_amount, status, shipping_address, billing_address, payment_method)
-        VALUES ($1, $2, $3, $4, $5, $6, $7)
-        RETURNING *
-      `;
-      
-      const result = await this.db.query(query, [
-        order.user_id, order.order_number, order.total_amount, order.status,
-        order.shipping_address, order.billing_address, order.payment_method
-      ]);
-      
-      const createdOrder = result.rows[0];
+
+      const createdOrder = await this.idempotent('CreateOrder', idempotencyKey, order, async (tx) => {
+        // First verify that the user exists
+        const userExists = await tx.getUserById(order.user_id);
+        if (!userExists) {
+          throw new EntityNotFoundError('User', 'ID', order.user_id);
+        }
+
+        return await tx.withTransaction(inner => inner.createAudited('Order', inner.orders, { ...order, total_amount: 0 }));
+      });
       console.log(`Order created: ${order.order_number} for user ID: ${order.user_id}`);
       return createdOrder;
     } catch (error) {
@@ -361,10 +573,30 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Create an order together with its items; nothing is persisted if any insert fails
+   * or any product is out of stock
+   */
+  async createOrderWithItems(order: Order, items: Omit<OrderItem, 'order_id'>[]): Promise<OrderWithItems> {
+    try {
+      return await this.withTransaction(async (tx) => {
+        await tx.lockProducts(items.map(item => item.product_id));
+        const createdOrder = await tx.createOrder(order);
+        const createdItems: OrderItem[] = [];
+        for (const item of items) {
+          createdItems.push(await tx.addOrderItem({ ...item, order_id: createdOrder.id! }));
+        }
+        return { order: createdOrder, items: createdItems };
+      });
+    } catch (error) {
+      console.error('Failed to create order with items:', error);
+      throw error;
+    }
+  }
+
   async getOrderById(id: number): Promise<Order | null> {
     try {
-      const result = await this.db.query('SELECT * FROM orders WHERE id = $1', [id]);
-      return result.rows[0] || null;
+      return await this.orders.findById(id);
     } catch (error) {
       console.error('Failed to get order by ID:', error);
       throw error;
@@ -373,8 +605,7 @@ export class DatabaseService {
 
   async getOrderByNumber(orderNumber: string): Promise<Order | null> {
     try {
-      const result = await this.db.query('SELECT * FROM orders WHERE order_number = $1', [orderNumber]);
-      return result.rows[0] || null;
+      return await this.orders.findOneBy({ order_number: orderNumber });
     } catch (error) {
       console.error('Failed to get order by number:', error);
       throw error;
@@ -383,8 +614,7 @@ export class DatabaseService {
 
   async getOrdersByUserId(userId: number): Promise<Order[]> {
     try {
-      const result = await this.db.query('SELECT * FROM orders WHERE user_id = $1 ORDER BY created_at DESC', [userId]);
-      return result.rows;
+      return await this.orders.findBy({ user_id: userId }, { orderBy: { column: 'created_at', direction: 'DESC' } });
     } catch (error) {
       console.error('Failed to get orders by user ID:', error);
       throw error;
@@ -393,82 +623,172 @@ export class DatabaseService {
 
   async getAllOrders(): Promise<Order[]> {
     try {
-      const result = await this.db.query('SELECT * FROM orders ORDER BY created_at DESC');
-      return result.rows;
+      return await this.orders.findBy({}, { orderBy: { column: 'created_at', direction: 'DESC' } });
     } catch (error) {
       console.error('Failed to get all orders:', error);
       throw error;
     }
   }
 
-  async updateOrderStatus(id: number, status: OrderStatus): Promise<Order | null> {
+  /**
+   * One page of orders matching the query (status, created_at range, ...), newest first unless it sorts otherwise
+   */
+  async listOrders(query: ListQuery<Order> = {}): Promise<ListResult<Order>> {
+    try {
+      return await this.orders.findPage({ sort: NEWEST_FIRST, ...query });
+    } catch (error) {
+      console.error('Failed to list orders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move an order to a new status; throws IllegalStatusTransitionError when the state machine forbids it.
+   * Cancelling an order that has not shipped returns its items' stock.
+   */
+  async updateOrderStatus(id: number, status: OrderStatus, expectedVersion?: number): Promise<Order | null> {
     try {
-      const result = await this.db.query(
-        'UPDATE orders SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING *',
-        [status, id]
-      );
-      
-      if (result.rows.length === 0) {
-        throw new Error(`Order with ID ${id} not found`);
-      }
-      
+      const updatedOrder = await this.withTransaction(async (tx) => {
+        // Lock the order so concurrent transitions are validated one at a time
+        const order = await tx.lockOrder(id);
+
+        assertVersion('Order', order, expectedVersion);
+        assertTransition(order.status, parseOrderStatus(status));
+        if (status === OrderStatus.CANCELLED && holdsStockReservation(order.status)) {
+          await tx.releaseOrderStock(id);
+        }
+        await tx.orderStatusHistory.create({ order_id: id, from_status: order.status, to_status: status });
+        const updated = await tx.orders.update(id, { status });
+        await tx.recordChange('Order', id, AuditAction.UPDATE, order, updated);
+        return updated;
+      });
+
       console.log(`Order status updated: ID ${id} to ${status}`);
-      return result.rows[0];
+      return updatedOrder;
     } catch (error) {
       console.error('Failed to update order status:', error);
       throw error;
     }
   }
 
+  async getOrderStatusHistory(orderId: number): Promise<OrderStatusChange[]> {
+    try {
+      return await this.orderStatusHistory.findBy({ order_id: orderId }, { orderBy: { column: 'id' } });
+    } catch (error) {
+      console.error('Failed to get order status history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Soft delete an order, keeping its items but returning their stock unless the order has shipped
+   * or was cancelled
+   */
   async deleteOrder(id: number): Promise<boolean> {
     try {
-      const result = await this.db.query('DELETE FROM orders WHERE id = $1 RETURNING id', [id]);
-      const deleted = result.rows.length > 0;
+      const deleted = await this.changeAudited('Order', AuditAction.DELETE, id, tx => tx.orders, async (tx, order) => {
+        const deletedOrder = await tx.softDelete(tx.orders, id);
+        if (deletedOrder && holdsStockReservation(order.status)) {
+          await tx.releaseOrderStock(id);
+        }
+        return deletedOrder;
+      });
       console.log(`Order deleted: ID ${id} - ${deleted ? 'Success' : 'Not found'}`);
-      return deleted;
+      return deleted !== null;
     } catch (error) {
       console.error('Failed to delete order:', error);
       throw error;
     }
   }
 
+  /**
+   * Undo the soft delete of an order, reserving its items' stock again unless it has shipped or was
+   * cancelled (OutOfStockError when that stock has been sold since); null when there is no deleted
+   * order with this ID
+   */
+  async restoreOrder(id: number): Promise<Order | null> {
+    try {
+      const restoredOrder = await this.changeAudited('Order', AuditAction.RESTORE, id, tx => tx.orders, async (tx) => {
+        const order = await tx.orders.restore(id);
+        if (order && holdsStockReservation(order.status)) {
+          await tx.reserveOrderStock(id);
+        }
+        return order;
+      });
+      console.log(`Order restored: ID ${id} - ${restoredOrder ? 'Success' : 'Not found'}`);
+      return restoredOrder;
+    } catch (error) {
+      console.error('Failed to restore order:', error);
+      throw error;
+    }
+  }
+
   // ==================== ORDER ITEM OPERATIONS ====================
 
-  async addOrderItem(orderItem: OrderItem): Promise<OrderItem> {
+  /**
+   * Add an item to an order, reserving its quantity from the product's stock,
+   * and recompute the order total from its items. With an idempotency key, a repeat of the same
+   * item within the key's TTL returns the item added the first time and reserves nothing.
+   */
+  async addOrderItem(orderItem: OrderItem, idempotencyKey?: string): Promise<OrderItem> {
     try {
-      const query = `
-        INSERT INTO order_items (order_id, product_id, quantity, unit_price, total_price)
-        VALUES ($1, $2, $3, $4, $5)
-        RETURNING *
-      `;
-      
-      const result = await this.db.query(query, [
-        orderItem.order_id, orderItem.product_id, orderItem.quantity,
-        orderItem.unit_price, orderItem.total_price
-      ]);
-      
+      assertValid('Order item', ORDER_ITEM_SCHEMA, orderItem);
+      assertItemTotal(orderItem);
+
+      const createdItem = await this.idempotent('AddOrderItem', idempotencyKey, orderItem, tx =>
+        tx.withTransaction(async (inner) => {
+          assertAcceptsItems(await inner.lockOrder(orderItem.order_id));
+          await inner.reserveStock(orderItem.product_id, orderItem.quantity);
+          const item = await inner.orderItems.create(orderItem);
+          await inner.recalculateOrderTotal(orderItem.order_id);
+          return item;
+        })
+      );
+
       console.log(`Order item added: Order ${orderItem.order_id}, Product ${orderItem.product_id}`);
-      return result.rows[0];
+      return createdItem;
     } catch (error) {
       console.error('Failed to add order item:', error);
       throw error;
     }
   }
 
+  async getOrderItemById(id: number): Promise<OrderItem | null> {
+    try {
+      return await this.orderItems.findById(id);
+    } catch (error) {
+      console.error('Failed to get order item by ID:', error);
+      throw error;
+    }
+  }
+
   async getOrderItems(orderId: number): Promise<OrderItem[]> {
     try {
-      const result = await this.db.query('SELECT * FROM order_items WHERE order_id = $1', [orderId]);
-      return result.rows;
+      return await this.orderItems.findBy({ order_id: orderId });
     } catch (error) {
       console.error('Failed to get order items:', error);
       throw error;
     }
   }
 
+  /**
+   * Remove an item from its order, releasing its reserved stock,
+   * and recompute the order total from the remaining items. Throws ClosedOrderError once the order
+   * is shipped, delivered or cancelled
+   */
   async removeOrderItem(id: number): Promise<boolean> {
     try {
-      const result = await this.db.query('DELETE FROM order_items WHERE id = $1 RETURNING id', [id]);
-      const deleted = result.rows.length > 0;
+      const deleted = await this.withTransaction(async (tx) => {
+        const item = await tx.orderItems.findById(id);
+        if (!item) return false;
+
+        assertAcceptsItems(await tx.lockOrder(item.order_id));
+        await tx.orderItems.delete(id);
+        await tx.releaseStock(item.product_id, item.quantity);
+        await tx.recalculateOrderTotal(item.order_id);
+        return true;
+      });
+
       console.log(`Order item deleted: ID ${id} - ${deleted ? 'Success' : 'Not found'}`);
       return deleted;
     } catch (error) {
@@ -476,4 +796,416 @@ export class DatabaseService {
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Reconciliation check: orders whose stored total_amount disagrees with the sum of their items
+   */
+  async findOrderTotalMismatches(): Promise<OrderTotalMismatch[]> {
+    try {
+      const result = await this.executor.query(`
+        SELECT o.id AS order_id, o.order_number, o.total_amount AS stored_total,
+               COALESCE(SUM(oi.total_price), 0) AS computed_total
+        FROM orders o
+        LEFT JOIN order_items oi ON oi.order_id = o.id
+        WHERE o.deleted_at IS NULL
+        GROUP BY o.id
+        HAVING o.total_amount <> COALESCE(SUM(oi.total_price), 0)
+        ORDER BY o.id
+      `);
+
+      return result.rows.map(row => ({
+        order_id: row.order_id,
+        order_number: row.order_number,
+        stored_total: Number(row.stored_total),
+        computed_total: Number(row.computed_total)
+      }));
+    } catch (error) {
+      console.error('Failed to find order total mismatches:', error);
+      throw error;
+    }
+  }
+
+  // ==================== CART OPERATIONS ====================
+
+  async getCart(userId: number): Promise<CartWithItems> {
+    try {
+      return await this.withTransaction(async (tx) => await tx.pricedCart(await tx.cartOf(userId)));
+    } catch (error) {
+      console.error('Failed to get cart:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a product to the user's cart, or add to its quantity when the cart already has it
+   */
+  async addToCart(userId: number, productId: number, quantity: number): Promise<CartWithItems> {
+    try {
+      assertValid('Cart item', CART_ITEM_SCHEMA, { product_id: productId, quantity });
+
+      const cart = await this.changeCart(userId, async (tx, cartId) => {
+        if (!await tx.products.findById(productId)) {
+          throw new EntityNotFoundError('Product', 'ID', productId);
+        }
+        await tx.executor.query(`
+          INSERT INTO cart_items (cart_id, product_id, quantity)
+          VALUES ($1, $2, $3)
+          ON CONFLICT (cart_id, product_id) DO UPDATE SET quantity = cart_items.quantity + EXCLUDED.quantity
+        `, [cartId, productId, quantity]);
+      });
+
+      console.log(`Added to cart: User ${userId}, Product ${productId} x ${quantity}`);
+      return cart;
+    } catch (error) {
+      console.error('Failed to add to cart:', error);
+      throw error;
+    }
+  }
+
+  async updateCartQuantity(userId: number, productId: number, quantity: number): Promise<CartWithItems> {
+    try {
+      assertValid('Cart item', CART_ITEM_SCHEMA, { product_id: productId, quantity });
+
+      return await this.changeCart(userId, async (tx, cartId) => {
+        const result = await tx.executor.query(
+          'UPDATE cart_items SET quantity = $3 WHERE cart_id = $1 AND product_id = $2',
+          [cartId, productId, quantity]
+        );
+        if (result.rowCount === 0) {
+          throw new EntityNotFoundError('Cart item', 'product ID', productId);
+        }
+      });
+    } catch (error) {
+      console.error('Failed to update cart quantity:', error);
+      throw error;
+    }
+  }
+
+  async removeFromCart(userId: number, productId: number): Promise<CartWithItems> {
+    try {
+      return await this.changeCart(userId, async (tx, cartId) => {
+        const result = await tx.executor.query(
+          'DELETE FROM cart_items WHERE cart_id = $1 AND product_id = $2',
+          [cartId, productId]
+        );
+        if (result.rowCount === 0) {
+          throw new EntityNotFoundError('Cart item', 'product ID', productId);
+        }
+      });
+    } catch (error) {
+      console.error('Failed to remove from cart:', error);
+      throw error;
+    }
+  }
+
+  async clearCart(userId: number): Promise<CartWithItems> {
+    try {
+      return await this.changeCart(userId, async (tx, cartId) => {
+        await tx.executor.query('DELETE FROM cart_items WHERE cart_id = $1', [cartId]);
+      });
+    } catch (error) {
+      console.error('Failed to clear cart:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Turn the user's cart into a pending order with its items at the products' current prices,
+   * reserving their stock, and empty the cart; nothing changes when any step fails
+   */
+  async checkout(userId: number, checkout: CartCheckout): Promise<OrderWithItems> {
+    try {
+      assertValid('Checkout', CART_CHECKOUT_SCHEMA, checkout);
+
+      const created = await this.withTransaction(async (tx) => {
+        const cart = await tx.cartOf(userId);
+        const { order, items } = checkoutOrder(await tx.pricedCart(cart), checkout);
+        const { order: createdOrder, items: createdItems } = await tx.createOrderWithItems(order, items);
+        await tx.executor.query('DELETE FROM cart_items WHERE cart_id = $1', [cart.id]);
+        await tx.executor.query('UPDATE carts SET updated_at = clock_timestamp() WHERE id = $1', [cart.id]);
+        // As recalculated by the items
+        return { order: (await tx.orders.findById(createdOrder.id!))!, items: createdItems };
+      });
+
+      console.log(`Cart checked out: Order ${created.order.order_number} for user ID: ${userId}`);
+      return created;
+    } catch (error) {
+      console.error('Failed to check out cart:', error);
+      throw error;
+    }
+  }
+
+  // ==================== AUDIT LOG ====================
+
+  /**
+   * The recorded changes of a user, product or order (deleted or not), oldest first
+   */
+  async getAuditLog(entityType: AuditedEntity, entityId: number): Promise<AuditEntry[]> {
+    try {
+      return await this.auditLog.findBy(
+        { entity_type: entityType, entity_id: entityId }, { orderBy: { column: 'id' } }
+      );
+    } catch (error) {
+      console.error('Failed to get audit log:', error);
+      throw error;
+    }
+  }
+
+  // ==================== HELPERS ====================
+
+  /**
+   * Insert a row and record its creation in the audit log
+   */
+  private async createAudited<T extends { id?: number }>(
+    entity: AuditedEntity,
+    repository: Repository<T>,
+    row: T
+  ): Promise<T> {
+    const created = await repository.create(row);
+    await this.recordChange(entity, created.id!, AuditAction.CREATE, null, created);
+    return created;
+  }
+
+  /**
+   * Change one row in a transaction and record it in the audit log. The change gets the row locked
+   * (even when soft deleted) and returns it as changed, or null for no change, which is not recorded;
+   * the result is null as well when the row does not exist.
+   */
+  private async changeAudited<T extends { id?: number }>(
+    entity: AuditedEntity,
+    action: AuditAction,
+    id: number,
+    repository: (tx: DatabaseService) => Repository<T>,
+    change: (tx: DatabaseService, before: T) => Promise<T | null>
+  ): Promise<T | null> {
+    return await this.withTransaction(async (tx) => {
+      const before = await repository(tx).findById(id, { forUpdate: true, withDeleted: true });
+      const after = before && await change(tx, before);
+      if (after) {
+        await tx.recordChange(entity, id, action, before, after);
+      }
+      return after;
+    });
+  }
+
+  /**
+   * Run an UPDATE of one row that the repository cannot express, such as arithmetic on a column, and
+   * record it in the audit log; a no-op when the row does not exist
+   */
+  private async updateAudited<T extends { id?: number }>(
+    entity: AuditedEntity,
+    repository: Repository<T>,
+    id: number,
+    sql: string,
+    params: unknown[]
+  ): Promise<void> {
+    const before = await repository.findById(id, { forUpdate: true, withDeleted: true });
+    if (!before) return;
+
+    await this.executor.query(sql, params);
+    await this.recordChange(entity, id, AuditAction.UPDATE, before, await repository.findById(id, { withDeleted: true }));
+  }
+
+  /**
+   * Perform a write once per idempotency key: the key's first use performs it and stores the
+   * response, and a repeat within the TTL returns that response again, provided it carries the same
+   * payload. Repeats in flight wait on an advisory lock for the first one to commit or roll back;
+   * a write that fails stores nothing, so it can be retried with the same key.
+   */
+  private async idempotent<T>(
+    operation: IdempotentOperation,
+    key: string | undefined,
+    payload: unknown,
+    perform: (tx: DatabaseService) => Promise<T>
+  ): Promise<T> {
+    if (key === undefined) return await perform(this);
+    assertIdempotencyKey(key);
+
+    return await this.withTransaction(async (tx) => {
+      await tx.executor.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`${operation}:${key}`]);
+      await tx.executor.query(
+        "DELETE FROM idempotency_keys WHERE created_at < CURRENT_TIMESTAMP - $1 * INTERVAL '1 millisecond'",
+        [idempotencyKeyTtl()]
+      );
+
+      const hash = requestHash(payload);
+      const stored = await tx.idempotencyKeys.findOneBy({ operation, idempotency_key: key });
+      if (stored) {
+        if (stored.request_hash !== hash) {
+          throw new IdempotencyConflictError(operation, key);
+        }
+        return fromStoredResponse<T>(stored.response);
+      }
+
+      const response = await perform(tx);
+      await tx.idempotencyKeys.create({
+        operation,
+        idempotency_key: key,
+        request_hash: hash,
+        response: toStoredResponse(response)
+      });
+      return response;
+    });
+  }
+
+  private async recordChange<T extends object>(
+    entity: AuditedEntity,
+    entityId: number,
+    action: AuditAction,
+    before: T | null,
+    after: T | null
+  ): Promise<void> {
+    await this.auditLog.create({
+      entity_type: entity,
+      entity_id: entityId,
+      action,
+      actor: this.actor,
+      before: before as Record<string, unknown> | null,
+      after: after as Record<string, unknown> | null
+    });
+  }
+
+  /**
+   * Soft delete a row and return it as deleted, or null when there is no live row with this ID
+   */
+  private async softDelete<T extends { id?: number }>(repository: Repository<T>, id: number): Promise<T | null> {
+    return (await repository.delete(id)) ? await repository.findById(id, { withDeleted: true }) : null;
+  }
+
+  /**
+   * Copy of the user fields with the password (if any) replaced by its hash
+   */
+  private async withPasswordHash<T extends Partial<User>>(user: T): Promise<T> {
+    return user.password === undefined ? user : { ...user, password: await hashPassword(user.password) };
+  }
+
+  /**
+   * Lock an order row for the rest of the transaction so concurrent item changes
+   * recompute its total one at a time
+   */
+  private async lockOrder(orderId: number): Promise<Order> {
+    const order = await this.orders.findById(orderId, { forUpdate: true });
+    if (!order) {
+      throw new EntityNotFoundError('Order', 'ID', orderId);
+    }
+    return order;
+  }
+
+  /**
+   * The user's cart, created on first use; it stays locked for the rest of the transaction, so
+   * changes and checkouts of one cart run one at a time
+   */
+  private async cartOf(userId: number): Promise<Cart> {
+    if (!await this.users.findById(userId)) {
+      throw new EntityNotFoundError('User', 'ID', userId);
+    }
+
+    await this.executor.query('INSERT INTO carts (user_id) VALUES ($1) ON CONFLICT (user_id) DO NOTHING', [userId]);
+    const result = await this.executor.query('SELECT * FROM carts WHERE user_id = $1 FOR UPDATE', [userId]);
+    return result.rows[0];
+  }
+
+  /**
+   * Change the user's cart in a transaction and return it as changed, with updated_at stamped
+   */
+  private async changeCart(
+    userId: number,
+    change: (tx: DatabaseService, cartId: number) => Promise<void>
+  ): Promise<CartWithItems> {
+    return await this.withTransaction(async (tx) => {
+      const cart = await tx.cartOf(userId);
+      await change(tx, cart.id!);
+      const touched = await tx.executor.query(
+        'UPDATE carts SET updated_at = clock_timestamp() WHERE id = $1 RETURNING *',
+        [cart.id]
+      );
+      return await tx.pricedCart(touched.rows[0]);
+    });
+  }
+
+  /**
+   * The cart priced at its products' current prices; items of deleted products are left out
+   */
+  private async pricedCart(cart: Cart): Promise<CartWithItems> {
+    const result = await this.executor.query(`
+      SELECT ci.id, ci.cart_id, ci.product_id, ci.quantity, p.name, p.price
+      FROM cart_items ci
+      JOIN products p ON p.id = ci.product_id AND p.deleted_at IS NULL
+      WHERE ci.cart_id = $1
+      ORDER BY ci.id
+    `, [cart.id]);
+
+    return priceCart(cart, result.rows.map(({ name, price, ...item }) => ({ item, product: { name, price } })));
+  }
+
+  /**
+   * Lock product rows in ID order, so transactions reserving several products
+   * cannot deadlock by locking the same rows in a different order
+   */
+  private async lockProducts(productIds: number[]): Promise<void> {
+    const ids = [...new Set(productIds)].sort((a, b) => a - b);
+    if (ids.length === 0) return;
+
+    await this.executor.query('SELECT id FROM products WHERE id = ANY($1::int[]) ORDER BY id FOR UPDATE', [ids]);
+  }
+
+  /**
+   * Take quantity units out of a product's stock; the product row stays locked for the rest of
+   * the transaction, so concurrent orders cannot both pass the stock check and oversell
+   */
+  private async reserveStock(productId: number, quantity: number): Promise<void> {
+    const product = await this.products.findById(productId, { forUpdate: true });
+    if (!product) {
+      throw new EntityNotFoundError('Product', 'ID', productId);
+    }
+
+    assertInStock(product, quantity);
+    const updated = await this.products.update(productId, { stock_quantity: product.stock_quantity - quantity });
+    await this.recordChange('Product', productId, AuditAction.UPDATE, product, updated);
+  }
+
+  /**
+   * Put quantity units back into a product's stock, soft deleted or not
+   */
+  private async releaseStock(productId: number, quantity: number): Promise<void> {
+    await this.updateAudited('Product', this.products, productId,
+      `UPDATE products
+       SET stock_quantity = stock_quantity + $2
+       WHERE id = $1`,
+      [productId, quantity]
+    );
+  }
+
+  /**
+   * Put the quantities of all of an order's items back into stock
+   */
+  private async releaseOrderStock(orderId: number): Promise<void> {
+    const items = await this.orderItems.findBy({ order_id: orderId }, { orderBy: { column: 'product_id' } });
+    for (const item of items) {
+      await this.releaseStock(item.product_id, item.quantity);
+    }
+  }
+
+  /**
+   * Take the quantities of all of an order's items out of stock again
+   */
+  private async reserveOrderStock(orderId: number): Promise<void> {
+    const items = await this.orderItems.findBy({ order_id: orderId }, { orderBy: { column: 'product_id' } });
+    await this.lockProducts(items.map(item => item.product_id));
+    for (const item of items) {
+      await this.reserveStock(item.product_id, item.quantity);
+    }
+  }
+
+  /**
+   * Store the sum of the order's item totals as its total_amount
+   */
+  private async recalculateOrderTotal(orderId: number): Promise<void> {
+    await this.updateAudited('Order', this.orders, orderId,
+      `UPDATE orders
+       SET total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM order_items WHERE order_id = $1)
+       WHERE id = $1`,
+      [orderId]
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import { User, Product, Order, OrderItem, OrderStatus } from './DatabaseModels';
+import { NewUser, Product, Order, OrderItem, OrderStatus } from './DatabaseModels';
 
 /**
  * Test Data Generator
@@ -9,8 +9,8 @@ export class DatabaseTestData {
   /**
    * Generate sample user data
    */
-  static generateUsers(count: number = 5): User[] {
-    const users: User[] = [];
+  static generateUsers(count: number = 5): NewUser[] {
+    const users: NewUser[] = [];
     
     Array.from({ length: count }, (_, i) => i + 1).forEach(index => {
       users.push({
@@ -49,7 +49,7 @@ export class DatabaseTestData {
         price: Math.round((Math.random() * 1000 + 10) * 100) / 100, // Random price between 10-1010
         category: category,
         brand: brand,
-        stock_quantity: Math.floor(Math.random() * 100) + 1,
+        stock_quantity: Math.floor(Math.random() * 91) + 10, // Covers the 1-5 quantities of generated order items
         sku: `SKU-${String(i + 1).padStart(6, '0')}`,
         image_url: `https://example.com/images/product${i + 1}.jpg`,
         is_active: Math.random() > 0.1 // 90% chance of being active
@@ -62,11 +62,9 @@ export class DatabaseTestData {
    * Generate sample order data
    */
   static generateOrders(userIds: number[], count: number = 8): Order[] {
-    const statuses = Object.values(OrderStatus);
     const paymentMethods = ['Credit Card', 'PayPal', 'Bank Transfer', 'Cash on Delivery'];
     
     const orders = userIds.flatMap((userId, index) => {
-      const status = statuses[index % statuses.length];
       const paymentMethod = paymentMethods[index % paymentMethods.length];
       const timestamp = Date.now();
       const randomSuffix = Math.random().toString(36).substring(2, 8);
@@ -74,8 +72,8 @@ export class DatabaseTestData {
       return {
         user_id: userId,
         order_number: `ORD-${timestamp}-${index + 1}-${randomSuffix}`,
-        total_amount: Math.round((Math.random() * 500 + 50) * 100) / 100, // Random amount between 50-550
-        status: status,
+        total_amount: 0, // Recomputed from the order items as they are added
+        status: OrderStatus.PENDING, // New orders start pending
         shipping_address: `${index + 1} Shipping Street, Test City, TS ${String(index + 1).padStart(5, '0')}`,
         billing_address: `${index + 1} Billing Street, Test City, TS ${String(index + 1).padStart(5, '0')}`,
         payment_method: paymentMethod
@@ -110,7 +108,7 @@ export class DatabaseTestData {
    * Generate a complete test dataset
    */
   static generateCompleteTestData(): {
-    users: User[];
+    users: NewUser[];
     products: Product[];
     orders: Order[];
     orderItems: OrderItem[];
@@ -134,7 +132,7 @@ export class DatabaseTestData {
   /**
    * Generate a single test user
    */
-  static generateSingleUser(): User {
+  static generateSingleUser(): NewUser {
     const timestamp = Date.now();
     const randomSuffix = Math.random().toString(36).substring(2, 8);
     
@@ -183,7 +181,7 @@ export class DatabaseTestData {
     return {
       user_id: userId,
       order_number: `ORD-SINGLE-${timestamp}-${randomSuffix}`,
-      total_amount: 199.99,
+      total_amount: 0, // Recomputed from the order items as they are added
       status: OrderStatus.PENDING,
       shipping_address: '123 Single Shipping Street, Single Test City, ST 12345',
       billing_address: '123 Single Billing Street, Single Test City, ST 12345',
@@ -208,7 +206,7 @@ export class DatabaseTestData {
    * Generate test data for specific scenarios
    */
   static generateScenarioData(scenario: 'minimal' | 'large' | 'mixed'): {
-    users: User[];
+    users: NewUser[];
     products: Product[];
     orders: Order[];
     orderItems: OrderItem[];
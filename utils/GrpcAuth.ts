@@ -0,0 +1,34 @@
+import * as grpc from '@grpc/grpc-js';
+
+/**
+ * gRPC Auth
+ * Credential conventions shared by GrpcClient and the server's Authenticator.
+ * Every call carries `authorization: Bearer <token>`, where the token is either one issued by the
+ * Login RPC (acting as that user) or the service API key (acting as a trusted service, e.g. the test suites).
+ */
+
+export const AUTHORIZATION_HEADER = 'authorization';
+
+/**
+ * The service API key, GRPC_API_KEY. There is no default: a key everyone knows would let anyone act
+ * as a service, so the server refuses to start without one.
+ */
+export function apiKeyFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  if (!env.GRPC_API_KEY) {
+    throw new Error('GRPC_API_KEY is not set: configure the service API key (see env.example)');
+  }
+  return env.GRPC_API_KEY;
+}
+
+export function bearer(token: string): string {
+  return `Bearer ${token}`;
+}
+
+/**
+ * The token of the call's bearer authorization header, if any
+ */
+export function bearerToken(metadata: grpc.Metadata): string | undefined {
+  const [value] = metadata.get(AUTHORIZATION_HEADER);
+  const match = typeof value === 'string' ? /^Bearer\s+(\S+)$/i.exec(value) : null;
+  return match ? match[1] : undefined;
+}
@@ -0,0 +1,248 @@
+import * as grpc from '@grpc/grpc-js';
+
+/**
+ * gRPC Call Policy
+ * Deadlines, retries with exponential backoff and jitter, and hedging for the unary calls made by
+ * GrpcClient.executeCall, configured from the GRPC_* environment variables (see env.example).
+ * Reads are retried and hedged; writes are retried only when they carry an idempotency key.
+ */
+
+export interface RetryPolicy {
+  /** Attempts including the first one; 1 disables retries */
+  maxAttempts: number;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  backoffMultiplier: number;
+}
+
+export interface HedgingPolicy {
+  /** Attempts in flight at most; 1 disables hedging */
+  maxAttempts: number;
+  /** Wait for a response this long before sending the next attempt */
+  delayMs: number;
+}
+
+export interface CallPolicy {
+  /** Deadline of each attempt */
+  deadlineMs: number;
+  retry: RetryPolicy;
+  hedging: HedgingPolicy;
+}
+
+export interface GrpcCallConfig {
+  deadlineMs: number;
+  /** Per-method deadlines overriding deadlineMs, keyed by RPC name (GetAllProducts) */
+  methodDeadlinesMs: Record<string, number>;
+  retry: RetryPolicy;
+  hedging: HedgingPolicy;
+}
+
+/**
+ * Per-call overrides of the configured policy
+ */
+export interface CallPolicyOverrides {
+  timeout?: number;
+  retry?: Partial<RetryPolicy>;
+  hedging?: Partial<HedgingPolicy>;
+}
+
+/**
+ * One attempt of a call, started with its own deadline
+ */
+export interface Attempt<T> {
+  response: Promise<T>;
+  /** Cancel an attempt no longer needed; its CANCELLED status is not logged as a failure */
+  cancel(): void;
+}
+
+export type StartAttempt<T> = (deadline: Date) => Attempt<T>;
+
+/**
+ * Status codes worth another attempt
+ */
+const RETRYABLE_STATUS_CODES: ReadonlySet<grpc.status> = new Set([
+  grpc.status.UNAVAILABLE,
+  grpc.status.RESOURCE_EXHAUSTED,
+  grpc.status.DEADLINE_EXCEEDED
+]);
+
+/**
+ * Only idempotent calls are retried: a failed write may still have been applied, e.g. when the
+ * connection dropped after the server received it, so sending it again could apply it twice
+ */
+export function isRetryable(code: grpc.status | undefined, idempotent: boolean): boolean {
+  return idempotent && code !== undefined && RETRYABLE_STATUS_CODES.has(code);
+}
+
+/**
+ * Reads (Get*, Search*) can be sent more than once without changing anything
+ */
+export function isIdempotent(method: string): boolean {
+  return /^(Get|Search)[A-Z]/.test(method);
+}
+
+/**
+ * Read the call config from the environment:
+ * GRPC_TIMEOUT, GRPC_METHOD_TIMEOUTS (GetAllProducts=5000,SearchProducts=10000),
+ * GRPC_MAX_ATTEMPTS, GRPC_INITIAL_BACKOFF, GRPC_MAX_BACKOFF, GRPC_HEDGING_ATTEMPTS and GRPC_HEDGING_DELAY
+ */
+export function loadCallConfig(env: NodeJS.ProcessEnv = process.env): GrpcCallConfig {
+  const methodDeadlinesMs: Record<string, number> = {};
+  (env.GRPC_METHOD_TIMEOUTS || '').split(',').filter(entry => entry.trim()).forEach(entry => {
+    const [method, value] = entry.split('=').map(part => part.trim());
+    methodDeadlinesMs[method] = positiveInteger(`GRPC_METHOD_TIMEOUTS entry '${entry}'`, value);
+  });
+
+  return {
+    deadlineMs: positiveInteger('GRPC_TIMEOUT', env.GRPC_TIMEOUT, 30000),
+    methodDeadlinesMs,
+    retry: {
+      maxAttempts: positiveInteger('GRPC_MAX_ATTEMPTS', env.GRPC_MAX_ATTEMPTS, 4),
+      initialBackoffMs: positiveInteger('GRPC_INITIAL_BACKOFF', env.GRPC_INITIAL_BACKOFF, 100),
+      maxBackoffMs: positiveInteger('GRPC_MAX_BACKOFF', env.GRPC_MAX_BACKOFF, 2000),
+      backoffMultiplier: 2
+    },
+    hedging: {
+      maxAttempts: positiveInteger('GRPC_HEDGING_ATTEMPTS', env.GRPC_HEDGING_ATTEMPTS, 2),
+      delayMs: positiveInteger('GRPC_HEDGING_DELAY', env.GRPC_HEDGING_DELAY, 1000)
+    }
+  };
+}
+
+export function resolveCallPolicy(
+  config: GrpcCallConfig,
+  method: string,
+  overrides: CallPolicyOverrides = {}
+): CallPolicy {
+  return {
+    deadlineMs: overrides.timeout ?? config.methodDeadlinesMs[method] ?? config.deadlineMs,
+    retry: { ...config.retry, ...overrides.retry },
+    hedging: { ...config.hedging, ...overrides.hedging }
+  };
+}
+
+/**
+ * Backoff before the attempt following the given (1-based) failed one: a random delay up to the
+ * exponentially growing cap ("full jitter"), so clients failing together do not retry together
+ */
+export function backoffDelay(retry: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const cap = Math.min(retry.maxBackoffMs, retry.initialBackoffMs * retry.backoffMultiplier ** (attempt - 1));
+  return Math.floor(random() * cap);
+}
+
+/**
+ * Run a call under its policy. Idempotent methods send hedged attempt groups when hedging is
+ * enabled; the retry policy applies on top, with backoff between failed attempts (or groups).
+ * A write sent with an idempotency key is retried like a read, as the server applies it only once,
+ * but never hedged; any other write is sent once.
+ */
+export function callWithPolicy<T>(
+  method: string,
+  start: StartAttempt<T>,
+  policy: CallPolicy,
+  withIdempotencyKey = false
+): Promise<T> {
+  const idempotent = isIdempotent(method);
+  const hedge = idempotent && policy.hedging.maxAttempts > 1;
+  return callWithRetries(hedge ? hedged(start, policy.hedging) : start, policy, idempotent || withIdempotencyKey);
+}
+
+/**
+ * Attempt the call until it succeeds, fails with a status that is not retryable, or runs out of attempts
+ */
+export async function callWithRetries<T>(
+  start: StartAttempt<T>,
+  policy: CallPolicy,
+  idempotent: boolean,
+  sleep: (ms: number) => Promise<void> = wait
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await start(deadlineAfter(policy.deadlineMs)).response;
+    } catch (error) {
+      if (attempt >= policy.retry.maxAttempts || !isRetryable(statusOf(error), idempotent)) throw error;
+      await sleep(backoffDelay(policy.retry, attempt));
+    }
+  }
+}
+
+/**
+ * Turn single attempts into hedged ones: send the first attempt and, while no response has
+ * arrived, another one every hedging delay (right away when one fails with a retryable status),
+ * all under the same deadline. The first response wins and the attempts still in flight are
+ * cancelled; a non-retryable failure, or the failure of the last one, fails the hedged attempt.
+ */
+export function hedged<T>(start: StartAttempt<T>, hedging: HedgingPolicy): StartAttempt<T> {
+  return deadline => {
+    const inFlight = new Set<Attempt<T>>();
+    let timer: NodeJS.Timeout | undefined;
+    let settled = false;
+
+    const finish = () => {
+      settled = true;
+      clearTimeout(timer);
+      inFlight.forEach(attempt => attempt.cancel());
+    };
+
+    const response = new Promise<T>((resolve, reject) => {
+      let sent = 0;
+
+      const send = () => {
+        clearTimeout(timer);
+        sent++;
+        const attempt = start(deadline);
+        inFlight.add(attempt);
+        if (sent < hedging.maxAttempts) {
+          timer = setTimeout(send, hedging.delayMs);
+        }
+
+        attempt.response.then(
+          result => {
+            inFlight.delete(attempt);
+            if (settled) return;
+            finish();
+            resolve(result);
+          },
+          error => {
+            inFlight.delete(attempt);
+            if (settled) return;
+            if (isRetryable(statusOf(error), true) && sent < hedging.maxAttempts) {
+              send();
+            } else if (!isRetryable(statusOf(error), true) || inFlight.size === 0) {
+              finish();
+              reject(error);
+            }
+          }
+        );
+      };
+
+      send();
+    });
+
+    return { response, cancel: finish };
+  };
+}
+
+function statusOf(error: unknown): grpc.status | undefined {
+  return (error as Partial<grpc.ServiceError> | undefined)?.code;
+}
+
+function deadlineAfter(ms: number): Date {
+  return new Date(Date.now() + ms);
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a config value; an unset value falls back to the default (and is an error without one)
+ */
+function positiveInteger(name: string, value: string | undefined, fallback?: number): number {
+  if ((value === undefined || value === '') && fallback !== undefined) return fallback;
+  const parsed = Number(value);
+  if (!value || !Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${name}: expected a positive integer, got '${value}'`);
+  }
+  return parsed;
+}
@@ -2,22 +2,192 @@ import * as grpc from '@grpc/grpc-js';
 import * as protoLoader from '@grpc/proto-loader';
 import * as path from 'path';
 import dotenv from 'dotenv';
+import {
+  Attempt, CallPolicyOverrides, GrpcCallConfig, callWithPolicy, loadCallConfig, resolveCallPolicy
+} from './GrpcCallPolicy';
+import { loggingInterceptor } from './GrpcInterceptors';
+import { AUTHORIZATION_HEADER, apiKeyFromEnv, bearer } from './GrpcAuth';
+import { toGrpcError } from './GrpcErrors';
+import { IDEMPOTENCY_KEY_HEADER } from './Idempotency';
+import { UserServiceService } from '../proto/generated/user';
+import { ProductServiceService } from '../proto/generated/product';
+import { OrderServiceService } from '../proto/generated/order';
+import { CartServiceService } from '../proto/generated/cart';
 
 // Load environment variables
 dotenv.config();
 
+/**
+ * Method definition of a ts-proto generated *Service object
+ */
+interface MethodDefinition {
+  requestStream: boolean;
+  responseStream: boolean;
+  requestSerialize: (value: any) => Buffer;
+  responseDeserialize: (value: Buffer) => any;
+}
+
+type RequestOf<D> = D extends { requestSerialize: (value: infer Request) => Buffer } ? Request : never;
+type ResponseOf<D> = D extends { responseDeserialize: (value: Buffer) => infer Response } ? Response : never;
+type RequestType<M> = M extends { request: infer Request } ? Request : never;
+type ResponseType<M> = M extends { response: infer Response } ? Response : never;
+
+/**
+ * RPCs of a service with the given streaming shape, keyed by their proto name (e.g. 'CreateUser'),
+ * derived from the ts-proto generated *Service definition
+ */
+type MethodsOf<S, RequestStream extends boolean, ResponseStream extends boolean> = {
+  [K in keyof S as S[K] extends { requestStream: RequestStream; responseStream: ResponseStream }
+    ? Capitalize<string & K>
+    : never]: { request: RequestOf<S[K]>; response: ResponseOf<S[K]> };
+};
+
+export type UnaryMethods<S> = MethodsOf<S, false, false>;
+export type ClientStreamingMethods<S> = MethodsOf<S, true, false>;
+export type ServerStreamingMethods<S> = MethodsOf<S, false, true>;
+export type BidiStreamingMethods<S> = MethodsOf<S, true, true>;
+
+export type UserServiceMethods = typeof UserServiceService;
+export type ProductServiceMethods = typeof ProductServiceService;
+export type OrderServiceMethods = typeof OrderServiceService;
+export type CartServiceMethods = typeof CartServiceService;
+
+type ServiceDefinition = Record<string, MethodDefinition>;
+
+/**
+ * Client stub created by proto-loader, typed with the generated request/response messages
+ */
+export type ServiceClient<S extends ServiceDefinition> = grpc.Client & {
+  [K in keyof UnaryMethods<S>]: (
+    request: RequestType<UnaryMethods<S>[K]>,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: (error: grpc.ServiceError | null, response: ResponseType<UnaryMethods<S>[K]>) => void
+  ) => grpc.ClientUnaryCall;
+} & {
+  [K in keyof ClientStreamingMethods<S>]: (
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: (error: grpc.ServiceError | null, response: ResponseType<ClientStreamingMethods<S>[K]>) => void
+  ) => grpc.ClientWritableStream<RequestType<ClientStreamingMethods<S>[K]>>;
+} & {
+  [K in keyof ServerStreamingMethods<S>]: (
+    request: RequestType<ServerStreamingMethods<S>[K]>,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions
+  ) => grpc.ClientReadableStream<ResponseType<ServerStreamingMethods<S>[K]>>;
+} & {
+  [K in keyof BidiStreamingMethods<S>]: (
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions
+  ) => grpc.ClientDuplexStream<RequestType<BidiStreamingMethods<S>[K]>, ResponseType<BidiStreamingMethods<S>[K]>>;
+};
+
+export interface GrpcClientOptions {
+  /** Bearer token sent with every call; defaults to GRPC_AUTH_TOKEN, else the service API key */
+  authToken?: string;
+}
+
+/**
+ * Credentials of a single call, replacing those of the client ('' sends none)
+ */
+export interface CallCredentials {
+  authToken?: string;
+}
+
+/**
+ * Options of the streaming helpers; streams have no deadline unless a timeout is given
+ */
+export interface StreamOptions extends CallCredentials {
+  timeout?: number;
+  /** Aborting cancels the call; pending reads then reject with a CANCELLED status error */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options of executeCall; anything left out comes from the environment's call config.
+ * The idempotency key is sent with every attempt of the call (see Idempotency.ts).
+ */
+export type UnaryCallOptions = CallPolicyOverrides & CallCredentials & { idempotencyKey?: string };
+
+/**
+ * Handle on an open bidirectional stream
+ */
+export interface BidiStream<Request, Response> extends AsyncIterable<Response> {
+  /** Write a message, resolving once the stream can take more (backpressure) */
+  send(message: Request): Promise<void>;
+  /** Half-close: no more messages will be sent, responses keep arriving */
+  end(): void;
+  cancel(): void;
+}
+
+function callOptions(options: StreamOptions, interceptors: grpc.Interceptor[]): grpc.CallOptions {
+  return options.timeout === undefined
+    ? { interceptors }
+    : { interceptors, deadline: Date.now() + options.timeout };
+}
+
+/**
+ * Cancel the call when the signal aborts; returns a function removing the listener
+ */
+function cancelOnAbort(call: grpc.Call, signal?: AbortSignal): () => void {
+  if (!signal) return () => {};
+  if (signal.aborted) {
+    call.cancel();
+    return () => {};
+  }
+
+  const onAbort = () => call.cancel();
+  signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
+
+/**
+ * Iterate over a stream's messages, failing with the typed GrpcError of its status
+ */
+async function* typedErrors<T>(stream: AsyncIterable<T>): AsyncGenerator<T> {
+  try {
+    yield* stream;
+  } catch (error) {
+    throw toGrpcError(error);
+  }
+}
+
+/**
+ * Write one message, waiting for 'drain' when the stream's buffer is full
+ */
+function write<T>(call: grpc.ClientWritableStream<T>, message: T): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const flushed = call.write(message, (error?: Error | null) => {
+      if (error) reject(error);
+    });
+    if (flushed) {
+      resolve();
+    } else {
+      call.once('drain', () => resolve());
+    }
+  });
+}
+
 /**
  * gRPC Client Manager
  * Handles gRPC connections and provides a clean interface for service operations
  */
 export class GrpcClient {
-  private static instance: GrpcClient;
+  private static instance: GrpcClient | undefined;
   private client: grpc.Client | null = null;
-  private userService: any;
-  private productService: any;
-  private orderService: any;
+  private userService: ServiceClient<UserServiceMethods> | undefined;
+  private productService: ServiceClient<ProductServiceMethods> | undefined;
+  private orderService: ServiceClient<OrderServiceMethods> | undefined;
+  private cartService: ServiceClient<CartServiceMethods> | undefined;
+  private readonly callConfig: GrpcCallConfig = loadCallConfig();
+  private readonly interceptors: grpc.Interceptor[] = [
+    loggingInterceptor({ verbose: process.env.GRPC_LOG_LEVEL === 'debug' })
+  ];
+  private readonly authToken: string;
 
-  private constructor() {
+  private constructor(options: GrpcClientOptions = {}) {
+    this.authToken = options.authToken ?? (process.env.GRPC_AUTH_TOKEN || apiKeyFromEnv());
     this.initializeServices();
   }
 
@@ -31,6 +201,14 @@ export class GrpcClient {
     return GrpcClient.instance;
   }
 
+  /**
+   * Create a separate client with its own connections and credentials, e.g. acting as a signed-in user.
+   * Close it when done; closing does not affect the shared instance.
+   */
+  public static create(options: GrpcClientOptions): GrpcClient {
+    return new GrpcClient(options);
+  }
+
   /**
    * Initialize gRPC services
    */
@@ -92,6 +270,23 @@ export class GrpcClient {
         grpc.credentials.createInsecure()
       );
 
+      // Load Cart service
+      const cartPackageDefinition = protoLoader.loadSync(
+        path.join(protoPath, 'cart.proto'),
+        {
+          keepCase: true,
+          longs: String,
+          enums: String,
+          defaults: true,
+          oneofs: true
+        }
+      );
+      const cartProto = grpc.loadPackageDefinition(cartPackageDefinition) as any;
+      this.cartService = new cartProto.cart.CartService(
+        address,
+        grpc.credentials.createInsecure()
+      );
+
       console.log(`gRPC services initialized at ${address}`);
     } catch (error) {
       console.error('Failed to initialize gRPC services:', error);
@@ -102,7 +297,7 @@ export class GrpcClient {
   /**
    * Get User service
    */
-  public getUserService(): any {
+  public getUserService(): ServiceClient<UserServiceMethods> {
     if (!this.userService) {
       throw new Error('User service not initialized');
     }
@@ -112,7 +307,7 @@ export class GrpcClient {
   /**
    * Get Product service
    */
-  public getProductService(): any {
+  public getProductService(): ServiceClient<ProductServiceMethods> {
     if (!this.productService) {
       throw new Error('Product service not initialized');
     }
@@ -122,7 +317,7 @@ export class GrpcClient {
   /**
    * Get Order service
    */
-  public getOrderService(): any {
+  public getOrderService(): ServiceClient<OrderServiceMethods> {
     if (!this.orderService) {
       throw new Error('Order service not initialized');
     }
@@ -130,35 +325,152 @@ export class GrpcClient {
   }
 
   /**
-   * Execute gRPC call with timeout and error handling
+   * Get Cart service
    */
-  public async executeCall<T>(
-    service: any,
-    method: string,
-    request: any,
-    timeout: number = 30000
-  ): Promise<T> {
-    return new Promise<T>((resolve, reject) => {
-      const deadline = new Date();
-      deadline.setMilliseconds(deadline.getMilliseconds() + timeout);
+  public getCartService(): ServiceClient<CartServiceMethods> {
+    if (!this.cartService) {
+      throw new Error('Cart service not initialized');
+    }
+    return this.cartService;
+  }
 
-      const metadata = new grpc.Metadata();
-      metadata.add('timeout', timeout.toString());
+  /**
+   * Add interceptors to the end of the chain (innermost, closest to the network) for all calls
+   * started from now on; returns a function removing them again
+   */
+  public use(...interceptors: grpc.Interceptor[]): () => void {
+    this.interceptors.push(...interceptors);
+    return () => {
+      interceptors.forEach(interceptor => {
+        const index = this.interceptors.indexOf(interceptor);
+        if (index !== -1) this.interceptors.splice(index, 1);
+      });
+    };
+  }
 
-      service[method](
-        request,
-        metadata,
-        { deadline },
-        (error: any, response: T) => {
+  /**
+   * Execute a unary gRPC call under its call policy: each attempt gets the method's deadline,
+   * reads are hedged, and reads and calls with an idempotency key retried with backoff on transient statuses.
+   * A failed call rejects with the GrpcError subclass of its status (see GrpcErrors.ts).
+   */
+  public async executeCall<S extends ServiceDefinition, K extends keyof UnaryMethods<S> & string>(
+    service: ServiceClient<S>,
+    method: K,
+    request: RequestType<UnaryMethods<S>[K]>,
+    options: UnaryCallOptions = {}
+  ): Promise<ResponseType<UnaryMethods<S>[K]>> {
+    const attempt = (deadline: Date): Attempt<ResponseType<UnaryMethods<S>[K]>> => {
+      let call!: grpc.ClientUnaryCall;
+      const response = new Promise<ResponseType<UnaryMethods<S>[K]>>((resolve, reject) => {
+        const metadata = this.metadata(options.authToken, options.idempotencyKey);
+        call = service[method](request, metadata, { deadline, interceptors: [...this.interceptors] }, (error, result) => {
           if (error) {
-            console.error(`gRPC call failed for ${method}:`, error);
-            reject(error);
+            reject(toGrpcError(error));
           } else {
-            resolve(response);
+            resolve(result);
           }
+        });
+      });
+      return { response, cancel: () => call.cancel() };
+    };
+
+    const policy = resolveCallPolicy(this.callConfig, method, options);
+    return await callWithPolicy(method, attempt, policy, options.idempotencyKey !== undefined);
+  }
+
+  /**
+   * Call a server-streaming RPC and iterate over its responses.
+   * Responses are only read as fast as the loop consumes them; leaving the loop early cancels the call.
+   */
+  public async *serverStream<S extends ServiceDefinition, K extends keyof ServerStreamingMethods<S> & string>(
+    service: ServiceClient<S>,
+    method: K,
+    request: RequestType<ServerStreamingMethods<S>[K]>,
+    options: StreamOptions = {}
+  ): AsyncGenerator<ResponseType<ServerStreamingMethods<S>[K]>> {
+    const call = service[method](request, this.metadata(options.authToken), callOptions(options, [...this.interceptors]));
+    const detach = cancelOnAbort(call, options.signal);
+    let finished = false;
+
+    try {
+      for await (const response of typedErrors(call)) {
+        yield response;
+      }
+      finished = true;
+    } finally {
+      detach();
+      if (!finished) call.cancel();
+    }
+  }
+
+  /**
+   * Call a client-streaming RPC, writing every request (waiting for the stream to drain when
+   * its buffer is full) and resolving with the single response
+   */
+  public async clientStream<S extends ServiceDefinition, K extends keyof ClientStreamingMethods<S> & string>(
+    service: ServiceClient<S>,
+    method: K,
+    requests: Iterable<RequestType<ClientStreamingMethods<S>[K]>> | AsyncIterable<RequestType<ClientStreamingMethods<S>[K]>>,
+    options: StreamOptions = {}
+  ): Promise<ResponseType<ClientStreamingMethods<S>[K]>> {
+    let detach = () => {};
+    const response = new Promise<ResponseType<ClientStreamingMethods<S>[K]>>((resolve, reject) => {
+      const metadata = this.metadata(options.authToken);
+      const call = service[method](metadata, callOptions(options, [...this.interceptors]), (error, result) => {
+        detach();
+        if (error) {
+          reject(toGrpcError(error));
+        } else {
+          resolve(result);
         }
-      );
+      });
+      detach = cancelOnAbort(call, options.signal);
+
+      (async () => {
+        for await (const request of requests) {
+          if (call.writableEnded || call.destroyed) return;
+          await write(call, request);
+        }
+        call.end();
+      })().catch(error => {
+        call.cancel();
+        reject(error);
+      });
     });
+
+    return await response;
+  }
+
+  /**
+   * Open a bidirectional-streaming RPC; send() writes with backpressure and the returned
+   * handle iterates over the server's messages until the server ends the stream
+   */
+  public bidiStream<S extends ServiceDefinition, K extends keyof BidiStreamingMethods<S> & string>(
+    service: ServiceClient<S>,
+    method: K,
+    options: StreamOptions = {}
+  ): BidiStream<RequestType<BidiStreamingMethods<S>[K]>, ResponseType<BidiStreamingMethods<S>[K]>> {
+    const call = service[method](this.metadata(options.authToken), callOptions(options, [...this.interceptors]));
+    const detach = cancelOnAbort(call, options.signal);
+    call.on('close', detach);
+
+    return {
+      send: message => write(call, message),
+      end: () => call.end(),
+      cancel: () => call.cancel(),
+      [Symbol.asyncIterator]: () => typedErrors(call)
+    };
+  }
+
+  /**
+   * Call metadata carrying the call's credentials, or else the client's, and its idempotency key
+   */
+  private metadata(authToken?: string, idempotencyKey?: string): grpc.Metadata {
+    const metadata = new grpc.Metadata();
+    const token = authToken ?? this.authToken;
+    if (token) metadata.set(AUTHORIZATION_HEADER, bearer(token));
+    if (idempotencyKey !== undefined) metadata.set(IDEMPOTENCY_KEY_HEADER, idempotencyKey);
+    return metadata;
   }
 
   /**
@@ -170,7 +482,7 @@ export class GrpcClient {
       const userService = this.getUserService();
       const request = { page: 1, limit: 1 };
       
-      await this.executeCall(userService, 'GetAllUsers', request, 5000);
+      await this.executeCall(userService, 'GetAllUsers', request, { timeout: 5000 });
       console.log('gRPC connection test successful');
       return true;
     } catch (error) {
@@ -192,6 +504,13 @@ export class GrpcClient {
     if (this.orderService) {
       this.orderService.close();
     }
+    if (this.cartService) {
+      this.cartService.close();
+    }
+    // Closed channels cannot be reused, so the next getInstance() call opens fresh ones
+    if (GrpcClient.instance === this) {
+      GrpcClient.instance = undefined;
+    }
     console.log('gRPC connections closed');
   }
 
@@ -202,11 +521,13 @@ export class GrpcClient {
     userService: boolean;
     productService: boolean;
     orderService: boolean;
+    cartService: boolean;
   } {
     return {
       userService: !!this.userService,
       productService: !!this.productService,
-      orderService: !!this.orderService
+      orderService: !!this.orderService,
+      cartService: !!this.cartService
     };
   }
 } 
\ No newline at end of file
@@ -0,0 +1,195 @@
+import * as grpc from '@grpc/grpc-js';
+import {
+  BadRequest, BadRequest_FieldViolation, PreconditionFailure, PreconditionFailure_Violation, ResourceInfo, Status
+} from '../proto/generated/error_details';
+import { Any } from '../proto/generated/google/protobuf/any';
+
+/**
+ * gRPC Errors
+ * The error model shared by the server and GrpcClient: a failed call has a status code and message
+ * and may carry a google.rpc.Status with detail messages (BadRequest, PreconditionFailure,
+ * ResourceInfo) in its grpc-status-details-bin trailer. GrpcClient rejects with the GrpcError
+ * subclass of the status code, with the details decoded.
+ */
+
+export const STATUS_DETAILS_KEY = 'grpc-status-details-bin';
+
+/**
+ * The detail messages a status can carry, at most one of each
+ */
+export interface ErrorDetails {
+  badRequest?: BadRequest;
+  preconditionFailure?: PreconditionFailure;
+  resourceInfo?: ResourceInfo;
+}
+
+const TYPE_URL_PREFIX = 'type.googleapis.com/google.rpc.';
+
+/**
+ * Trailing metadata carrying the status and its details, for a server to send with the status
+ */
+export function statusDetailsMetadata(code: grpc.status, message: string, details: ErrorDetails): grpc.Metadata {
+  const packed: Any[] = [];
+  if (details.badRequest) {
+    packed.push(pack('BadRequest', BadRequest.encode(details.badRequest).finish()));
+  }
+  if (details.preconditionFailure) {
+    packed.push(pack('PreconditionFailure', PreconditionFailure.encode(details.preconditionFailure).finish()));
+  }
+  if (details.resourceInfo) {
+    packed.push(pack('ResourceInfo', ResourceInfo.encode(details.resourceInfo).finish()));
+  }
+
+  const metadata = new grpc.Metadata();
+  metadata.set(STATUS_DETAILS_KEY, Buffer.from(Status.encode({ code, message, details: packed }).finish()));
+  return metadata;
+}
+
+/**
+ * The details in a status's trailing metadata; detail types this module does not know are skipped
+ */
+export function decodeStatusDetails(metadata?: grpc.Metadata): ErrorDetails {
+  const [encoded] = metadata?.get(STATUS_DETAILS_KEY) || [];
+  if (!Buffer.isBuffer(encoded)) return {};
+
+  const details: ErrorDetails = {};
+  Status.decode(encoded).details.forEach(({ type_url, value }) => {
+    switch (type_url.slice(TYPE_URL_PREFIX.length)) {
+      case 'BadRequest':
+        details.badRequest = BadRequest.decode(value);
+        break;
+      case 'PreconditionFailure':
+        details.preconditionFailure = PreconditionFailure.decode(value);
+        break;
+      case 'ResourceInfo':
+        details.resourceInfo = ResourceInfo.decode(value);
+        break;
+    }
+  });
+  return details;
+}
+
+function pack(type: string, value: Uint8Array): Any {
+  return { type_url: `${TYPE_URL_PREFIX}${type}`, value: Buffer.from(value) };
+}
+
+/**
+ * A failed call, with the details its status carried
+ */
+export class GrpcError extends Error implements grpc.ServiceError {
+  readonly code: grpc.status;
+  readonly details: string;
+  readonly metadata: grpc.Metadata;
+  readonly statusDetails: ErrorDetails;
+
+  constructor(error: grpc.ServiceError) {
+    super(error.message);
+    this.name = 'GrpcError';
+    this.code = error.code;
+    this.details = error.details;
+    this.metadata = error.metadata || new grpc.Metadata();
+    this.statusDetails = decodeStatusDetails(this.metadata);
+  }
+}
+
+/**
+ * INVALID_ARGUMENT, with one violation per invalid field
+ */
+export class InvalidArgumentError extends GrpcError {
+  readonly fieldViolations: BadRequest_FieldViolation[];
+
+  constructor(error: grpc.ServiceError) {
+    super(error);
+    this.name = 'InvalidArgumentError';
+    this.fieldViolations = this.statusDetails.badRequest?.field_violations || [];
+  }
+}
+
+/**
+ * NOT_FOUND, naming the missing resource
+ */
+export class NotFoundError extends GrpcError {
+  readonly resource?: ResourceInfo;
+
+  constructor(error: grpc.ServiceError) {
+    super(error);
+    this.name = 'NotFoundError';
+    this.resource = this.statusDetails.resourceInfo;
+  }
+}
+
+/**
+ * ALREADY_EXISTS, naming the resource the call would have duplicated
+ */
+export class AlreadyExistsError extends GrpcError {
+  readonly resource?: ResourceInfo;
+
+  constructor(error: grpc.ServiceError) {
+    super(error);
+    this.name = 'AlreadyExistsError';
+    this.resource = this.statusDetails.resourceInfo;
+  }
+}
+
+/**
+ * FAILED_PRECONDITION, with the unmet conditions
+ */
+export class FailedPreconditionError extends GrpcError {
+  readonly violations: PreconditionFailure_Violation[];
+
+  constructor(error: grpc.ServiceError) {
+    super(error);
+    this.name = 'FailedPreconditionError';
+    this.violations = this.statusDetails.preconditionFailure?.violations || [];
+  }
+}
+
+/**
+ * ABORTED, e.g. an update whose expected version is no longer current; read again and retry on top of it
+ */
+export class AbortedError extends GrpcError {
+  readonly violations: PreconditionFailure_Violation[];
+
+  constructor(error: grpc.ServiceError) {
+    super(error);
+    this.name = 'AbortedError';
+    this.violations = this.statusDetails.preconditionFailure?.violations || [];
+  }
+}
+
+export class UnauthenticatedError extends GrpcError {
+  constructor(error: grpc.ServiceError) {
+    super(error);
+    this.name = 'UnauthenticatedError';
+  }
+}
+
+export class PermissionDeniedError extends GrpcError {
+  constructor(error: grpc.ServiceError) {
+    super(error);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+const ERROR_CLASSES: Partial<Record<grpc.status, new (error: grpc.ServiceError) => GrpcError>> = {
+  [grpc.status.INVALID_ARGUMENT]: InvalidArgumentError,
+  [grpc.status.NOT_FOUND]: NotFoundError,
+  [grpc.status.ALREADY_EXISTS]: AlreadyExistsError,
+  [grpc.status.FAILED_PRECONDITION]: FailedPreconditionError,
+  [grpc.status.ABORTED]: AbortedError,
+  [grpc.status.UNAUTHENTICATED]: UnauthenticatedError,
+  [grpc.status.PERMISSION_DENIED]: PermissionDeniedError
+};
+
+/**
+ * The typed error for a status error of a call; anything else is returned as is
+ */
+export function toGrpcError(error: unknown): unknown {
+  if (error instanceof GrpcError || !isServiceError(error)) return error;
+  const ErrorClass = ERROR_CLASSES[error.code] || GrpcError;
+  return new ErrorClass(error);
+}
+
+function isServiceError(error: unknown): error is grpc.ServiceError {
+  return error instanceof Error && typeof (error as Partial<grpc.ServiceError>).code === 'number';
+}
@@ -0,0 +1,176 @@
+import * as grpc from '@grpc/grpc-js';
+import { AUTHORIZATION_HEADER, bearer } from './GrpcAuth';
+
+/**
+ * gRPC Client Interceptors
+ * Building blocks for the interceptor chain of GrpcClient: structured logging with field redaction,
+ * bearer-token auth metadata, call timing and status error mapping. Interceptors run for every
+ * attempt of every call kind (unary and streaming); the first one in the chain is the outermost.
+ */
+
+/**
+ * Fields whose values never reach the logs, matched case-insensitively at any depth
+ */
+export const DEFAULT_REDACTED_FIELDS: readonly string[] = ['password', 'token', 'authorization'];
+
+export const REDACTED = '[REDACTED]';
+
+export interface CallLogEntry {
+  method: string;
+  event: 'request' | 'metadata' | 'response' | 'status';
+  message?: unknown;
+  metadata?: Record<string, unknown>;
+  code?: string;
+  details?: string;
+  durationMs?: number;
+}
+
+export interface CallLogger {
+  info(entry: CallLogEntry): void;
+  error(entry: CallLogEntry): void;
+}
+
+export interface LoggingOptions {
+  /** Also log requests, responses and successful statuses; failed statuses are always logged */
+  verbose?: boolean;
+  redact?: readonly string[];
+  logger?: CallLogger;
+}
+
+export interface CallTiming {
+  method: string;
+  code: grpc.status;
+  durationMs: number;
+}
+
+const consoleLogger: CallLogger = {
+  info: entry => console.log('gRPC call', entry),
+  error: entry => console.error('gRPC call failed', entry)
+};
+
+/**
+ * Copy of a message with the values of redacted fields replaced, at any depth
+ */
+export function redact(value: unknown, fields: readonly string[] = DEFAULT_REDACTED_FIELDS): unknown {
+  const hidden = new Set(fields.map(field => field.toLowerCase()));
+  const visit = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(visit);
+    if (node === null || typeof node !== 'object' || node instanceof Date || Buffer.isBuffer(node)) return node;
+
+    return Object.fromEntries(Object.entries(node).map(([key, child]) =>
+      [key, hidden.has(key.toLowerCase()) ? REDACTED : visit(child)]
+    ));
+  };
+  return visit(value);
+}
+
+/**
+ * Log each call as structured entries keyed by the method path; failed statuses go to logger.error.
+ * A call the client cancelled itself, such as a hedged attempt that lost (see GrpcCallPolicy.ts),
+ * did not fail, so its CANCELLED status is logged like a success.
+ */
+export function loggingInterceptor(options: LoggingOptions = {}): grpc.Interceptor {
+  const logger = options.logger || consoleLogger;
+  const fields = options.redact || DEFAULT_REDACTED_FIELDS;
+
+  return (callOptions, nextCall) => {
+    const method = callOptions.method_definition.path;
+    const startedAt = Date.now();
+    let cancelledByClient = false;
+
+    return new grpc.InterceptingCall(nextCall(callOptions), {
+      start(metadata, listener, next) {
+        if (options.verbose) {
+          logger.info({ method, event: 'metadata', metadata: redact(metadata.getMap(), fields) as Record<string, unknown> });
+        }
+        next(metadata, {
+          onReceiveMessage(message, nextMessage) {
+            if (options.verbose) logger.info({ method, event: 'response', message: redact(message, fields) });
+            nextMessage(message);
+          },
+          onReceiveStatus(status, nextStatus) {
+            const entry: CallLogEntry = {
+              method,
+              event: 'status',
+              code: grpc.status[status.code],
+              details: status.details,
+              durationMs: Date.now() - startedAt
+            };
+            if (status.code !== grpc.status.OK && !cancelledByClient) {
+              logger.error(entry);
+            } else if (options.verbose) {
+              logger.info(entry);
+            }
+            nextStatus(status);
+          }
+        });
+      },
+      sendMessage(message, next) {
+        if (options.verbose) logger.info({ method, event: 'request', message: redact(message, fields) });
+        next(message);
+      },
+      cancel(next) {
+        cancelledByClient = true;
+        next();
+      }
+    });
+  };
+}
+
+/**
+ * Send `authorization: Bearer <token>` with calls that carry no credentials yet;
+ * no header is added while the provider returns nothing
+ */
+export function authInterceptor(token: () => string | undefined): grpc.Interceptor {
+  return (callOptions, nextCall) => new grpc.InterceptingCall(nextCall(callOptions), {
+    start(metadata, listener, next) {
+      const value = token();
+      if (value && metadata.get(AUTHORIZATION_HEADER).length === 0) {
+        metadata.set(AUTHORIZATION_HEADER, bearer(value));
+      }
+      next(metadata, listener);
+    }
+  });
+}
+
+/**
+ * Report the duration and final status of every call
+ */
+export function timingInterceptor(record: (timing: CallTiming) => void): grpc.Interceptor {
+  return (callOptions, nextCall) => {
+    const startedAt = process.hrtime.bigint();
+
+    return new grpc.InterceptingCall(nextCall(callOptions), {
+      start(metadata, listener, next) {
+        next(metadata, {
+          onReceiveStatus(status, nextStatus) {
+            record({
+              method: callOptions.method_definition.path,
+              code: status.code,
+              durationMs: Number(process.hrtime.bigint() - startedAt) / 1e6
+            });
+            nextStatus(status);
+          }
+        });
+      }
+    });
+  };
+}
+
+/**
+ * Rewrite failed statuses before they reach the caller (and the interceptors further out);
+ * successful statuses pass through unchanged
+ */
+export function errorMappingInterceptor(
+  map: (status: grpc.StatusObject, method: string) => grpc.StatusObject
+): grpc.Interceptor {
+  return (callOptions, nextCall) => new grpc.InterceptingCall(nextCall(callOptions), {
+    start(metadata, listener, next) {
+      next(metadata, {
+        onReceiveStatus(status, nextStatus) {
+          nextStatus(status.code === grpc.status.OK ? status : map(status, callOptions.method_definition.path));
+        }
+      });
+    }
+  });
+}
@@ -1,16 +1,58 @@
-import { GrpcClient } from './GrpcClient';
+import { randomUUID } from 'crypto';
+import { BidiStream, GrpcClient, StreamOptions } from './GrpcClient';
 import { DatabaseTestData } from './DatabaseTestData';
-import { STATUS } from './constants';
+import { toOrderStatusMessage } from './OrderStatusMapping';
+import { AuditLogResponse } from '../proto/generated/audit';
+import {
+  User as UserMessage,
+  CreateUserRequest,
+  UpdateUserRequest,
+  UserResponse,
+  GetAllUsersResponse,
+  DeleteUserResponse,
+  BulkCreateUsersResponse,
+  LoginResponse
+} from '../proto/generated/user';
+import {
+  Product as ProductMessage,
+  CreateProductRequest,
+  UpdateProductRequest,
+  SearchProductsRequest,
+  ProductSortOrder,
+  ProductResponse,
+  GetAllProductsResponse,
+  DeleteProductResponse,
+  StreamProductsRequest,
+  BulkCreateProductsResponse
+} from '../proto/generated/product';
+import {
+  Order as OrderMessage,
+  OrderStatus,
+  CreateOrderRequest,
+  AddOrderItemRequest,
+  OrderResponse,
+  GetAllOrdersResponse,
+  DeleteOrderResponse,
+  OrderItemResponse,
+  GetOrderItemsResponse,
+  RemoveOrderItemResponse,
+  StreamOrdersRequest,
+  OrderEventRequest,
+  OrderEvent
+} from '../proto/generated/order';
+import { CartResponse, CheckoutRequest, CheckoutResponse } from '../proto/generated/cart';
 
 /**
  * gRPC Service Layer
- * Provides CRUD operations for all entities using gRPC
+ * Provides CRUD operations for all entities using gRPC.
+ * Calls go through the shared GrpcClient (with the service credentials) unless another client,
+ * e.g. GrpcClient.create({ authToken }) for a signed-in user, is passed in.
  */
 export class GrpcService {
   private grpcClient: GrpcClient;
 
-  constructor() {
-    this.grpcClient = GrpcClient.getInstance();
+  constructor(grpcClient: GrpcClient = GrpcClient.getInstance()) {
+    this.grpcClient = grpcClient;
   }
 
   // ==================== USER CRUD OPERATIONS ====================
@@ -18,125 +60,116 @@ export class GrpcService {
   /**
    * Create a new user via gRPC
    */
-  async createUser(userData: any): Promise<any> {
-    try {
-      const userService = this.grpcClient.getUserService();
-      const request = {
-        username: userData.username,
-        email: userData.email,
-        password: userData.password,
-        first_name: userData.first_name,
-        last_name: userData.last_name,
-        phone: userData.phone || '',
-        address: userData.address || '',
-        city: userData.city || '',
-        state: userData.state || '',
-        zip_code: userData.zip_code || '',
-        country: userData.country || ''
-      };
-
-      const response = await this.grpcClient.executeCall(userService, 'CreateUser', request);
-      console.log(`User created via gRPC: ${userData.username}`);
-      return response;
-    } catch (error) {
-      console.error('Failed to create user via gRPC:', error);
-      throw error;
-    }
+  async createUser(userData: Partial<CreateUserRequest>): Promise<UserResponse> {
+    const userService = this.grpcClient.getUserService();
+    const request = this.toCreateUserRequest(userData);
+
+    const response = await this.grpcClient.executeCall(userService, 'CreateUser', request);
+    console.log(`User created via gRPC: ${userData.username}`);
+    return response;
   }
 
   /**
    * Get user by ID via gRPC
    */
-  async getUserById(id: number): Promise<any> {
-    try {
-      const userService = this.grpcClient.getUserService();
-      const request = { id };
+  async getUserById(id: number): Promise<UserResponse> {
+    const userService = this.grpcClient.getUserService();
+    const request = { id };
 
-      const response = await this.grpcClient.executeCall(userService, 'GetUserById', request);
-      return response;
-    } catch (error) {
-      console.error('Failed to get user by ID via gRPC:', error);
-      throw error;
-    }
+    const response = await this.grpcClient.executeCall(userService, 'GetUserById', request);
+    return response;
   }
 
   /**
    * Get user by email via gRPC
    */
-  async getUserByEmail(email: string): Promise<any> {
-    try {
-      const userService = this.grpcClient.getUserService();
-      const request = { email };
+  async getUserByEmail(email: string): Promise<UserResponse> {
+    const userService = this.grpcClient.getUserService();
+    const request = { email };
 
-      const response = await this.grpcClient.executeCall(userService, 'GetUserByEmail', request);
-      return response;
-    } catch (error) {
-      console.error('Failed to get user by email via gRPC:', error);
-      throw error;
-    }
+    const response = await this.grpcClient.executeCall(userService, 'GetUserByEmail', request);
+    return response;
   }
 
   /**
    * Get all users via gRPC
    */
-  async getAllUsers(page: number = 1, limit: number = 100): Promise<any> {
-    try {
-      const userService = this.grpcClient.getUserService();
-      const request = { page, limit };
-
-      const response = await this.grpcClient.executeCall(userService, 'GetAllUsers', request);
-      return response;
-    } catch (error) {
-      console.error('Failed to get all users via gRPC:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Update user via gRPC
-   */
-  async updateUser(id: number, updates: any): Promise<any> {
-    try {
-      const userService = this.grpcClient.getUserService();
-      const request = {
-        id,
-        username: updates.username || '',
-        email: updates.email || '',
-        password: updates.password || '',
-        first_name: updates.first_name || '',
-        last_name: updates.last_name || '',
-        phone: updates.phone || '',
-        address: updates.address || '',
-        city: updates.city || '',
-        state: updates.state || '',
-        zip_code: updates.zip_code || '',
-        country: updates.country || ''
-      };
-
-      const response = await this.grpcClient.executeCall(userService, 'UpdateUser', request);
-      console.log(`User updated via gRPC: ID ${id}`);
-      return response;
-    } catch (error) {
-      console.error('Failed to update user via gRPC:', error);
-      throw error;
-    }
+  async getAllUsers(page: number = 1, limit: number = 100): Promise<GetAllUsersResponse> {
+    const userService = this.grpcClient.getUserService();
+    const request = { page, limit };
+
+    const response = await this.grpcClient.executeCall(userService, 'GetAllUsers', request);
+    return response;
+  }
+
+  /**
+   * Update user via gRPC; only the fields in updates are changed
+   */
+  async updateUser(id: number, updates: Omit<UpdateUserRequest, 'id'>): Promise<UserResponse> {
+    const userService = this.grpcClient.getUserService();
+    const request: UpdateUserRequest = { ...updates, id };
+
+    const response = await this.grpcClient.executeCall(userService, 'UpdateUser', request);
+    console.log(`User updated via gRPC: ID ${id}`);
+    return response;
   }
 
   /**
    * Delete user via gRPC
    */
-  async deleteUser(id: number): Promise<any> {
-    try {
-      const userService = this.grpcClient.getUserService();
-      const request = { id };
+  async deleteUser(id: number): Promise<DeleteUserResponse> {
+    const userService = this.grpcClient.getUserService();
+    const request = { id };
+
+    const response = await this.grpcClient.executeCall(userService, 'DeleteUser', request);
+    console.log(`User deleted via gRPC: ID ${id}`);
+    return response;
+  }
+
+  /**
+   * Restore a deleted user via gRPC
+   */
+  async restoreUser(id: number): Promise<UserResponse> {
+    const userService = this.grpcClient.getUserService();
+    const request = { id };
+
+    const response = await this.grpcClient.executeCall(userService, 'RestoreUser', request);
+    console.log(`User restored via gRPC: ID ${id}`);
+    return response;
+  }
+
+  /**
+   * Get the audit log of a user via gRPC, oldest change first
+   */
+  async getUserAuditLog(id: number): Promise<AuditLogResponse> {
+    const userService = this.grpcClient.getUserService();
+    const request = { id };
+
+    const response = await this.grpcClient.executeCall(userService, 'GetUserAuditLog', request);
+    return response;
+  }
+
+  /**
+   * Create users over one client stream via gRPC; either all of them are created or none
+   */
+  async bulkCreateUsers(users: Partial<CreateUserRequest>[], options?: StreamOptions): Promise<BulkCreateUsersResponse> {
+    const userService = this.grpcClient.getUserService();
+    const requests = users.map(userData => this.toCreateUserRequest(userData));
+
+    const response = await this.grpcClient.clientStream(userService, 'BulkCreateUsers', requests, options);
+    console.log(`Users created via gRPC: ${response.created}`);
+    return response;
+  }
+
+  /**
+   * Sign in via gRPC; the returned token authenticates calls as this user
+   */
+  async login(email: string, password: string): Promise<LoginResponse> {
+    const userService = this.grpcClient.getUserService();
+    const request = { email, password };
 
-      const response = await this.grpcClient.executeCall(userService, 'DeleteUser', request);
-      console.log(`User deleted via gRPC: ID ${id}`);
-      return response;
-    } catch (error) {
-      console.error('Failed to delete user via gRPC:', error);
-      throw error;
-    }
+    const response = await this.grpcClient.executeCall(userService, 'Login', request);
+    return response;
   }
 
   // ==================== PRODUCT CRUD OPERATIONS ====================
@@ -144,320 +177,413 @@ export class GrpcService {
   /**
    * Create a new product via gRPC
    */
-  async createProduct(productData: any): Promise<any> {
-    try {
-      const productService = this.grpcClient.getProductService();
-      const request = {
-        name: productData.name,
-        description: productData.description,
-        price: productData.price,
-        category: productData.category,
-        brand: productData.brand,
-        stock_quantity: productData.stock_quantity,
-        sku: productData.sku,
-        image_url: productData.image_url || '',
-        is_active: productData.is_active !== undefined ? productData.is_active : true
-      };
-
-      const response = await this.grpcClient.executeCall(productService, 'CreateProduct', request);
-      console.log(`Product created via gRPC: ${productData.name}`);
-      return response;
-    } catch (error) {
-      console.error('Failed to create product via gRPC:', error);
-      throw error;
-    }
+  async createProduct(productData: Partial<CreateProductRequest>): Promise<ProductResponse> {
+    const productService = this.grpcClient.getProductService();
+    const request = this.toCreateProductRequest(productData);
+
+    const response = await this.grpcClient.executeCall(productService, 'CreateProduct', request);
+    console.log(`Product created via gRPC: ${productData.name}`);
+    return response;
   }
 
   /**
    * Get product by ID via gRPC
    */
-  async getProductById(id: number): Promise<any> {
-    try {
-      const productService = this.grpcClient.getProductService();
-      const request = { id };
+  async getProductById(id: number): Promise<ProductResponse> {
+    const productService = this.grpcClient.getProductService();
+    const request = { id };
 
-      const response = await this.grpcClient.executeCall(productService, 'GetProductById', request);
-      return response;
-    } catch (error) {
-      console.error('Failed to get product by ID via gRPC:', error);
-      throw error;
-    }
+    const response = await this.grpcClient.executeCall(productService, 'GetProductById', request);
+    return response;
   }
 
   /**
    * Get product by SKU via gRPC
    */
-  async getProductBySku(sku: string): Promise<any> {
-    try {
-      const productService = this.grpcClient.getProductService();
-      const request = { sku };
+  async getProductBySku(sku: string): Promise<ProductResponse> {
+    const productService = this.grpcClient.getProductService();
+    const request = { sku };
 
-      const response = await this.grpcClient.executeCall(productService, 'GetProductBySku', request);
-      return response;
-    } catch (error) {
-      console.error('Failed to get product by SKU via gRPC:', error);
-      throw error;
-    }
+    const response = await this.grpcClient.executeCall(productService, 'GetProductBySku', request);
+    return response;
   }
 
   /**
    * Get all products via gRPC
    */
-  async getAllProducts(page: number = 1, limit: number = 100): Promise<any> {
-    try {
-      const productService = this.grpcClient.getProductService();
-      const request = { page, limit };
+  async getAllProducts(page: number = 1, limit: number = 100): Promise<GetAllProductsResponse> {
+    const productService = this.grpcClient.getProductService();
+    const request = { page, limit };
 
-      const response = await this.grpcClient.executeCall(productService, 'GetAllProducts', request);
-      return response;
-    } catch (error) {
-      console.error('Failed to get all products via gRPC:', error);
-      throw error;
-    }
+    const response = await this.grpcClient.executeCall(productService, 'GetAllProducts', request);
+    return response;
   }
 
   /**
    * Get products by category via gRPC
    */
-  async getProductsByCategory(category: string, page: number = 1, limit: number = 100): Promise<any> {
-    try {
-      const productService = this.grpcClient.getProductService();
-      const request = { category, page, limit };
+  async getProductsByCategory(category: string, page: number = 1, limit: number = 100): Promise<GetAllProductsResponse> {
+    const productService = this.grpcClient.getProductService();
+    const request = { category, page, limit };
 
-      const response = await this.grpcClient.executeCall(productService, 'GetProductsByCategory', request);
-      return response;
-    } catch (error) {
-      console.error('Failed to get products by category via gRPC:', error);
-      throw error;
-    }
+    const response = await this.grpcClient.executeCall(productService, 'GetProductsByCategory', request);
+    return response;
   }
 
   /**
-   * Update product via gRPC
+   * Search products by free text and filters via gRPC; omitted filters do not apply
    */
-  async updateProduct(id: number, updates: any): Promise<any> {
-    try {
-      const productService = this.grpcClient.getProductService();
-      const request = {
-        id,
-        name: updates.name || '',
-        description: updates.description || '',
-        price: updates.price || 0,
-        category: updates.category || '',
-        brand: updates.brand || '',
-        stock_quantity: updates.stock_quantity || 0,
-        sku: updates.sku || '',
-        image_url: updates.image_url || '',
-        is_active: updates.is_active !== undefined ? updates.is_active : true
-      };
+  async searchProducts(search: Partial<SearchProductsRequest>): Promise<GetAllProductsResponse> {
+    const productService = this.grpcClient.getProductService();
+    const request: SearchProductsRequest = {
+      query: search.query || '',
+      brand: search.brand || '',
+      category: search.category || '',
+      min_price: search.min_price,
+      max_price: search.max_price,
+      in_stock_only: search.in_stock_only || false,
+      is_active: search.is_active,
+      sort: search.sort || ProductSortOrder.PRODUCT_SORT_ORDER_UNSPECIFIED,
+      page: search.page || 1,
+      limit: search.limit || 100
+    };
+
+    const response = await this.grpcClient.executeCall(productService, 'SearchProducts', request);
+    return response;
+  }
 
-      const response = await this.grpcClient.executeCall(productService, 'UpdateProduct', request);
-      console.log(`Product updated via gRPC: ID ${id}`);
-      return response;
-    } catch (error) {
-      console.error('Failed to update product via gRPC:', error);
-      throw error;
-    }
+  /**
+   * Update product via gRPC; only the fields in updates are changed, so 0, '' and false are sent as set
+   */
+  async updateProduct(id: number, updates: Omit<UpdateProductRequest, 'id'>): Promise<ProductResponse> {
+    const productService = this.grpcClient.getProductService();
+    const request: UpdateProductRequest = { ...updates, id };
+
+    const response = await this.grpcClient.executeCall(productService, 'UpdateProduct', request);
+    console.log(`Product updated via gRPC: ID ${id}`);
+    return response;
   }
 
   /**
    * Delete product via gRPC
    */
-  async deleteProduct(id: number): Promise<any> {
-    try {
-      const productService = this.grpcClient.getProductService();
-      const request = { id };
+  async deleteProduct(id: number): Promise<DeleteProductResponse> {
+    const productService = this.grpcClient.getProductService();
+    const request = { id };
 
-      const response = await this.grpcClient.executeCall(productService, 'DeleteProduct', request);
-      console.log(`Product deleted via gRPC: ID ${id}`);
-      return response;
-    } catch (error) {
-      console.error('Failed to delete product via gRPC:', error);
-      throw error;
-    }
+    const response = await this.grpcClient.executeCall(productService, 'DeleteProduct', request);
+    console.log(`Product deleted via gRPC: ID ${id}`);
+    return response;
   }
 
-  // ==================== ORDER CRUD OPERATIONS ====================
+  /**
+   * Restore a deleted product via gRPC
+   */
+  async restoreProduct(id: number): Promise<ProductResponse> {
+    const productService = this.grpcClient.getProductService();
+    const request = { id };
+
+    const response = await this.grpcClient.executeCall(productService, 'RestoreProduct', request);
+    console.log(`Product restored via gRPC: ID ${id}`);
+    return response;
+  }
+
+  /**
+   * Get the audit log of a product via gRPC, oldest change first
+   */
+  async getProductAuditLog(id: number): Promise<AuditLogResponse> {
+    const productService = this.grpcClient.getProductService();
+    const request = { id };
+
+    const response = await this.grpcClient.executeCall(productService, 'GetProductAuditLog', request);
+    return response;
+  }
 
   /**
-   * Create a new order via gRPC
+   * Stream all products (optionally of one category) via gRPC; the server reads them
+   * batch_size rows at a time and the stream is cancelled when the loop exits early
    */
-  async createOrder(orderData: any): Promise<any> {
-    try {
-      const orderService = this.grpcClient.getOrderService();
-      const request = {
-        user_id: orderData.user_id,
-        order_number: orderData.order_number,
-        total_amount: orderData.total_amount,
-        status: orderData.status || STATUS.PENDING,
-        shipping_address: orderData.shipping_address,
-        billing_address: orderData.billing_address,
-        payment_method: orderData.payment_method
-      };
+  streamProducts(request: Partial<StreamProductsRequest> = {}, options?: StreamOptions): AsyncGenerator<ProductMessage> {
+    const productService = this.grpcClient.getProductService();
+    return this.grpcClient.serverStream(productService, 'StreamProducts', {
+      category: request.category || '',
+      batch_size: request.batch_size || 0
+    }, options);
+  }
 
-      const response = await this.grpcClient.executeCall(orderService, 'CreateOrder', request);
-      console.log(`Order created via gRPC: ${orderData.order_number}`);
-      return response;
-    } catch (error) {
-      console.error('Failed to create order via gRPC:', error);
-      throw error;
-    }
+  /**
+   * Create products over one client stream via gRPC; either all of them are created or none
+   */
+  async bulkCreateProducts(
+    products: Partial<CreateProductRequest>[],
+    options?: StreamOptions
+  ): Promise<BulkCreateProductsResponse> {
+    const productService = this.grpcClient.getProductService();
+    const requests = products.map(productData => this.toCreateProductRequest(productData));
+
+    const response = await this.grpcClient.clientStream(productService, 'BulkCreateProducts', requests, options);
+    console.log(`Products created via gRPC: ${response.created}`);
+    return response;
+  }
+
+  // ==================== ORDER CRUD OPERATIONS ====================
+
+  /**
+   * Create a new order via gRPC; calls repeated with the same idempotency key create it only once.
+   * Each call gets a new key unless one is given, so its retries cannot create a second order.
+   */
+  async createOrder(
+    orderData: Partial<CreateOrderRequest>,
+    idempotencyKey: string = randomUUID()
+  ): Promise<OrderResponse> {
+    const orderService = this.grpcClient.getOrderService();
+    const request: CreateOrderRequest = {
+      user_id: orderData.user_id || 0,
+      order_number: orderData.order_number || '',
+      total_amount: orderData.total_amount || 0,
+      status: orderData.status || OrderStatus.ORDER_STATUS_PENDING,
+      shipping_address: orderData.shipping_address || '',
+      billing_address: orderData.billing_address || '',
+      payment_method: orderData.payment_method || ''
+    };
+
+    const response = await this.grpcClient.executeCall(orderService, 'CreateOrder', request, { idempotencyKey });
+    console.log(`Order created via gRPC: ${orderData.order_number}`);
+    return response;
   }
 
   /**
    * Get order by ID via gRPC
    */
-  async getOrderById(id: number): Promise<any> {
-    try {
-      const orderService = this.grpcClient.getOrderService();
-      const request = { id };
+  async getOrderById(id: number): Promise<OrderResponse> {
+    const orderService = this.grpcClient.getOrderService();
+    const request = { id };
 
-      const response = await this.grpcClient.executeCall(orderService, 'GetOrderById', request);
-      return response;
-    } catch (error) {
-      console.error('Failed to get order by ID via gRPC:', error);
-      throw error;
-    }
+    const response = await this.grpcClient.executeCall(orderService, 'GetOrderById', request);
+    return response;
   }
 
   /**
    * Get order by order number via gRPC
    */
-  async getOrderByNumber(orderNumber: string): Promise<any> {
-    try {
-      const orderService = this.grpcClient.getOrderService();
-      const request = { order_number: orderNumber };
+  async getOrderByNumber(orderNumber: string): Promise<OrderResponse> {
+    const orderService = this.grpcClient.getOrderService();
+    const request = { order_number: orderNumber };
 
-      const response = await this.grpcClient.executeCall(orderService, 'GetOrderByNumber', request);
-      return response;
-    } catch (error) {
-      console.error('Failed to get order by number via gRPC:', error);
-      throw error;
-    }
+    const response = await this.grpcClient.executeCall(orderService, 'GetOrderByNumber', request);
+    return response;
   }
 
   /**
    * Get all orders via gRPC
    */
-  async getAllOrders(page: number = 1, limit: number = 100): Promise<any> {
-    try {
-      const orderService = this.grpcClient.getOrderService();
-      const request = { page, limit };
+  async getAllOrders(page: number = 1, limit: number = 100): Promise<GetAllOrdersResponse> {
+    const orderService = this.grpcClient.getOrderService();
+    const request = { page, limit };
 
-      const response = await this.grpcClient.executeCall(orderService, 'GetAllOrders', request);
-      return response;
-    } catch (error) {
-      console.error('Failed to get all orders via gRPC:', error);
-      throw error;
-    }
+    const response = await this.grpcClient.executeCall(orderService, 'GetAllOrders', request);
+    return response;
   }
 
   /**
    * Get orders by user ID via gRPC
    */
-  async getOrdersByUserId(userId: number, page: number = 1, limit: number = 100): Promise<any> {
-    try {
-      const orderService = this.grpcClient.getOrderService();
-      const request = { user_id: userId, page, limit };
+  async getOrdersByUserId(userId: number, page: number = 1, limit: number = 100): Promise<GetAllOrdersResponse> {
+    const orderService = this.grpcClient.getOrderService();
+    const request = { user_id: userId, page, limit };
 
-      const response = await this.grpcClient.executeCall(orderService, 'GetOrdersByUserId', request);
-      return response;
-    } catch (error) {
-      console.error('Failed to get orders by user ID via gRPC:', error);
-      throw error;
-    }
+    const response = await this.grpcClient.executeCall(orderService, 'GetOrdersByUserId', request);
+    return response;
   }
 
   /**
-   * Update order status via gRPC
+   * Update order status via gRPC; with expectedVersion the call fails with ABORTED once the order has moved on
    */
-  async updateOrderStatus(id: number, status: string): Promise<any> {
-    try {
-      const orderService = this.grpcClient.getOrderService();
-      const request = { id, status };
+  async updateOrderStatus(id: number, status: OrderStatus, expectedVersion?: number): Promise<OrderResponse> {
+    const orderService = this.grpcClient.getOrderService();
+    const request = { id, status, expected_version: expectedVersion };
 
-      const response = await this.grpcClient.executeCall(orderService, 'UpdateOrderStatus', request);
-      console.log(`Order status updated via gRPC: ID ${id} to ${status}`);
-      return response;
-    } catch (error) {
-      console.error('Failed to update order status via gRPC:', error);
-      throw error;
-    }
+    const response = await this.grpcClient.executeCall(orderService, 'UpdateOrderStatus', request);
+    console.log(`Order status updated via gRPC: ID ${id} to ${status}`);
+    return response;
   }
 
   /**
    * Delete order via gRPC
    */
-  async deleteOrder(id: number): Promise<any> {
-    try {
-      const orderService = this.grpcClient.getOrderService();
-      const request = { id };
+  async deleteOrder(id: number): Promise<DeleteOrderResponse> {
+    const orderService = this.grpcClient.getOrderService();
+    const request = { id };
 
-      const response = await this.grpcClient.executeCall(orderService, 'DeleteOrder', request);
-      console.log(`Order deleted via gRPC: ID ${id}`);
-      return response;
-    } catch (error) {
-      console.error('Failed to delete order via gRPC:', error);
-      throw error;
-    }
+    const response = await this.grpcClient.executeCall(orderService, 'DeleteOrder', request);
+    console.log(`Order deleted via gRPC: ID ${id}`);
+    return response;
   }
 
-  // ==================== ORDER ITEM OPERATIONS ====================
+  /**
+   * Restore a deleted order via gRPC
+   */
+  async restoreOrder(id: number): Promise<OrderResponse> {
+    const orderService = this.grpcClient.getOrderService();
+    const request = { id };
+
+    const response = await this.grpcClient.executeCall(orderService, 'RestoreOrder', request);
+    console.log(`Order restored via gRPC: ID ${id}`);
+    return response;
+  }
 
   /**
-   * Add order item via gRPC
+   * Get the audit log of a order via gRPC, oldest change first
    */
-  async addOrderItem(orderItemData: any): Promise<any> {
-    try {
-      const orderService = this.grpcClient.getOrderService();
-      const request = {
-        order_id: orderItemData.order_id,
-        product_id: orderItemData.product_id,
-        quantity: orderItemData.quantity,
-        unit_price: orderItemData.unit_price,
-        total_price: orderItemData.total_price
-      };
+  async getOrderAuditLog(id: number): Promise<AuditLogResponse> {
+    const orderService = this.grpcClient.getOrderService();
+    const request = { id };
 
-      const response = await this.grpcClient.executeCall(orderService, 'AddOrderItem', request);
-      console.log(`Order item added via gRPC: Order ${orderItemData.order_id}, Product ${orderItemData.product_id}`);
-      return response;
-    } catch (error) {
-      console.error('Failed to add order item via gRPC:', error);
-      throw error;
-    }
+    const response = await this.grpcClient.executeCall(orderService, 'GetOrderAuditLog', request);
+    return response;
+  }
+
+  // ==================== ORDER ITEM OPERATIONS ====================
+
+  /**
+   * Add order item via gRPC; calls repeated with the same idempotency key add it only once.
+   * Each call gets a new key unless one is given, so its retries cannot add the item twice.
+   */
+  async addOrderItem(
+    orderItemData: AddOrderItemRequest,
+    idempotencyKey: string = randomUUID()
+  ): Promise<OrderItemResponse> {
+    const orderService = this.grpcClient.getOrderService();
+    const request: AddOrderItemRequest = {
+      order_id: orderItemData.order_id,
+      product_id: orderItemData.product_id,
+      quantity: orderItemData.quantity,
+      unit_price: orderItemData.unit_price,
+      total_price: orderItemData.total_price
+    };
+
+    const response = await this.grpcClient.executeCall(orderService, 'AddOrderItem', request, { idempotencyKey });
+    console.log(`Order item added via gRPC: Order ${orderItemData.order_id}, Product ${orderItemData.product_id}`);
+    return response;
   }
 
   /**
    * Get order items via gRPC
    */
-  async getOrderItems(orderId: number): Promise<any> {
-    try {
-      const orderService = this.grpcClient.getOrderService();
-      const request = { order_id: orderId };
+  async getOrderItems(orderId: number): Promise<GetOrderItemsResponse> {
+    const orderService = this.grpcClient.getOrderService();
+    const request = { order_id: orderId };
 
-      const response = await this.grpcClient.executeCall(orderService, 'GetOrderItems', request);
-      return response;
-    } catch (error) {
-      console.error('Failed to get order items via gRPC:', error);
-      throw error;
-    }
+    const response = await this.grpcClient.executeCall(orderService, 'GetOrderItems', request);
+    return response;
   }
 
   /**
    * Remove order item via gRPC
    */
-  async removeOrderItem(id: number): Promise<any> {
-    try {
-      const orderService = this.grpcClient.getOrderService();
-      const request = { id };
+  async removeOrderItem(id: number): Promise<RemoveOrderItemResponse> {
+    const orderService = this.grpcClient.getOrderService();
+    const request = { id };
+
+    const response = await this.grpcClient.executeCall(orderService, 'RemoveOrderItem', request);
+    console.log(`Order item removed via gRPC: ID ${id}`);
+    return response;
+  }
+
+  /**
+   * Stream all orders (optionally of one user and/or status) via gRPC
+   */
+  streamOrders(request: Partial<StreamOrdersRequest> = {}, options?: StreamOptions): AsyncGenerator<OrderMessage> {
+    const orderService = this.grpcClient.getOrderService();
+    return this.grpcClient.serverStream(orderService, 'StreamOrders', {
+      user_id: request.user_id || 0,
+      status: request.status || OrderStatus.ORDER_STATUS_UNSPECIFIED,
+      batch_size: request.batch_size || 0
+    }, options);
+  }
 
-      const response = await this.grpcClient.executeCall(orderService, 'RemoveOrderItem', request);
-      console.log(`Order item removed via gRPC: ID ${id}`);
-      return response;
-    } catch (error) {
-      console.error('Failed to remove order item via gRPC:', error);
-      throw error;
-    }
+  /**
+   * Open the order event channel: send { subscribe: { order_ids } } to receive the events of
+   * those orders (all orders for an empty list) and { update_status } to change an order's status
+   */
+  openOrderEvents(options?: StreamOptions): BidiStream<OrderEventRequest, OrderEvent> {
+    const orderService = this.grpcClient.getOrderService();
+    return this.grpcClient.bidiStream(orderService, 'OrderEvents', options);
+  }
+
+  // ==================== CART OPERATIONS ====================
+
+  /**
+   * Get a user's cart with its totals via gRPC
+   */
+  async getCart(userId: number): Promise<CartResponse> {
+    const cartService = this.grpcClient.getCartService();
+    return await this.grpcClient.executeCall(cartService, 'GetCart', { user_id: userId });
+  }
+
+  /**
+   * Add a product to a user's cart via gRPC
+   */
+  async addToCart(userId: number, productId: number, quantity: number = 1): Promise<CartResponse> {
+    const cartService = this.grpcClient.getCartService();
+    const request = { user_id: userId, product_id: productId, quantity };
+
+    const response = await this.grpcClient.executeCall(cartService, 'AddToCart', request);
+    console.log(`Added to cart via gRPC: User ${userId}, Product ${productId} x ${quantity}`);
+    return response;
+  }
+
+  /**
+   * Set the quantity of a product in a user's cart via gRPC
+   */
+  async updateCartQuantity(userId: number, productId: number, quantity: number): Promise<CartResponse> {
+    const cartService = this.grpcClient.getCartService();
+    const request = { user_id: userId, product_id: productId, quantity };
+
+    const response = await this.grpcClient.executeCall(cartService, 'UpdateQuantity', request);
+    console.log(`Cart quantity updated via gRPC: User ${userId}, Product ${productId} x ${quantity}`);
+    return response;
+  }
+
+  /**
+   * Remove a product from a user's cart via gRPC
+   */
+  async removeFromCart(userId: number, productId: number): Promise<CartResponse> {
+    const cartService = this.grpcClient.getCartService();
+    const request = { user_id: userId, product_id: productId };
+
+    const response = await this.grpcClient.executeCall(cartService, 'RemoveFromCart', request);
+    console.log(`Removed from cart via gRPC: User ${userId}, Product ${productId}`);
+    return response;
+  }
+
+  /**
+   * Empty a user's cart via gRPC
+   */
+  async clearCart(userId: number): Promise<CartResponse> {
+    const cartService = this.grpcClient.getCartService();
+
+    const response = await this.grpcClient.executeCall(cartService, 'ClearCart', { user_id: userId });
+    console.log(`Cart cleared via gRPC: User ${userId}`);
+    return response;
+  }
+
+  /**
+   * Turn a user's cart into an order via gRPC
+   */
+  async checkout(checkoutData: Partial<CheckoutRequest> & { user_id: number }): Promise<CheckoutResponse> {
+    const cartService = this.grpcClient.getCartService();
+    const request: CheckoutRequest = {
+      user_id: checkoutData.user_id,
+      shipping_address: checkoutData.shipping_address || '',
+      billing_address: checkoutData.billing_address || '',
+      payment_method: checkoutData.payment_method || '',
+      order_number: checkoutData.order_number || ''
+    };
+
+    const response = await this.grpcClient.executeCall(cartService, 'Checkout', request);
+    console.log(`Cart checked out via gRPC: Order ${response.order?.order_number}`);
+    return response;
   }
 
   // ==================== UTILITY METHODS ====================
@@ -479,7 +605,7 @@ export class GrpcService {
   /**
    * Get connection status
    */
-  getConnectionStatus(): any {
+  getConnectionStatus(): ReturnType<GrpcClient['getConnectionStatus']> {
     return this.grpcClient.getConnectionStatus();
   }
 
@@ -487,49 +613,62 @@ export class GrpcService {
    * Generate and create test data via gRPC
    */
   async createTestData(): Promise<{
-    users: any[];
-    products: any[];
-    orders: any[];
+    users: UserMessage[];
+    products: ProductMessage[];
+    orders: OrderMessage[];
   }> {
-    try {
-      // Create test users
-      const testUsers = DatabaseTestData.generateUsers(3);
-      const createdUsers = await Promise.all(
-        testUsers.map(async (userData) => {
-          const response = await this.createUser(userData);
-          return response.success && response.user ? response.user : null;
-        })
-      ).then(users => users.filter(user => user !== null));
-
-      // Create test products
-      const testProducts = DatabaseTestData.generateProducts(5);
-      const createdProducts = await Promise.all(
-        testProducts.map(async (productData) => {
-          const response = await this.createProduct(productData);
-          return response.success && response.product ? response.product : null;
-        })
-      ).then(products => products.filter(product => product !== null));
-
-      // Create test orders
-      const userIds = createdUsers.map(user => user.id);
-      const testOrders = DatabaseTestData.generateOrders(userIds, 3);
-      const createdOrders = await Promise.all(
-        testOrders.map(async (orderData) => {
-          const response = await this.createOrder(orderData);
-          return response.success && response.order ? response.order : null;
-        })
-      ).then(orders => orders.filter(order => order !== null));
-
-      console.log(`Test data created via gRPC: ${createdUsers.length} users, ${createdProducts.length} products, ${createdOrders.length} orders`);
-      
-      return {
-        users: createdUsers,
-        products: createdProducts,
-        orders: createdOrders
-      };
-    } catch (error) {
-      console.error('Failed to create test data via gRPC:', error);
-      throw error;
-    }
+    // Create test users
+    const { users: createdUsers } = await this.bulkCreateUsers(DatabaseTestData.generateUsers(3));
+
+    // Create test products
+    const { products: createdProducts } = await this.bulkCreateProducts(DatabaseTestData.generateProducts(5));
+
+    // Create test orders
+    const userIds = createdUsers.map(user => user.id);
+    const testOrders = DatabaseTestData.generateOrders(userIds, 3);
+    const createdOrders = await Promise.all(
+      testOrders.map(async (orderData) => {
+        const response = await this.createOrder({ ...orderData, status: toOrderStatusMessage(orderData.status) });
+        return response.success && response.order ? response.order : null;
+      })
+    ).then(orders => orders.filter(order => order !== null));
+
+    console.log(`Test data created via gRPC: ${createdUsers.length} users, ${createdProducts.length} products, ${createdOrders.length} orders`);
+    
+    return {
+      users: createdUsers,
+      products: createdProducts,
+      orders: createdOrders
+    };
+  }
+
+  private toCreateUserRequest(userData: Partial<CreateUserRequest>): CreateUserRequest {
+    return {
+      username: userData.username || '',
+      email: userData.email || '',
+      password: userData.password || '',
+      first_name: userData.first_name || '',
+      last_name: userData.last_name || '',
+      phone: userData.phone || '',
+      address: userData.address || '',
+      city: userData.city || '',
+      state: userData.state || '',
+      zip_code: userData.zip_code || '',
+      country: userData.country || ''
+    };
+  }
+
+  private toCreateProductRequest(productData: Partial<CreateProductRequest>): CreateProductRequest {
+    return {
+      name: productData.name || '',
+      description: productData.description || '',
+      price: productData.price || 0,
+      category: productData.category || '',
+      brand: productData.brand || '',
+      stock_quantity: productData.stock_quantity || 0,
+      sku: productData.sku || '',
+      image_url: productData.image_url || '',
+      is_active: productData.is_active !== undefined ? productData.is_active : true
+    };
   }
 } 
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { createHash } from 'crypto';
+import * as grpc from '@grpc/grpc-js';
+import { ValidationError } from './DatabaseErrors';
+
+/**
+ * Idempotency
+ * Idempotency keys for CreateOrder and AddOrderItem, shared by GrpcClient, the gRPC handlers,
+ * DatabaseService and the gRPC server stores. Every attempt of one logical call carries the same
+ * key; the first one is performed and its response stored under the key, and a repeat with the
+ * same payload within the TTL gets the stored response instead of a second order or item. A repeat
+ * with a different payload fails with IdempotencyConflictError.
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+export type IdempotentOperation = 'CreateOrder' | 'AddOrderItem';
+
+/** Matches the VARCHAR size of idempotency_keys.idempotency_key (see migration 007) */
+const MAX_KEY_LENGTH = 200;
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How long a stored response is replayed (ms), from IDEMPOTENCY_KEY_TTL; 24 hours by default
+ */
+export function idempotencyKeyTtl(): number {
+  const ttl = Number(process.env.IDEMPOTENCY_KEY_TTL);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_MS;
+}
+
+/**
+ * The idempotency key of a call, or undefined when it was sent without one
+ */
+export function idempotencyKeyOf(metadata: grpc.Metadata): string | undefined {
+  const [key] = metadata.get(IDEMPOTENCY_KEY_HEADER);
+  return typeof key === 'string' && key !== '' ? key : undefined;
+}
+
+export function assertIdempotencyKey(key: string): void {
+  if (key.trim() === '' || key.length > MAX_KEY_LENGTH) {
+    throw new ValidationError('Request', [
+      { field: IDEMPOTENCY_KEY_HEADER, description: `must be 1 to ${MAX_KEY_LENGTH} characters` }
+    ]);
+  }
+}
+
+/**
+ * SHA-256 of the payload as JSON with sorted keys, so the same payload always hashes the same
+ */
+export function requestHash(payload: unknown): string {
+  return createHash('sha256').update(JSON.stringify(sortKeys(payload))).digest('hex');
+}
+
+/**
+ * A response as stored under its key: plain JSON, whichever store keeps it
+ */
+export function toStoredResponse<T>(response: T): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(response));
+}
+
+/**
+ * A stored response as returned again, with its *_at timestamps turned back into dates
+ */
+export function fromStoredResponse<T>(stored: Record<string, unknown>): T {
+  return JSON.parse(JSON.stringify(stored), (field, value) =>
+    field.endsWith('_at') && typeof value === 'string' ? new Date(value) : value
+  );
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value === null || typeof value !== 'object' || value instanceof Date) return value;
+  return Object.fromEntries(
+    Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+  );
+}
@@ -0,0 +1,36 @@
+import { Order, OrderStatus, Product } from './DatabaseModels';
+import { ClosedOrderError, OutOfStockError } from './DatabaseErrors';
+
+/**
+ * Inventory
+ * Stock reservation rules shared by DatabaseService and the gRPC server stores.
+ * Adding an order item reserves its quantity from the product's stock_quantity;
+ * the reservation is released when the item is removed or the order is cancelled or deleted
+ * before it ships. Shipped and delivered orders keep their stock consumed.
+ */
+
+/**
+ * Whether an order in this status still holds its items' stock as a releasable reservation
+ */
+export function holdsStockReservation(status: OrderStatus): boolean {
+  return status === OrderStatus.PENDING || status === OrderStatus.CONFIRMED;
+}
+
+/**
+ * Throw ClosedOrderError unless the order still holds a reservation, so the stock an added item
+ * reserves is released again with the order and a removed item returns only stock still reserved
+ */
+export function assertAcceptsItems(order: Pick<Order, 'id' | 'status'>): void {
+  if (!holdsStockReservation(order.status)) {
+    throw new ClosedOrderError(order.id!, order.status);
+  }
+}
+
+/**
+ * Throw OutOfStockError unless the product has at least the requested quantity in stock
+ */
+export function assertInStock(product: Pick<Product, 'id' | 'stock_quantity'>, quantity: number): void {
+  if (product.stock_quantity < quantity) {
+    throw new OutOfStockError(product.id!, quantity, product.stock_quantity);
+  }
+}
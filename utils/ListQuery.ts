@@ -0,0 +1,158 @@
+import { InvalidListQueryError } from './DatabaseErrors';
+
+/**
+ * List Query
+ * Pagination, sorting and filtering spec shared by the DatabaseService list methods
+ * and the gRPC server stores, plus the in-memory evaluation of a spec.
+ */
+
+export const DEFAULT_PAGE = 1;
+export const DEFAULT_LIMIT = 100;
+export const MAX_LIMIT = 1000;
+
+export type SortDirection = 'ASC' | 'DESC';
+
+/**
+ * Default sort of the list methods
+ */
+export const NEWEST_FIRST = { column: 'created_at', direction: 'DESC' } as const;
+
+/**
+ * Inclusive bounds for a filter; either side may be left open
+ */
+export interface Range<V> {
+  min?: V;
+  max?: V;
+}
+
+/**
+ * Per-column filters: a value matches by equality, a Range by bounds
+ */
+export type ListFilters<T> = { [K in keyof T]?: T[K] | Range<NonNullable<T[K]>> };
+
+export interface ListQuery<T> {
+  /** 1-based page, ignored when a cursor is given */
+  page?: number;
+  limit?: number;
+  /** next_cursor of the previous result, for keyset pagination */
+  cursor?: string;
+  sort?: { column: keyof T & string; direction?: SortDirection };
+  filters?: ListFilters<T>;
+}
+
+export interface ListResult<T> {
+  items: T[];
+  /** Number of rows matching the filters across all pages */
+  total: number;
+  page: number;
+  limit: number;
+  /** Set when more rows follow the returned ones */
+  next_cursor?: string;
+}
+
+/**
+ * Position of the last returned row: its sort column value and its ID as tie breaker
+ */
+export interface CursorPosition {
+  value: unknown;
+  id: number;
+}
+
+export function isRange(value: unknown): value is Range<unknown> {
+  return typeof value === 'object' && value !== null && !(value instanceof Date) &&
+    ('min' in value || 'max' in value);
+}
+
+/**
+ * Apply the defaults to page and limit; zero or negative values (proto3 unset) fall back to them
+ */
+export function normalizePaging(query: { page?: number; limit?: number }): { page: number; limit: number } {
+  const page = query.page && query.page > 0 ? Math.floor(query.page) : DEFAULT_PAGE;
+  const limit = query.limit && query.limit > 0 ? Math.min(Math.floor(query.limit), MAX_LIMIT) : DEFAULT_LIMIT;
+  return { page, limit };
+}
+
+export function normalizeDirection(direction?: string): SortDirection {
+  return direction === 'DESC' ? 'DESC' : 'ASC';
+}
+
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify([position.value, position.id])).toString('base64url');
+}
+
+/**
+ * Throw InvalidListQueryError unless the cursor was produced by encodeCursor
+ */
+export function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(id)) return { value, id };
+  } catch {
+    // Reported below
+  }
+  throw new InvalidListQueryError(`Malformed cursor '${cursor}'`);
+}
+
+/**
+ * Filter, sort and paginate rows held in memory the way Repository.findPage does in SQL
+ */
+export function applyListQuery<T extends { id?: number }>(rows: T[], query: ListQuery<T> = {}): ListResult<T> {
+  const { page, limit } = normalizePaging(query);
+  const column = query.sort?.column ?? 'id';
+  const sign = normalizeDirection(query.sort?.direction) === 'DESC' ? -1 : 1;
+  const position = (row: T): [unknown, number] => [comparable(row[column as keyof T]), row.id!];
+  const compare = (a: [unknown, number], b: [unknown, number]) =>
+    sign * (compareValues(a[0], b[0]) || a[1] - b[1]);
+
+  const matching = rows
+    .filter(row => matchesFilters(row, query.filters || {}))
+    .sort((a, b) => compare(position(a), position(b)));
+
+  const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+  const remaining = cursor
+    ? matching.filter(row => compare(position(row), [cursor.value, cursor.id]) > 0)
+    : matching.slice((page - 1) * limit);
+
+  const items = remaining.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    total: matching.length,
+    page,
+    limit,
+    next_cursor: remaining.length > limit ? encodeCursor({ value: position(last)[0], id: last.id! }) : undefined
+  };
+}
+
+function matchesFilters<T>(row: T, filters: ListFilters<T>): boolean {
+  return (Object.keys(filters) as (keyof T)[]).every(column => {
+    const filter = filters[column];
+    if (filter === undefined) return true;
+
+    const value = comparable(row[column]);
+    if (isRange(filter)) {
+      return value !== undefined && value !== null &&
+        (filter.min === undefined || compareValues(value, comparable(filter.min)) >= 0) &&
+        (filter.max === undefined || compareValues(value, comparable(filter.max)) <= 0);
+    }
+    return compareValues(value, comparable(filter)) === 0;
+  });
+}
+
+/**
+ * Dates compare as ISO strings so they survive the JSON round trip of a cursor
+ */
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Nulls sort last; anything else is a number or a string once it is comparable()
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  const [left, right] = [a, b] as (number | string)[];
+  return left < right ? -1 : left > right ? 1 : 0;
+}
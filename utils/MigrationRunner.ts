@@ -0,0 +1,181 @@
+import { DatabaseConnection, TransactionClient } from './DatabaseConnection';
+import { Migration, MigrationStatus } from './DatabaseModels';
+import { MIGRATIONS } from './migrations';
+
+const MIGRATIONS_TABLE = 'schema_migrations';
+
+// Serializes concurrent runners (e.g. parallel test workers) on the same database
+const MIGRATION_LOCK_KEY = 727001;
+
+/**
+ * Migration Runner
+ * Applies and reverts the versioned migrations in utils/migrations,
+ * tracking applied versions in the schema_migrations table
+ */
+export class MigrationRunner {
+  private readonly migrations: Migration[];
+
+  constructor(
+    private readonly db: DatabaseConnection = DatabaseConnection.getInstance(),
+    migrations: Migration[] = MIGRATIONS
+  ) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+
+    const versions = new Set(this.migrations.map(migration => migration.version));
+    if (versions.size !== this.migrations.length) {
+      throw new Error('Migration versions must be unique');
+    }
+  }
+
+  /**
+   * Apply pending migrations up to the target version (all by default).
+   * Each migration runs in its own transaction together with its tracking row.
+   */
+  async migrate(targetVersion: number = Infinity): Promise<Migration[]> {
+    await this.ensureMigrationsTable();
+    const applied: Migration[] = [];
+
+    for (const migration of this.migrations) {
+      if (migration.version > targetVersion) break;
+
+      const ran = await this.db.withTransaction(async (tx) => {
+        await this.lock(tx);
+        if ((await this.appliedVersions(tx)).has(migration.version)) return false;
+
+        await tx.query(migration.up);
+        await tx.query(
+          `INSERT INTO ${MIGRATIONS_TABLE} (version, name) VALUES ($1, $2)`,
+          [migration.version, migration.name]
+        );
+        return true;
+      });
+
+      if (ran) {
+        console.log(`Migration applied: ${migrationLabel(migration)}`);
+        applied.push(migration);
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * Revert the given number of most recently applied migrations
+   */
+  async rollback(steps: number = 1): Promise<Migration[]> {
+    await this.ensureMigrationsTable();
+    const reverted: Migration[] = [];
+
+    for (let step = 0; step < steps; step++) {
+      const migration = await this.db.withTransaction(async (tx) => {
+        await this.lock(tx);
+        const result = await tx.query(
+          `SELECT version FROM ${MIGRATIONS_TABLE} ORDER BY version DESC LIMIT 1`
+        );
+        if (result.rows.length === 0) return null;
+
+        const latest = this.findMigration(result.rows[0].version);
+        await tx.query(latest.down);
+        await tx.query(`DELETE FROM ${MIGRATIONS_TABLE} WHERE version = $1`, [latest.version]);
+        return latest;
+      });
+
+      if (!migration) break;
+      console.log(`Migration rolled back: ${migrationLabel(migration)}`);
+      reverted.push(migration);
+    }
+
+    return reverted;
+  }
+
+  /**
+   * List every known migration with whether (and when) it has been applied
+   */
+  async status(): Promise<MigrationStatus[]> {
+    await this.ensureMigrationsTable();
+    const result = await this.db.query(`SELECT version, applied_at FROM ${MIGRATIONS_TABLE}`);
+    const appliedAt = new Map<number, Date>(
+      result.rows.map(row => [row.version, row.applied_at])
+    );
+
+    return this.migrations.map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      applied: appliedAt.has(migration.version),
+      applied_at: appliedAt.get(migration.version)
+    }));
+  }
+
+  private async ensureMigrationsTable(): Promise<void> {
+    await this.db.withTransaction(async (tx) => {
+      await this.lock(tx);
+      await tx.query(`
+        CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+          version INTEGER PRIMARY KEY,
+          name VARCHAR(100) NOT NULL,
+          applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+    });
+  }
+
+  private async lock(tx: TransactionClient): Promise<void> {
+    await tx.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_KEY]);
+  }
+
+  private async appliedVersions(tx: TransactionClient): Promise<Set<number>> {
+    const result = await tx.query(`SELECT version FROM ${MIGRATIONS_TABLE}`);
+    return new Set(result.rows.map(row => row.version));
+  }
+
+  private findMigration(version: number): Migration {
+    const migration = this.migrations.find(candidate => candidate.version === version);
+    if (!migration) {
+      throw new Error(`Applied migration ${version} has no migration file to roll back with`);
+    }
+    return migration;
+  }
+}
+
+function migrationLabel(migration: { version: number; name: string }): string {
+  return `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+}
+
+/**
+ * CLI: tsx utils/MigrationRunner.ts <migrate [version] | rollback [steps] | status>
+ */
+if (require.main === module) {
+  const [command = 'status', argument] = process.argv.slice(2);
+  const runner = new MigrationRunner();
+
+  const run = async (): Promise<void> => {
+    switch (command) {
+      case 'migrate': {
+        const applied = await runner.migrate(argument ? parseInt(argument, 10) : undefined);
+        console.log(applied.length > 0 ? `${applied.length} migration(s) applied` : 'Database is up to date');
+        break;
+      }
+      case 'rollback': {
+        const reverted = await runner.rollback(argument ? parseInt(argument, 10) : undefined);
+        console.log(`${reverted.length} migration(s) rolled back`);
+        break;
+      }
+      case 'status':
+        for (const migration of await runner.status()) {
+          const state = migration.applied ? `applied ${migration.applied_at!.toISOString()}` : 'pending';
+          console.log(`${migrationLabel(migration)}: ${state}`);
+        }
+        break;
+      default:
+        throw new Error(`Unknown command '${command}', expected migrate, rollback or status`);
+    }
+  };
+
+  run()
+    .then(() => DatabaseConnection.getInstance().close())
+    .catch(async (error) => {
+      console.error('Migration command failed:', error);
+      await DatabaseConnection.getInstance().close();
+      process.exit(1);
+    });
+}
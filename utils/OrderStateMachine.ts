@@ -0,0 +1,53 @@
+import { OrderStatus } from './DatabaseModels';
+import { IllegalStatusTransitionError } from './DatabaseErrors';
+
+/**
+ * Order State Machine
+ * Legal order status transitions, shared by DatabaseService and the gRPC server stores.
+ * Every order is created pending and only reaches the other statuses through transitions.
+ *
+ *   pending ──> confirmed ──> shipped ──> delivered
+ *      │            │
+ *      └────────────┴──────> cancelled
+ */
+export const ORDER_STATUS_TRANSITIONS: Readonly<Record<OrderStatus, readonly OrderStatus[]>> = {
+  [OrderStatus.PENDING]: [OrderStatus.CONFIRMED, OrderStatus.CANCELLED],
+  [OrderStatus.CONFIRMED]: [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED],
+  [OrderStatus.DELIVERED]: [],
+  [OrderStatus.CANCELLED]: []
+};
+
+/**
+ * The status every order is created in
+ */
+export const INITIAL_ORDER_STATUS = OrderStatus.PENDING;
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return (ORDER_STATUS_TRANSITIONS[from] || []).includes(to);
+}
+
+/**
+ * Throw IllegalStatusTransitionError unless the order may move from one status to the other
+ */
+export function assertTransition(from: OrderStatus, to: OrderStatus): void {
+  if (!canTransition(from, to)) {
+    throw new IllegalStatusTransitionError(from, to);
+  }
+}
+
+/**
+ * Throw IllegalStatusTransitionError unless an order may be created in the status
+ */
+export function assertInitialStatus(status: OrderStatus): void {
+  if (status !== INITIAL_ORDER_STATUS) {
+    throw new IllegalStatusTransitionError('new', status);
+  }
+}
+
+/**
+ * Whether no further transitions are possible (delivered or cancelled)
+ */
+export function isFinalStatus(status: OrderStatus): boolean {
+  return (ORDER_STATUS_TRANSITIONS[status] || []).length === 0;
+}
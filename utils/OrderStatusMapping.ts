@@ -0,0 +1,48 @@
+import { OrderStatus } from './DatabaseModels';
+import { InvalidOrderStatusError } from './DatabaseErrors';
+import { OrderStatus as OrderStatusMessage } from '../proto/generated/order';
+
+/**
+ * Order Status Mapping
+ * Converts between the database/UI vocabulary (OrderStatus, 'pending') and the
+ * order.proto enum (ORDER_STATUS_PENDING), validating values at each boundary
+ */
+
+const MESSAGE_BY_STATUS: Readonly<Record<OrderStatus, OrderStatusMessage>> = {
+  [OrderStatus.PENDING]: OrderStatusMessage.ORDER_STATUS_PENDING,
+  [OrderStatus.CONFIRMED]: OrderStatusMessage.ORDER_STATUS_CONFIRMED,
+  [OrderStatus.SHIPPED]: OrderStatusMessage.ORDER_STATUS_SHIPPED,
+  [OrderStatus.DELIVERED]: OrderStatusMessage.ORDER_STATUS_DELIVERED,
+  [OrderStatus.CANCELLED]: OrderStatusMessage.ORDER_STATUS_CANCELLED
+};
+
+const ORDER_STATUSES = Object.values(OrderStatus) as string[];
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && ORDER_STATUSES.includes(value);
+}
+
+/**
+ * Validate a database/UI status string; throws InvalidOrderStatusError for anything else
+ */
+export function parseOrderStatus(value: unknown): OrderStatus {
+  if (!isOrderStatus(value)) {
+    throw new InvalidOrderStatusError(value);
+  }
+  return value;
+}
+
+export function toOrderStatusMessage(status: OrderStatus): OrderStatusMessage {
+  return MESSAGE_BY_STATUS[parseOrderStatus(status)];
+}
+
+/**
+ * Convert a proto enum value; ORDER_STATUS_UNSPECIFIED and unknown values are rejected
+ */
+export function fromOrderStatusMessage(status: OrderStatusMessage | string): OrderStatus {
+  const entry = Object.entries(MESSAGE_BY_STATUS).find(([, message]) => message === status);
+  if (!entry) {
+    throw new InvalidOrderStatusError(status);
+  }
+  return entry[0] as OrderStatus;
+}
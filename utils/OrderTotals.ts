@@ -0,0 +1,31 @@
+import { OrderItem } from './DatabaseModels';
+import { OrderItemTotalMismatchError } from './DatabaseErrors';
+
+/**
+ * Order Totals
+ * Order item and order total arithmetic shared by DatabaseService and the gRPC server stores.
+ * Amounts are compared in cents so 0.1 + 0.2 style float drift never fails a check.
+ */
+
+/**
+ * Convert a money amount (number or DECIMAL string from pg) to integer cents
+ */
+export function toCents(amount: number | string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+/**
+ * Throw OrderItemTotalMismatchError unless total_price = unit_price × quantity
+ */
+export function assertItemTotal(item: Pick<OrderItem, 'quantity' | 'unit_price' | 'total_price'>): void {
+  if (toCents(item.unit_price) * item.quantity !== toCents(item.total_price)) {
+    throw new OrderItemTotalMismatchError(item.unit_price, item.quantity, item.total_price);
+  }
+}
+
+/**
+ * Sum of the item totals of an order
+ */
+export function computeOrderTotal(items: Pick<OrderItem, 'total_price'>[]): number {
+  return items.reduce((cents, item) => cents + toCents(item.total_price), 0) / 100;
+}
@@ -0,0 +1,41 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+/**
+ * Password Hashing
+ * scrypt password hashes shared by DatabaseService and the gRPC server stores. A hash is stored as
+ * `scrypt$<N>$<r>$<p>$<salt>$<key>` (salt and key base64), so the cost parameters can be raised
+ * later without invalidating the hashes already stored.
+ */
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+
+export async function hashPassword(password: string): Promise<string> {
+  const { N, r, p } = SCRYPT_PARAMS;
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt, KEY_BYTES, { N, r, p });
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+/**
+ * Whether the password matches the stored hash; anything that is not a hash of this module matches nothing
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, key] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+
+  const expected = Buffer.from(key, 'base64');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(N), r: Number(r), p: Number(p)
+  });
+  return timingSafeEqual(actual, expected);
+}
+
+function deriveKey(password: string, salt: Buffer, length: number, params: typeof SCRYPT_PARAMS): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, length, { ...params, maxmem: 64 * 1024 * 1024 }, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
@@ -0,0 +1,77 @@
+import { Product, ProductSearch, ProductSortOrder } from './DatabaseModels';
+import { ProductSortOrder as ProductSortOrderMessage } from '../proto/generated/product';
+
+/**
+ * Product Search
+ * Sort order resolution and proto mapping for product search, plus the in-memory matching
+ * used by the gRPC server's InMemoryStore. DatabaseService searches with Postgres full-text search.
+ */
+
+/**
+ * Weighted text search document of a product row (name ranks above description).
+ * Must stay identical to the expression indexed by migration 004_product_search.
+ */
+export const PRODUCT_SEARCH_DOCUMENT = `(
+      setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(description, '')), 'B')
+    )`;
+
+const SORT_ORDERS: Readonly<Record<ProductSortOrderMessage, ProductSortOrder | undefined>> = {
+  [ProductSortOrderMessage.PRODUCT_SORT_ORDER_UNSPECIFIED]: undefined,
+  [ProductSortOrderMessage.PRODUCT_SORT_ORDER_RELEVANCE]: ProductSortOrder.RELEVANCE,
+  [ProductSortOrderMessage.PRODUCT_SORT_ORDER_PRICE_ASC]: ProductSortOrder.PRICE_ASC,
+  [ProductSortOrderMessage.PRODUCT_SORT_ORDER_PRICE_DESC]: ProductSortOrder.PRICE_DESC,
+  [ProductSortOrderMessage.PRODUCT_SORT_ORDER_NAME]: ProductSortOrder.NAME,
+  [ProductSortOrderMessage.PRODUCT_SORT_ORDER_NEWEST]: ProductSortOrder.NEWEST,
+  [ProductSortOrderMessage.UNRECOGNIZED]: undefined
+};
+
+/**
+ * Proto sort order to ProductSortOrder; UNSPECIFIED (and unknown values) leave the default in place
+ */
+export function fromProductSortOrderMessage(sort: ProductSortOrderMessage): ProductSortOrder | undefined {
+  return SORT_ORDERS[sort];
+}
+
+/**
+ * The search's sort order, defaulting to relevance when there is a query and newest first otherwise.
+ * Relevance without a query has nothing to rank by and falls back to newest first as well.
+ */
+export function resolveSortOrder(search: ProductSearch): ProductSortOrder {
+  const hasQuery = searchTerms(search.query).length > 0;
+  if (search.sort === ProductSortOrder.RELEVANCE || search.sort === undefined) {
+    return hasQuery ? ProductSortOrder.RELEVANCE : ProductSortOrder.NEWEST;
+  }
+  return search.sort;
+}
+
+export function searchTerms(query?: string): string[] {
+  return (query || '').toLowerCase().split(/\W+/).filter(term => term.length > 0);
+}
+
+/**
+ * In-memory approximation of the full-text match: every query term occurs in the name or
+ * description (case-insensitive, no stemming), and all filters hold
+ */
+export function matchesProductSearch(product: Product, search: ProductSearch): boolean {
+  const text = `${product.name} ${product.description || ''}`.toLowerCase();
+  return searchTerms(search.query).every(term => text.includes(term)) &&
+    (!search.brand || product.brand === search.brand) &&
+    (!search.category || product.category === search.category) &&
+    (search.min_price === undefined || Number(product.price) >= search.min_price) &&
+    (search.max_price === undefined || Number(product.price) <= search.max_price) &&
+    (!search.in_stock_only || product.stock_quantity > 0) &&
+    (search.is_active === undefined || product.is_active === search.is_active);
+}
+
+/**
+ * In-memory relevance: terms found in the name weigh twice as much as terms in the description
+ */
+export function productSearchRank(product: Product, query?: string): number {
+  const name = product.name.toLowerCase();
+  const description = (product.description || '').toLowerCase();
+  return searchTerms(query).reduce(
+    (rank, term) => rank + (name.includes(term) ? 2 : 0) + (description.includes(term) ? 1 : 0),
+    0
+  );
+}
@@ -0,0 +1,221 @@
+import { QueryResult } from 'pg';
+import { TableMetadata } from './DatabaseModels';
+import {
+  ListFilters, ListQuery, ListResult, decodeCursor, encodeCursor, isRange, normalizeDirection, normalizePaging
+} from './ListQuery';
+
+/**
+ * Anything that can run a parameterized query (DatabaseConnection, a transaction client, ...)
+ */
+export interface Queryable {
+  query(text: string, params?: any[]): Promise<QueryResult>;
+}
+
+export interface FindOptions<T> {
+  orderBy?: { column: keyof T & string; direction?: 'ASC' | 'DESC' };
+  /** Include soft deleted rows */
+  withDeleted?: boolean;
+}
+
+/**
+ * Generic Repository
+ * Table-metadata driven CRUD for the entities in DatabaseModels.ts.
+ * Only columns declared in the metadata are ever interpolated into SQL; values are always bound.
+ * Write-only columns are stored but stripped from every returned row. On soft delete tables, delete()
+ * only sets deleted_at, restore() clears it, and reads and updates skip deleted rows unless asked to include them.
+ */
+export class Repository<T extends { id?: number }> {
+  constructor(
+    private readonly metadata: TableMetadata<T>,
+    private readonly db: Queryable
+  ) {}
+
+  /**
+   * Insert an entity, letting the database fill defaults for columns that are undefined
+   */
+  async create(entity: T): Promise<T> {
+    const columns = this.metadata.columns.filter(column => entity[column] !== undefined);
+    const placeholders = columns.map((_, index) => `$${index + 1}`).join(', ');
+    const query = `
+      INSERT INTO ${this.metadata.table} (${columns.join(', ')})
+      VALUES (${placeholders})
+      RETURNING *
+    `;
+
+    const result = await this.db.query(query, columns.map(column => entity[column]));
+    return this.readable(result.rows[0]);
+  }
+
+  /**
+   * Find a row by ID; with forUpdate the row stays locked until the surrounding transaction ends
+   */
+  async findById(id: number, options: { forUpdate?: boolean; withDeleted?: boolean } = {}): Promise<T | null> {
+    const lock = options.forUpdate ? ' FOR UPDATE' : '';
+    const live = this.liveConditions(options).map(condition => ` AND ${condition}`).join('');
+    const result = await this.db.query(`SELECT * FROM ${this.metadata.table} WHERE id = $1${live}${lock}`, [id]);
+    return result.rows[0] ? this.readable(result.rows[0]) : null;
+  }
+
+  /**
+   * Find all rows whose columns equal the given criteria (all rows for empty criteria)
+   */
+  async findBy(criteria: Partial<T> = {}, options: FindOptions<T> = {}): Promise<T[]> {
+    const { clause, values } = this.whereClause(criteria, options);
+    const orderBy = options.orderBy
+      ? ` ORDER BY ${this.assertColumn(options.orderBy.column)} ${options.orderBy.direction || 'ASC'}`
+      : '';
+
+    const result = await this.db.query(`SELECT * FROM ${this.metadata.table}${clause}${orderBy}`, values);
+    return result.rows.map(row => this.readable(row));
+  }
+
+  async findOneBy(criteria: Partial<T>, options: FindOptions<T> = {}): Promise<T | null> {
+    const rows = await this.findBy(criteria, options);
+    return rows[0] || null;
+  }
+
+  /**
+   * Update only the given columns; returns null when the row does not exist (or is soft deleted)
+   */
+  async update(id: number, partial: Partial<T>): Promise<T | null> {
+    const columns = this.metadata.columns.filter(column => partial[column] !== undefined);
+    if (columns.length === 0) return await this.findById(id);
+
+    // updated_at and version are maintained by the touch_row trigger (migration 006)
+    const assignments = columns.map((column, index) => `${column} = $${index + 2}`);
+    const live = this.liveConditions().map(condition => ` AND ${condition}`).join('');
+    const query = `UPDATE ${this.metadata.table} SET ${assignments.join(', ')} WHERE id = $1${live} RETURNING *`;
+
+    const result = await this.db.query(query, [id, ...columns.map(column => partial[column])]);
+    return result.rows[0] ? this.readable(result.rows[0]) : null;
+  }
+
+  /**
+   * Delete a row, or soft delete it on soft delete tables; false when there was no (live) row
+   */
+  async delete(id: number): Promise<boolean> {
+    const query = this.metadata.softDelete
+      ? `UPDATE ${this.metadata.table} SET deleted_at = CURRENT_TIMESTAMP WHERE id = $1 AND deleted_at IS NULL RETURNING id`
+      : `DELETE FROM ${this.metadata.table} WHERE id = $1 RETURNING id`;
+    const result = await this.db.query(query, [id]);
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Undo the soft delete of a row; returns null when the row does not exist or is not deleted
+   */
+  async restore(id: number): Promise<T | null> {
+    if (!this.metadata.softDelete) {
+      throw new Error(`Table ${this.metadata.table} does not soft delete`);
+    }
+    const result = await this.db.query(
+      `UPDATE ${this.metadata.table} SET deleted_at = NULL WHERE id = $1 AND deleted_at IS NOT NULL RETURNING *`,
+      [id]
+    );
+    return result.rows[0] ? this.readable(result.rows[0]) : null;
+  }
+
+  /**
+   * One page of the rows matching the query's filters, with the total count of matching rows.
+   * A cursor continues after the row it encodes (keyset pagination on the sort column and id);
+   * cursors need a NOT NULL sort column.
+   */
+  async findPage(query: ListQuery<T> = {}): Promise<ListResult<T>> {
+    const { page, limit } = normalizePaging(query);
+    const column = this.assertColumn(query.sort?.column ?? 'id');
+    const direction = normalizeDirection(query.sort?.direction);
+    const { conditions, values } = this.filterConditions(query.filters || {});
+    conditions.push(...this.liveConditions());
+
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      values.push(cursor.value, cursor.id);
+      conditions.push(`(${column}, id) ${direction === 'DESC' ? '<' : '>'} ($${values.length - 1}, $${values.length})`);
+    }
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    const offset = query.cursor ? 0 : (page - 1) * limit;
+
+    // One extra row tells whether a next page exists
+    const result = await this.db.query(
+      `SELECT *, ${column}::text AS list_cursor FROM ${this.metadata.table}${where}
+       ORDER BY ${column} ${direction}, id ${direction}
+       LIMIT ${limit + 1} OFFSET ${offset}`,
+      values
+    );
+    const rows = result.rows.slice(0, limit);
+    const last = rows[rows.length - 1];
+
+    return {
+      items: rows.map(({ list_cursor, ...row }) => this.readable(row)),
+      total: await this.count(query.filters || {}),
+      page,
+      limit,
+      next_cursor: result.rows.length > limit ? encodeCursor({ value: last.list_cursor, id: last.id }) : undefined
+    };
+  }
+
+  async count(criteria: ListFilters<T> = {}): Promise<number> {
+    const { clause, values } = this.whereClause(criteria);
+    const result = await this.db.query(`SELECT COUNT(*) FROM ${this.metadata.table}${clause}`, values);
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  /**
+   * The row without its write-only columns
+   */
+  private readable(row: Record<string, any>): T {
+    const copy = { ...row };
+    (this.metadata.writeOnly || []).forEach(column => delete copy[column]);
+    return copy as T;
+  }
+
+  private whereClause(criteria: ListFilters<T>, options: { withDeleted?: boolean } = {}): { clause: string; values: any[] } {
+    const { conditions, values } = this.filterConditions(criteria);
+    conditions.push(...this.liveConditions(options));
+    return { clause: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '', values };
+  }
+
+  /**
+   * The condition skipping soft deleted rows, if the table has them and they are not asked for
+   */
+  private liveConditions(options: { withDeleted?: boolean } = {}): string[] {
+    return this.metadata.softDelete && !options.withDeleted ? ['deleted_at IS NULL'] : [];
+  }
+
+  /**
+   * Equality conditions for plain values, inclusive bounds for ranges
+   */
+  private filterConditions(criteria: ListFilters<T>): { conditions: string[]; values: any[] } {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    const bind = (column: string, operator: string, value: unknown) => {
+      values.push(value);
+      conditions.push(`${column} ${operator} $${values.length}`);
+    };
+
+    (Object.keys(criteria) as (keyof T & string)[])
+      .filter(column => criteria[column] !== undefined)
+      .forEach(column => {
+        const filter = criteria[column];
+        this.assertColumn(column);
+        if (isRange(filter)) {
+          if (filter.min !== undefined) bind(column, '>=', filter.min);
+          if (filter.max !== undefined) bind(column, '<=', filter.max);
+        } else {
+          bind(column, '=', filter);
+        }
+      });
+
+    return { conditions, values };
+  }
+
+  private assertColumn(column: keyof T & string): keyof T & string {
+    const known = column === 'id' || this.metadata.columns.includes(column) ||
+      (this.metadata.timestamps && (column === 'created_at' || column === 'updated_at')) ||
+      (this.metadata.softDelete && column === 'deleted_at');
+    if (!known) {
+      throw new Error(`Unknown column '${column}' for table ${this.metadata.table}`);
+    }
+    return column;
+  }
+}
@@ -0,0 +1,24 @@
+import { VersionConflictError } from './DatabaseErrors';
+
+/**
+ * Row Versions
+ * Optimistic concurrency for users, products and orders, shared by DatabaseService and the gRPC server stores.
+ * A row starts at version 1 and every change increments it (in Postgres the touch_row trigger of
+ * migration 006 does, together with updated_at). An update that names the version it was based on
+ * fails with VersionConflictError once another change got in first, instead of overwriting it.
+ */
+
+export const INITIAL_VERSION = 1;
+
+/**
+ * Throw VersionConflictError unless no version is expected or the row still has the expected one
+ */
+export function assertVersion(
+  entity: string,
+  row: { id?: number; version?: number },
+  expectedVersion?: number
+): void {
+  if (expectedVersion !== undefined && row.version !== expectedVersion) {
+    throw new VersionConflictError(entity, row.id!, expectedVersion, row.version ?? INITIAL_VERSION);
+  }
+}
@@ -0,0 +1,179 @@
+import { CartCheckout, CartItem, Order, OrderItem, Product, User } from './DatabaseModels';
+import { FieldViolation, ValidationError } from './DatabaseErrors';
+
+/**
+ * Validation
+ * Declarative validation schemas for the entities in DatabaseModels.ts, checked by DatabaseService
+ * and the gRPC server before anything is written. String lengths match the VARCHAR sizes of the
+ * schema (see utils/migrations) and amounts the range of its DECIMAL(10,2) columns, so invalid input
+ * fails with field-level errors instead of whatever Postgres happens to reject.
+ */
+
+export interface FieldRule {
+  /** Fails when undefined, null or a blank string */
+  required?: boolean;
+  /** Longest allowed string */
+  maxLength?: number;
+  format?: 'email' | 'password';
+  integer?: boolean;
+  /** Inclusive lower bound */
+  min?: number;
+  /** Exclusive lower bound */
+  exclusiveMin?: number;
+  /** Inclusive upper bound */
+  max?: number;
+}
+
+export type ValidationSchema<T> = {
+  readonly [K in keyof T]?: FieldRule;
+};
+
+export interface ValidateOptions {
+  /** Check only the fields present, as for updates; required fields may be left out */
+  partial?: boolean;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * At least 8 characters with a letter and a digit; the upper bound keeps hashing cheap
+ */
+const PASSWORD_RULE = { minLength: 8, maxLength: 128, pattern: /^(?=.*[A-Za-z])(?=.*\d)/ };
+
+/**
+ * Largest amount a DECIMAL(10,2) price or total column holds
+ */
+const MAX_AMOUNT = 99999999.99;
+
+export const USER_SCHEMA: ValidationSchema<User> = {
+  username: { required: true, maxLength: 50 },
+  email: { required: true, maxLength: 100, format: 'email' },
+  password: { required: true, format: 'password' },
+  first_name: { required: true, maxLength: 50 },
+  last_name: { required: true, maxLength: 50 },
+  phone: { maxLength: 20 },
+  city: { maxLength: 50 },
+  state: { maxLength: 50 },
+  zip_code: { maxLength: 20 },
+  country: { maxLength: 50 }
+};
+
+export const PRODUCT_SCHEMA: ValidationSchema<Product> = {
+  name: { required: true, maxLength: 200 },
+  price: { required: true, exclusiveMin: 0, max: MAX_AMOUNT },
+  category: { required: true, maxLength: 100 },
+  brand: { required: true, maxLength: 100 },
+  stock_quantity: { integer: true, min: 0 },
+  sku: { required: true, maxLength: 50 }
+};
+
+export const ORDER_SCHEMA: ValidationSchema<Order> = {
+  user_id: { required: true, integer: true, exclusiveMin: 0 },
+  order_number: { required: true, maxLength: 50 },
+  total_amount: { min: 0, max: MAX_AMOUNT },
+  shipping_address: { required: true },
+  billing_address: { required: true },
+  payment_method: { required: true, maxLength: 50 }
+};
+
+/**
+ * An item of zero units orders nothing, so quantities start at one
+ */
+export const ORDER_ITEM_SCHEMA: ValidationSchema<OrderItem> = {
+  order_id: { required: true, integer: true, exclusiveMin: 0 },
+  product_id: { required: true, integer: true, exclusiveMin: 0 },
+  quantity: { required: true, integer: true, exclusiveMin: 0 },
+  unit_price: { min: 0, max: MAX_AMOUNT },
+  total_price: { min: 0, max: MAX_AMOUNT }
+};
+
+export const CART_ITEM_SCHEMA: ValidationSchema<CartItem> = {
+  product_id: { required: true, integer: true, exclusiveMin: 0 },
+  quantity: { required: true, integer: true, exclusiveMin: 0 }
+};
+
+/**
+ * The fields checkout copies into its order, with the limits of ORDER_SCHEMA
+ */
+export const CART_CHECKOUT_SCHEMA: ValidationSchema<CartCheckout> = {
+  shipping_address: { required: true },
+  billing_address: { required: true },
+  payment_method: { required: true, maxLength: 50 },
+  order_number: { maxLength: 50 }
+};
+
+/**
+ * Every violation of the schema by the value, in schema order
+ */
+export function validate<T>(
+  schema: ValidationSchema<T>,
+  value: Partial<T>,
+  options: ValidateOptions = {}
+): FieldViolation[] {
+  const violations: FieldViolation[] = [];
+  (Object.keys(schema) as (keyof T & string)[]).forEach(field => {
+    const description = checkField(schema[field]!, value[field], options);
+    if (description) violations.push({ field, description });
+  });
+  return violations;
+}
+
+/**
+ * Throw ValidationError, naming the entity, unless the value satisfies the schema
+ */
+export function assertValid<T>(
+  entity: string,
+  schema: ValidationSchema<T>,
+  value: Partial<T>,
+  options: ValidateOptions = {}
+): void {
+  const violations = validate(schema, value, options);
+  if (violations.length > 0) {
+    throw new ValidationError(entity, violations);
+  }
+}
+
+/**
+ * What is wrong with the field, or undefined when it satisfies its rule
+ */
+function checkField(rule: FieldRule, value: unknown, options: ValidateOptions): string | undefined {
+  if (value === undefined || value === null || (typeof value === 'string' && value.trim() === '')) {
+    return rule.required && !(options.partial && value === undefined) ? 'is required' : undefined;
+  }
+
+  if (typeof value === 'string') {
+    if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+      return `must be at most ${rule.maxLength} characters`;
+    }
+    if (rule.format === 'email' && !EMAIL_PATTERN.test(value)) {
+      return 'must be a valid email address';
+    }
+    if (rule.format === 'password' && (
+      value.length < PASSWORD_RULE.minLength || value.length > PASSWORD_RULE.maxLength || !PASSWORD_RULE.pattern.test(value)
+    )) {
+      return `must be ${PASSWORD_RULE.minLength} to ${PASSWORD_RULE.maxLength} characters with a letter and a digit`;
+    }
+  }
+
+  const isNumberRule = rule.integer || rule.min !== undefined || rule.exclusiveMin !== undefined || rule.max !== undefined;
+  if (isNumberRule) {
+    // DECIMAL columns come back from pg as strings
+    const number = typeof value === 'string' ? Number(value) : value;
+    if (typeof number !== 'number' || Number.isNaN(number)) {
+      return 'must be a number';
+    }
+    if (rule.integer && !Number.isInteger(number)) {
+      return 'must be a whole number';
+    }
+    if (rule.min !== undefined && number < rule.min) {
+      return `must be at least ${rule.min}`;
+    }
+    if (rule.exclusiveMin !== undefined && number <= rule.exclusiveMin) {
+      return `must be greater than ${rule.exclusiveMin}`;
+    }
+    if (rule.max !== undefined && number > rule.max) {
+      return `must be at most ${rule.max}`;
+    }
+  }
+  return undefined;
+}
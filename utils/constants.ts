@@ -1,3 +1,5 @@
+import { OrderStatus } from "./DatabaseModels";
+
 export const USERNAME = "testuser";
 export const EMAIL = "test@example.com";
 export const PASSWORD = "password123";
@@ -44,10 +46,11 @@ export const WEAK_PASSWORD_USER = {
 
 export const ADDRESS = "123 Test St, Test City, TS 12345";
 export const PAYMENT_METHOD = "Credit Card";
+// Order statuses as shown in the UI; the same vocabulary as OrderStatus in DatabaseModels.ts
 export const STATUS = {
-  PENDING: "pending",
-  PROCESSING: "processing",
-  SHIPPED: "shipped",
-  DELIVERED: "delivered",
-  CANCELLED: "cancelled",
+  PENDING: OrderStatus.PENDING,
+  CONFIRMED: OrderStatus.CONFIRMED,
+  SHIPPED: OrderStatus.SHIPPED,
+  DELIVERED: OrderStatus.DELIVERED,
+  CANCELLED: OrderStatus.CANCELLED,
 };
@@ -0,0 +1,23 @@
+import { Migration } from '../DatabaseModels';
+
+/**
+ * One row per order status transition, recording when it happened
+ */
+export const orderStatusHistory: Migration = {
+  version: 2,
+  name: 'order_status_history',
+  up: `
+    CREATE TABLE order_status_history (
+      id SERIAL PRIMARY KEY,
+      order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+      from_status VARCHAR(20) NOT NULL,
+      to_status VARCHAR(20) NOT NULL,
+      changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_order_status_history_order_id ON order_status_history(order_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS order_status_history;
+  `
+};
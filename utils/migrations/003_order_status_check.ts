@@ -0,0 +1,19 @@
+import { Migration } from '../DatabaseModels';
+
+/**
+ * Restrict orders.status to the canonical OrderStatus values.
+ * Rows written with the retired 'processing' status become 'confirmed'.
+ */
+export const orderStatusCheck: Migration = {
+  version: 3,
+  name: 'order_status_check',
+  up: `
+    UPDATE orders SET status = 'confirmed' WHERE status = 'processing';
+
+    ALTER TABLE orders ADD CONSTRAINT orders_status_check
+      CHECK (status IN ('pending', 'confirmed', 'shipped', 'delivered', 'cancelled'));
+  `,
+  down: `
+    ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+  `
+};
@@ -0,0 +1,19 @@
+import { Migration } from '../DatabaseModels';
+
+/**
+ * Full-text search index over product names (weight A) and descriptions (weight B).
+ * The indexed expression must stay identical to PRODUCT_SEARCH_DOCUMENT in ProductSearch.ts.
+ */
+export const productSearch: Migration = {
+  version: 4,
+  name: 'product_search',
+  up: `
+    CREATE INDEX idx_products_search ON products USING GIN ((
+      setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(description, '')), 'B')
+    ));
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_products_search;
+  `
+};
@@ -0,0 +1,34 @@
+import { Migration } from '../DatabaseModels';
+
+/**
+ * deleted_at for soft deleting users, products and orders, and one audit_log row per change of them.
+ * Soft deleted rows keep their unique values, so restoring one can never conflict.
+ */
+export const softDeleteAndAuditLog: Migration = {
+  version: 5,
+  name: 'soft_delete_and_audit_log',
+  up: `
+    ALTER TABLE users ADD COLUMN deleted_at TIMESTAMP;
+    ALTER TABLE products ADD COLUMN deleted_at TIMESTAMP;
+    ALTER TABLE orders ADD COLUMN deleted_at TIMESTAMP;
+
+    CREATE TABLE audit_log (
+      id SERIAL PRIMARY KEY,
+      entity_type VARCHAR(20) NOT NULL,
+      entity_id INTEGER NOT NULL,
+      action VARCHAR(20) NOT NULL CHECK (action IN ('create', 'update', 'delete', 'restore')),
+      actor VARCHAR(100) NOT NULL,
+      before JSONB,
+      after JSONB,
+      changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_audit_log_entity ON audit_log(entity_type, entity_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS audit_log;
+    ALTER TABLE orders DROP COLUMN IF EXISTS deleted_at;
+    ALTER TABLE products DROP COLUMN IF EXISTS deleted_at;
+    ALTER TABLE users DROP COLUMN IF EXISTS deleted_at;
+  `
+};
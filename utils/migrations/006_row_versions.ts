@@ -0,0 +1,37 @@
+import { Migration } from '../DatabaseModels';
+
+/**
+ * A version column for optimistic concurrency on users, products and orders, and a trigger that
+ * increments it and stamps updated_at on every update of those rows, whichever code path runs it.
+ * clock_timestamp() rather than CURRENT_TIMESTAMP, so updated_at moves on within one transaction too.
+ */
+export const rowVersions: Migration = {
+  version: 6,
+  name: 'row_versions',
+  up: `
+    ALTER TABLE users ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+    ALTER TABLE products ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+    ALTER TABLE orders ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+    CREATE FUNCTION touch_row() RETURNS TRIGGER AS $$
+    BEGIN
+      NEW.version := OLD.version + 1;
+      NEW.updated_at := clock_timestamp();
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    CREATE TRIGGER users_touch_row BEFORE UPDATE ON users FOR EACH ROW EXECUTE FUNCTION touch_row();
+    CREATE TRIGGER products_touch_row BEFORE UPDATE ON products FOR EACH ROW EXECUTE FUNCTION touch_row();
+    CREATE TRIGGER orders_touch_row BEFORE UPDATE ON orders FOR EACH ROW EXECUTE FUNCTION touch_row();
+  `,
+  down: `
+    DROP TRIGGER IF EXISTS orders_touch_row ON orders;
+    DROP TRIGGER IF EXISTS products_touch_row ON products;
+    DROP TRIGGER IF EXISTS users_touch_row ON users;
+    DROP FUNCTION IF EXISTS touch_row();
+    ALTER TABLE orders DROP COLUMN IF EXISTS version;
+    ALTER TABLE products DROP COLUMN IF EXISTS version;
+    ALTER TABLE users DROP COLUMN IF EXISTS version;
+  `
+};
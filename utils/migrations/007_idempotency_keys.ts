@@ -0,0 +1,26 @@
+import { Migration } from '../DatabaseModels';
+
+/**
+ * The responses of CreateOrder and AddOrderItem calls made with an idempotency key, replayed to
+ * repeats of the key until they expire (see utils/Idempotency.ts).
+ */
+export const idempotencyKeys: Migration = {
+  version: 7,
+  name: 'idempotency_keys',
+  up: `
+    CREATE TABLE idempotency_keys (
+      id SERIAL PRIMARY KEY,
+      operation VARCHAR(50) NOT NULL,
+      idempotency_key VARCHAR(200) NOT NULL,
+      request_hash CHAR(64) NOT NULL,
+      response JSONB NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (operation, idempotency_key)
+    );
+
+    CREATE INDEX idx_idempotency_keys_created_at ON idempotency_keys(created_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS idempotency_keys;
+  `
+};
@@ -0,0 +1,30 @@
+import { Migration } from '../DatabaseModels';
+
+/**
+ * One cart per user with the products and quantities in it. Cart items carry no prices: a cart is
+ * priced at the products' current prices when it is read or checked out (see utils/Carts.ts).
+ */
+export const carts: Migration = {
+  version: 8,
+  name: 'carts',
+  up: `
+    CREATE TABLE carts (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE cart_items (
+      id SERIAL PRIMARY KEY,
+      cart_id INTEGER NOT NULL REFERENCES carts(id) ON DELETE CASCADE,
+      product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+      quantity INTEGER NOT NULL CHECK (quantity > 0),
+      UNIQUE (cart_id, product_id)
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS cart_items;
+    DROP TABLE IF EXISTS carts;
+  `
+};
@@ -0,0 +1,24 @@
+import { Migration } from '../DatabaseModels';
+import { initialSchema } from './001_initial_schema';
+import { orderStatusHistory } from './002_order_status_history';
+import { orderStatusCheck } from './003_order_status_check';
+import { productSearch } from './004_product_search';
+import { softDeleteAndAuditLog } from './005_soft_delete_and_audit_log';
+import { rowVersions } from './006_row_versions';
+import { idempotencyKeys } from './007_idempotency_keys';
+import { carts } from './008_carts';
+
+/**
+ * All schema migrations, in ascending version order.
+ * Add new migrations as NNN_description.ts and append them here; never edit an applied one.
+ */
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  orderStatusHistory,
+  orderStatusCheck,
+  productSearch,
+  softDeleteAndAuditLog,
+  rowVersions,
+  idempotencyKeys,
+  carts
+];